@@ -453,6 +453,8 @@ export function bootstrap(targetDir, pkgDir) {
     "blockers.status.md",
     "blockers.list.md",
     "blockers.clarify.md",
+    "blockers.archive.md",
+    "blockers.rebuild.md",
   ];
   for (const file of BLOCKER_COMMANDS) {
     const src = join(commandsSrc, file);
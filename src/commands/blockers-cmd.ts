@@ -4,16 +4,28 @@
  * Provides individual handlers for:
  * - /blockers.on: Enable blocker diversion for current session
  * - /blockers.off: Disable blocker diversion for current session
- * - /blockers.status: Show current state (enabled/disabled, blocker count, config)
- * - /blockers.list: List all recorded blockers in current session
+ * - /blockers.status: Show current state (enabled/disabled, blocker count, unflushed writes)
+ * - /blockers.list: List all recorded blockers in current session (and, in
+ *   monorepos, the unresolved blockers of every package log)
+ * - /blockers.clarify: Pass the unresolved blockers of every log to the
+ *   clarification walkthrough
+ * - /blockers.archive: Move the blockers log into the archive directory
+ * - /blockers.rebuild: Regenerate the markdown logs from the JSONL store
  * 
  * @module commands/blockers-cmd
  */
 
 import type { LogClient } from '../config'
 import type { SessionState, PluginConfig } from '../types'
-import { getState } from '../state'
-import { logInfo } from '../utils/logging'
+import { getState, persistState } from '../state'
+import { logInfo, logError } from '../utils/logging'
+import { archiveBlockers, readBlockerLogs, readLiveBlockers, rebuildBlockersView } from '../utils/blockers-store'
+import { displayLogPath } from '../utils/packages'
+import { getBlockersFileFor } from '../utils/routing'
+import { getPriority, PRIORITIES } from '../utils/priority'
+import { readJournal } from '../utils/pending-journal'
+import { getCategoryUsage } from '../utils/category-limits'
+import { startRun, finishRun } from '../utils/run-log'
 
 /**
  * Result returned from command handler
@@ -28,6 +40,9 @@ export interface CommandResult {
   /** Minimal text for AI if handled (replaces output.parts) */
   minimalResponse?: string
   
+  /** Extra text for the AI template if not handled (appended to output.parts) */
+  context?: string
+  
   /** Toast notification to show (if any) */
   toast?: {
     title?: string
@@ -45,21 +60,53 @@ export interface CommandResult {
  * Modifies session state to enable blocker diversion. When enabled, the plugin
  * will intercept permission dialogs and conversational questions.
  * 
+ * When this starts a new run, a run header is written to the blockers log.
+ * If `rotateOnRunStart` is set, the previous log is archived first so each
+ * run starts with a fresh file.
+ * 
  * @param state - Session state object (mutated in place)
  * @param client - OpenCode client for logging
+ * @param config - Plugin configuration (optional, enables run header and rotation)
+ * @param projectDir - Project root directory (required for run header and rotation)
+ * @param sessionId - Session starting the run (required for the run header and
+ *   for saving the session state)
  * @returns CommandResult with toast notification
  */
 export async function handleOnCommand(
   state: SessionState,
-  client: LogClient | undefined
+  client: LogClient | undefined,
+  config?: PluginConfig,
+  projectDir?: string,
+  sessionId?: string
 ): Promise<CommandResult> {
   const wasDiverted = state.divertBlockers
+
+  if (!wasDiverted && config?.rotateOnRunStart && projectDir) {
+    try {
+      const archived = await archiveBlockers(config, projectDir, client)
+      if (archived) {
+        await logInfo(client, 'Archived previous blockers log at run start', {
+          archivePath: archived.archivePath,
+          blockerCount: archived.blockerCount
+        })
+      }
+    } catch (error) {
+      // Never block enabling autonomous mode on archive failures
+      await logError(client, 'Failed to archive blockers log at run start', error as Error)
+    }
+  }
+
+  if (!wasDiverted && config && projectDir && sessionId) {
+    await startRun(state, sessionId, config, projectDir, client)
+  }
+
   void client?.app?.log?.({ body: { service: 'blocker-diverter', level: 'info', message: `[BD] handleOnCommand: CALLED, state.divertBlockers was=${wasDiverted} now setting to TRUE` } }).catch(() => {})
   state.divertBlockers = true
   // Prevent chat.message from auto-disabling due to the command's user message
   state.ignoreNextUserMessage = true
   // Reset reprompt time so the cooldown starts now, preventing immediate reprompting
   state.lastRepromptTime = Date.now()
+  if (sessionId) persistState(sessionId)
   void client?.app?.log?.({ body: { service: 'blocker-diverter', level: 'info', message: `[BD] handleOnCommand: DONE, state.divertBlockers=${state.divertBlockers}` } }).catch(() => {})
   
   await logInfo(
@@ -88,20 +135,31 @@ export async function handleOnCommand(
  * 
  * Modifies session state to disable blocker diversion. When disabled, the plugin
  * will not intercept blockers and normal OpenCode behavior will continue.
+ * Ends the active run (footer outcome: stopped).
  * 
  * @param state - Session state object (mutated in place)
  * @param client - OpenCode client for logging
+ * @param config - Plugin configuration (optional, enables run footer)
+ * @param projectDir - Project root directory (required for run footer)
+ * @param sessionId - Session the state belongs to (required for saving it)
  * @returns CommandResult with toast notification
  */
 export async function handleOffCommand(
   state: SessionState,
-  client: LogClient | undefined
+  client: LogClient | undefined,
+  config?: PluginConfig,
+  projectDir?: string,
+  sessionId?: string
 ): Promise<CommandResult> {
   const wasDiverted = state.divertBlockers
+  if (config && projectDir) {
+    await finishRun(state, 'stopped', config, projectDir, client)
+  }
   void client?.app?.log?.({ body: { service: 'blocker-diverter', level: 'info', message: `[BD] handleOffCommand: CALLED, setting divertBlockers=FALSE (was=${wasDiverted})` } }).catch(() => {})
   state.divertBlockers = false
   // Prevent chat.message from triggering auto-disable logic for the command's user message
   state.ignoreNextUserMessage = true
+  if (sessionId) persistState(sessionId)
   
   await logInfo(
     client,
@@ -135,19 +193,31 @@ export async function handleOffCommand(
  * - Clears lastAssistantAborted flag
  * - Resets reprompt count
  * 
+ * Ends the active run (footer outcome: stopped).
+ * 
  * @param state - Session state object
  * @param client - OpenCode client for logging
+ * @param config - Plugin configuration (optional, enables run footer)
+ * @param projectDir - Project root directory (required for run footer)
+ * @param sessionId - Session the state belongs to (required for saving it)
  * @returns CommandResult with toast notification
  */
 export async function handleStopCommand(
   state: SessionState,
-  client: LogClient | undefined
+  client: LogClient | undefined,
+  config?: PluginConfig,
+  projectDir?: string,
+  sessionId?: string
 ): Promise<CommandResult> {
+  if (config && projectDir) {
+    await finishRun(state, 'stopped', config, projectDir, client)
+  }
   state.divertBlockers = false
   state.lastAssistantAborted = false
   state.repromptCount = 0
   state.lastRepromptTime = 0
   state.ignoreNextUserMessage = true
+  if (sessionId) persistState(sessionId)
   
   await logInfo(
     client,
@@ -167,49 +237,245 @@ export async function handleStopCommand(
 }
 
 
+/**
+ * Handle /blockers.archive - Archive the blockers log on demand
+ * 
+ * Moves BLOCKERS.md (and its JSONL store) into the configured archive
+ * directory and applies the retention policy. The next blocker starts a
+ * fresh log.
+ * 
+ * @param state - Session state object
+ * @param client - OpenCode client for logging
+ * @param config - Plugin configuration
+ * @param projectDir - Project root directory
+ * @param sessionId - Session the state belongs to (required for saving it)
+ * @returns CommandResult with toast notification
+ */
+export async function handleArchiveCommand(
+  state: SessionState,
+  client: LogClient | undefined,
+  config: PluginConfig,
+  projectDir: string,
+  sessionId?: string
+): Promise<CommandResult> {
+  state.ignoreNextUserMessage = true
+  if (sessionId) persistState(sessionId)
+
+  let archived: Awaited<ReturnType<typeof archiveBlockers>> = null
+  try {
+    archived = await archiveBlockers(config, projectDir, client)
+  } catch (error) {
+    await logError(client, 'Failed to archive blockers log', error as Error)
+    return {
+      handled: true,
+      minimalResponse: 'Blocker log could not be archived. No further action needed.',
+      toast: {
+        title: 'Blocker Diverter',
+        message: 'Archive failed - check the plugin logs',
+        variant: 'error',
+        duration: 5000
+      }
+    }
+  }
+
+  if (!archived) {
+    return {
+      handled: true,
+      minimalResponse: 'No blocker log to archive. No further action needed.',
+      toast: {
+        title: 'Blocker Diverter',
+        message: 'Nothing to archive',
+        variant: 'info',
+        duration: 3000
+      }
+    }
+  }
+
+  await logInfo(client, 'Archived blockers log', {
+    archivePath: archived.archivePath,
+    blockerCount: archived.blockerCount,
+    prunedArchives: archived.pruned.length
+  })
+
+  return {
+    handled: true,
+    minimalResponse: `Archived ${archived.blockerCount} blockers. No further action needed.`,
+    toast: {
+      title: 'Blocker Diverter',
+      message: `Archived ${archived.blockerCount} blockers`,
+      variant: 'success',
+      duration: 3000
+    }
+  }
+}
+
+/**
+ * Handle /blockers.rebuild - Regenerate the markdown logs from the store
+ * 
+ * Folds answers written into BLOCKERS.md (and every routed log) back into
+ * the JSONL store, then renders each log from the store again. Use it after
+ * hand edits mangled a log, or after editing the store with a script.
+ * 
+ * @param state - Session state object
+ * @param client - OpenCode client for logging
+ * @param config - Plugin configuration
+ * @param projectDir - Project root directory
+ * @param sessionId - Session the state belongs to (required for saving it)
+ * @returns CommandResult with toast notification
+ */
+export async function handleRebuildCommand(
+  state: SessionState,
+  client: LogClient | undefined,
+  config: PluginConfig,
+  projectDir: string,
+  sessionId?: string
+): Promise<CommandResult> {
+  state.ignoreNextUserMessage = true
+  if (sessionId) persistState(sessionId)
+
+  if (!config.storeFile) {
+    return {
+      handled: true,
+      minimalResponse: 'No blocker store configured, nothing to rebuild from. No further action needed.',
+      toast: {
+        title: 'Blocker Diverter',
+        message: 'No blocker store configured',
+        variant: 'info',
+        duration: 3000
+      }
+    }
+  }
+
+  let rebuilt = false
+  try {
+    rebuilt = await rebuildBlockersView(config, projectDir, client)
+  } catch (error) {
+    await logError(client, 'Failed to rebuild blockers log', error as Error)
+  }
+
+  if (!rebuilt) {
+    return {
+      handled: true,
+      minimalResponse: 'Blocker log could not be rebuilt. No further action needed.',
+      toast: {
+        title: 'Blocker Diverter',
+        message: 'Rebuild failed - check the plugin logs',
+        variant: 'error',
+        duration: 5000
+      }
+    }
+  }
+
+  await logInfo(client, 'Rebuilt blockers log from store', { storeFile: config.storeFile })
+
+  return {
+    handled: true,
+    minimalResponse: 'Blocker log rebuilt from the store. No further action needed.',
+    toast: {
+      title: 'Blocker Diverter',
+      message: 'Blocker log rebuilt from the store',
+      variant: 'success',
+      duration: 3000
+    }
+  }
+}
+
 /**
  * Handle /blockers.status - Show current state and statistics
  * 
  * Displays:
  * - Current state (enabled/disabled)
  * - Number of blockers recorded vs max
+ * - Blocker writes still queued for retry (this session and the journal)
  * - Additional session statistics
  * 
  * @param state - Session state object
  * @param client - OpenCode client for logging
  * @param config - Plugin configuration
- * @returns CommandResult with toast notification
+ * @param projectDir - Project root directory (optional, enables the journal count)
+ * @param sessionId - Session the state belongs to (required for saving it)
+ * @returns CommandResult with toast notification (warning while writes are unflushed)
  */
 export async function handleStatusCommand(
   state: SessionState,
   client: LogClient | undefined,
-  config: PluginConfig
+  config: PluginConfig,
+  projectDir?: string,
+  sessionId?: string
 ): Promise<CommandResult> {
   const status = state.divertBlockers ? 'enabled' : 'disabled'
   const blockerCount = state.blockers.length
   const maxBlockers = config.maxBlockersPerRun
   state.ignoreNextUserMessage = true
+  if (sessionId) persistState(sessionId)
+
+  // Journaled entries include other sessions' and those from before a restart
+  const journaled = projectDir && config.journalFile
+    ? await readJournal(config.journalFile, projectDir, client).catch(() => [])
+    : []
+  const unflushed = new Set([...state.pendingWrites, ...journaled].map(pending => pending.id)).size
+
+  // e.g. "architecture 3/5", "permission 7 (no limit)", "question 0 (disabled)"
+  const usage = getCategoryUsage(state, config).map(({ category, count, max, enabled }) => {
+    if (!enabled) return `${category} ${count} (disabled)`
+    if (max === null) return `${category} ${count} (no limit)`
+    return max === undefined ? `${category} ${count}` : `${category} ${count}/${max}`
+  })
   
   const statusMessage = 
     `Blocker Diverter Status:\n` +
     `  State: ${status}\n` +
     `  Blockers recorded: ${blockerCount}/${maxBlockers}\n` +
+    (usage.length > 0 ? `  By category: ${usage.join(', ')}\n` : '') +
+    `  Unflushed writes: ${unflushed}\n` +
     `  Reprompt count: ${state.repromptCount}`
   
   await logInfo(client, statusMessage)
+
+  const unflushedNote = unflushed > 0
+    ? ` ${unflushed} blocker write(s) not yet flushed, will retry on next idle.`
+    : ''
   
   return {
     handled: true,
-    minimalResponse: `Blocker diverter is ${status}. ${blockerCount}/${maxBlockers} blockers recorded. No further action needed.`,
+    minimalResponse: `Blocker diverter is ${status}. ${blockerCount}/${maxBlockers} blockers recorded${usage.length > 0 ? ` (${usage.join(', ')})` : ''}.${unflushedNote} No further action needed.`,
     toast: {
       title: 'Blocker Diverter Status',
-      message: `${status} • ${blockerCount}/${maxBlockers} blockers`,
-      variant: 'info',
+      message: `${status} • ${blockerCount}/${maxBlockers} blockers${unflushed > 0 ? ` • ${unflushed} unflushed` : ''}`,
+      variant: unflushed > 0 ? 'warning' : 'info',
       duration: 5000
     }
   }
 }
 
+/**
+ * Overview of the unresolved blockers in every markdown log
+ *
+ * @param config - Plugin configuration
+ * @param projectDir - Project root directory
+ * @param client - OpenCode client for logging
+ * @returns e.g. "packages/api/BLOCKERS.md (2 unresolved)" followed by one line per blocker
+ */
+async function formatLogOverview(
+  config: PluginConfig,
+  projectDir: string,
+  client: LogClient | undefined
+): Promise<string> {
+  const logs = await readBlockerLogs(config, projectDir, client)
+
+  const sections = logs.map(({ file, blockers }) => {
+    const unresolved = blockers
+      .filter(blocker => blocker.clarified === undefined || blocker.clarified === 'pending')
+      .sort((a, b) => PRIORITIES.indexOf(getPriority(a, config)) - PRIORITIES.indexOf(getPriority(b, config)))
+    const lines = unresolved.map(blocker =>
+      `- \`${blocker.shortId ?? blocker.id}\` [${getPriority(blocker, config)}] ${blocker.category}: ${blocker.question.replace(/\s+/g, ' ').trim()}`
+    )
+    return [`### ${displayLogPath(file, projectDir)} (${unresolved.length} unresolved)`, ...lines].join('\n')
+  })
+
+  return `## Blocker logs\n\n${sections.join('\n\n')}`
+}
+
 /**
  * Handle /blockers.list - List all recorded blockers
  * 
@@ -219,15 +485,21 @@ export async function handleStatusCommand(
  * Question text is truncated to 80 characters for readability in list view.
  * 
  * This command is NOT handled - it returns handled: false to allow the AI
- * template to process and format the list nicely.
+ * template to process and format the list nicely. With `packageLogs` on,
+ * an overview of the unresolved blockers in the root log and every package
+ * log is passed along to the template as `context`.
  * 
  * @param state - Session state object
  * @param client - OpenCode client for logging
+ * @param config - Plugin configuration (optional, enables the log overview)
+ * @param projectDir - Project root directory (required for the log overview)
  * @returns CommandResult indicating AI should handle this
  */
 export async function handleListCommand(
   state: SessionState,
-  client: LogClient | undefined
+  client: LogClient | undefined,
+  config?: PluginConfig,
+  projectDir?: string
 ): Promise<CommandResult> {
   // Keep the logging for server-side records
   if (state.blockers.length === 0) {
@@ -248,9 +520,84 @@ export async function handleListCommand(
     
     await logInfo(client, listMessage)
   }
+
+  if (config?.packageLogs && projectDir) {
+    try {
+      return { handled: false, context: await formatLogOverview(config, projectDir, client) }
+    } catch (error) {
+      // The template still lists this session's blockers
+      await logError(client, 'Failed to read blocker logs for /blockers.list', error as Error)
+    }
+  }
   
   // Return not handled - let AI template process this
   return {
     handled: false
   }
 }
+
+/**
+ * Unresolved blockers of every log, in full, grouped by the log holding them
+ *
+ * @param config - Plugin configuration
+ * @param projectDir - Project root directory
+ * @param client - OpenCode client for logging
+ * @returns Markdown with one section per log, in store order within a log
+ */
+async function formatUnresolvedBlockers(
+  config: PluginConfig,
+  projectDir: string,
+  client: LogClient | undefined
+): Promise<string> {
+  const unresolved = (await readLiveBlockers(config, projectDir, client))
+    .filter(blocker => blocker.clarified === undefined || blocker.clarified === 'pending')
+
+  if (unresolved.length === 0) {
+    return '## Unresolved blockers\n\nNone: every blocker in the store and the logs has been answered.'
+  }
+
+  const byLog = new Map<string, string[]>()
+  for (const blocker of unresolved) {
+    const log = displayLogPath(getBlockersFileFor(blocker, config), projectDir)
+    const options = blocker.options?.length
+      ? ['**Options Considered:**', ...blocker.options.map((option, index) => `${index + 1}. ${option}`)]
+      : []
+    const entry = [
+      `#### \`${blocker.shortId ?? blocker.id}\` [${getPriority(blocker, config)}] ${blocker.category}`,
+      `**Question:** ${blocker.question}`,
+      `**Context:** ${blocker.context || 'No additional context'}`,
+      ...options,
+    ].join('\n')
+    byLog.set(log, [...(byLog.get(log) ?? []), entry])
+  }
+
+  const sections = [...byLog].map(([log, entries]) => [`### ${log} (${entries.length} unresolved)`, ...entries].join('\n\n'))
+  return `## Unresolved blockers\n\n${sections.join('\n\n')}`
+}
+
+/**
+ * Handle /blockers.clarify - Walk through unresolved blockers with the user
+ * 
+ * This command is NOT handled - the AI template runs the walkthrough. The
+ * unresolved blockers are read from the JSONL store and every log
+ * (blockersFile, routed logs, package logs) and passed along as `context`,
+ * so blockers outside BLOCKERS.md can be clarified too.
+ * 
+ * @param client - OpenCode client for logging
+ * @param config - Plugin configuration
+ * @param projectDir - Project root directory
+ * @returns CommandResult indicating AI should handle this
+ */
+export async function handleClarifyCommand(
+  client: LogClient | undefined,
+  config: PluginConfig,
+  projectDir: string
+): Promise<CommandResult> {
+  try {
+    return { handled: false, context: await formatUnresolvedBlockers(config, projectDir, client) }
+  } catch (error) {
+    // The template falls back to reading BLOCKERS.md
+    await logError(client, 'Failed to read blockers for /blockers.clarify', error as Error)
+    return { handled: false }
+  }
+}
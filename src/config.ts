@@ -15,6 +15,84 @@ import { z } from 'zod'
 import { resolve, isAbsolute, join } from 'path'
 import { homedir } from 'os'
 
+/** Default blockers log path, also the fallback for rejected paths */
+const DEFAULT_BLOCKERS_FILE = './BLOCKERS.md'
+
+/** Default structured store path, also the fallback for rejected paths */
+const DEFAULT_STORE_FILE = './.opencode/blockers.jsonl'
+
+/** Default pending write journal path, also the fallback for rejected paths */
+const DEFAULT_JOURNAL_FILE = './.opencode/blocker-diverter/pending.jsonl'
+
+/** Default archive directory, also the fallback for rejected paths */
+const DEFAULT_ARCHIVE_DIR = './.opencode/blockers-archive'
+
+/** Default blocker destinations: structured store first, then the markdown view */
+export const DEFAULT_SINKS: ReadonlyArray<{ type: 'jsonl' | 'markdown' }> = [{ type: 'jsonl' }, { type: 'markdown' }]
+
+/**
+ * Zod schema for one blocker sink (destination)
+ * - markdown: rendered log, `path` defaults to blockersFile
+ * - jsonl: structured store, `path` defaults to storeFile
+ * - webhook: POSTs each blocker as JSON to `url`
+ * `name` identifies the sink in logs and the retry queue (default: its type)
+ */
+export const SinkConfigSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('markdown'),
+    name: z.string().min(1).optional(),
+    path: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('jsonl'),
+    name: z.string().min(1).optional(),
+    path: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('webhook'),
+    name: z.string().min(1).optional(),
+    url: z.string().url().refine(url => /^https?:\/\//.test(url), 'Webhook URL must use http or https'),
+    headers: z.record(z.string()).optional(),
+    timeoutMs: z.number().int().min(100).default(5000),
+  }),
+])
+
+/**
+ * Zod schema for one category: how agents use it (see utils/categories) and
+ * its limits (see utils/category-limits). Keys not among the built-in
+ * categories add new ones.
+ * - description: What the category is for, shown to agents (default: built-in text, or none)
+ * - blocksProgress: Whether its blockers are hard unless the agent says otherwise (default: true)
+ * - priority: Priority of its blockers unless the agent sets one (default: built-in, or 'p3')
+ * - max: Blockers of this category per run, null for no limit (default: maxBlockersPerRun applies)
+ * - cooldownMs: Dedupe window for this category, min 1000ms (default: cooldownMs applies)
+ * - enabled: false drops blockers of this category (default: true)
+ */
+export const CategoryConfigSchema = z.object({
+  description: z.string().min(1).optional(),
+  blocksProgress: z.boolean().optional(),
+  priority: z.enum(['p0', 'p1', 'p2', 'p3']).optional(),
+  max: z.number().int().min(1).nullable().optional(),
+  cooldownMs: z.number().int().min(1000).optional(),
+  enabled: z.boolean().default(true),
+})
+
+/**
+ * Zod schema for one routing rule (see utils/routing)
+ * - file: Markdown log for matching blockers
+ * - categories / priorities / blocksProgress: Conditions, all of which must
+ *   hold; at least one is required
+ */
+export const RouteConfigSchema = z.object({
+  file: z.string().min(1),
+  categories: z.array(z.string()).min(1).optional(),
+  priorities: z.array(z.enum(['p0', 'p1', 'p2', 'p3'])).min(1).optional(),
+  blocksProgress: z.boolean().optional(),
+}).refine(
+  route => route.categories !== undefined || route.priorities !== undefined || route.blocksProgress !== undefined,
+  'A route needs categories, priorities or blocksProgress'
+)
+
 /**
  * Zod schema for plugin configuration
  * 
@@ -22,23 +100,64 @@ import { homedir } from 'os'
  * - enabled: Global plugin toggle (default: true)
  * - defaultDivertBlockers: Default session behavior (default: false)
  * - blockersFile: Path to log file (default: './BLOCKERS.md')
+ * - storeFile: Path to structured JSONL blocker store (default: './.opencode/blockers.jsonl')
+ * - journalFile: Durable queue of blocker writes still to retry (default: './.opencode/blocker-diverter/pending.jsonl')
  * - maxBlockersPerRun: Session blocker limit, 1-100 (default: 50)
  * - cooldownMs: Cooldown between reprompts, min 1000ms (default: 5000)
  * - maxReprompts: Stop prevention limit, min 1 (default: 5)
  * - repromptWindowMs: Reprompt time window, min 60000ms (default: 300000 / 5 minutes)
  * - completionMarker: Session completion marker (default: 'BLOCKER_DIVERTER_DONE!')
  * - promptTimeoutMs: Prompt API timeout, min 1000ms (default: 30000)
+ * - archiveDir: Where rotated blocker files go (default: './.opencode/blockers-archive')
+ * - maxArchives: Archives kept before the oldest is deleted, min 1 (default: 10)
+ * - rotateMaxEntries: Rotate once the log holds this many entries, min 1 (default: 200)
+ * - rotateMaxBytes: Rotate once the log reaches this size, min 1024 (default: 1 MiB)
+ * - rotateOnRunStart: Archive the previous log when /blockers.on starts a run (default: false)
+ * - layout: Blockers file layout, 'entries' or 'checklist' (default: 'entries')
+ * - priorityIndex: Keep a "read this first" index of unresolved p0–p2 blockers at the top of the log (default: true)
+ * - gitSnapshot: Record branch, HEAD commit and uncommitted files with each blocker (default: true)
+ * - diffExcerpt: Attach the uncommitted diff of a blocker's referenced files (default: false)
+ * - diffMaxBytes: Size cap of that diff, min 256 (default: 4096)
+ * - categories: Category taxonomy and per-category limits, keyed by category name (default: built-in categories only)
+ * - routes: Markdown logs for matching blockers, first match wins (default: none, everything goes to blockersFile)
+ * - packageLogs: Log blockers referencing files in their package's BLOCKERS.md (default: false)
+ * - packageRoots: Globs of package directories, e.g. 'packages/*' (default: none, any directory with a package.json)
+ * - nearDuplicates: Near-duplicate questions are 'link'ed, 'merge'd or ignored with 'off' (default: 'link')
+ * - similarityThreshold: Minimum question similarity for near-duplicates, above 0 up to 1 (default: 0.55)
+ * - sinks: Destinations each blocker is written to (default: jsonl store, then markdown log)
  */
 export const ConfigSchema = z.object({
   enabled: z.boolean().default(true),
   defaultDivertBlockers: z.boolean().default(false),
-  blockersFile: z.string().default('./BLOCKERS.md'),
+  blockersFile: z.string().default(DEFAULT_BLOCKERS_FILE),
+  storeFile: z.string().default(DEFAULT_STORE_FILE),
+  journalFile: z.string().default(DEFAULT_JOURNAL_FILE),
   maxBlockersPerRun: z.number().int().min(1).max(100).default(50),
   cooldownMs: z.number().int().min(1000).default(5000),
   maxReprompts: z.number().int().min(1).default(5),
   repromptWindowMs: z.number().int().min(60000).default(300000),
   completionMarker: z.string().default('BLOCKER_DIVERTER_DONE!'),
   promptTimeoutMs: z.number().int().min(1000).default(30000),
+  archiveDir: z.string().default(DEFAULT_ARCHIVE_DIR),
+  maxArchives: z.number().int().min(1).default(10),
+  rotateMaxEntries: z.number().int().min(1).default(200),
+  rotateMaxBytes: z.number().int().min(1024).default(1024 * 1024),
+  rotateOnRunStart: z.boolean().default(false),
+  layout: z.enum(['entries', 'checklist']).default('entries'),
+  priorityIndex: z.boolean().default(true),
+  gitSnapshot: z.boolean().default(true),
+  diffExcerpt: z.boolean().default(false),
+  diffMaxBytes: z.number().int().min(256).default(4096),
+  categories: z.record(
+    z.string().regex(/^[a-z][a-z0-9_-]*$/, 'Category names are lowercase letters, digits, - and _'),
+    CategoryConfigSchema
+  ).default({}),
+  routes: z.array(RouteConfigSchema).default([]),
+  packageLogs: z.boolean().default(false),
+  packageRoots: z.array(z.string().min(1)).default([]),
+  nearDuplicates: z.enum(['link', 'merge', 'off']).default('link'),
+  similarityThreshold: z.number().gt(0).max(1).default(0.55),
+  sinks: z.array(SinkConfigSchema).min(1).default(DEFAULT_SINKS.map(sink => ({ ...sink }))),
 })
 
 /**
@@ -50,7 +169,8 @@ export type Config = z.infer<typeof ConfigSchema>
  * OpenCode client interface for structured logging
  * 
  * This interface provides type safety for the optional client parameter
- * used in loadConfig for structured logging via OpenCode's logging API.
+ * used in loadConfig for structured logging via OpenCode's logging API,
+ * and for the TUI toasts the plugin shows when a write needs attention.
  */
 export interface LogClient {
   app?: {
@@ -63,6 +183,15 @@ export interface LogClient {
       }
     }) => Promise<void>
   }
+  tui?: {
+    showToast?: (opts: {
+      body: {
+        title?: string
+        message: string
+        variant: 'info' | 'success' | 'warning' | 'error'
+      }
+    }) => Promise<unknown>
+  }
 }
 
 /**
@@ -206,9 +335,28 @@ async function loadConfigFromPath(
  * @returns Config with resolved absolute paths
  */
 function resolveConfigPaths(config: Config, projectDir: string): Config {
+  const blockersFile = resolveBlockersFilePath(config.blockersFile, projectDir)
+
   return {
     ...config,
-    blockersFile: resolveBlockersFilePath(config.blockersFile, projectDir),
+    blockersFile,
+    storeFile: resolveBlockersFilePath(config.storeFile, projectDir, DEFAULT_STORE_FILE),
+    journalFile: resolveBlockersFilePath(config.journalFile, projectDir, DEFAULT_JOURNAL_FILE),
+    archiveDir: resolveBlockersFilePath(config.archiveDir, projectDir, DEFAULT_ARCHIVE_DIR),
+    // A route escaping the project falls back to the main log
+    routes: config.routes.map(route => ({ ...route, file: resolveBlockersFilePath(route.file, projectDir, blockersFile) })),
+    sinks: config.sinks.map(sink =>
+      sink.type !== 'webhook' && sink.path !== undefined
+        ? {
+            ...sink,
+            path: resolveBlockersFilePath(
+              sink.path,
+              projectDir,
+              sink.type === 'jsonl' ? DEFAULT_STORE_FILE : DEFAULT_BLOCKERS_FILE
+            ),
+          }
+        : sink
+    ),
   }
 }
 
@@ -216,16 +364,14 @@ function resolveConfigPaths(config: Config, projectDir: string): Config {
  * Get default configuration with resolved paths
  * 
  * @param projectDir - Project root directory
- * @returns Default config with blockersFile resolved to absolute path
+ * @returns Default config with file paths resolved to absolute paths
  */
 function getDefaultsWithResolvedPaths(projectDir: string): Config {
-  const defaults = ConfigSchema.parse({})
-  defaults.blockersFile = resolveBlockersFilePath(defaults.blockersFile, projectDir)
-  return defaults
+  return resolveConfigPaths(ConfigSchema.parse({}), projectDir)
 }
 
 /**
- * Resolve blockersFile path to absolute path
+ * Resolve blockersFile (or another project file) path to absolute path
  * 
  * Relative paths (starting with '.') are resolved against projectDir.
  * Absolute paths are returned unchanged.
@@ -235,9 +381,14 @@ function getDefaultsWithResolvedPaths(projectDir: string): Config {
  * 
  * @param blockersFile - Path from config (relative or absolute)
  * @param projectDir - Project root directory
- * @returns Absolute path to blockers file (validated to be within projectDir)
+ * @param fallback - Path used when the configured one escapes projectDir
+ * @returns Absolute path to the file (validated to be within projectDir)
  */
-function resolveBlockersFilePath(blockersFile: string, projectDir: string): string {
+function resolveBlockersFilePath(
+  blockersFile: string,
+  projectDir: string,
+  fallback: string = DEFAULT_BLOCKERS_FILE
+): string {
   // Resolve absolute project directory
   const absoluteProjectDir = resolve(projectDir)
   
@@ -245,7 +396,7 @@ function resolveBlockersFilePath(blockersFile: string, projectDir: string): stri
     // Absolute path: validate it's within project directory
     if (!blockersFile.startsWith(absoluteProjectDir)) {
       // Path traversal detected: absolute path outside project, use default
-      return resolve(absoluteProjectDir, './BLOCKERS.md')
+      return resolve(absoluteProjectDir, fallback)
     }
     return blockersFile
   }
@@ -256,7 +407,7 @@ function resolveBlockersFilePath(blockersFile: string, projectDir: string): stri
   // Security check: ensure resolved path stays within projectDir
   if (!resolvedPath.startsWith(absoluteProjectDir)) {
     // Path traversal detected (e.g., '../../../outside.md'), use default
-    return resolve(absoluteProjectDir, './BLOCKERS.md')
+    return resolve(absoluteProjectDir, fallback)
   }
   
   return resolvedPath
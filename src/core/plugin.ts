@@ -15,12 +15,20 @@ import {
   handleOffCommand,
   handleStopCommand,
   handleStatusCommand,
+  handleArchiveCommand,
+  handleRebuildCommand,
+  handleListCommand,
+  handleClarifyCommand,
   type CommandResult 
 } from "../commands/blockers-cmd";
 import { createBlockerTool } from "../tools/blocker";
-import { getState } from "../state";
+import { createBlockerStatusTool } from "../tools/blocker-status";
+import { createSinks, replayPendingJournal } from "../sinks";
+import { getState, configureStatePersistence } from "../state";
 import { logInfo, logError } from "../utils/logging";
 import { getProjectBaseDir } from "../utils/project-dir";
+import { withPackageRootsCache } from "../utils/packages";
+import { withKnownBlockersCache } from "../utils/blockers-store";
 
 /**
  * Command output structure
@@ -76,6 +84,13 @@ export const createPlugin: Plugin = async (ctx) => {
     return {};
   }
 
+  // Keep session state (autonomous mode, blockers, cooldowns) across restarts
+  configureStatePersistence(projectBaseDir);
+
+  // Replay blocker writes journaled before a restart. Not awaited: its
+  // logging must not run inside plugin init (see loadConfig above).
+  void replayPendingJournal(createSinks(config), config, projectBaseDir, logClient).catch(() => {})
+
   // Create hooks with context and config
   const sessionHooks = createSessionHooks(ctx);
   const systemPromptHooks = createSystemPromptHook(ctx, config);
@@ -86,6 +101,7 @@ export const createPlugin: Plugin = async (ctx) => {
     // Blocker tool - AI agents call this to log blocking questions
     tool: {
       blocker: createBlockerTool(logClient, config, projectBaseDir),
+      blocker_status: createBlockerStatusTool(logClient, config, projectBaseDir),
     },
 
     // Tool interception - block question tool during autonomous mode
@@ -96,7 +112,9 @@ export const createPlugin: Plugin = async (ctx) => {
       const state = getState(input.sessionID)
       void logClient.app?.log?.({ body: { service: 'blocker-diverter', level: 'info', message: `[BD] tool.execute.before fired: tool=${input.tool} sessionID=${input.sessionID} divert=${state.divertBlockers}` } }).catch(() => {})
       void logClient.app?.log?.({ body: { service: 'blocker-diverter', level: 'info', message: `[BD] tool.execute.before: state=${JSON.stringify({ divertBlockers: state.divertBlockers, blockers: state.blockers.length, repromptCount: state.repromptCount })}` } }).catch(() => {})
-      await handleToolExecuteBefore(input, output, logClient, config, projectBaseDir);
+      await withPackageRootsCache(() =>
+        withKnownBlockersCache(() => handleToolExecuteBefore(input, output, logClient, config, projectBaseDir))
+      );
     },
 
     // Session lifecycle hooks - session.created, session.deleted, session.idle, etc.
@@ -151,21 +169,38 @@ export const createPlugin: Plugin = async (ctx) => {
       
       if (cmd === "/blockers.on") {
         void logClient.app?.log?.({ body: { service: 'blocker-diverter', level: 'info', message: '[BD] command.execute.before: matched /blockers.on, calling handleOnCommand' } }).catch(() => {})
-        result = await handleOnCommand(state, logClient);
+        result = await handleOnCommand(state, logClient, config, projectBaseDir, input.sessionID);
       }
       else if (cmd === "/blockers.off") {
         void logClient.app?.log?.({ body: { service: 'blocker-diverter', level: 'info', message: '[BD] command.execute.before: matched /blockers.off, calling handleOffCommand' } }).catch(() => {})
-        result = await handleOffCommand(state, logClient);
+        result = await handleOffCommand(state, logClient, config, projectBaseDir, input.sessionID);
       }
       else if (cmd === "/blockers.stop") {
         void logClient.app?.log?.({ body: { service: 'blocker-diverter', level: 'info', message: '[BD] command.execute.before: matched /blockers.stop, calling handleStopCommand' } }).catch(() => {})
-        result = await handleStopCommand(state, logClient);
+        result = await handleStopCommand(state, logClient, config, projectBaseDir, input.sessionID);
       }
       else if (cmd === "/blockers.status") {
         void logClient.app?.log?.({ body: { service: 'blocker-diverter', level: 'info', message: '[BD] command.execute.before: matched /blockers.status, calling handleStatusCommand' } }).catch(() => {})
-        result = await handleStatusCommand(state, logClient, config);
+        result = await handleStatusCommand(state, logClient, config, projectBaseDir, input.sessionID);
+      }
+      else if (cmd === "/blockers.archive") {
+        void logClient.app?.log?.({ body: { service: 'blocker-diverter', level: 'info', message: '[BD] command.execute.before: matched /blockers.archive, calling handleArchiveCommand' } }).catch(() => {})
+        result = await handleArchiveCommand(state, logClient, config, projectBaseDir, input.sessionID);
+      }
+      else if (cmd === "/blockers.rebuild") {
+        void logClient.app?.log?.({ body: { service: 'blocker-diverter', level: 'info', message: '[BD] command.execute.before: matched /blockers.rebuild, calling handleRebuildCommand' } }).catch(() => {})
+        result = await handleRebuildCommand(state, logClient, config, projectBaseDir, input.sessionID);
+      }
+      // /blockers.list is not intercepted - the AI template handles it, with
+      // an overview of every package log when packageLogs is on
+      else if (cmd === "/blockers.list") {
+        result = await handleListCommand(state, logClient, config, projectBaseDir);
+      }
+      // /blockers.clarify is not intercepted either - the template walks
+      // through the unresolved blockers of every log passed along here
+      else if (cmd === "/blockers.clarify") {
+        result = await handleClarifyCommand(logClient, config, projectBaseDir);
       }
-      // Don't intercept /blockers.list - let AI template handle it
       
       void logClient.app?.log?.({ body: { service: 'blocker-diverter', level: 'info', message: `[BD] command.execute.before: result.handled=${result?.handled ?? 'undefined (no match)'}` } }).catch(() => {})
       
@@ -186,6 +221,8 @@ export const createPlugin: Plugin = async (ctx) => {
         if (result.minimalResponse) {
           output.parts.splice(0, output.parts.length, { type: 'text', text: result.minimalResponse })
         }
+      } else if (result?.context) {
+        output.parts.push({ type: 'text', text: result.context })
       }
     },
   };
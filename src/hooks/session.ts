@@ -15,6 +15,8 @@ import { loadConfig } from '../config'
 import { getStopPrompt } from '../utils/templates'
 import { withTimeout, TimeoutError } from '../utils/with-timeout'
 import { getProjectBaseDir } from '../utils/project-dir'
+import { finishRun } from '../utils/run-log'
+import { createSinks, flushPendingWrites } from '../sinks'
 
 /**
  * Session event structure from OpenCode SDK
@@ -84,7 +86,7 @@ interface PromptClient {
  * Registers handlers for:
  * - session.created: Initialize session state
  * - session.deleted: Cleanup and log summary
- * - session.idle: Track idle state (future: inject continue prompts)
+ * - session.idle: Retry queued blocker writes, inject continue prompts
  * - session.compacted: Log compaction event
  * - session.error: Log errors without cleanup
  * 
@@ -274,6 +276,7 @@ Latest: ${JSON.stringify(recentBlockers, null, 2)}
      * 
      * Captures the last assistant message content for completion marker detection.
      * Extracts text from message parts and stores in session state.
+     * Also tracks the active agent and model, which are stamped on blockers.
      * 
      * This enables the session.idle handler to check if the agent signaled
      * completion by saying the completion marker at the end of its response.
@@ -295,6 +298,14 @@ Latest: ${JSON.stringify(recentBlockers, null, 2)}
         const { sessionID } = input
         const { message, parts } = output
 
+        // Remember who is working in this session, for blocker provenance
+        if (input.agent || input.model) {
+          updateState(sessionID, s => {
+            if (input.agent) s.activeAgent = input.agent
+            if (input.model) s.activeModel = `${input.model.providerID}/${input.model.modelID}`
+          })
+        }
+
         // Handle user messages: auto-disable if blocker diverter is active
         if (message.role === 'user') {
           const state = getState(sessionID)
@@ -330,6 +341,11 @@ Latest: ${JSON.stringify(recentBlockers, null, 2)}
               s.lastRepromptTime = 0
             })
 
+            if (state.run) {
+              const projectDir = getProjectBaseDir(ctx)
+              await finishRun(state, 'stopped', await loadConfig(projectDir), projectDir, loggingClient)
+            }
+
             await logInfo(loggingClient, 'Auto-disabled blocker diverter (user message detected)', {
               sessionID,
               hasAssistantMessage,
@@ -697,6 +713,11 @@ async function checkCompletionMarker(
  * when there are logged blockers and work remains.
  * 
  * Checks for completion marker to detect when agent signals it's done.
+ * Writes the run footer when the run ends (completion marker, user
+ * interrupt or reprompt limit).
+ * 
+ * Every idle first retries queued blocker writes (this session's queue and
+ * the on-disk journal), so they do not wait for the next blocker.
  */
 async function handleSessionIdle(
   client: LoggingClient,
@@ -706,6 +727,12 @@ async function handleSessionIdle(
   const state = getState(sessionId)
   const config = await loadConfig(getProjectBaseDir(ctx))
 
+  try {
+    await flushPendingWrites(state, sessionId, createSinks(config), config, getProjectBaseDir(ctx), client)
+  } catch (error) {
+    await logError(client, 'Failed to retry queued blocker writes', error as Error, { sessionId })
+  }
+
   // Recovery guard - skip one idle cycle after error
   if (state.isRecovering) {
     updateState(sessionId, s => {
@@ -736,6 +763,7 @@ async function handleSessionIdle(
       s.divertBlockers = false        // Disable to prevent accidental re-triggering
       s.repromptCount = 0             // Reset reprompt count
     })
+    await finishRun(state, 'stopped', config, getProjectBaseDir(ctx), client)
     
     // Show toast notification to inform user
     try {
@@ -781,6 +809,7 @@ async function handleSessionIdle(
       s.lastRepromptTime = 0
       s.completionMarkerDetected = false
     })
+    await finishRun(state, 'completed', config, getProjectBaseDir(ctx), client)
     // Show toast notification
     try {
       const promptClient = ctx.client as any
@@ -795,6 +824,11 @@ async function handleSessionIdle(
     return
   }
 
+  // Reprompt limit reached - the run ends here (diversion stays on until the user acts)
+  if (state.divertBlockers && state.repromptCount >= config.maxReprompts) {
+    await finishRun(state, 'max-reprompts', config, getProjectBaseDir(ctx), client)
+  }
+
   // Check if we should inject continue prompt
   if (shouldContinue(state, config)) {
     // Cast client to PromptClient - OpenCode SDK has complex generic types
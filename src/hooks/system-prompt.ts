@@ -85,7 +85,7 @@ export function createSystemPromptHook(
         const template = getSystemPromptTemplate(state, config)
         
         // Generate blocker tool definition
-        const toolDefinition = getBlockerToolDefinition()
+        const toolDefinition = getBlockerToolDefinition(config)
         
         // Inject both to system prompt array
         output.system.push(template)
@@ -10,10 +10,14 @@
 
 import type { LogClient } from '../config'
 import type { PluginConfig, Blocker, SessionState } from '../types'
-import { getState } from '../state'
+import { getState, updateState } from '../state'
 import { generateBlockerHash, isInCooldown, addToCooldown } from '../utils/dedupe'
-import { appendBlocker } from '../utils/blockers-file'
+import { createSinks, writeToSinks, queuePendingWrite } from '../sinks'
 import { logInfo, logError } from '../utils/logging'
+import { allocateShortId } from '../utils/short-id'
+import { readKnownBlockers, recordRecurrence, findArchivedRecurrence } from '../utils/blockers-store'
+import { checkCategoryLimit } from '../utils/category-limits'
+import { getDefaultPriority } from '../utils/priority'
 
 /**
  * Tools handled by this hook
@@ -126,51 +130,88 @@ async function handleQuestionTool(
     throw new Error('Blocker Diverter: Autonomous mode is active. Do not ask the user questions — make a reasonable default choice based on project conventions, log your decision in the response, and continue working on the next task.')
   }
 
-  // Check max blockers limit
-  if (state.blockers.length >= config.maxBlockersPerRun) {
-    void client?.app?.log?.({ body: { service: 'blocker-diverter', level: 'info', message: `[BD] handleQuestionTool: max blockers reached (${state.blockers.length}/${config.maxBlockersPerRun}) -> THROWING` } }).catch(() => {})
+  // Same intercept still unanswered on disk (e.g. from an earlier run): count it there,
+  // like the blocker tool does, instead of logging a duplicate
+  const recurring = await recordRecurrence(config, question, projectDir, client)
+  if (recurring) {
+    updateState(input.sessionID, s => addToCooldown(hash, s, config, 'question'))
     await logInfo(
       client,
-      `Max blockers reached (${state.blockers.length}/${config.maxBlockersPerRun})`,
-      { sessionId: input.sessionID, currentCount: state.blockers.length, maxBlockers: config.maxBlockersPerRun }
+      `Recurring tool intercept: ${recurring.shortId ?? recurring.id} seen ${recurring.occurrences} times`,
+      { blockerId: recurring.id, sessionId: input.sessionID, tool: input.tool, occurrences: recurring.occurrences }
     )
     // Still block the tool but don't log
     throw new Error('Blocker Diverter: Autonomous mode is active. Do not ask the user questions — make a reasonable default choice based on project conventions, log your decision in the response, and continue working on the next task.')
   }
 
+  // Check the question category's limits, then max blockers limit
+  const limit = checkCategoryLimit('question', state, config)
+  if (!limit.allowed) {
+    void client?.app?.log?.({ body: { service: 'blocker-diverter', level: 'info', message: `[BD] handleQuestionTool: limit hit (${limit.reason}) -> THROWING` } }).catch(() => {})
+    if (limit.reason === 'disabled') {
+      await logInfo(client, 'Tool intercept not logged (category disabled): question', { sessionId: input.sessionID, tool: input.tool })
+    } else {
+      await logInfo(
+        client,
+        limit.reason === 'category-max'
+          ? `Max question blockers reached (${limit.count}/${limit.max})`
+          : `Max blockers reached (${limit.count}/${limit.max})`,
+        { sessionId: input.sessionID, category: 'question', currentCount: limit.count, maxBlockers: limit.max }
+      )
+    }
+    // Still block the tool but don't log
+    throw new Error('Blocker Diverter: Autonomous mode is active. Do not ask the user questions — make a reasonable default choice based on project conventions, log your decision in the response, and continue working on the next task.')
+  }
+
+  // Same intercept left unanswered before the last rotation: logged again, with its count carried over
+  const previous = await findArchivedRecurrence(config, question, projectDir, client)
+
   // Create and log blocker
+  const shortId = await allocateShortId(projectDir, client, () => readKnownBlockers(config, projectDir, client))
+  const timestamp = new Date().toISOString()
   const blocker: Blocker = {
     id: `${Date.now()}-${input.sessionID}-${hash.substring(0, 6)}`,
-    timestamp: new Date().toISOString(),
+    ...(shortId ? { shortId } : {}),
+    timestamp,
     sessionId: input.sessionID,
     category: 'question',
+    priority: getDefaultPriority('question', config),
     question,
     context,
     blocksProgress: true,
+    ...(previous ? { occurrences: (previous.occurrences ?? 1) + 1, lastSeen: timestamp } : {}),
+    ...(state.activeAgent ? { agent: state.activeAgent } : {}),
+    ...(state.activeModel ? { model: state.activeModel } : {}),
+    ...(state.lastAssistantMessageID ? { messageId: state.lastAssistantMessageID } : {}),
   }
 
   void client?.app?.log?.({ body: { service: 'blocker-diverter', level: 'info', message: `[BD] handleQuestionTool: about to THROW blocking error for tool=${input.tool}` } }).catch(() => {})
-  const success = await appendBlocker(config.blockersFile, blocker, projectDir)
+  const sinks = createSinks(config)
+  const failed = await writeToSinks(sinks, blocker, config, projectDir, client)
 
-  if (success) {
+  if (failed.length < sinks.length) {
     // Add to session state
-    state.blockers.push(blocker)
-    addToCooldown(hash, state, config)
+    updateState(input.sessionID, s => {
+      s.blockers.push(blocker)
+      addToCooldown(hash, s, config, blocker.category)
+    })
 
     await logInfo(
       client,
       `Tool intercepted and logged: ${input.tool}`,
       { blockerId: blocker.id, tool: input.tool, sessionId: input.sessionID }
     )
-  } else {
-    // Failed to write - queue for retry (FR-024)
-    state.pendingWrites.push(blocker)
+  }
+
+  if (failed.length > 0) {
+    // Failed sinks are queued for retry (FR-024)
+    await queuePendingWrite(state, blocker, failed, config, projectDir, client)
     
     await logError(
       client,
-      'Failed to log tool interception to file, queued for retry',
-      new Error('appendBlocker returned false'),
-      { blockerId: blocker.id, sessionId: input.sessionID, queueLength: state.pendingWrites.length }
+      'Failed to write tool interception to some sinks, queued for retry',
+      new Error(`Failed sinks: ${failed.join(', ')}`),
+      { blockerId: blocker.id, sessionId: input.sessionID, failedSinks: failed, queueLength: state.pendingWrites.length }
     )
   }
 
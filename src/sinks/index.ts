@@ -0,0 +1,301 @@
+/**
+ * Blocker sinks
+ *
+ * A sink is one destination a blocker is written to. The blocker tool and
+ * the question-tool interceptor hand every blocker to all configured sinks
+ * (config `sinks`, default: JSONL store then markdown log), so new
+ * destinations are added here without touching the tool code.
+ *
+ * Sinks are written in order and independently: a failing sink does not
+ * stop the others, and only the sinks that failed are queued for retry in
+ * SessionState.pendingWrites and the on-disk journal (config `journalFile`).
+ *
+ * @module sinks
+ */
+
+import { randomUUID } from 'node:crypto'
+import type { Blocker, PendingWrite, PluginConfig, SessionState, SinkConfig } from '../types'
+import { DEFAULT_SINKS, type LogClient } from '../config'
+import { hasState } from '../state'
+import { rotateBlockersIfNeeded } from '../utils/blockers-store'
+import {
+  claimJournalEntries,
+  releaseJournalEntries,
+  journalPendingWrite,
+  isOrphaned,
+} from '../utils/pending-journal'
+import { logError, logInfo } from '../utils/logging'
+import { createMarkdownSink } from './markdown'
+import { createJsonlSink } from './jsonl'
+import { createWebhookSink } from './webhook'
+
+/**
+ * A destination for blockers
+ */
+export interface BlockerSink {
+  /** Unique name, used in logs and the retry queue */
+  name: string
+
+  /**
+   * Writes one blocker
+   *
+   * @returns Promise<boolean> - true if written, false on a (retryable) failure
+   * @throws Error if path validation fails
+   */
+  write(blocker: Blocker, projectDir: string, logClient?: LogClient): Promise<boolean>
+}
+
+/**
+ * Builds the sinks configured in `config.sinks`
+ *
+ * Sinks are named after their `name` setting, or their type. Repeated
+ * names get a numeric suffix (e.g. "webhook", "webhook-2").
+ *
+ * @param config - Plugin configuration
+ * @returns Sinks in configured order
+ *
+ * @example
+ * ```typescript
+ * const sinks = createSinks(config)
+ * const failed = await writeToSinks(sinks, blocker, config, worktree, logClient)
+ * ```
+ */
+export function createSinks(config: PluginConfig): BlockerSink[] {
+  const sinkConfigs: readonly SinkConfig[] = config.sinks ?? DEFAULT_SINKS
+  const seen = new Map<string, number>()
+
+  return sinkConfigs.map(sinkConfig => {
+    const base = sinkConfig.name ?? sinkConfig.type
+    const count = (seen.get(base) ?? 0) + 1
+    seen.set(base, count)
+    const name = count === 1 ? base : `${base}-${count}`
+
+    switch (sinkConfig.type) {
+      case 'markdown':
+        return createMarkdownSink(name, sinkConfig, config)
+      case 'jsonl':
+        return createJsonlSink(name, sinkConfig, config)
+      case 'webhook':
+        return createWebhookSink(name, sinkConfig)
+    }
+  })
+}
+
+/**
+ * Writes a blocker to every given sink
+ *
+ * Rotates the blockers log first (when limits are reached), then writes the
+ * sinks in order. Errors thrown by a sink count as a failure of that sink,
+ * except path validation errors, which are re-thrown.
+ *
+ * @param sinks - Sinks to write to
+ * @param blocker - Blocker to write
+ * @param config - Plugin configuration (rotation settings)
+ * @param projectDir - Project root directory
+ * @param logClient - Optional logging client
+ * @returns Promise<string[]> - Names of the sinks that failed (empty on full success)
+ * @throws Error if path validation fails
+ */
+export async function writeToSinks(
+  sinks: BlockerSink[],
+  blocker: Blocker,
+  config: PluginConfig,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<string[]> {
+  await rotateBlockersIfNeeded(config, projectDir, logClient)
+
+  const failed: string[] = []
+  for (const sink of sinks) {
+    let success = false
+    try {
+      success = await sink.write(blocker, projectDir, logClient)
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('directory traversal')) {
+        throw error
+      }
+      await logError(logClient, 'Blocker sink threw', error as Error, { sink: sink.name, blockerId: blocker.id })
+    }
+    if (!success) failed.push(sink.name)
+  }
+
+  return failed
+}
+
+/**
+ * Builds a retry queue entry for the sinks a blocker did not reach
+ *
+ * @param blocker - Blocker that failed to reach some sinks
+ * @param failed - Names of the failed sinks
+ * @returns Pending write for SessionState.pendingWrites
+ */
+export function toPendingWrite(blocker: Blocker, failed: string[]): PendingWrite {
+  return { ...blocker, sinks: failed }
+}
+
+/**
+ * Queues a blocker for the sinks it did not reach
+ *
+ * Adds it to the session's retry queue and to the journal, so the write
+ * survives a restart. A journal failure (e.g. disk full) is logged; the
+ * in-memory queue still holds the blocker.
+ *
+ * @param state - Session state (pendingWrites is appended to)
+ * @param blocker - Blocker that failed to reach some sinks
+ * @param failed - Names of the failed sinks
+ * @param config - Plugin configuration (journalFile)
+ * @param projectDir - Project root directory
+ * @param logClient - Optional logging client
+ * @throws Error if path validation fails
+ */
+export async function queuePendingWrite(
+  state: SessionState,
+  blocker: Blocker,
+  failed: string[],
+  config: PluginConfig,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<void> {
+  const pending = toPendingWrite(blocker, failed)
+  state.pendingWrites.push(pending)
+
+  if (config.journalFile) {
+    await journalPendingWrite(config.journalFile, pending, projectDir, logClient)
+  }
+}
+
+/**
+ * Blocker IDs being retried by a flush in this process
+ */
+const inFlight = new Set<string>()
+
+/**
+ * Retries queued writes and updates the journal with the outcome
+ *
+ * Retries `local` together with the journaled entries of `sessionId` and
+ * orphaned ones (see isOrphaned: from before a restart, or of a session
+ * that is gone). Journaled entries are claimed first, so a parallel flush
+ * skips them, and entries of `local` another flush of this process is
+ * already retrying are skipped too. Afterwards, the claimed entries are
+ * replaced in the journal by those still failing.
+ *
+ * @returns Fully written count, and the entries of `local` still queued
+ */
+async function flushQueue(
+  local: PendingWrite[],
+  sessionId: string | null,
+  sinks: BlockerSink[],
+  config: PluginConfig,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<{ flushedCount: number; remaining: PendingWrite[] }> {
+  const token = randomUUID()
+  const claimed = config.journalFile
+    ? await claimJournalEntries(
+        config.journalFile,
+        projectDir,
+        token,
+        entry => entry.sessionId === sessionId || isOrphaned(entry, hasState),
+        logClient
+      )
+    : []
+
+  const localIds = new Set(local.map(pending => pending.id))
+  const queued = [...local, ...claimed.filter(pending => !localIds.has(pending.id))]
+    .filter(pending => !inFlight.has(pending.id))
+  for (const pending of queued) inFlight.add(pending.id)
+
+  const remaining: PendingWrite[] = []
+  try {
+    for (const pending of queued) {
+      const { sinks: pendingSinks, ...blocker } = pending
+      const targets = pendingSinks ? sinks.filter(sink => pendingSinks.includes(sink.name)) : sinks
+      if (targets.length === 0) continue
+
+      const failed = await writeToSinks(targets, blocker, config, projectDir, logClient)
+      if (failed.length > 0) {
+        remaining.push(toPendingWrite(blocker, failed))
+      }
+    }
+  } finally {
+    for (const pending of queued) inFlight.delete(pending.id)
+
+    if (config.journalFile) {
+      // Claimed entries this flush left alone (in flight here) stay journaled
+      const queuedIds = new Set(queued.map(pending => pending.id))
+      const skipped = claimed.filter(pending => !queuedIds.has(pending.id))
+      await releaseJournalEntries(config.journalFile, projectDir, token, [...skipped, ...remaining], logClient)
+    }
+  }
+
+  const flushedCount = queued.length - remaining.length
+  if (flushedCount > 0) {
+    await logInfo(logClient, 'Flushed queued blocker writes', {
+      flushedCount,
+      remainingQueued: remaining.length,
+    })
+  }
+
+  return { flushedCount, remaining: remaining.filter(pending => localIds.has(pending.id)) }
+}
+
+/**
+ * Retries queued blocker writes (FR-024)
+ *
+ * Each queued blocker is written only to the sinks it has not reached yet
+ * (all sinks for entries without a `sinks` list). Entries that still fail
+ * stay queued with the remaining sinks; sinks no longer configured are dropped.
+ * Journaled entries of this session, and orphaned ones (earlier runs,
+ * sessions that are gone), are retried as well.
+ *
+ * @param state - Session state (pendingWrites is replaced)
+ * @param sessionId - Session flushing its queue
+ * @param sinks - Configured sinks
+ * @param config - Plugin configuration
+ * @param projectDir - Project root directory
+ * @param logClient - Optional logging client
+ * @returns Promise<number> - How many queued blockers were fully written
+ * @throws Error if path validation fails
+ */
+export async function flushPendingWrites(
+  state: SessionState,
+  sessionId: string,
+  sinks: BlockerSink[],
+  config: PluginConfig,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<number> {
+  const queued = [...state.pendingWrites]
+  const { flushedCount, remaining } = await flushQueue(queued, sessionId, sinks, config, projectDir, logClient)
+
+  // Keep anything queued by this session while the flush was running
+  state.pendingWrites = [...remaining, ...state.pendingWrites.filter(pending => !queued.includes(pending))]
+
+  return flushedCount
+}
+
+/**
+ * Replays the pending write journal without a session
+ *
+ * Runs when the plugin starts, so blockers queued before a restart are
+ * written even if the agent never logs another one. Only orphaned entries
+ * are retried; live sessions flush their own.
+ *
+ * @param sinks - Configured sinks
+ * @param config - Plugin configuration (journalFile)
+ * @param projectDir - Project root directory
+ * @param logClient - Optional logging client
+ * @returns Promise<number> - How many journaled blockers were fully written
+ * @throws Error if path validation fails
+ */
+export async function replayPendingJournal(
+  sinks: BlockerSink[],
+  config: PluginConfig,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<number> {
+  if (!config.journalFile) return 0
+
+  const { flushedCount } = await flushQueue([], null, sinks, config, projectDir, logClient)
+  return flushedCount
+}
@@ -0,0 +1,32 @@
+/**
+ * JSONL sink
+ *
+ * Appends each blocker as one JSON record per line. Writing to the
+ * configured storeFile keeps the store the markdown view is rebuilt from.
+ *
+ * @module sinks/jsonl
+ */
+
+import type { JsonlSinkConfig, PluginConfig } from '../types'
+import { storeBlocker } from '../utils/blockers-store'
+import type { BlockerSink } from './index'
+
+/**
+ * Creates a JSONL sink
+ *
+ * @param name - Sink name (logs and retry queue)
+ * @param sinkConfig - Sink settings (`path` defaults to config.storeFile)
+ * @param config - Plugin configuration (storeFile, blockersFile)
+ * @returns BlockerSink appending to the JSONL file (no-op when no path is set)
+ */
+export function createJsonlSink(
+  name: string,
+  sinkConfig: JsonlSinkConfig,
+  config: PluginConfig
+): BlockerSink {
+  return {
+    name,
+    write: (blocker, projectDir, logClient) =>
+      storeBlocker(config, blocker, projectDir, logClient, sinkConfig.path ?? config.storeFile),
+  }
+}
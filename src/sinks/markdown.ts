@@ -0,0 +1,33 @@
+/**
+ * Markdown sink
+ *
+ * Renders blockers into the markdown log (BLOCKERS.md by default, or the log
+ * their route picks) using the configured layout and templates.
+ *
+ * @module sinks/markdown
+ */
+
+import type { MarkdownSinkConfig, PluginConfig } from '../types'
+import { renderBlocker } from '../utils/blockers-store'
+import { getBlockersFileFor } from '../utils/routing'
+import type { BlockerSink } from './index'
+
+/**
+ * Creates a markdown sink
+ *
+ * @param name - Sink name (logs and retry queue)
+ * @param sinkConfig - Sink settings (`path` defaults to the blocker's routed log, see utils/routing)
+ * @param config - Plugin configuration (layout, blockersFile, routes)
+ * @returns BlockerSink writing to the markdown log
+ */
+export function createMarkdownSink(
+  name: string,
+  sinkConfig: MarkdownSinkConfig,
+  config: PluginConfig
+): BlockerSink {
+  return {
+    name,
+    write: (blocker, projectDir, logClient) =>
+      renderBlocker(config, blocker, projectDir, logClient, sinkConfig.path ?? getBlockersFileFor(blocker, config)),
+  }
+}
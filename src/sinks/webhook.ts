@@ -0,0 +1,64 @@
+/**
+ * Webhook sink
+ *
+ * POSTs each blocker as JSON to an HTTP endpoint (chat bridges, ticket
+ * systems, dashboards). Body: `{ "type": "blocker", "blocker": { ... } }`.
+ *
+ * Only the host is logged: URLs and headers often carry tokens.
+ *
+ * @module sinks/webhook
+ */
+
+import type { WebhookSinkConfig } from '../types'
+import { logError } from '../utils/logging'
+import type { BlockerSink } from './index'
+
+/**
+ * Default request timeout in milliseconds
+ */
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 5000
+
+/**
+ * Extracts the host of a URL for logging
+ */
+function webhookHost(url: string): string {
+  try {
+    return new URL(url).host
+  } catch {
+    return 'invalid-url'
+  }
+}
+
+/**
+ * Creates a webhook sink
+ *
+ * @param name - Sink name (logs and retry queue)
+ * @param sinkConfig - Sink settings (url, headers, timeoutMs)
+ * @returns BlockerSink posting to the webhook; non-2xx responses count as failures
+ */
+export function createWebhookSink(name: string, sinkConfig: WebhookSinkConfig): BlockerSink {
+  return {
+    name,
+    async write(blocker, _projectDir, logClient) {
+      const details = { sink: name, host: webhookHost(sinkConfig.url), blockerId: blocker.id }
+
+      try {
+        const response = await fetch(sinkConfig.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...sinkConfig.headers },
+          body: JSON.stringify({ type: 'blocker', blocker }),
+          signal: AbortSignal.timeout(sinkConfig.timeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS),
+        })
+
+        if (!response.ok) {
+          await logError(logClient, 'Webhook sink rejected blocker', new Error(`HTTP ${response.status}`), details)
+          return false
+        }
+        return true
+      } catch (error) {
+        await logError(logClient, 'Webhook sink request failed', error as Error, details)
+        return false
+      }
+    },
+  }
+}
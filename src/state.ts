@@ -1,5 +1,24 @@
+import { mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
 import type { SessionState } from './types'
 
+/**
+ * Where session snapshots are kept, relative to the project root
+ */
+export const STATE_DIR = '.opencode/blocker-diverter/state'
+
+/**
+ * How long other state changes are batched before a snapshot is written
+ * (changes to SNAPSHOT_NOW_FIELDS are written at once)
+ */
+export const SNAPSHOT_DELAY_MS = 200
+
+/**
+ * Fields whose changes are snapshotted immediately: losing them to a crash
+ * would drop a session out of autonomous mode or reset its reprompt limit
+ */
+const SNAPSHOT_NOW_FIELDS = ['divertBlockers', 'repromptCount'] as const satisfies ReadonlyArray<keyof SessionState>
+
 /**
  * Internal map storing session state
  * Key: OpenCode session ID
@@ -7,11 +26,195 @@ import type { SessionState } from './types'
  */
 const sessions = new Map<string, SessionState>()
 
+/**
+ * Absolute snapshot directory, or null while persistence is off
+ */
+let stateDir: string | null = null
+
+/**
+ * Snapshots waiting for their delay, by session ID
+ */
+const scheduledSnapshots = new Map<string, ReturnType<typeof setTimeout>>()
+
+/**
+ * SNAPSHOT_NOW_FIELDS as last snapshotted (or rehydrated), by session ID
+ */
+const snapshottedFields = new Map<string, Pick<SessionState, (typeof SNAPSHOT_NOW_FIELDS)[number]>>()
+
+/**
+ * Fields that only make sense within one process's lifetime. They are left
+ * out of snapshots and start from defaults after a restart:
+ * - pendingWrites: the pending journal keeps them, and replays them on startup
+ * - isRecovering, lastMessageContent: about the turn that was interrupted
+ */
+const TRANSIENT_FIELDS = ['pendingWrites', 'isRecovering', 'lastMessageContent'] as const satisfies ReadonlyArray<keyof SessionState>
+
+/**
+ * Session state as written to disk: the Map flattened to entries
+ */
+interface StateSnapshot extends Omit<SessionState, (typeof TRANSIENT_FIELDS)[number] | 'cooldownHashes'> {
+  sessionId: string
+  cooldownHashes: Array<[string, number]>
+}
+
+/**
+ * Persist session state under a project, so an OpenCode crash or restart
+ * mid-run does not drop sessions out of autonomous mode
+ *
+ * Called once by the plugin with the project root; null turns persistence
+ * off (the default, so state stays in memory only).
+ *
+ * @param projectDir - Project root, or null
+ */
+export function configureStatePersistence(projectDir: string | null): void {
+  stateDir = projectDir ? join(projectDir, STATE_DIR) : null
+}
+
+/**
+ * Snapshot file of a session
+ *
+ * @param dir - Snapshot directory
+ * @param sessionId - OpenCode session ID (base64url-encoded, so every ID
+ *   gets its own file name and none can leave the directory)
+ */
+function snapshotPath(dir: string, sessionId: string): string {
+  return join(dir, `${Buffer.from(sessionId).toString('base64url') || '_'}.json`)
+}
+
+/**
+ * Fresh state for a session
+ */
+function createDefaultState(): SessionState {
+  return {
+    enabled: true,
+    divertBlockers: false, // Changed to false: require explicit /blockers.on
+    blockers: [],
+    cooldownHashes: new Map<string, number>(),
+    lastBlockerTime: Date.now(),
+    repromptCount: 0,
+    recentResponseHashes: [],
+    lastRepromptTime: 0,
+    isRecovering: false,
+    pendingWrites: [],
+    lastMessageContent: '',
+    lastAssistantAborted: false,
+    ignoreNextUserMessage: false,
+    completionMarkerDetected: false,
+    lastAssistantMessageID: '',
+    activeAgent: '',
+    activeModel: '',
+    run: null
+  }
+}
+
+/**
+ * Read a session's snapshot back
+ *
+ * Missing, unreadable or foreign snapshots are ignored: the session then
+ * starts from defaults, as it would without persistence.
+ *
+ * @param dir - Snapshot directory
+ * @param sessionId - OpenCode session ID
+ * @returns Rehydrated state, or null
+ */
+function loadSnapshot(dir: string, sessionId: string): SessionState | null {
+  try {
+    const snapshot = JSON.parse(readFileSync(snapshotPath(dir, sessionId), 'utf-8')) as StateSnapshot
+    if (snapshot?.sessionId !== sessionId) {
+      return null
+    }
+
+    const { sessionId: _sessionId, cooldownHashes, ...fields } = snapshot
+    const restored: Partial<SessionState> = { ...fields }
+    for (const field of TRANSIENT_FIELDS) delete restored[field]
+    return {
+      ...createDefaultState(),
+      ...restored,
+      cooldownHashes: new Map(Array.isArray(cooldownHashes) ? cooldownHashes : []),
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Write a session's current state now (temp file, then rename, so a crash
+ * mid-write never leaves a truncated snapshot)
+ *
+ * @param sessionId - OpenCode session ID
+ */
+function writeSnapshot(sessionId: string): void {
+  const state = sessions.get(sessionId)
+  if (!state || !stateDir) {
+    return
+  }
+
+  const fields: Partial<SessionState> = { ...state }
+  for (const field of TRANSIENT_FIELDS) delete fields[field]
+  const snapshot = { sessionId, ...fields, cooldownHashes: [...state.cooldownHashes] }
+  snapshottedFields.set(sessionId, { divertBlockers: state.divertBlockers, repromptCount: state.repromptCount })
+
+  try {
+    const path = snapshotPath(stateDir, sessionId)
+    mkdirSync(stateDir, { recursive: true })
+    writeFileSync(`${path}.${process.pid}.tmp`, JSON.stringify(snapshot), 'utf-8')
+    renameSync(`${path}.${process.pid}.tmp`, path)
+  } catch {
+    // Best effort: the in-memory state stays authoritative for this process
+  }
+}
+
+/**
+ * Snapshot a session after a change
+ *
+ * A change to one of SNAPSHOT_NOW_FIELDS is written at once. Anything else
+ * (cooldowns, message bookkeeping) is batched: changes within
+ * SNAPSHOT_DELAY_MS are written together, off the hot path of the hooks
+ * that made them.
+ *
+ * @param sessionId - OpenCode session ID
+ */
+function saveSnapshot(sessionId: string): void {
+  const state = sessions.get(sessionId)
+  if (!state || !stateDir) {
+    return
+  }
+
+  const snapshotted = snapshottedFields.get(sessionId)
+  if (SNAPSHOT_NOW_FIELDS.some(field => state[field] !== snapshotted?.[field])) {
+    clearTimeout(scheduledSnapshots.get(sessionId))
+    scheduledSnapshots.delete(sessionId)
+    writeSnapshot(sessionId)
+    return
+  }
+
+  if (!scheduledSnapshots.has(sessionId)) {
+    scheduledSnapshots.set(sessionId, setTimeout(() => {
+      scheduledSnapshots.delete(sessionId)
+      writeSnapshot(sessionId)
+    }, SNAPSHOT_DELAY_MS))
+  }
+}
+
+/**
+ * Write every batched snapshot now
+ *
+ * For shutdown, and for tests that read snapshots back.
+ */
+export function flushStateSnapshots(): void {
+  for (const [sessionId, timer] of scheduledSnapshots) {
+    clearTimeout(timer)
+    scheduledSnapshots.delete(sessionId)
+    writeSnapshot(sessionId)
+  }
+}
+
 /**
  * Get session state, creating with defaults if not present
  * 
  * This function implements lazy initialization - if the session ID doesn't exist
- * in the internal map, a new SessionState object is created with default values.
+ * in the internal map, its snapshot is rehydrated (when persistence is on and
+ * one exists), otherwise a new SessionState object is created with default values.
  * Subsequent calls with the same session ID will return the same state object.
  * 
  * @param sessionId - OpenCode session ID
@@ -25,24 +228,9 @@ export function getState(sessionId: string): SessionState {
   let state = sessions.get(sessionId)
   
   if (!state) {
-    state = {
-      enabled: true,
-      divertBlockers: false, // Changed to false: require explicit /blockers.on
-      blockers: [],
-      cooldownHashes: new Map<string, number>(),
-      lastBlockerTime: Date.now(),
-      repromptCount: 0,
-      recentResponseHashes: [],
-      lastRepromptTime: 0,
-      isRecovering: false,
-      pendingWrites: [],
-      lastMessageContent: '',
-      lastAssistantAborted: false,
-      ignoreNextUserMessage: false,
-      completionMarkerDetected: false,
-      lastAssistantMessageID: ''
-    }
+    state = (stateDir ? loadSnapshot(stateDir, sessionId) : null) ?? createDefaultState()
     sessions.set(sessionId, state)
+    snapshottedFields.set(sessionId, { divertBlockers: state.divertBlockers, repromptCount: state.repromptCount })
   }
   
   return state
@@ -54,6 +242,7 @@ export function getState(sessionId: string): SessionState {
  * This function retrieves the session state (auto-initializing if needed) and
  * passes it to the updater function. The updater should mutate the state object
  * in place. This pattern ensures state is always initialized before updates.
+ * With persistence on, a snapshot of it is scheduled afterwards.
  * 
  * @param sessionId - OpenCode session ID
  * @param updater - Function that mutates state in place
@@ -70,12 +259,29 @@ export function updateState(
 ): void {
   const state = getState(sessionId)
   updater(state)
+  saveSnapshot(sessionId)
+}
+
+/**
+ * Snapshot session state after mutating it directly
+ * 
+ * For code that is handed the state object to mutate (run-log, command
+ * handlers); everything else should use updateState.
+ * No-op while persistence is off or the session has no state.
+ * 
+ * @param sessionId - OpenCode session ID
+ */
+export function persistState(sessionId: string): void {
+  if (sessions.has(sessionId)) {
+    saveSnapshot(sessionId)
+  }
 }
 
 /**
  * Remove session state (cleanup on session.deleted)
  * 
- * This function removes the session state from the internal map, freeing memory.
+ * This function removes the session state from the internal map, freeing memory,
+ * and deletes its snapshot.
  * It should be called when a session is deleted to prevent memory leaks.
  * If the session ID doesn't exist, this is a no-op (safe to call multiple times).
  * 
@@ -87,6 +293,16 @@ export function updateState(
  */
 export function cleanupState(sessionId: string): void {
   sessions.delete(sessionId)
+  snapshottedFields.delete(sessionId)
+  clearTimeout(scheduledSnapshots.get(sessionId))
+  scheduledSnapshots.delete(sessionId)
+  if (stateDir) {
+    try {
+      rmSync(snapshotPath(stateDir, sessionId), { force: true })
+    } catch {
+      // Best effort, like saving: a leftover snapshot only matters if the ID is reused
+    }
+  }
 }
 
 /**
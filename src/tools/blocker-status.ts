@@ -0,0 +1,71 @@
+/**
+ * Blocker Status Tool Definition
+ *
+ * Registers the `blocker_status` tool that agents call to record a user's
+ * answer to a logged blocker (e.g. while running /blockers.clarify).
+ * The blocker is found by long or short ID; its store record and its entry
+ * in the log holding it are updated in place (see setBlockerStatus), so
+ * agents never have to hand-edit BLOCKERS.md.
+ *
+ * @module tools/blocker-status
+ */
+
+import { tool, type ToolDefinition } from "@opencode-ai/plugin"
+import type { LogClient } from "../config"
+import type { PluginConfig } from "../types"
+import { logInfo } from "../utils/logging"
+import { setBlockerStatus } from "../utils/blockers-store"
+import { withPackageRootsCache } from "../utils/packages"
+
+/**
+ * Creates the blocker status tool definition for plugin registration
+ *
+ * @param logClient - OpenCode client for structured logging
+ * @param config - Validated plugin configuration
+ * @param worktree - Git worktree root for file path resolution
+ * @returns Tool definition ready for plugin's `tool` property
+ */
+export function createBlockerStatusTool(
+  logClient: LogClient,
+  config: PluginConfig,
+  worktree: string
+): ToolDefinition {
+  return tool({
+    description:
+      "Record the user's answer to a logged blocker: sets its status and clarification in BLOCKERS.md and the blocker store. Use this instead of editing BLOCKERS.md. Returns a confirmation.",
+    args: {
+      id: tool.schema
+        .string()
+        .min(1, "Blocker ID cannot be empty")
+        .describe("Short ID such as B-0142 (b-142 and B0142 work too), or the long ID from the blocker heading"),
+      status: tool.schema
+        .enum(["clarified", "skipped", "pending"])
+        .describe("clarified: the user decided; skipped: the user chose not to answer; pending: reopen it"),
+      clarification: tool.schema
+        .string()
+        .optional()
+        .describe("The user's decision, in their words. Omit to keep the current one"),
+    },
+    async execute(args, context) {
+      const blocker = await withPackageRootsCache(() =>
+        setBlockerStatus(
+          config,
+          args.id,
+          { clarified: args.status, ...(args.clarification !== undefined ? { clarification: args.clarification } : {}) },
+          worktree,
+          logClient
+        )
+      )
+      if (!blocker) {
+        // Thrown so the agent sees it and can correct the ID
+        throw new Error(`No blocker "${args.id}" found (or it could not be updated). Use an ID from BLOCKERS.md.`)
+      }
+
+      await logInfo(logClient, `Blocker ${blocker.shortId ?? blocker.id} marked ${args.status}`, {
+        blockerId: blocker.id,
+        sessionId: context.sessionID,
+      })
+      return `Blocker ${blocker.shortId ?? blocker.id} marked ${args.status}.`
+    },
+  })
+}
@@ -2,53 +2,97 @@
  * Blocker Tool Definition
  *
  * Registers the `blocker` tool that AI agents call to log blocking questions.
- * Handles validation, deduplication, cooldown, file persistence, and state management.
+ * Handles validation (including file references, which must exist inside
+ * the worktree), deduplication (cooldown, recurring questions), persistence
+ * (every configured sink), and state management.
  *
  * Hard blockers (architecture, security, destructive) are logged and require user input.
  * Soft blockers allow the agent to make a default choice and continue working.
+ * Categories, and their default hard/soft and priority, come from utils/categories.
  *
  * @module tools/blocker
  */
 
 import { tool, type ToolDefinition } from "@opencode-ai/plugin"
+import { relative, sep } from "node:path"
+import { stat } from "node:fs/promises"
 import type { LogClient } from "../config"
-import type { PluginConfig, Blocker } from "../types"
-import { BlockerToolArgsSchema } from "../types"
-import { getState } from "../state"
+import type { PluginConfig, Blocker, BlockerFileRef } from "../types"
+import { createBlockerToolArgsSchema } from "../types"
+import { getState, updateState } from "../state"
 import { logInfo, logError } from "../utils/logging"
 import { generateBlockerHash, isInCooldown, addToCooldown } from "../utils/dedupe"
-import { appendBlocker } from "../utils/blockers-file"
+import { createSinks, writeToSinks, flushPendingWrites, queuePendingWrite } from "../sinks"
 import { BLOCKER_RESPONSE_MESSAGE } from "../utils/templates"
+import { allocateShortId } from "../utils/short-id"
+import { checkCategoryLimit } from "../utils/category-limits"
+import { getDefaultPriority } from "../utils/priority"
+import {
+  recordRecurrence,
+  findArchivedRecurrence,
+  findRelatedBlockers,
+  readKnownBlockers,
+  withKnownBlockersCache,
+} from "../utils/blockers-store"
+import { validatePath } from "../utils/blockers-file"
+import { getGitSnapshot, getGitDiff } from "../utils/git"
+import { getAgentCategories, getAgentCategoryNames, getCategory, describeCategory } from "../utils/categories"
+import { findPackageRoot, withPackageRootsCache } from "../utils/packages"
 
-async function flushPendingWrites(
-  logClient: LogClient,
-  config: PluginConfig,
-  worktree: string,
-  state: ReturnType<typeof getState>,
-  sessionId: string
-): Promise<void> {
-  if (state.pendingWrites.length === 0) return
-
-  const queued = [...state.pendingWrites]
-  const remaining: Blocker[] = []
-
-  for (const pending of queued) {
-    const pendingSuccess = await appendBlocker(config.blockersFile, pending, worktree, logClient)
-    if (!pendingSuccess) {
-      remaining.push(pending)
+/**
+ * Diff excerpt size cap when the config does not set one
+ */
+const DEFAULT_DIFF_MAX_BYTES = 4096
+
+/**
+ * Checks the files a blocker refers to and makes their paths project-relative
+ *
+ * @param files - File references as given by the agent
+ * @param worktree - Project root the paths must stay inside
+ * @returns References with worktree-relative, forward-slash paths
+ * @throws Error naming the offending path, so the agent can correct the call
+ */
+async function resolveFileRefs(files: BlockerFileRef[], worktree: string): Promise<BlockerFileRef[]> {
+  const resolved: BlockerFileRef[] = []
+
+  for (const file of files) {
+    let absolutePath: string
+    try {
+      absolutePath = validatePath(file.path, worktree)
+    } catch {
+      throw new Error(`Invalid file reference "${file.path}": path resolves outside the project. Use a path relative to the project root.`)
     }
-  }
 
-  const flushedCount = queued.length - remaining.length
-  state.pendingWrites = remaining
+    const path = relative(worktree, absolutePath).split(sep).join("/")
+    const exists = path !== "" && (await stat(absolutePath).then(() => true, () => false))
+    if (!exists) {
+      throw new Error(`Invalid file reference "${file.path}": no such file in the project. Use a path relative to the project root.`)
+    }
 
-  if (flushedCount > 0) {
-    await logInfo(logClient, 'Flushed queued blocker writes', {
-      sessionId,
-      flushedCount,
-      remainingQueued: remaining.length,
-    })
+    resolved.push({ ...file, path })
   }
+
+  return resolved
+}
+
+/**
+ * Hard/soft default for a blocker whose agent left `blocksProgress` out
+ *
+ * Soft categories, and those leaving it to the agent, only default to soft
+ * when the agent researched options, since a soft blocker without options
+ * would have nothing to choose from.
+ *
+ * @param category - Blocker category
+ * @param options - Options the agent gave, if any
+ * @param config - Plugin configuration (categories)
+ * @returns True for a hard blocker
+ */
+function defaultBlocksProgress(
+  category: string,
+  options: string[] | undefined,
+  config: PluginConfig
+): boolean {
+  return getCategory(category, config)?.blocksProgress === true || !options?.length
 }
 
 /**
@@ -64,30 +108,50 @@ export function createBlockerTool(
   config: PluginConfig,
   worktree: string
 ): ToolDefinition {
+  const sinks = createSinks(config)
+  // Arguments and their validation follow the configured category taxonomy (disabled categories are not offered)
+  const categories = getAgentCategories(config)
+  const argsSchema = createBlockerToolArgsSchema(getAgentCategoryNames(config))
+
   return tool({
     description:
-      "Log a blocker question to BLOCKERS.md and continue with independent tasks. Use for hard blockers (architecture, security, destructive, deployment decisions) or soft blockers with research options. Returns success message.",
+      `Log a blocker question to BLOCKERS.md and continue with independent tasks. Use for hard blockers (${categories.filter(c => c.blocksProgress).map(c => c.name).join(", ")} decisions) or soft blockers with research options. Returns success message.`,
     args: {
       question: tool.schema
         .string()
         .min(1, "Question cannot be empty")
         .describe("The exact blocking question you need answered"),
       category: tool.schema
-        .enum(["architecture", "security", "destructive", "permission", "question", "other"])
-        .describe("Category of the blocker"),
+        .enum(getAgentCategoryNames(config))
+        .describe(`Category of the blocker (default hard/soft and priority in parentheses): ${categories.map(describeCategory).join("; ")}`),
+      priority: tool.schema
+        .enum(["p0", "p1", "p2", "p3"])
+        .optional()
+        .describe(
+          "How urgent the decision is: p0 (critical) to p3 (low). Defaults from the category"
+        ),
       context: tool.schema
         .string()
         .optional()
         .default("")
         .describe(
-          "STRUCTURED context (required for quality): Task reference/ID, what you were doing (specific action), where you got stuck (file paths with line numbers, commands), and progress made before hitting blocker. Example: 'Task: #3 \"Add auth\" | Action: JWT validation setup | Files: src/auth.ts:45 | Progress: Middleware skeleton done | Blocker: RS256 vs HS256 choice'"
+          "STRUCTURED context (required for quality): Task reference/ID, what you were doing (specific action), where you got stuck (commands, errors), and progress made before hitting blocker. Put file paths in `files`. Example: 'Task: #3 \"Add auth\" | Action: JWT validation setup | Progress: Middleware skeleton done | Blocker: RS256 vs HS256 choice'"
         ),
+      files: tool.schema
+        .array(
+          tool.schema.object({
+            path: tool.schema.string().min(1).describe("File path relative to the project root"),
+            line: tool.schema.number().int().min(1).optional().describe("First relevant line"),
+            endLine: tool.schema.number().int().min(1).optional().describe("Last relevant line, for a range"),
+          })
+        )
+        .optional()
+        .describe("Files the blocker is about, e.g. [{ path: 'src/auth.ts', line: 45, endLine: 52 }]. Paths must exist in the project"),
       blocksProgress: tool.schema
         .boolean()
         .optional()
-        .default(true)
         .describe(
-          "True if this completely halts progress (hard blocker), false if you can make a default choice (soft blocker)"
+          "True if this completely halts progress (hard blocker), false if you can make a default choice (soft blocker). Defaults from the category"
         ),
       options: tool.schema
         .array(tool.schema.string())
@@ -103,86 +167,151 @@ export function createBlockerTool(
         .describe("For soft blockers: why you chose this option"),
     },
     async execute(args, context) {
-      // Validate args with our stricter Zod schema (includes refinements)
-      const parseResult = BlockerToolArgsSchema.safeParse(args)
-      if (!parseResult.success) {
-        throw new Error(`Invalid blocker tool arguments: ${parseResult.error.message}`)
-      }
+      // Every log read below shares one scan of the package roots, and the
+      // lookups before the blocker is written share one read of the blockers
+      return withPackageRootsCache(() => withKnownBlockersCache(async () => {
+        // Validate args with our stricter Zod schema (includes refinements)
+        const parseResult = argsSchema.safeParse(args)
+        if (!parseResult.success) {
+          throw new Error(`Invalid blocker tool arguments: ${parseResult.error.message}`)
+        }
+
+        const validatedArgs = parseResult.data
+        const files = validatedArgs.files ? await resolveFileRefs(validatedArgs.files, worktree) : []
 
-      const validatedArgs = parseResult.data
+        // Get session ID from context (OpenCode provides this)
+        const sessionId = context.sessionID
 
-      // Get session ID from context (OpenCode provides this)
-      const sessionId = context.sessionID
+        // Tool must remain usable regardless of /blockers on/off state.
+        const state = getState(sessionId)
 
-      // Tool must remain usable regardless of /blockers on/off state.
-      const state = getState(sessionId)
+        // Check deduplication cooldown
+        const hash = await generateBlockerHash(validatedArgs.question, validatedArgs.context)
 
-      // Check deduplication cooldown
-      const hash = await generateBlockerHash(validatedArgs.question, validatedArgs.context)
+        if (isInCooldown(hash, state)) {
+          await logInfo(logClient, `Duplicate blocker skipped (cooldown): ${validatedArgs.question}`, {
+            sessionId,
+            category: validatedArgs.category,
+          })
+          return BLOCKER_RESPONSE_MESSAGE
+        }
 
-      if (isInCooldown(hash, state)) {
-        await logInfo(logClient, `Duplicate blocker skipped (cooldown): ${validatedArgs.question}`, {
+        // Same (or, in merge mode, nearly the same) question still unanswered on disk:
+        // count it there instead of logging a duplicate
+        const recurring = await recordRecurrence(config, validatedArgs.question, worktree, logClient)
+        if (recurring) {
+          updateState(sessionId, s => addToCooldown(hash, s, config, validatedArgs.category))
+          await logInfo(logClient, `Recurring blocker: ${recurring.shortId ?? recurring.id} seen ${recurring.occurrences} times`, {
+            blockerId: recurring.id,
+            sessionId,
+            occurrences: recurring.occurrences,
+          })
+          return BLOCKER_RESPONSE_MESSAGE
+        }
+
+        // Check the category's limits, then max blockers limit
+        const limit = checkCategoryLimit(validatedArgs.category, state, config)
+        if (!limit.allowed) {
+          if (limit.reason === 'disabled') {
+            await logInfo(logClient, `Blocker skipped (category disabled): ${validatedArgs.category}`, {
+              sessionId,
+              category: validatedArgs.category,
+            })
+          } else {
+            await logInfo(
+              logClient,
+              limit.reason === 'category-max'
+                ? `Max ${validatedArgs.category} blockers reached (${limit.count}/${limit.max})`
+                : `Max blockers reached (${limit.count}/${limit.max})`,
+              { sessionId, category: validatedArgs.category, currentCount: limit.count, maxBlockers: limit.max }
+            )
+          }
+          return BLOCKER_RESPONSE_MESSAGE
+        }
+
+        // Same question left unanswered before the last rotation: logged again, with its count carried over
+        const previous = await findArchivedRecurrence(config, validatedArgs.question, worktree, logClient)
+
+        // Create blocker from validated args (logged without a short ID if the counter is unavailable)
+        const related = await findRelatedBlockers(config, validatedArgs.question, worktree, logClient)
+        // Code state the question was asked against, before this blocker writes anything (skipped outside a git repository)
+        const git = config.gitSnapshot ? await getGitSnapshot(worktree) : null
+        const diff = config.diffExcerpt
+          ? await getGitDiff(worktree, files.map(file => file.path), config.diffMaxBytes ?? DEFAULT_DIFF_MAX_BYTES)
+          : null
+        // Monorepo package the referenced files live in, whose log gets the blocker
+        const pkg = config.packageLogs && files.length > 0
+          ? await findPackageRoot(files.map(file => file.path), worktree, config.packageRoots ?? [])
+          : null
+        const shortId = await allocateShortId(worktree, logClient, () => readKnownBlockers(config, worktree, logClient))
+        const timestamp = new Date().toISOString()
+        const blocker: Blocker = {
+          id: `${Date.now()}-${sessionId}-${hash.substring(0, 6)}`,
+          ...(shortId ? { shortId } : {}),
+          timestamp,
           sessionId,
           category: validatedArgs.category,
-        })
-        return BLOCKER_RESPONSE_MESSAGE
-      }
-
-      // Check max blockers limit
-      if (state.blockers.length >= config.maxBlockersPerRun) {
-        await logInfo(
-          logClient,
-          `Max blockers reached (${state.blockers.length}/${config.maxBlockersPerRun})`,
-          { sessionId, currentCount: state.blockers.length, maxBlockers: config.maxBlockersPerRun }
-        )
-        return BLOCKER_RESPONSE_MESSAGE
-      }
-
-      // Create blocker from validated args
-      const blocker: Blocker = {
-        id: `${Date.now()}-${sessionId}-${hash.substring(0, 6)}`,
-        timestamp: new Date().toISOString(),
-        sessionId,
-        category: validatedArgs.category,
-        question: validatedArgs.question,
-        context: validatedArgs.context,
-        blocksProgress: validatedArgs.blocksProgress,
-        options: validatedArgs.options,
-        chosenOption: validatedArgs.chosenOption,
-        chosenReasoning: validatedArgs.chosenReasoning,
-      }
-
-      // Try to write to file (one immediate retry for transient failures)
-      let success = await appendBlocker(config.blockersFile, blocker, worktree, logClient)
-
-      if (!success) {
-        success = await appendBlocker(config.blockersFile, blocker, worktree, logClient)
-      }
-
-      if (success) {
-        // Add to session state
-        state.blockers.push(blocker)
-        addToCooldown(hash, state, config)
-
-        await flushPendingWrites(logClient, config, worktree, state, sessionId)
-
-        await logInfo(logClient, `Blocker logged: ${validatedArgs.question}`, {
-          blockerId: blocker.id,
-          category: validatedArgs.category,
-          sessionId,
-        })
-      } else {
-        // Failed to write - queue for retry (FR-024)
-        state.pendingWrites.push(blocker)
+          priority: validatedArgs.priority ?? getDefaultPriority(validatedArgs.category, config),
+          question: validatedArgs.question,
+          context: validatedArgs.context,
+          blocksProgress: validatedArgs.blocksProgress ?? defaultBlocksProgress(validatedArgs.category, validatedArgs.options, config),
+          options: validatedArgs.options,
+          chosenOption: validatedArgs.chosenOption,
+          chosenReasoning: validatedArgs.chosenReasoning,
+          ...(previous ? { occurrences: (previous.occurrences ?? 1) + 1, lastSeen: timestamp } : {}),
+          ...(related.length > 0 ? { related } : {}),
+          ...(files.length > 0 ? { files } : {}),
+          ...(git ? { git } : {}),
+          ...(diff ? { diff } : {}),
+          ...(context.agent || state.activeAgent ? { agent: context.agent || state.activeAgent } : {}),
+          ...(state.activeModel ? { model: state.activeModel } : {}),
+          ...(context.messageID ? { messageId: context.messageID } : {}),
+          ...(pkg ? { package: pkg } : {}),
+        }
 
-        await logError(logClient, "Failed to log blocker to file, queued for retry", new Error("appendBlocker returned false"), {
-          blockerId: blocker.id,
-          sessionId,
-          queueLength: state.pendingWrites.length,
-        })
-      }
+        // Fan out to every sink (one immediate retry of the failed ones for transient failures)
+        let failed = await writeToSinks(sinks, blocker, config, worktree, logClient)
+
+        if (failed.length > 0) {
+          failed = await writeToSinks(
+            sinks.filter(sink => failed.includes(sink.name)),
+            blocker,
+            config,
+            worktree,
+            logClient
+          )
+        }
 
-      return BLOCKER_RESPONSE_MESSAGE
+        if (failed.length < sinks.length) {
+          // At least one sink has it: the blocker counts as logged
+          updateState(sessionId, s => {
+            s.blockers.push(blocker)
+            addToCooldown(hash, s, config, blocker.category)
+          })
+        }
+
+        if (failed.length === 0) {
+          await flushPendingWrites(state, sessionId, sinks, config, worktree, logClient)
+
+          await logInfo(logClient, `Blocker logged: ${validatedArgs.question}`, {
+            blockerId: blocker.id,
+            category: validatedArgs.category,
+            sessionId,
+          })
+        } else {
+          // Failed sinks are queued for retry (FR-024), journaled to survive restarts
+          await queuePendingWrite(state, blocker, failed, config, worktree, logClient)
+
+          await logError(logClient, "Failed to write blocker to some sinks, queued for retry", new Error(`Failed sinks: ${failed.join(", ")}`), {
+            blockerId: blocker.id,
+            sessionId,
+            failedSinks: failed,
+            queueLength: state.pendingWrites.length,
+          })
+        }
+
+        return BLOCKER_RESPONSE_MESSAGE
+      }))
     },
   })
 }
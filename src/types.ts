@@ -14,52 +14,120 @@ import { z } from 'zod'
 export type { Plugin }
 
 /**
- * Zod schema for blocker tool arguments
+ * Categories every project has; `config.categories` can describe more
+ * (see utils/categories)
+ */
+export const BUILTIN_CATEGORIES = [
+  'permission',
+  'architecture',
+  'security',
+  'destructive',
+  'deployment',
+  'question',
+  'other',
+] as const
+
+/**
+ * Builds the Zod schema for blocker tool arguments
  * Validates arguments passed by AI agents when calling the blocker tool
  * 
  * Implements FR-003: Full blocker schema with soft blocker support
+ * 
+ * @param categories - Accepted category names (from utils/categories)
+ * @returns Schema; `blocksProgress` is left unset when omitted so the category default applies
  */
-export const BlockerToolArgsSchema = z.object({
-  question: z.string().min(1, "Question cannot be empty"),
-  category: z.enum(['architecture', 'security', 'destructive', 'permission', 'question', 'other']),
-  context: z.string().optional().default(""),
-  blocksProgress: z.boolean().default(true),
-  options: z.array(z.string()).optional(),
-  chosenOption: z.string().optional(),
-  chosenReasoning: z.string().optional()
-}).refine(
-  (data) => {
-    // If it's a soft blocker (blocksProgress=false), require options
-    if (data.blocksProgress === false && (!data.options || data.options.length === 0)) {
-      return false
-    }
-    // If chosenOption is provided, it must be in options array
-    if (data.chosenOption && data.options && !data.options.includes(data.chosenOption)) {
-      return false
+export function createBlockerToolArgsSchema(categories: readonly [string, ...string[]]) {
+  return z.object({
+    question: z.string().min(1, "Question cannot be empty"),
+    category: z.enum(categories as [string, ...string[]]),
+    priority: z.enum(['p0', 'p1', 'p2', 'p3']).optional(),
+    context: z.string().optional().default(""),
+    files: z.array(
+      z.object({
+        path: z.string().min(1, "File path cannot be empty"),
+        line: z.number().int().min(1).optional(),
+        endLine: z.number().int().min(1).optional(),
+      }).refine(
+        (file) => file.endLine === undefined || (file.line !== undefined && file.endLine >= file.line),
+        { message: "endLine requires line and must not be before it" }
+      )
+    ).optional(),
+    blocksProgress: z.boolean().optional(),
+    options: z.array(z.string()).optional(),
+    chosenOption: z.string().optional(),
+    chosenReasoning: z.string().optional()
+  }).refine(
+    (data) => {
+      // If it's a soft blocker (blocksProgress=false), require options
+      if (data.blocksProgress === false && (!data.options || data.options.length === 0)) {
+        return false
+      }
+      // If chosenOption is provided, it must be in options array
+      if (data.chosenOption && data.options && !data.options.includes(data.chosenOption)) {
+        return false
+      }
+      return true
+    },
+    {
+      message: "Soft blockers (blocksProgress=false) must include options array. If chosenOption is provided, it must be in the options array."
     }
-    return true
-  },
-  {
-    message: "Soft blockers (blocksProgress=false) must include options array. If chosenOption is provided, it must be in the options array."
-  }
-)
+  )
+}
+
+/**
+ * Blocker tool arguments schema for the built-in categories
+ */
+export const BlockerToolArgsSchema = createBlockerToolArgsSchema(BUILTIN_CATEGORIES)
 
 export type BlockerToolArgs = z.infer<typeof BlockerToolArgsSchema>
 
+/**
+ * Built-in blocker category
+ */
+export type BuiltinCategory = typeof BUILTIN_CATEGORIES[number]
+
 /**
  * Blocker category classification
  * 
  * Used to categorize different types of blockers for prioritization
- * and handling strategies.
+ * and handling strategies. One of the built-in categories, or one defined
+ * in `config.categories`.
+ */
+export type BlockerCategory = BuiltinCategory | (string & {})
+
+/**
+ * Blocker priority, from p0 (most urgent) to p3
+ * 
+ * Defaults by category when the agent gives none (see utils/priority).
+ */
+export type BlockerPriority = 'p0' | 'p1' | 'p2' | 'p3'
+
+/**
+ * File (or line range) a blocker is about
+ * 
+ * Paths are relative to the project root, with forward slashes.
+ */
+export interface BlockerFileRef {
+  path: string
+  /** First line (1-based) */
+  line?: number
+  /** Last line of a range, inclusive */
+  endLine?: number
+}
+
+/**
+ * Code state of the repository when a blocker was logged
  */
-export type BlockerCategory = 
-  | 'permission'    // Permission dialogs (bash, edit, external_directory)
-  | 'architecture'  // High-level design decisions
-  | 'security'      // Security-sensitive operations
-  | 'destructive'   // Potentially destructive operations (delete, truncate)
-  | 'deployment'    // Deployment configuration
-  | 'question'      // General conversational questions
-  | 'other'         // Uncategorized blockers
+export interface GitSnapshot {
+  /** Checked-out branch ('HEAD' when detached) */
+  branch: string
+  /** Full SHA of the HEAD commit */
+  head: string
+  /** Uncommitted (modified, staged or untracked) paths, relative to the repository root; capped */
+  dirty: string[]
+  /** Number of uncommitted paths, including those beyond the cap */
+  dirtyCount: number
+}
 
 /**
  * Core blocker entity
@@ -74,6 +142,12 @@ export interface Blocker {
    */
   id: string
 
+  /** 
+   * Short, project-wide sequential ID for humans (e.g. "B-0142")
+   * Accepted wherever a blocker is referenced; `id` stays the internal key
+   */
+  shortId?: string
+
   /** 
    * ISO 8601 timestamp of when the blocker occurred
    * Example: "2026-02-12T10:00:00Z"
@@ -135,6 +209,194 @@ export interface Blocker {
    * Stored after user reviews the blocker
    */
   clarification?: string
+
+  /** 
+   * How often this (unresolved) blocker has been logged across runs
+   * Absent means once; re-logging the same question bumps it instead of adding an entry
+   */
+  occurrences?: number
+
+  /** 
+   * ISO 8601 timestamp of the most recent time the blocker was logged again
+   */
+  lastSeen?: string
+
+  /**
+   * How urgent the decision is, p0 (most urgent) to p3
+   * Absent on blockers logged before priorities existed; ranked by category then
+   */
+  priority?: BlockerPriority
+
+  /**
+   * Blockers already on disk asking nearly the same question (short IDs, or
+   * long IDs for blockers without one), best match first
+   */
+  related?: string[]
+
+  /**
+   * Files the blocker is about, checked to exist inside the project when logged
+   */
+  files?: BlockerFileRef[]
+
+  /**
+   * Branch, HEAD commit and uncommitted files at the time the blocker was logged
+   */
+  git?: GitSnapshot
+
+  /**
+   * Uncommitted changes to the referenced files when the blocker was logged
+   * (`git diff HEAD`, capped at `diffMaxBytes`)
+   */
+  diff?: string
+
+  /**
+   * Agent that logged the blocker (e.g. "build")
+   */
+  agent?: string
+
+  /**
+   * Model active when the blocker was logged, as "providerID/modelID"
+   */
+  model?: string
+
+  /**
+   * ID of the assistant message whose tool call produced the blocker
+   */
+  messageId?: string
+
+  /**
+   * Monorepo package the referenced files belong to (project-relative
+   * directory, e.g. "packages/api"); the blocker is logged in its BLOCKERS.md
+   */
+  package?: string
+}
+
+/**
+ * New status of a logged blocker, and optionally the answer that settles it
+ */
+export interface BlockerStatusUpdate {
+  clarified: NonNullable<Blocker['clarified']>
+  /** Replaces the blocker's clarification; omit to keep the current one */
+  clarification?: string
+}
+
+/**
+ * What to do with a new blocker whose question is close to one already logged
+ * - link: log it, listing the similar blockers under `related`
+ * - merge: count it as another occurrence of the closest unresolved blocker
+ * - off: only exact repeats are detected
+ */
+export type NearDuplicateMode = 'link' | 'merge' | 'off'
+
+/**
+ * Layout of the blockers markdown file
+ * - entries: one template-rendered entry per blocker, appended in order
+ * - checklist: `- [ ]` items grouped under Hard blockers / Soft decisions (FR-005/FR-027)
+ */
+export type BlockersLayout = 'entries' | 'checklist'
+
+/**
+ * One blocker category in `config.categories`: how agents should use it,
+ * and limits overriding the run-wide ones
+ */
+export interface CategoryConfig {
+  /** What the category is for (shown to agents) */
+  description?: string
+  /** Whether blockers of this category block progress unless the agent says otherwise */
+  blocksProgress?: boolean
+  /** Priority of blockers of this category unless the agent sets one */
+  priority?: BlockerPriority
+  /** Blockers of this category per run (replaces maxBlockersPerRun); null for no limit */
+  max?: number | null
+  /** Dedupe cooldown for this category (replaces cooldownMs) */
+  cooldownMs?: number
+  /** false drops blockers of this category without logging them */
+  enabled?: boolean
+}
+
+/**
+ * Blocker destination: the markdown log (view rendered from the store)
+ * `path` defaults to config.blockersFile
+ */
+export interface MarkdownSinkConfig {
+  type: 'markdown'
+  name?: string
+  path?: string
+}
+
+/**
+ * Blocker destination: JSONL store, one full record per line
+ * `path` defaults to config.storeFile
+ */
+export interface JsonlSinkConfig {
+  type: 'jsonl'
+  name?: string
+  path?: string
+}
+
+/**
+ * Blocker destination: HTTP endpoint receiving `{ type: 'blocker', blocker }` as JSON
+ */
+export interface WebhookSinkConfig {
+  type: 'webhook'
+  name?: string
+  url: string
+  headers?: Record<string, string>
+  /** Request timeout in milliseconds */
+  timeoutMs?: number
+}
+
+/**
+ * Configured blocker destination
+ */
+export type SinkConfig = MarkdownSinkConfig | JsonlSinkConfig | WebhookSinkConfig
+
+/**
+ * Routing rule sending matching blockers to their own markdown log
+ * A blocker matches when it meets every condition given
+ */
+export interface BlockerRoute {
+  /** Log to render matching blockers into (relative to project root) */
+  file: string
+  /** Categories the route takes */
+  categories?: BlockerCategory[]
+  /** Priorities the route takes */
+  priorities?: BlockerPriority[]
+  /** true takes hard blockers only, false soft decisions only */
+  blocksProgress?: boolean
+}
+
+/**
+ * Blocker queued for retry (FR-024)
+ * `sinks` lists the sinks that still need it; absent means all sinks
+ */
+export interface PendingWrite extends Blocker {
+  sinks?: string[]
+}
+
+/**
+ * How an autonomous run ended (written to the run footer)
+ * - completed: agent said the completion marker
+ * - max-reprompts: continuation prompt limit reached
+ * - stopped: user stopped the run (/blockers.off, /blockers.stop, Esc+Esc or manual takeover)
+ */
+export type RunOutcome = 'completed' | 'max-reprompts' | 'stopped'
+
+/**
+ * An autonomous run in progress
+ * 
+ * Started by /blockers.on, finished when the run ends. Used to write the
+ * run footer with the blockers logged since the header.
+ */
+export interface RunInfo {
+  /** ISO 8601 start time (also shown in the run header) */
+  startedAt: string
+
+  /** Session that started the run */
+  sessionId: string
+
+  /** Length of SessionState.blockers when the run started */
+  blockersAtStart: number
 }
 
 /**
@@ -196,9 +458,9 @@ export interface SessionState {
 
   /**
    * Pending write queue for failed blocker writes (FR-024)
-   * Blockers that failed to write to file are queued here for retry
+   * Blockers that failed to reach one or more sinks are queued here for retry
    */
-  pendingWrites: Blocker[]
+  pendingWrites: PendingWrite[]
 
   /**
    * Last assistant message content (for completion marker detection)
@@ -244,6 +506,22 @@ export interface SessionState {
    * (and ignore user text parts that may also contain completion marker text).
    */
   lastAssistantMessageID: string
+
+  /**
+   * Agent of the latest chat.message in this session ('' until one arrives)
+   */
+  activeAgent: string
+
+  /**
+   * Model of the latest chat.message, as "providerID/modelID" ('' until one arrives)
+   */
+  activeModel: string
+
+  /**
+   * Autonomous run in progress, or null when no run is active.
+   * Set when /blockers.on writes the run header, cleared when the footer is written.
+   */
+  run: RunInfo | null
 }
 
 /**
@@ -268,6 +546,23 @@ export interface PluginConfig {
    */
   blockersFile: string
 
+  /** 
+   * Path to the structured JSONL blocker store (relative to project root)
+   * One full Blocker record per line; BLOCKERS.md is rendered from it.
+   * When omitted, blockers are written to the markdown log only.
+   * Example: ".opencode/blockers.jsonl"
+   */
+  storeFile?: string
+
+  /** 
+   * Path to the pending write journal (relative to project root)
+   * Blocker writes that failed on some sinks are kept here until they are
+   * retried successfully, so they survive an OpenCode restart.
+   * When omitted, the retry queue lives in memory only.
+   * Example: ".opencode/blocker-diverter/pending.jsonl"
+   */
+  journalFile?: string
+
   /** 
    * Maximum number of blockers to log per session
    * Prevents unbounded log growth
@@ -293,8 +588,8 @@ export interface PluginConfig {
   repromptWindowMs: number
 
   /** 
-   * Marker string appended to blockers file on session completion
-   * Used to demarcate session boundaries in the log
+   * Marker the agent says when all work is done
+   * Ends the run: the run footer is written to the blockers file
    */
   completionMarker: string
 
@@ -303,4 +598,103 @@ export interface PluginConfig {
    * Prevents hanging indefinitely when injecting continuation prompts
    */
   promptTimeoutMs: number
+
+  /** 
+   * Directory for rotated blocker files (relative to project root)
+   * When omitted, archives are written next to the blockers file
+   */
+  archiveDir?: string
+
+  /** 
+   * Number of archives to keep; the oldest are deleted beyond this
+   * When omitted, all archives are kept
+   */
+  maxArchives?: number
+
+  /** 
+   * Rotate the blockers file once it holds this many entries
+   * When omitted, the log is never rotated by entry count
+   */
+  rotateMaxEntries?: number
+
+  /** 
+   * Rotate the blockers file once it reaches this size in bytes
+   * When omitted, the log is never rotated by size
+   */
+  rotateMaxBytes?: number
+
+  /** 
+   * Archive the previous log when /blockers.on starts a new run
+   */
+  rotateOnRunStart?: boolean
+
+  /**
+   * Layout of the blockers file: 'entries' (default) or 'checklist'
+   * In checklist layout, ticking a box resolves the blocker
+   */
+  layout?: BlockersLayout
+
+  /**
+   * Per-category limits, keyed by category
+   * Example: { "architecture": { "max": 5 }, "permission": { "max": null } }
+   */
+  categories?: Partial<Record<string, CategoryConfig>>
+
+  /**
+   * Routing of blockers to other markdown logs, first match wins
+   * Blockers matching no route stay in blockersFile
+   * Example: [{ "categories": ["security", "destructive"], "file": "SECURITY-REVIEW.md" }]
+   */
+  routes?: BlockerRoute[]
+
+  /**
+   * Log blockers that reference files in the BLOCKERS.md of the package
+   * holding them (nearest package root below the project root)
+   */
+  packageLogs?: boolean
+
+  /**
+   * Globs of package directories (e.g. "packages/*")
+   * When omitted or empty, any directory with a package.json is a package root
+   */
+  packageRoots?: string[]
+
+  /**
+   * Keep a "read this first" index of unresolved blockers, most urgent
+   * first, at the top of the blockers file (entries and checklist layouts)
+   */
+  priorityIndex?: boolean
+
+  /**
+   * Record the branch, HEAD commit and uncommitted files with each blocker
+   * logged by the blocker tool
+   */
+  gitSnapshot?: boolean
+
+  /**
+   * Attach the uncommitted diff of the blocker's referenced files
+   */
+  diffExcerpt?: boolean
+
+  /**
+   * Size cap of the attached diff in bytes
+   */
+  diffMaxBytes?: number
+
+  /**
+   * Handling of near-duplicate questions: 'link' (default), 'merge' or 'off'
+   * When omitted, only exact repeats are detected
+   */
+  nearDuplicates?: NearDuplicateMode
+
+  /**
+   * Minimum similarity (0–1) for two questions to count as near-duplicates
+   */
+  similarityThreshold?: number
+
+  /**
+   * Destinations every blocker is written to, in order
+   * When omitted, blockers go to the JSONL store and then the markdown log
+   */
+  sinks?: SinkConfig[]
 }
@@ -3,42 +3,125 @@
  * 
  * Provides secure, async file operations for the blockers.md log file:
  * - Append blocker entries (markdown format)
+ * - Insert checklist items into Hard blockers / Soft decisions sections
+ * - Append free-form sections (run headers and footers)
  * - Count existing blockers (for rotation logic)
- * - Rotate file when max count exceeded
+ * - Rotate file into an archive directory when entry/size limits are hit
+ * - Read existing entries back into Blocker objects
+ * - Update a blocker's status and clarification in place
+ * - Regenerate the whole file from a list of blockers (store view)
  * - Load custom blocker templates from .opencode/BLOCKERS.template.md
+ *   (or .opencode/BLOCKERS.<category>.template.md per category)
  * 
  * All operations include path validation to prevent directory traversal attacks.
+ * Every write and rotation holds the file's cross-process lock (utils/file-lock),
+ * so concurrent sessions never interleave entries or rotate mid-append, and
+ * records the file's fingerprint so edits made by people in between are
+ * noticed (utils/external-edits).
  * Graceful error handling ensures file I/O failures don't crash the plugin.
  * 
  * @module utils/blockers-file
  */
 
-import { resolve, dirname, basename, relative, isAbsolute, sep, normalize, join } from 'node:path'
-import { appendFile, rename, mkdir, readFile } from 'node:fs/promises'
-import type { Blocker } from '../types'
+import { resolve, dirname, basename, extname, relative, isAbsolute, sep, normalize, join } from 'node:path'
+import { appendFile, copyFile, rename, mkdir, readFile, writeFile, readdir, unlink } from 'node:fs/promises'
+import type { Blocker, BlockersLayout, BlockerStatusUpdate, PluginConfig } from '../types'
 import { logError } from './logging'
+import {
+  parseBlockersMarkdown,
+  parseChecklistMarkdown,
+  extractPreamble,
+  findBlockerLines,
+  CHECKLIST_HARD_HEADING,
+  CHECKLIST_SOFT_HEADING,
+  RUN_FOOTER_HEADING,
+  RUN_HEADER_HEADING,
+} from './blockers-parser'
+import { compileTemplate, SafeString, type CompiledTemplate } from './template-engine'
 import type { LogClient } from '../config'
+import { withFileLock } from './file-lock'
+import { trackWrite, forgetLog } from './external-edits'
+import { renderPriorityIndex, replacePriorityIndex } from './priority'
+import { getCategoryNames } from './categories'
+import { formatFileLink } from './file-refs'
+import { getPluginFilePath } from './project-dir'
 
 /**
  * Default blocker template (used when custom template not found)
- * Uses simple {{variable}} syntax for replacement
+ * Written in the template-engine syntax ({{#if}}, {{#each}}, helpers)
  */
 const DEFAULT_TEMPLATE = `
 ## Blocker #{{id}}
+{{#if shortId}}
+**ID:** {{shortId}}  
+{{/if}}
 **Timestamp:** {{timestamp}}  
 **Session:** {{sessionId}}  
+{{#if agent}}
+**Agent:** {{agent}}  
+{{/if}}
+{{#if model}}
+**Model:** {{model}}  
+{{/if}}
+{{#if messageId}}
+**Message:** {{messageId}}  
+{{/if}}
+{{#if priority}}
+**Priority:** {{priority}}  
+{{/if}}
 **Category:** {{category}}
 
 ### Question
 {{question}}
 
 ### Context
-{{context}}
+{{default context "No additional context"}}
 
-{{optionsSection}}
-{{chosenSection}}
+{{#if files}}
+### Files
+{{#each fileLinks}}
+- {{this}}
+{{/each}}
 
+{{/if}}
+{{#if git}}
+### Code State
+Branch: {{git.branch}}  
+Commit: {{git.head}}  
+{{#if git.dirtyCount}}
+Uncommitted: {{git.dirtyCount}} ({{join git.dirty ", "}})  
+{{/if}}
+
+{{/if}}
+{{#if diff}}
+### Uncommitted Diff
+{{diffBlock}}
+
+{{/if}}
+{{#if options}}
+### Options Considered
+{{#each options}}
+{{add @index 1}}. {{this}}
+{{/each}}
+
+{{/if}}
+{{#if chosenOption}}
+### Chosen Option
+{{chosenOption}}
+
+{{#if chosenReasoning}}
+### Reasoning
+{{chosenReasoning}}
+
+{{/if}}
+{{/if}}
 ### Additional Info
+{{#if (gt occurrences 1)}}
+Occurrences: {{occurrences}} (last seen {{lastSeen}})  
+{{/if}}
+{{#if related}}
+Related: {{join related ", "}}  
+{{/if}}
 Blocks Progress: {{blocksProgress}}
 
 ---
@@ -46,74 +129,133 @@ Blocks Progress: {{blocksProgress}}
 
 /**
  * Cache for loaded template to avoid repeated file reads
- * Key: projectDir, Value: template string
+ * Key: projectDir + category, Value: template string
  */
 let templateCache: Map<string, string> = new Map()
 
+/**
+ * Cache for compiled templates
+ * Key: template source, Value: render function
+ */
+let compiledCache: Map<string, CompiledTemplate> = new Map()
+
 /**
  * Clears the template cache (for testing)
  */
 export function clearTemplateCache(): void {
   templateCache.clear()
+  compiledCache.clear()
 }
 
 /**
- * Loads blocker template from .opencode/BLOCKERS.template.md
+ * Compiles a template, reusing earlier compilations of the same source
+ *
+ * @param template - Template source
+ * @returns Render function
+ * @throws TemplateError if the template is malformed
+ */
+function getCompiledTemplate(template: string): CompiledTemplate {
+  let compiled = compiledCache.get(template)
+  if (!compiled) {
+    compiled = compileTemplate(template)
+    compiledCache.set(template, compiled)
+  }
+  return compiled
+}
+
+/**
+ * Matches per-category template file names, capturing the category
+ * e.g. "BLOCKERS.security.template.md" → "security"
+ */
+const CATEGORY_TEMPLATE_PATTERN = /^BLOCKERS\.([\w-]+)\.template\.md$/
+
+/**
+ * Reads a template file and checks that it compiles
  * 
- * Attempts to read custom template from project's .opencode directory.
- * Falls back to DEFAULT_TEMPLATE if file not found or read error.
- * Results are cached per projectDir for performance.
+ * @param templatePath - Absolute path to the template file
+ * @param logClient - Optional OpenCode client for logging template errors
+ * @returns Promise<string | null> - Template source, or null if missing or malformed
+ */
+async function readTemplateFile(templatePath: string, logClient?: LogClient): Promise<string | null> {
+  let content: string
+  try {
+    content = await readFile(templatePath, 'utf-8')
+  } catch {
+    // File not found or read error
+    return null
+  }
+
+  try {
+    getCompiledTemplate(content)
+    return content
+  } catch (error) {
+    await logError(logClient, 'Invalid blocker template, skipping', error as Error, { templatePath })
+    return null
+  }
+}
+
+/**
+ * Loads blocker template for a category
+ * 
+ * Looks in the project's .opencode directory, most specific first:
+ * 1. BLOCKERS.<category>.template.md (e.g. BLOCKERS.security.template.md)
+ * 2. BLOCKERS.template.md
+ * 3. DEFAULT_TEMPLATE
+ * 
+ * Missing files and templates that don't compile (unclosed block, unknown
+ * helper) fall through to the next candidate.
+ * Results are cached per projectDir and category for performance.
  * 
  * @param projectDir - Project root directory
- * @returns Promise<string> - Template content with {{variable}} placeholders
+ * @param category - Blocker category (omit for the generic template)
+ * @param logClient - Optional OpenCode client for logging template errors
+ * @returns Promise<string> - Template source
  */
-async function loadTemplate(projectDir: string): Promise<string> {
+async function loadTemplate(projectDir: string, category?: string, logClient?: LogClient): Promise<string> {
   // Check cache first
-  const cached = templateCache.get(projectDir)
+  const cacheKey = `${projectDir}\0${category ?? ''}`
+  const cached = templateCache.get(cacheKey)
   if (cached !== undefined) {
     return cached
   }
 
-  // Try to load custom template
-  try {
-    const templatePath = join(projectDir, '.opencode', 'BLOCKERS.template.md')
-    const content = await readFile(templatePath, 'utf-8')
-    
-    // Cache and return
-    templateCache.set(projectDir, content)
-    return content
-  } catch (error) {
-    // File not found or read error - use default
-    // Cache the default for this project
-    templateCache.set(projectDir, DEFAULT_TEMPLATE)
-    return DEFAULT_TEMPLATE
+  const candidates = category && /^[\w-]+$/.test(category)
+    ? [`BLOCKERS.${category}.template.md`, 'BLOCKERS.template.md']
+    : ['BLOCKERS.template.md']
+
+  for (const name of candidates) {
+    const content = await readTemplateFile(join(projectDir, '.opencode', name), logClient)
+    if (content !== null) {
+      templateCache.set(cacheKey, content)
+      return content
+    }
   }
+
+  // No usable custom template - cache the default for this project/category
+  templateCache.set(cacheKey, DEFAULT_TEMPLATE)
+  return DEFAULT_TEMPLATE
 }
 
 /**
- * Renders template by replacing {{variable}} placeholders
+ * Renders template with blocker data
  * 
- * Supports simple variable replacement and conditional sections:
- * - {{variable}} - replaced with sanitized value
- * - {{optionsSection}} - replaced with formatted options list or empty string
- * - {{chosenSection}} - replaced with chosen option section or empty string
+ * Exposes every Blocker field to the template ({{question}}, {{#each options}}, ...).
+ * Output of {{...}} is sanitized; booleans print as Yes/No. An empty context
+ * renders as "No additional context", as it did before templates had helpers.
+ * Legacy placeholders are still provided, pre-rendered:
+ * - {{optionsSection}} - formatted options list or empty string
+ * - {{chosenSection}} - chosen option section or empty string
+ * {{fileLinks}} holds `files` as markdown links relative to the blockers file,
+ * {{diffBlock}} the diff excerpt as a collapsed <details> block.
  * 
- * @param template - Template string with placeholders
+ * @param template - Template source
  * @param blocker - Blocker object with data
+ * @param projectDir - Project root (file references are relative to it)
+ * @param fileDir - Directory of the blockers file the entry is written to
  * @returns Rendered markdown string
+ * @throws TemplateError if the template is malformed
  */
-function renderTemplate(template: string, blocker: Blocker): string {
-  let rendered = template
-
-  // Replace simple variables
-  rendered = rendered.replace(/\{\{id\}\}/g, blocker.id)
-  rendered = rendered.replace(/\{\{timestamp\}\}/g, blocker.timestamp)
-  rendered = rendered.replace(/\{\{sessionId\}\}/g, blocker.sessionId)
-  rendered = rendered.replace(/\{\{category\}\}/g, blocker.category)
-  rendered = rendered.replace(/\{\{question\}\}/g, sanitizeMarkdown(blocker.question))
-  rendered = rendered.replace(/\{\{context\}\}/g, sanitizeMarkdown(blocker.context || 'No additional context'))
-  rendered = rendered.replace(/\{\{blocksProgress\}\}/g, blocker.blocksProgress ? 'Yes' : 'No')
-
+function renderTemplate(template: string, blocker: Blocker, projectDir: string, fileDir: string): string {
   // Handle optional options section
   let optionsSection = ''
   if (blocker.options && blocker.options.length > 0) {
@@ -123,7 +265,6 @@ function renderTemplate(template: string, blocker: Blocker): string {
     })
     optionsSection += '\n'
   }
-  rendered = rendered.replace(/\{\{optionsSection\}\}/g, optionsSection)
 
   // Handle optional chosen option section
   let chosenSection = ''
@@ -133,9 +274,47 @@ function renderTemplate(template: string, blocker: Blocker): string {
       chosenSection += `### Reasoning\n${sanitizeMarkdown(blocker.chosenReasoning)}\n\n`
     }
   }
-  rendered = rendered.replace(/\{\{chosenSection\}\}/g, chosenSection)
 
-  return rendered
+  return getCompiledTemplate(template)(
+    {
+      ...blocker,
+      context: blocker.context || 'No additional context',
+      optionsSection: new SafeString(optionsSection),
+      chosenSection: new SafeString(chosenSection),
+      fileLinks: blocker.files?.map(ref => formatFileLink(ref, projectDir, fileDir)),
+      diffBlock: new SafeString(blocker.diff ? formatDiffBlock(blocker.diff) : ''),
+    },
+    {
+      escape: sanitizeMarkdown,
+      stringify: value => (typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value)),
+    }
+  )
+}
+
+/**
+ * Renders a diff excerpt as a collapsed <details> block
+ * 
+ * The diff is kept verbatim inside a code fence longer than any backtick run
+ * in it, so nothing in the diff can close the fence early.
+ * 
+ * @param diff - Unified diff
+ * @returns Markdown block without trailing newline
+ */
+function formatDiffBlock(diff: string): string {
+  const longestRun = Math.max(2, ...(diff.match(/`+/g) ?? []).map(run => run.length))
+  const fence = '`'.repeat(longestRun + 1)
+  const lineCount = diff.split('\n').length
+  
+  return [
+    '<details>',
+    `<summary>Uncommitted changes (${lineCount} ${lineCount === 1 ? 'line' : 'lines'})</summary>`,
+    '',
+    `${fence}diff`,
+    diff,
+    fence,
+    '',
+    '</details>',
+  ].join('\n')
 }
 
 /**
@@ -149,7 +328,7 @@ function renderTemplate(template: string, blocker: Blocker): string {
  * @returns Resolved absolute path
  * @throws Error if path is outside project directory
  */
-function validatePath(filePath: string, projectDir: string): string {
+export function validatePath(filePath: string, projectDir: string): string {
   const resolvedPath = resolve(projectDir, filePath)
   const normalizedProjectDir = normalize(projectDir)
   
@@ -185,19 +364,26 @@ function sanitizeMarkdown(text: string): string {
  * Formats blocker object as markdown entry using template
  * 
  * Loads template from .opencode/BLOCKERS.template.md (or uses default).
- * Renders template by replacing {{variable}} placeholders with blocker data.
+ * Renders template with blocker data via the template engine.
  * Sanitizes all user-provided content to prevent markdown injection.
  * 
  * @param blocker - Blocker object to serialize
  * @param projectDir - Project root directory (for template loading)
+ * @param logClient - Optional OpenCode client for logging template errors
+ * @param fileDir - Directory of the blockers file (file links are relative to it)
  * @returns Promise<string> - Markdown string with trailing newline
  */
-async function formatBlockerEntry(blocker: Blocker, projectDir: string): Promise<string> {
+async function formatBlockerEntry(
+  blocker: Blocker,
+  projectDir: string,
+  logClient?: LogClient,
+  fileDir: string = projectDir
+): Promise<string> {
   // Load template (cached after first load)
-  const template = await loadTemplate(projectDir)
+  const template = await loadTemplate(projectDir, blocker.category, logClient)
   
   // Render template with blocker data
-  let entry = renderTemplate(template, blocker)
+  let entry = renderTemplate(template, blocker, projectDir, fileDir)
 
   // Add status fields if present (not in template - legacy support)
   if (blocker.clarified) {
@@ -252,14 +438,16 @@ export async function appendBlocker(
     const resolvedPath = validatePath(filePath, projectDir)
     
     // Format blocker as markdown using template
-    const entry = await formatBlockerEntry(blocker, projectDir)
+    const dir = dirname(resolvedPath)
+    const entry = await formatBlockerEntry(blocker, projectDir, logClient, dir)
     
     // Ensure parent directory exists
-    const dir = dirname(resolvedPath)
     await mkdir(dir, { recursive: true })
     
     // Append to file (creates if missing)
-    await appendFile(resolvedPath, entry, 'utf-8')
+    await withFileLock(resolvedPath, projectDir, () =>
+      trackWrite(resolvedPath, projectDir, () => appendFile(resolvedPath, entry, 'utf-8'), [blocker.id])
+    )
     
     return true
   } catch (error) {
@@ -278,10 +466,227 @@ export async function appendBlocker(
   }
 }
 
+/**
+ * Formats blocker object as a checklist item (checklist layout)
+ * 
+ * Multi-line values are indented four spaces so they stay inside the item.
+ * The box is ticked once the blocker is clarified or skipped.
+ * 
+ * @param blocker - Blocker object to serialize
+ * @param projectDir - Project root (file references are relative to it)
+ * @param fileDir - Directory of the blockers file the item is written to
+ * @returns Markdown list item with trailing newline
+ */
+function formatChecklistItem(blocker: Blocker, projectDir: string, fileDir: string): string {
+  const indent = (text: string) => sanitizeMarkdown(text).split('\n').join('\n    ')
+  const done = blocker.clarified === 'clarified' || blocker.clarified === 'skipped'
+  
+  const lines = [
+    `- [${done ? 'x' : ' '}] \`${blocker.id}\` **${blocker.category}** — ${indent(blocker.question)}`,
+    ...(blocker.shortId ? [`  - ID: ${blocker.shortId}`] : []),
+    ...(blocker.priority ? [`  - Priority: ${blocker.priority}`] : []),
+    `  - Session: ${blocker.sessionId}`,
+    ...(blocker.agent ? [`  - Agent: ${blocker.agent}`] : []),
+    ...(blocker.model ? [`  - Model: ${blocker.model}`] : []),
+    ...(blocker.messageId ? [`  - Message: ${blocker.messageId}`] : []),
+    `  - Timestamp: ${blocker.timestamp}`,
+  ]
+  if (blocker.context) lines.push(`  - Context: ${indent(blocker.context)}`)
+  if (blocker.files && blocker.files.length > 0) {
+    lines.push(`  - Files: ${blocker.files.map(ref => formatFileLink(ref, projectDir, fileDir)).join(', ')}`)
+  }
+  if (blocker.git) {
+    lines.push(`  - Branch: ${blocker.git.branch}`, `  - Commit: ${blocker.git.head}`)
+    if (blocker.git.dirtyCount > 0) {
+      lines.push(`  - Uncommitted: ${blocker.git.dirtyCount} (${blocker.git.dirty.join(', ')})`)
+    }
+  }
+  if (blocker.diff) {
+    // Verbatim (not sanitized): the fence keeps it from being read as markdown
+    lines.push('  - Diff:', ...formatDiffBlock(blocker.diff).split('\n').map(line => `    ${line}`))
+  }
+  if (blocker.options && blocker.options.length > 0) {
+    lines.push('  - Options:', ...blocker.options.map((opt, i) => `    ${i + 1}. ${indent(opt)}`))
+  }
+  if (blocker.chosenOption) lines.push(`  - Chosen option: ${indent(blocker.chosenOption)}`)
+  if (blocker.chosenReasoning) lines.push(`  - Reasoning: ${indent(blocker.chosenReasoning)}`)
+  if (blocker.clarified === 'skipped') lines.push('  - Status: skipped')
+  if (blocker.clarification) lines.push(`  - Clarification: ${indent(blocker.clarification)}`)
+  if (blocker.occurrences && blocker.occurrences > 1) {
+    lines.push(`  - Occurrences: ${blocker.occurrences} (last seen ${blocker.lastSeen ?? 'unknown'})`)
+  }
+  if (blocker.related && blocker.related.length > 0) lines.push(`  - Related: ${blocker.related.join(', ')}`)
+  
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Index of the line ending the section that starts at `start`
+ * (next # / ## heading, or end of file)
+ */
+function sectionEnd(lines: string[], start: number): number {
+  const next = lines.findIndex((line, i) => i > start && /^#{1,2}\s/.test(line))
+  return next === -1 ? lines.length : next
+}
+
+/**
+ * Index of the first line after the latest run header or footer (0 if
+ * the log has neither)
+ */
+function currentRunStart(lines: string[]): number {
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (lines[i].startsWith(`${RUN_HEADER_HEADING} `) || lines[i].startsWith(`${RUN_FOOTER_HEADING} `)) {
+      return i + 1
+    }
+  }
+  return 0
+}
+
+/**
+ * Inserts a checklist item at the end of its section
+ * 
+ * Only the sections of the current run (after the latest run header, or
+ * after the footer of a finished run) are used, so each run's blockers stay
+ * under its own header. Adds missing `## Hard blockers` / `## Soft decisions`
+ * sections there (hard first).
+ * 
+ * @param content - Current file content
+ * @param item - Rendered checklist item
+ * @param hard - true for the hard blockers section, false for soft decisions
+ * @returns Updated file content
+ */
+function insertChecklistItem(content: string, item: string, hard: boolean): string {
+  const lines = content.length > 0 ? content.replace(/\n$/, '').split('\n') : []
+  const runStart = currentRunStart(lines)
+  const findHeading = (heading: string) => lines.findIndex((line, i) => i >= runStart && line.trimEnd() === heading)
+  const addSection = (at: number, heading: string) => {
+    const block = [heading]
+    if (at > 0 && lines[at - 1].trim() !== '') block.unshift('')
+    if (at < lines.length) block.push('')
+    lines.splice(at, 0, ...block)
+  }
+  
+  if (findHeading(CHECKLIST_HARD_HEADING) === -1) {
+    const soft = findHeading(CHECKLIST_SOFT_HEADING)
+    addSection(soft === -1 ? lines.length : soft, CHECKLIST_HARD_HEADING)
+  }
+  if (findHeading(CHECKLIST_SOFT_HEADING) === -1) {
+    addSection(sectionEnd(lines, findHeading(CHECKLIST_HARD_HEADING)), CHECKLIST_SOFT_HEADING)
+  }
+  
+  const start = findHeading(hard ? CHECKLIST_HARD_HEADING : CHECKLIST_SOFT_HEADING)
+  const end = sectionEnd(lines, start)
+  let pos = end
+  while (pos - 1 > start && lines[pos - 1].trim() === '') pos--
+  lines.splice(pos, end - pos)
+  
+  const itemLines = item.replace(/\n$/, '').split('\n')
+  if (pos === start + 1) itemLines.unshift('')
+  if (pos < lines.length) itemLines.push('')
+  lines.splice(pos, 0, ...itemLines)
+  
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Inserts a blocker into the checklist-layout blockers file
+ * 
+ * Hard blockers (blocksProgress) go to `## Hard blockers`, everything else to
+ * `## Soft decisions`. Unlike appendBlocker this rewrites the file, so it is
+ * written to a temp file and renamed into place.
+ * 
+ * @param filePath - Relative or absolute path to blockers.md
+ * @param blocker - Blocker object to serialize
+ * @param projectDir - Project root directory (for path validation)
+ * @param logClient - Optional logging client
+ * @returns Promise<boolean> - true if successful, false on error
+ * @throws Error if path is invalid/traversal attempt
+ */
+export async function insertChecklistBlocker(
+  filePath: string,
+  blocker: Blocker,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<boolean> {
+  try {
+    const resolvedPath = validatePath(filePath, projectDir)
+    
+    await mkdir(dirname(resolvedPath), { recursive: true })
+    
+    // Read-modify-write under the lock so concurrent inserts are not lost
+    await withFileLock(resolvedPath, projectDir, async () => {
+      const file = Bun.file(resolvedPath)
+      const content = (await file.exists()) ? await file.text() : ''
+      const updated = insertChecklistItem(
+        content,
+        formatChecklistItem(blocker, projectDir, dirname(resolvedPath)),
+        blocker.blocksProgress
+      )
+      
+      const tempPath = `${resolvedPath}.${process.pid}.tmp`
+      await trackWrite(resolvedPath, projectDir, async () => {
+        await writeFile(tempPath, updated, 'utf-8')
+        await rename(tempPath, resolvedPath)
+      }, [blocker.id])
+    })
+    
+    return true
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('directory traversal')) {
+      throw error
+    }
+    
+    await logError(logClient, 'Failed to insert checklist blocker', error as Error, {
+      filePath,
+      sessionId: blocker.sessionId,
+      category: blocker.category
+    })
+    return false
+  }
+}
+
+/**
+ * Appends a free-form markdown section (e.g. run header/footer) to the blockers file
+ * 
+ * Creates the file if it doesn't exist. Validates path security.
+ * Sections must start with a heading so the parser does not read them as
+ * part of the preceding blocker entry.
+ * 
+ * @param filePath - Relative or absolute path to blockers.md
+ * @param section - Rendered markdown to append
+ * @param projectDir - Project root directory (for path validation)
+ * @param logClient - Optional logging client
+ * @returns Promise<boolean> - true if successful, false on error
+ * @throws Error if path is invalid/traversal attempt
+ */
+export async function appendSection(
+  filePath: string,
+  section: string,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<boolean> {
+  try {
+    const resolvedPath = validatePath(filePath, projectDir)
+    
+    await mkdir(dirname(resolvedPath), { recursive: true })
+    await withFileLock(resolvedPath, projectDir, () => trackWrite(resolvedPath, projectDir, () => appendFile(resolvedPath, section, 'utf-8')))
+    
+    return true
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('directory traversal')) {
+      throw error
+    }
+    
+    await logError(logClient, 'Failed to append section to blockers file', error as Error, { filePath })
+    return false
+  }
+}
+
 /**
  * Counts blocker entries in file by counting "## Blocker #" headers
  * 
- * Uses regex to match blocker headers. Returns 0 if file doesn't exist.
+ * Uses regex to match blocker headers (and checklist items for the
+ * checklist layout). Returns 0 if file doesn't exist.
  * 
  * @param filePath - Path to blockers.md
  * @param projectDir - Project root for validation
@@ -317,11 +722,13 @@ export async function getBlockerCount(
     // Read file content
     const content = await file.text()
     
-    // Count "## Blocker #" headers
+    // Count "## Blocker #" headers and checklist items
     const blockerHeaderRegex = /^## Blocker #/gm
+    const checklistItemRegex = /^- \[[ xX]\] `/gm
     const matches = content.match(blockerHeaderRegex)
+    const items = content.match(checklistItemRegex)
     
-    return matches ? matches.length : 0
+    return (matches ? matches.length : 0) + (items ? items.length : 0)
   } catch (error) {
     // Re-throw validation errors
     if (error instanceof Error && error.message.includes('directory traversal')) {
@@ -335,15 +742,254 @@ export async function getBlockerCount(
 }
 
 /**
- * Rotates blockers file if count >= maxCount
+ * Options controlling where rotated files go and how many are kept
+ */
+export interface RotationOptions {
+  /** Directory for archived files (default: next to the blockers file) */
+  archiveDir?: string
+  /** Number of archives to keep; older ones are deleted (default: keep all) */
+  maxArchives?: number
+  /** Also rotate when the file reaches this size in bytes */
+  maxBytes?: number
+  /** JSONL store to archive together with the markdown log */
+  storeFile?: string
+  /** Other markdown logs (route and package logs) to archive together with it */
+  otherLogs?: string[]
+}
+
+/**
+ * Result of archiving the blockers file
+ */
+export interface ArchiveResult {
+  /** Absolute path of the archived markdown file (the first other log's if it did not exist) */
+  archivePath: string
+  /** Absolute paths of every archived markdown log, blockers file first */
+  logArchives: string[]
+  /** Number of blocker entries in the archived logs */
+  blockerCount: number
+  /** Archives deleted by the retention policy */
+  pruned: string[]
+}
+
+/**
+ * Matches archive names: <base>-YYYY-MM-DDTHH-mm-ss[-N].<ext>
+ */
+function archiveNamePattern(base: string, ext: string): RegExp {
+  const escaped = base.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`^${escaped}-(\\d{4}-\\d{2}-\\d{2}T\\d{2}-\\d{2}-\\d{2})(?:-(\\d+))?\\${ext}$`)
+}
+
+/**
+ * Picks a free archive path for a file, adding -1, -2... on collisions
+ */
+async function nextArchivePath(archiveDir: string, base: string, ext: string, timestamp: string): Promise<string> {
+  let candidate = resolve(archiveDir, `${base}-${timestamp}${ext}`)
+  for (let n = 1; await Bun.file(candidate).exists(); n++) {
+    candidate = resolve(archiveDir, `${base}-${timestamp}-${n}${ext}`)
+  }
+  return candidate
+}
+
+/**
+ * Deletes the oldest archives of a file beyond the retention limit
+ */
+async function pruneArchives(archiveDir: string, base: string, ext: string, keep: number): Promise<string[]> {
+  const pattern = archiveNamePattern(base, ext)
+  const archives = (await readdir(archiveDir))
+    .map(name => ({ name, match: name.match(pattern) }))
+    .filter((a): a is { name: string; match: RegExpMatchArray } => a.match !== null)
+    .sort((a, b) =>
+      a.match[1].localeCompare(b.match[1]) || Number(a.match[2] ?? 0) - Number(b.match[2] ?? 0)
+    )
+
+  const excess = archives.slice(0, Math.max(0, archives.length - keep))
+  for (const archive of excess) {
+    await unlink(resolve(archiveDir, archive.name))
+  }
+  return excess.map(a => resolve(archiveDir, a.name))
+}
+
+/**
+ * Archive name base of a log: its file name without extension for the
+ * blockers file, its project-relative path joined with dashes for other
+ * logs (e.g. "packages-api-BLOCKERS"), so archives of same-named logs in
+ * different directories stay apart
+ */
+function archiveBase(resolvedPath: string, projectDir: string, isOther: boolean): string {
+  const name = isOther ? relative(resolve(projectDir), resolvedPath).split(sep).join('-') : basename(resolvedPath)
+  return name.slice(0, name.length - extname(name).length)
+}
+
+/**
+ * Matches any archive name, capturing its timestamp
+ */
+const ARCHIVE_NAME = /^.+-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2})(?:-\d+)?(\.[^.]+)$/
+
+/**
+ * Finds the files archived by the most recent rotation
+ *
+ * A rotation archives every log and the store under one timestamp, so the
+ * newest timestamp in the archive directory identifies its set.
+ *
+ * @param filePath - Path to blockers.md
+ * @param projectDir - Project root
+ * @param options - Archive directory, and the store whose archives count
+ * @returns Promise<string[]> - Absolute paths of the archived markdown logs and store (empty if nothing was archived yet)
+ * @throws Error if path validation fails
+ */
+export async function findLatestArchives(
+  filePath: string,
+  projectDir: string,
+  options: Pick<RotationOptions, 'archiveDir' | 'storeFile'> = {}
+): Promise<string[]> {
+  const resolvedPath = validatePath(filePath, projectDir)
+  const archiveDir = options.archiveDir
+    ? validatePath(options.archiveDir, projectDir)
+    : dirname(resolvedPath)
+  const storeBase = options.storeFile ? basename(validatePath(options.storeFile, projectDir), '.jsonl') : undefined
+  const logExt = extname(resolvedPath) || '.md'
+
+  const names = await readdir(archiveDir).catch(() => [] as string[])
+  const archives = names
+    .map(name => ({ name, match: name.match(ARCHIVE_NAME) }))
+    .filter((a): a is { name: string; match: RegExpMatchArray } =>
+      a.match !== null &&
+      (a.match[2] === '.jsonl'
+        ? storeBase !== undefined && archiveNamePattern(storeBase, '.jsonl').test(a.name)
+        : a.match[2] === logExt || a.match[2] === '.md')
+    )
+
+  const latest = archives.reduce<string | undefined>(
+    (newest, a) => (newest === undefined || a.match[1] > newest ? a.match[1] : newest),
+    undefined
+  )
+  return archives.filter(a => a.match[1] === latest).map(a => resolve(archiveDir, a.name))
+}
+
+/**
+ * Moves the blockers file (and its JSONL store and other logs) into the
+ * archive directory
+ * 
+ * Archives are named `<base>-YYYY-MM-DDTHH-mm-ss.<ext>`, all with the same
+ * timestamp so a rotation's files stay together. The next append starts a
+ * fresh file. Applies the retention policy afterwards.
+ * 
+ * @param filePath - Path to blockers.md
+ * @param projectDir - Project root
+ * @param options - Archive directory, retention, and store and other logs to archive alongside
+ * @param logClient - Optional logging client
+ * @returns Promise<ArchiveResult | null> - Archive details, or null if nothing to archive / failed
+ * @throws Error if path validation fails
+ * 
+ * @example
+ * ```typescript
+ * const result = await archiveBlockersFile('./BLOCKERS.md', projectDir, {
+ *   archiveDir: '.opencode/blockers-archive',
+ *   maxArchives: 10,
+ * })
+ * ```
+ */
+export async function archiveBlockersFile(
+  filePath: string,
+  projectDir: string,
+  options: RotationOptions = {},
+  logClient?: LogClient
+): Promise<ArchiveResult | null> {
+  try {
+    // Validate path security (archive dir, store and other logs must stay in the project too)
+    const resolvedPath = validatePath(filePath, projectDir)
+    const archiveDir = options.archiveDir
+      ? validatePath(options.archiveDir, projectDir)
+      : dirname(resolvedPath)
+    const storePath = options.storeFile ? validatePath(options.storeFile, projectDir) : undefined
+    const logs = [
+      { file: filePath, path: resolvedPath, isOther: false },
+      ...(options.otherLogs ?? [])
+        .map(file => ({ file, path: validatePath(file, projectDir), isOther: true }))
+        .filter(log => log.path !== resolvedPath),
+    ]
+    
+    const archive = async (): Promise<ArchiveResult | null> => {
+      const existing: typeof logs = []
+      for (const log of logs) {
+        if (await Bun.file(log.path).exists()) existing.push(log)
+      }
+      if (existing.length === 0) {
+        return null
+      }
+      
+      // Generate timestamped backup filename
+      const timestamp = new Date()
+        .toISOString()
+        .replace(/:/g, '-')
+        .replace(/\..+/, '') // Remove milliseconds
+      
+      await mkdir(archiveDir, { recursive: true })
+      
+      let blockerCount = 0
+      const logArchives: string[] = []
+      const archived: Array<{ base: string; ext: string }> = []
+      for (const log of existing) {
+        blockerCount += await getBlockerCount(log.file, projectDir, logClient)
+        
+        const ext = extname(log.path) || '.md'
+        const base = archiveBase(log.path, projectDir, log.isOther)
+        const archivePath = await nextArchivePath(archiveDir, base, ext, timestamp)
+        
+        // Rename current file to backup
+        await rename(log.path, archivePath)
+        await forgetLog(log.path, projectDir)
+        logArchives.push(archivePath)
+        archived.push({ base, ext })
+      }
+      
+      // Archive the store with the same timestamp so the set stays together
+      if (storePath && (await Bun.file(storePath).exists())) {
+        const storeBase = basename(storePath, '.jsonl')
+        await rename(storePath, await nextArchivePath(archiveDir, storeBase, '.jsonl', timestamp))
+        archived.push({ base: storeBase, ext: '.jsonl' })
+      }
+      
+      const pruned: string[] = []
+      if (options.maxArchives !== undefined) {
+        for (const { base, ext } of archived) {
+          pruned.push(...await pruneArchives(archiveDir, base, ext, options.maxArchives))
+        }
+      }
+      
+      return { archivePath: logArchives[0], logArchives, blockerCount, pruned }
+    }
+    
+    // Hold every log lock (blockers file first), then the store lock, so no
+    // writer appends mid-move; locks are re-entrant
+    const paths = [...logs.map(log => log.path), ...(storePath ? [storePath] : [])]
+    return await paths.reduceRight<() => Promise<ArchiveResult | null>>(
+      (inner, path) => () => withFileLock(path, projectDir, inner),
+      archive
+    )()
+  } catch (error) {
+    // Re-throw validation errors
+    if (error instanceof Error && error.message.includes('directory traversal')) {
+      throw error
+    }
+    
+    // Log rotation errors for debugging (graceful degradation)
+    await logError(logClient, 'Failed to archive blockers file', error as Error, { filePath })
+    return null
+  }
+}
+
+/**
+ * Rotates blockers file if count >= maxCount (or size >= options.maxBytes)
  * 
  * Renames current file to timestamped backup: blockers-YYYY-MM-DDTHH-mm-ss.md
- * This creates a new empty file for future blockers.
+ * (in options.archiveDir when set). This creates a new empty file for future blockers.
  * 
  * @param filePath - Path to blockers.md
  * @param maxCount - Max blockers before rotation
  * @param projectDir - Project root
  * @param logClient - Optional logging client
+ * @param options - Archive directory, retention, size limit and store to archive alongside
  * @returns Promise<boolean> - true if rotated, false if not needed or failed
  * @throws Error if path validation fails
  * 
@@ -359,41 +1005,202 @@ export async function rotateIfNeeded(
   filePath: string,
   maxCount: number,
   projectDir: string,
-  logClient?: LogClient
+  logClient?: LogClient,
+  options: RotationOptions = {}
 ): Promise<boolean> {
   try {
     // Validate path security
     const resolvedPath = validatePath(filePath, projectDir)
     
-    // Check current count
-    const count = await getBlockerCount(filePath, projectDir, logClient)
-    
-    // No rotation needed
-    if (count < maxCount) {
-      return false
+    // Check and archive under one lock so no append lands in between
+    return await withFileLock(resolvedPath, projectDir, async () => {
+      // Check if file exists (getBlockerCount returns 0 if missing)
+      const file = Bun.file(resolvedPath)
+      if (!(await file.exists())) {
+        return false
+      }
+      
+      // Check current count and size
+      const count = await getBlockerCount(filePath, projectDir, logClient)
+      const overSize = options.maxBytes !== undefined && file.size >= options.maxBytes
+      
+      // No rotation needed
+      if (count < maxCount && !overSize) {
+        return false
+      }
+      
+      const result = await archiveBlockersFile(filePath, projectDir, options, logClient)
+      return result !== null
+    })
+  } catch (error) {
+    // Re-throw validation errors
+    if (error instanceof Error && error.message.includes('directory traversal')) {
+      throw error
     }
     
-    // Check if file exists (getBlockerCount returns 0 if missing)
-    const file = Bun.file(resolvedPath)
-    const exists = await file.exists()
+    // Log rotation errors for debugging (graceful degradation)
+    await logError(logClient, 'Failed to rotate blockers file', error as Error, { filePath })
+    return false
+  }
+}
+
+/**
+ * Templates to try when parsing: per-category templates first, then the
+ * custom template, default as fallback
+ * 
+ * @param projectDir - Project root directory (for template loading)
+ * @returns Promise<string[]> - Templates in parse priority order
+ */
+async function getParseTemplates(projectDir: string): Promise<string[]> {
+  let names: string[] = []
+  try {
+    names = await readdir(join(projectDir, '.opencode'))
+  } catch {
+    // No .opencode directory - no custom templates
+  }
+
+  const categories = names
+    .map(name => name.match(CATEGORY_TEMPLATE_PATTERN)?.[1])
+    .filter((category): category is string => category !== undefined)
+
+  const templates = [
+    ...(await Promise.all(categories.map(category => loadTemplate(projectDir, category)))),
+    await loadTemplate(projectDir),
+    DEFAULT_TEMPLATE,
+  ]
+  return [...new Set(templates)]
+}
+
+/**
+ * Reads blocker entries from the blockers file back into Blocker objects
+ * 
+ * Parses with the project's per-category and custom templates (if any) and
+ * falls back to the default template, so files mixing layouts are read correctly.
+ * Picks up `**Status:**` lines and `### User Clarification` sections added
+ * by humans or the /blockers.clarify command, and checklist-layout items
+ * (a ticked box counts as resolved).
+ * 
+ * @param filePath - Path to blockers.md
+ * @param projectDir - Project root for validation and template loading
+ * @param logClient - Optional logging client
+ * @param categories - Categories the project accepts (default: built-in); others are read as 'other'
+ * @returns Promise<Blocker[]> - Parsed blockers in file order (empty if file missing or error)
+ * @throws Error if path validation fails
+ * 
+ * @example
+ * ```typescript
+ * const blockers = await readBlockers('./BLOCKERS.md', projectDir)
+ * const answered = blockers.filter(b => b.clarified === 'clarified')
+ * ```
+ */
+export async function readBlockers(
+  filePath: string,
+  projectDir: string,
+  logClient?: LogClient,
+  categories?: readonly string[]
+): Promise<Blocker[]> {
+  try {
+    // Validate path security
+    const resolvedPath = validatePath(filePath, projectDir)
     
-    if (!exists) {
-      return false
+    const file = Bun.file(resolvedPath)
+    if (!(await file.exists())) {
+      return []
     }
     
-    // Generate timestamped backup filename
-    const timestamp = new Date()
-      .toISOString()
-      .replace(/:/g, '-')
-      .replace(/\..+/, '') // Remove milliseconds
+    const content = await file.text()
     
-    const dir = dirname(resolvedPath)
-    const ext = basename(resolvedPath)
-    const baseNameWithoutExt = ext.replace(/\.md$/, '')
-    const backupPath = resolve(dir, `${baseNameWithoutExt}-${timestamp}.md`)
+    return [
+      ...parseBlockersMarkdown(content, await getParseTemplates(projectDir), categories),
+      ...parseChecklistMarkdown(content, categories),
+    ]
+  } catch (error) {
+    // Re-throw validation errors
+    if (error instanceof Error && error.message.includes('directory traversal')) {
+      throw error
+    }
     
-    // Rename current file to backup
-    await rename(resolvedPath, backupPath)
+    // Log read errors for debugging (graceful degradation)
+    await logError(logClient, 'Failed to read blockers', error as Error, { filePath })
+    return []
+  }
+}
+
+/**
+ * Regenerates the blockers file from a list of blockers
+ * 
+ * Renders every blocker with the current template (or as checklist items),
+ * keeping any preamble (title, notes) written above the first entry. The
+ * file is written to a temp file and renamed into place so readers never
+ * see a partial file.
+ * 
+ * @param filePath - Path to blockers.md
+ * @param blockers - Blockers to render, in order
+ * @param projectDir - Project root for validation and template loading
+ * @param logClient - Optional logging client
+ * @param layout - 'entries' (template per blocker) or 'checklist' (default: 'entries')
+ * @returns Promise<boolean> - true if written, false on error
+ * @throws Error if path validation fails
+ * 
+ * @example
+ * ```typescript
+ * const blockers = await readStore(config.storeFile, projectDir)
+ * await rebuildBlockersFile(config.blockersFile, blockers, projectDir)
+ * ```
+ */
+export async function rebuildBlockersFile(
+  filePath: string,
+  blockers: Blocker[],
+  projectDir: string,
+  logClient?: LogClient,
+  layout: BlockersLayout = 'entries'
+): Promise<boolean> {
+  try {
+    // Validate path security
+    const resolvedPath = validatePath(filePath, projectDir)
+    
+    // Read the preamble and replace the file under one lock
+    await withFileLock(resolvedPath, projectDir, async () => {
+      const file = Bun.file(resolvedPath)
+      let preamble = (await file.exists())
+        ? extractPreamble(await file.text(), await getParseTemplates(projectDir))
+        : ''
+      
+      // Checklist sections and items are regenerated, not part of the preamble
+      const preambleLines = preamble.split('\n')
+      const firstSection = preambleLines.findIndex(line =>
+        line.trimEnd() === CHECKLIST_HARD_HEADING ||
+        line.trimEnd() === CHECKLIST_SOFT_HEADING ||
+        /^- \[[ xX]\] `/.test(line)
+      )
+      if (firstSection !== -1) {
+        preamble = preambleLines.slice(0, firstSection).join('\n')
+      }
+      
+      let content = preamble
+      if (layout === 'checklist') {
+        for (const blocker of blockers) {
+          content = insertChecklistItem(
+            content,
+            formatChecklistItem(blocker, projectDir, dirname(resolvedPath)),
+            blocker.blocksProgress
+          )
+        }
+      } else {
+        for (const blocker of blockers) {
+          content += await formatBlockerEntry(blocker, projectDir, logClient, dirname(resolvedPath))
+        }
+      }
+      
+      await mkdir(dirname(resolvedPath), { recursive: true })
+      
+      // Write-then-rename so a crash mid-write never truncates the log
+      const tempPath = `${resolvedPath}.${process.pid}.tmp`
+      await trackWrite(resolvedPath, projectDir, async () => {
+        await writeFile(tempPath, content, 'utf-8')
+        await rename(tempPath, resolvedPath)
+      })
+    })
     
     return true
   } catch (error) {
@@ -402,8 +1209,347 @@ export async function rotateIfNeeded(
       throw error
     }
     
-    // Log rotation errors for debugging (graceful degradation)
-    await logError(logClient, 'Failed to rotate blockers file', error as Error, { filePath })
+    await logError(logClient, 'Failed to rebuild blockers file', error as Error, { filePath })
+    return false
+  }
+}
+
+/**
+ * Re-renders one blocker in place
+ * 
+ * Finds the blocker's entry (or checklist item) by its long ID and replaces
+ * just those lines with a fresh rendering; everything else in the file,
+ * including run headers and hand-written notes, is kept as is.
+ * 
+ * @param filePath - Path to blockers.md
+ * @param blocker - Updated blocker (matched by `id`)
+ * @param projectDir - Project root for validation and template loading
+ * @param logClient - Optional logging client
+ * @returns Promise<boolean> - true if replaced, false if the blocker is not in the file or on error
+ * @throws Error if path validation fails
+ * 
+ * @example
+ * ```typescript
+ * await replaceBlockerEntry(config.blockersFile, { ...blocker, occurrences: 2 }, projectDir)
+ * ```
+ */
+export async function replaceBlockerEntry(
+  filePath: string,
+  blocker: Blocker,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<boolean> {
+  try {
+    // Validate path security
+    const resolvedPath = validatePath(filePath, projectDir)
+    
+    return await withFileLock(resolvedPath, projectDir, async () => {
+      const file = Bun.file(resolvedPath)
+      if (!(await file.exists())) {
+        return false
+      }
+      
+      const content = await file.text()
+      const templates = await getParseTemplates(projectDir)
+      const range = findBlockerLines(content, blocker.id, templates)
+      if (!range) {
+        return false
+      }
+      
+      // Keep only the entry itself from the rendering (templates may add lines around it)
+      const rendered = range.layout === 'checklist'
+        ? formatChecklistItem(blocker, projectDir, dirname(resolvedPath))
+        : await formatBlockerEntry(blocker, projectDir, logClient, dirname(resolvedPath))
+      const renderedRange = findBlockerLines(rendered, blocker.id, templates)
+      const replacement = rendered.split('\n').slice(renderedRange?.start ?? 0, renderedRange?.end)
+      
+      // Keep the blank lines that separated the old entry from what follows
+      const lines = content.split('\n')
+      const trailingBlank = (block: string[]) => {
+        let count = 0
+        while (count < block.length && block[block.length - 1 - count].trim() === '') count++
+        return count
+      }
+      const oldBlock = lines.slice(range.start, range.end)
+      replacement.splice(replacement.length - trailingBlank(replacement))
+      replacement.push(...Array<string>(trailingBlank(oldBlock)).fill(''))
+      
+      lines.splice(range.start, range.end - range.start, ...replacement)
+      
+      const tempPath = `${resolvedPath}.${process.pid}.tmp`
+      await trackWrite(resolvedPath, projectDir, async () => {
+        await writeFile(tempPath, lines.join('\n'), 'utf-8')
+        await rename(tempPath, resolvedPath)
+      })
+      return true
+    })
+  } catch (error) {
+    // Re-throw validation errors
+    if (error instanceof Error && error.message.includes('directory traversal')) {
+      throw error
+    }
+    
+    await logError(logClient, 'Failed to update blocker entry', error as Error, {
+      filePath,
+      blockerId: blocker.id
+    })
+    return false
+  }
+}
+
+/**
+ * Copy kept of a blocker log before it is updated in place
+ *
+ * Lives under `.opencode/blocker-diverter/backups/`, keyed by the log's
+ * project-relative path, so no `.bak` file lands next to the log.
+ *
+ * @param filePath - Absolute path of the log
+ * @param projectDir - Project root
+ * @returns Absolute path of the backup
+ */
+export function getBackupPath(filePath: string, projectDir: string): string {
+  return getPluginFilePath(projectDir, 'backups', filePath, '.bak')
+}
+
+/**
+ * Sets status and clarification in the lines of one entry (entries layout)
+ *
+ * An existing `**Status:**` line and `### User Clarification` section are
+ * rewritten where they are; missing ones are added at the end of the entry,
+ * before its closing `---`. All other lines are left untouched.
+ *
+ * @param entry - Lines of the entry (from its header to the next entry)
+ * @param update - New status and clarification
+ * @returns Updated lines
+ */
+function setEntryStatus(entry: string[], update: BlockerStatusUpdate): string[] {
+  const lines = [...entry]
+  const isStatus = (line: string) => /^\*\*Status:\*\*/.test(line)
+  const isSeparator = (line: string) => /^-{3,}$/.test(line.trim())
+  const clarificationHeading = () => lines.findIndex(line => /^#{1,6}\s+User Clarification\s*$/i.test(line.trimEnd()))
+
+  // Where new lines go: after the last content line, before a closing separator
+  const insertAt = () => {
+    let last = lines.length - 1
+    while (last > 0 && lines[last].trim() === '') last--
+    return isSeparator(lines[last]) ? last : last + 1
+  }
+  const insert = (block: string[]) => {
+    const at = insertAt()
+    lines.splice(at, 0, ...(isSeparator(lines[at] ?? '') ? [...block, ''] : ['', ...block]))
+  }
+
+  const statusLine = `**Status:** ${update.clarified}`
+  const status = lines.findIndex(isStatus)
+  if (status !== -1) {
+    lines[status] = statusLine
+  } else if (clarificationHeading() !== -1) {
+    lines.splice(clarificationHeading(), 0, statusLine, '')
+  } else {
+    insert([statusLine])
+  }
+
+  if (update.clarification !== undefined) {
+    const text = sanitizeMarkdown(update.clarification).split('\n')
+    const heading = clarificationHeading()
+    if (heading === -1) {
+      insert(['### User Clarification', ...text])
+    } else {
+      // Replace the section's text, keeping the blank lines before what follows
+      let end = heading + 1
+      while (end < lines.length && !/^#{1,6}\s/.test(lines[end]) && !isStatus(lines[end]) && !isSeparator(lines[end])) end++
+      while (end > heading + 1 && lines[end - 1].trim() === '') end--
+      lines.splice(heading + 1, end - heading - 1, ...text)
+    }
+  }
+
+  return lines
+}
+
+/**
+ * Sets status and clarification in the lines of one checklist item
+ *
+ * Ticks (or unticks) the box, and writes the `Status` and `Clarification`
+ * fields the way formatChecklistItem does. Other field lines are left untouched.
+ *
+ * @param item - Lines of the item (the `- [ ]` line and its indented fields)
+ * @param update - New status and clarification
+ * @returns Updated lines
+ */
+function setChecklistStatus(item: string[], update: BlockerStatusUpdate): string[] {
+  const done = update.clarified === 'clarified' || update.clarified === 'skipped'
+  const lines = [item[0].replace(/^- \[[ xX]\]/, `- [${done ? 'x' : ' '}]`), ...item.slice(1)]
+
+  // A field spans its line and the four-space-indented continuation lines below it
+  const setField = (name: string, value: string | null, before: string[]) => {
+    const start = lines.findIndex(line => line.startsWith(`  - ${name}:`))
+    let end = start + 1
+    while (start !== -1 && end < lines.length && /^ {4}/.test(lines[end])) end++
+    const replacement = value === null ? [] : [`  - ${name}: ${value}`]
+
+    if (start !== -1) {
+      lines.splice(start, end - start, ...replacement)
+    } else if (replacement.length > 0) {
+      const next = lines.findIndex(line => before.some(field => line.startsWith(`  - ${field}:`)))
+      lines.splice(next === -1 ? lines.length : next, 0, ...replacement)
+    }
+  }
+
+  setField('Status', update.clarified === 'skipped' ? 'skipped' : null, ['Clarification', 'Occurrences', 'Related'])
+  if (update.clarification !== undefined) {
+    setField('Clarification', sanitizeMarkdown(update.clarification).split('\n').join('\n    '), ['Occurrences', 'Related'])
+  }
+
+  return lines
+}
+
+/**
+ * Updates the status (and clarification) of one blocker in place
+ * 
+ * Finds the blocker's entry (or checklist item) by its long ID and rewrites
+ * only its status and clarification; every other byte of the file stays as
+ * it is, and a CRLF entry keeps its CRLF line endings. The new content is
+ * written to a temp file and renamed into place, after copying the previous
+ * version to its backup (see getBackupPath).
+ * 
+ * @param filePath - Path to blockers.md
+ * @param id - Long blocker ID
+ * @param update - New status, and the clarification to add or replace
+ * @param projectDir - Project root for validation and template loading
+ * @param logClient - Optional logging client
+ * @returns Promise<boolean> - true if updated, false if the blocker is not in the file or on error
+ * @throws Error if path validation fails
+ * 
+ * @example
+ * ```typescript
+ * await updateBlockerStatus(config.blockersFile, blocker.id, { clarified: 'clarified', clarification: 'Use RS256' }, projectDir)
+ * ```
+ */
+export async function updateBlockerStatus(
+  filePath: string,
+  id: string,
+  update: BlockerStatusUpdate,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<boolean> {
+  try {
+    // Validate path security
+    const resolvedPath = validatePath(filePath, projectDir)
+    
+    return await withFileLock(resolvedPath, projectDir, async () => {
+      const file = Bun.file(resolvedPath)
+      if (!(await file.exists())) {
+        return false
+      }
+      
+      const content = await file.text()
+      const range = findBlockerLines(content, id, await getParseTemplates(projectDir))
+      if (!range) {
+        return false
+      }
+      
+      const lines = content.split('\n')
+      const block = lines.slice(range.start, range.end)
+      // Edit without carriage returns, then give every line of a CRLF entry
+      // its CR back (the last one only if it had one, e.g. not at end of file)
+      const crlf = block.some(line => line.endsWith('\r'))
+      const plain = crlf ? block.map(line => line.replace(/\r$/, '')) : block
+      const updated = (range.layout === 'checklist' ? setChecklistStatus(plain, update) : setEntryStatus(plain, update))
+        .join('\n')
+        .split('\n')
+      const lastEnd = block[block.length - 1].endsWith('\r') ? '\r' : ''
+      lines.splice(
+        range.start,
+        block.length,
+        ...(crlf ? updated.map((line, i) => line + (i < updated.length - 1 ? '\r' : lastEnd)) : updated)
+      )
+      
+      const tempPath = `${resolvedPath}.${process.pid}.tmp`
+      await trackWrite(resolvedPath, projectDir, async () => {
+        await writeFile(tempPath, lines.join('\n'), 'utf-8')
+        const backupPath = getBackupPath(resolvedPath, projectDir)
+        await mkdir(dirname(backupPath), { recursive: true })
+        await copyFile(resolvedPath, backupPath)
+        await rename(tempPath, resolvedPath)
+      })
+      return true
+    })
+  } catch (error) {
+    // Re-throw validation errors
+    if (error instanceof Error && error.message.includes('directory traversal')) {
+      throw error
+    }
+    
+    await logError(logClient, 'Failed to update blocker status', error as Error, {
+      filePath,
+      blockerId: id
+    })
+    return false
+  }
+}
+
+/**
+ * Regenerates the "read this first" index at the top of the blockers file
+ * 
+ * Lists the unresolved p0–p2 blockers in the file by priority (see utils/priority).
+ * Only the lines between the index markers change; the index is removed
+ * once nothing is left unresolved.
+ * 
+ * @param filePath - Path to blockers.md
+ * @param projectDir - Project root for validation and template loading
+ * @param logClient - Optional logging client
+ * @param config - Plugin configuration (categories and their priorities); omit for the built-in ones
+ * @returns Promise<boolean> - true if the file is up to date (or missing), false on error
+ * @throws Error if path validation fails
+ * 
+ * @example
+ * ```typescript
+ * if (config.priorityIndex) {
+ *   await updatePriorityIndex(config.blockersFile, worktree, logClient, config)
+ * }
+ * ```
+ */
+export async function updatePriorityIndex(
+  filePath: string,
+  projectDir: string,
+  logClient?: LogClient,
+  config?: Pick<PluginConfig, 'categories'>
+): Promise<boolean> {
+  try {
+    // Validate path security
+    const resolvedPath = validatePath(filePath, projectDir)
+    const categories = getCategoryNames(config)
+    
+    return await withFileLock(resolvedPath, projectDir, async () => {
+      const file = Bun.file(resolvedPath)
+      if (!(await file.exists())) {
+        return true
+      }
+      
+      const content = await file.text()
+      const blockers = [
+        ...parseBlockersMarkdown(content, await getParseTemplates(projectDir), categories),
+        ...parseChecklistMarkdown(content, categories),
+      ]
+      const updated = replacePriorityIndex(content, renderPriorityIndex(blockers, config))
+      if (updated === content) {
+        return true
+      }
+      
+      const tempPath = `${resolvedPath}.${process.pid}.tmp`
+      await trackWrite(resolvedPath, projectDir, async () => {
+        await writeFile(tempPath, updated, 'utf-8')
+        await rename(tempPath, resolvedPath)
+      })
+      return true
+    })
+  } catch (error) {
+    // Re-throw validation errors
+    if (error instanceof Error && error.message.includes('directory traversal')) {
+      throw error
+    }
+    
+    await logError(logClient, 'Failed to update priority index', error as Error, { filePath })
     return false
   }
 }
@@ -0,0 +1,729 @@
+/**
+ * Blocker log parser
+ *
+ * Reads rendered BLOCKERS.md content back into typed Blocker objects:
+ * - Derives field labels from the active template (custom or default)
+ * - Understands the built-in sections rendered outside the template
+ *   (Options Considered, Chosen Option, Reasoning, Status, User Clarification)
+ *   and the Files list, read back from its link texts
+ * - Reads checklist-layout items (`- [ ]` / `- [x]`) under the
+ *   Hard blockers / Soft decisions sections
+ * - Reverses the escaping applied by sanitizeMarkdown
+ *
+ * Parsing is best-effort: entries a human has hand-edited are still returned
+ * with whatever fields could be recovered. Pure functions only, no file I/O.
+ *
+ * @module utils/blockers-parser
+ */
+
+import { BUILTIN_CATEGORIES, type Blocker, type BlockerCategory, type BlockerPriority, type BlockersLayout, type GitSnapshot } from '../types'
+import { isTemplateHelper } from './template-engine'
+import { parseFileLinks } from './file-refs'
+
+/**
+ * Category of a parsed entry: one the project knows, else 'other'
+ *
+ * @param value - Category as read from the log
+ * @param categories - Categories the project accepts (see utils/categories)
+ */
+function knownCategory(value: BlockerCategory | undefined, categories: readonly string[]): BlockerCategory {
+  return value !== undefined && categories.includes(value) ? value : 'other'
+}
+
+/**
+ * Section headings rendered by the plugin itself (not by the template)
+ */
+const BUILTIN_SECTIONS: Record<string, string> = {
+  'options considered': 'options',
+  'chosen option': 'chosenOption',
+  'reasoning': 'chosenReasoning',
+  'user clarification': 'clarification',
+  'files': 'files',
+}
+
+/**
+ * Inline field matcher derived from a template line
+ * e.g. "**Category:** {{category}}" → /^\*\*Category:\*\* (.*?)$/ capturing "category"
+ */
+interface InlineField {
+  pattern: RegExp
+  variables: string[]
+}
+
+/**
+ * Field layout derived from a template
+ */
+interface TemplateSchema {
+  /** Matches an entry header line, capturing the blocker ID */
+  header: RegExp
+  /** Single-line fields (label and value on the same line) */
+  inline: InlineField[]
+  /** Multi-line sections keyed by lowercased heading text */
+  sections: Map<string, string>
+}
+
+/**
+ * Fallback entry header when a template has no {{id}} line
+ */
+const DEFAULT_HEADER = /^## Blocker #(.+)$/
+
+/**
+ * Escape a literal string for use inside a RegExp
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Build a line matcher from a template line containing {{variable}} placeholders
+ *
+ * @param line - Template line (trailing whitespace already trimmed)
+ * @param capture - Which variables get a capture group (default: all)
+ */
+function buildLinePattern(
+  line: string,
+  capture: (variable: string) => boolean = () => true
+): InlineField {
+  const variables: string[] = []
+  let source = ''
+  let lastIndex = 0
+
+  for (const match of line.matchAll(/\{\{\s*([\w.]+)\s*\}\}/g)) {
+    source += escapeRegExp(line.slice(lastIndex, match.index))
+    if (capture(match[1])) {
+      source += '(.*?)'
+      variables.push(match[1])
+    } else {
+      source += '(?:.*?)'
+    }
+    lastIndex = (match.index ?? 0) + match[0].length
+  }
+  source += escapeRegExp(line.slice(lastIndex))
+
+  return { pattern: new RegExp(`^${source}$`), variables }
+}
+
+/**
+ * Extract heading text from a markdown heading line, or null if not a heading
+ */
+function headingText(line: string): string | null {
+  const match = line.match(/^#{1,6}\s+(.+?)\s*$/)
+  return match ? match[1] : null
+}
+
+/**
+ * Reduce a template line to plain {{variable}} placeholders
+ *
+ * Expressions collapse to the field they read ({{truncate question 80}} →
+ * {{question}}); nested fields keep their path ({{git.branch}}). Block tags,
+ * {{else}} and comments are dropped.
+ */
+function simplifyTemplateLine(line: string): string {
+  return line.replace(/\{\{\{([\s\S]+?)\}\}\}|\{\{([\s\S]+?)\}\}/g, (_match, raw?: string, escaped?: string) => {
+    const inner = (raw ?? escaped ?? '').trim()
+    if (raw === undefined && (/^[#/!]/.test(inner) || inner === 'else')) return ''
+
+    const field = inner
+      .replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[()]/g, ' ')
+      .split(/\s+/)
+      .find(token => /^[A-Za-z_][\w.]*$/.test(token) && !isTemplateHelper(token) && !/^(this|true|false|null|undefined)$/.test(token))
+    return field ? `{{${field}}}` : ''
+  })
+}
+
+/**
+ * Derive the field layout of a template
+ *
+ * - The first line containing {{id}} becomes the entry header
+ * - A placeholder alone on its line is a section; its label is the nearest
+ *   heading above it
+ * - Any other line with placeholders becomes an inline field
+ * - Lines holding only block tags ({{#if}}, {{/each}}, ...) and the bodies
+ *   of {{#each}} loops are skipped; loops only render list items
+ *
+ * @param template - Template content with {{variable}} placeholders
+ * @returns Schema used to parse entries rendered from that template
+ */
+export function deriveTemplateSchema(template: string): TemplateSchema {
+  const schema: TemplateSchema = {
+    header: DEFAULT_HEADER,
+    inline: [],
+    sections: new Map(),
+  }
+
+  let lastHeading: string | null = null
+  let headerFound = false
+  let eachDepth = 0
+
+  for (const rawLine of template.split('\n')) {
+    const opened = rawLine.match(/\{\{#each\b/g)?.length ?? 0
+    const closed = rawLine.match(/\{\{\/each\s*\}\}/g)?.length ?? 0
+    const insideEach = eachDepth > 0 || opened > 0
+    eachDepth = Math.max(0, eachDepth + opened - closed)
+    if (insideEach) continue
+
+    const line = simplifyTemplateLine(rawLine).trimEnd()
+    if (line.trim() === '' && rawLine.trim() !== '') continue
+
+    const placeholders = [...line.matchAll(/\{\{\s*([\w.]+)\s*\}\}/g)]
+
+    if (placeholders.length === 0) {
+      const heading = headingText(line)
+      if (heading) {
+        lastHeading = heading.toLowerCase()
+      }
+      continue
+    }
+
+    if (!headerFound && placeholders.some(p => p[1] === 'id')) {
+      // Header captures only the ID; other placeholders on the line are ignored
+      schema.header = buildLinePattern(line, variable => variable === 'id').pattern
+      headerFound = true
+      continue
+    }
+
+    const standalone = placeholders.length === 1 && line.trim() === placeholders[0][0]
+    if (standalone) {
+      if (lastHeading) {
+        schema.sections.set(lastHeading, placeholders[0][1])
+        lastHeading = null
+      }
+      continue
+    }
+
+    schema.inline.push(buildLinePattern(line.trim()))
+  }
+
+  return schema
+}
+
+/**
+ * Reverse the escaping applied by sanitizeMarkdown when rendering
+ */
+export function unescapeMarkdown(text: string): string {
+  return text
+    .replace(/^\\(#{1,6}) Blocker #/gm, '$1 Blocker #')
+    .replace(/\\`\\`\\`/g, '```')
+}
+
+/**
+ * Split a comma-separated list, dropping empty items
+ */
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(item => item.length > 0)
+}
+
+/**
+ * The blocker's git snapshot so far, or an empty one to fill in field by field
+ */
+function emptyGitSnapshot(blocker: Partial<Blocker>): GitSnapshot {
+  return blocker.git ?? { branch: '', head: '', dirty: [], dirtyCount: 0 }
+}
+
+/**
+ * Extract the diff from a rendered diff block (the content of its ```diff fence)
+ */
+function parseDiffBlock(block: string): string | null {
+  const lines = block.split('\n')
+  const start = lines.findIndex(line => /^`{3,}diff$/.test(line.trim()))
+  if (start === -1) return null
+
+  const fence = lines[start].trim().slice(0, -'diff'.length)
+  const end = lines.findIndex((line, i) => i > start && line.trim() === fence)
+  return end === -1 ? null : lines.slice(start + 1, end).join('\n')
+}
+
+/**
+ * Assign a raw parsed value to the matching Blocker field
+ */
+function assignField(blocker: Partial<Blocker>, variable: string, rawValue: string): void {
+  const value = rawValue.trim()
+
+  switch (variable) {
+    case 'id':
+      blocker.id = value
+      break
+    case 'shortId':
+      if (value) blocker.shortId = value
+      break
+    case 'timestamp':
+      blocker.timestamp = value
+      break
+    case 'sessionId':
+      blocker.sessionId = value
+      break
+    case 'agent':
+      if (value) blocker.agent = value
+      break
+    case 'model':
+      if (value) blocker.model = value
+      break
+    case 'messageId':
+      if (value) blocker.messageId = value
+      break
+    case 'category':
+      // Checked against the project's categories once the entry is complete
+      blocker.category = value.trim()
+      break
+    case 'question':
+      blocker.question = unescapeMarkdown(value)
+      break
+    case 'context':
+      blocker.context = value === 'No additional context' ? '' : unescapeMarkdown(value)
+      break
+    case 'blocksProgress':
+      blocker.blocksProgress = !/^(no|false)$/i.test(value)
+      break
+    case 'chosenOption':
+      blocker.chosenOption = unescapeMarkdown(value)
+      break
+    case 'chosenReasoning':
+      blocker.chosenReasoning = unescapeMarkdown(value)
+      break
+    case 'clarification':
+      blocker.clarification = unescapeMarkdown(value)
+      break
+    case 'occurrences': {
+      // Template field ("3") or checklist field ("3 (last seen <timestamp>)")
+      const match = value.match(/^(\d+)(?: \(last seen (.+)\))?$/)
+      if (match) {
+        blocker.occurrences = Number.parseInt(match[1], 10)
+        if (match[2]) blocker.lastSeen = match[2]
+      }
+      break
+    }
+    case 'lastSeen':
+      blocker.lastSeen = value
+      break
+    case 'priority':
+      if (/^p[0-3]$/.test(value)) blocker.priority = value as BlockerPriority
+      break
+    case 'related':
+      blocker.related = splitList(value)
+      break
+    case 'files':
+      blocker.files = parseFileLinks(value)
+      break
+    case 'diffBlock': {
+      const diff = parseDiffBlock(rawValue)
+      if (diff) blocker.diff = diff
+      break
+    }
+    case 'git.branch':
+      blocker.git = { ...emptyGitSnapshot(blocker), branch: value }
+      break
+    case 'git.head':
+      blocker.git = { ...emptyGitSnapshot(blocker), head: value }
+      break
+    case 'git.dirtyCount':
+      blocker.git = { ...emptyGitSnapshot(blocker), dirtyCount: Number.parseInt(value, 10) || 0 }
+      break
+    case 'git.dirty':
+      blocker.git = { ...emptyGitSnapshot(blocker), dirty: splitList(value) }
+      break
+    case 'git.uncommitted': {
+      // Checklist field: "<count> (<path>, <path>)"
+      const match = value.match(/^(\d+)(?: \((.*)\))?$/)
+      if (match) {
+        blocker.git = { ...emptyGitSnapshot(blocker), dirtyCount: Number.parseInt(match[1], 10), dirty: splitList(match[2] ?? '') }
+      }
+      break
+    }
+    case 'options':
+      blocker.options = value
+        .split('\n')
+        .map(line => line.match(/^\s*(?:\d+\.|[-*])\s+(.*)$/)?.[1])
+        .filter((opt): opt is string => typeof opt === 'string' && opt.trim().length > 0)
+        .map(opt => unescapeMarkdown(opt.trim()))
+      break
+    default:
+      // Unknown template variables are rendered but not round-tripped
+      break
+  }
+}
+
+/**
+ * Parse a single entry body (lines after the header) into blocker fields
+ */
+function parseEntry(id: string, lines: string[], schemas: TemplateSchema[], categories: readonly string[]): Blocker {
+  const blocker: Partial<Blocker> = { id }
+  let currentSection: string | null = null
+  let sectionLines: string[] = []
+
+  const flushSection = () => {
+    if (currentSection) {
+      assignField(blocker, currentSection, sectionLines.join('\n'))
+    }
+    currentSection = null
+    sectionLines = []
+  }
+
+  for (const rawLine of lines) {
+    const line = rawLine.trimEnd()
+
+    const status = line.match(/^\*\*Status:\*\*\s*(\w+)/)
+    if (status) {
+      flushSection()
+      const value = status[1].toLowerCase()
+      if (value === 'pending' || value === 'clarified' || value === 'skipped') {
+        blocker.clarified = value
+      }
+      continue
+    }
+
+    if (/^-{3,}$/.test(line.trim())) {
+      flushSection()
+      continue
+    }
+
+    const heading = headingText(line)
+    if (heading) {
+      flushSection()
+      const key = heading.toLowerCase()
+      currentSection =
+        schemas.map(s => s.sections.get(key)).find(v => v !== undefined) ??
+        BUILTIN_SECTIONS[key] ??
+        null
+      continue
+    }
+
+    if (currentSection) {
+      sectionLines.push(line)
+      continue
+    }
+
+    for (const schema of schemas) {
+      const field = schema.inline.find(f => f.pattern.test(line.trim()))
+      if (field) {
+        const match = line.trim().match(field.pattern)!
+        field.variables.forEach((variable, index) => assignField(blocker, variable, match[index + 1]))
+        break
+      }
+    }
+  }
+  flushSection()
+
+  if (blocker.clarification && !blocker.clarified) {
+    blocker.clarified = 'clarified'
+  }
+
+  return {
+    id: blocker.id ?? id,
+    ...(blocker.shortId ? { shortId: blocker.shortId } : {}),
+    timestamp: blocker.timestamp ?? '',
+    sessionId: blocker.sessionId ?? '',
+    ...(blocker.agent ? { agent: blocker.agent } : {}),
+    ...(blocker.model ? { model: blocker.model } : {}),
+    ...(blocker.messageId ? { messageId: blocker.messageId } : {}),
+    category: knownCategory(blocker.category, categories),
+    ...(blocker.priority ? { priority: blocker.priority } : {}),
+    question: blocker.question ?? '',
+    context: blocker.context ?? '',
+    blocksProgress: blocker.blocksProgress ?? true,
+    ...(blocker.options && blocker.options.length > 0 ? { options: blocker.options } : {}),
+    ...(blocker.chosenOption ? { chosenOption: blocker.chosenOption } : {}),
+    ...(blocker.chosenReasoning ? { chosenReasoning: blocker.chosenReasoning } : {}),
+    ...(blocker.clarified ? { clarified: blocker.clarified } : {}),
+    ...(blocker.clarification ? { clarification: blocker.clarification } : {}),
+    ...(blocker.occurrences ? { occurrences: blocker.occurrences } : {}),
+    ...(blocker.lastSeen ? { lastSeen: blocker.lastSeen } : {}),
+    ...(blocker.related && blocker.related.length > 0 ? { related: blocker.related } : {}),
+    ...(blocker.files && blocker.files.length > 0 ? { files: blocker.files } : {}),
+    ...(blocker.git ? { git: blocker.git } : {}),
+    ...(blocker.diff ? { diff: blocker.diff } : {}),
+  }
+}
+
+/**
+ * Parse BLOCKERS.md content into Blocker objects
+ *
+ * Entries are located by the template's header line (default "## Blocker #{{id}}").
+ * Each entry runs until the next header, or until a top-level (# / ##) heading
+ * that is not part of the template. Templates are tried in order, so pass the
+ * custom template first and the default template as a fallback for entries
+ * written before the custom template existed.
+ *
+ * @param content - Raw markdown file content
+ * @param templates - Templates the entries may have been rendered with
+ * @param categories - Categories the project accepts; others are read as 'other'
+ * @returns Parsed blockers in file order
+ *
+ * @example
+ * ```typescript
+ * const blockers = parseBlockersMarkdown(content, [customTemplate, DEFAULT_TEMPLATE])
+ * const open = blockers.filter(b => b.clarified !== 'clarified')
+ * ```
+ */
+export function parseBlockersMarkdown(
+  content: string,
+  templates: string[],
+  categories: readonly string[] = BUILTIN_CATEGORIES
+): Blocker[] {
+  const schemas = templates.map(deriveTemplateSchema)
+  if (schemas.length === 0) {
+    schemas.push({ header: DEFAULT_HEADER, inline: [], sections: new Map() })
+  }
+
+  const templateHeadings = new Set(schemas.flatMap(s => [...s.sections.keys()]))
+  const blockers: Blocker[] = []
+  let current: { id: string; lines: string[] } | null = null
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trimEnd()
+    const header = schemas.map(s => line.match(s.header)).find(m => m !== null)
+
+    if (header) {
+      if (current) blockers.push(parseEntry(current.id, current.lines, schemas, categories))
+      current = { id: header[1].trim(), lines: [] }
+      continue
+    }
+
+    if (!current) continue
+
+    const topLevel = line.match(/^#{1,2}\s+(.+?)\s*$/)
+    if (topLevel && !templateHeadings.has(topLevel[1].toLowerCase())) {
+      blockers.push(parseEntry(current.id, current.lines, schemas, categories))
+      current = null
+      continue
+    }
+
+    current.lines.push(line)
+  }
+
+  if (current) blockers.push(parseEntry(current.id, current.lines, schemas, categories))
+
+  return blockers
+}
+
+/**
+ * Section headings of the checklist layout (FR-005/FR-027)
+ * Items under the hard section block progress, items under the soft section don't
+ */
+export const CHECKLIST_HARD_HEADING = '## Hard blockers'
+export const CHECKLIST_SOFT_HEADING = '## Soft decisions'
+
+/**
+ * Headings opening the run header and footer sections (see utils/run-log)
+ */
+export const RUN_HEADER_HEADING = '# Run started'
+export const RUN_FOOTER_HEADING = '## Run finished'
+
+/**
+ * Checklist item line: - [ ] `<id>` **<category>** — <question>
+ */
+const CHECKLIST_ITEM = /^- \[([ xX])\] `([^`]+)` \*\*([\w-]+)\*\* — (.*)$/
+
+/**
+ * Checklist field line: "  - Label: value" (value may be empty, e.g. Options)
+ */
+const CHECKLIST_FIELD = /^ {2}- ([A-Za-z ]+):(?: (.*))?$/
+
+/**
+ * Continuation line of a multi-line question or field value
+ */
+const CHECKLIST_CONTINUATION = /^ {4}(.*)$/
+
+/**
+ * Checklist field labels mapped to Blocker fields
+ */
+const CHECKLIST_FIELDS: Record<string, string> = {
+  'id': 'shortId',
+  'priority': 'priority',
+  'session': 'sessionId',
+  'agent': 'agent',
+  'model': 'model',
+  'message': 'messageId',
+  'timestamp': 'timestamp',
+  'context': 'context',
+  'files': 'files',
+  'branch': 'git.branch',
+  'commit': 'git.head',
+  'uncommitted': 'git.uncommitted',
+  'diff': 'diffBlock',
+  'options': 'options',
+  'chosen option': 'chosenOption',
+  'reasoning': 'chosenReasoning',
+  'clarification': 'clarification',
+  'occurrences': 'occurrences',
+  'related': 'related',
+  'status': 'status',
+}
+
+/**
+ * Parse checklist-layout items into Blocker objects
+ *
+ * Ticking a box (`- [x]`) marks the blocker as resolved (`clarified`, or
+ * `skipped` when the item carries a `Status: skipped` field). Items under
+ * `## Hard blockers` block progress, items under `## Soft decisions` don't.
+ *
+ * @param content - Raw markdown file content
+ * @param categories - Categories the project accepts; others are read as 'other'
+ * @returns Parsed checklist blockers in file order
+ */
+export function parseChecklistMarkdown(
+  content: string,
+  categories: readonly string[] = BUILTIN_CATEGORIES
+): Blocker[] {
+  const blockers: Blocker[] = []
+  let blocksProgress = true
+  let current: { blocker: Partial<Blocker>; checked: boolean; fields: Map<string, string[]> } | null = null
+  let field = 'question'
+
+  const flush = () => {
+    if (!current) return
+    const { blocker, checked, fields } = current
+    let status: string | undefined
+    for (const [variable, lines] of fields) {
+      if (variable === 'status') {
+        status = lines.join('\n').trim().toLowerCase()
+      } else {
+        assignField(blocker, variable, lines.join('\n'))
+      }
+    }
+    blockers.push({
+      id: blocker.id!,
+      ...(blocker.shortId ? { shortId: blocker.shortId } : {}),
+      timestamp: blocker.timestamp ?? '',
+      sessionId: blocker.sessionId ?? '',
+      ...(blocker.agent ? { agent: blocker.agent } : {}),
+      ...(blocker.model ? { model: blocker.model } : {}),
+      ...(blocker.messageId ? { messageId: blocker.messageId } : {}),
+      category: knownCategory(blocker.category, categories),
+      ...(blocker.priority ? { priority: blocker.priority } : {}),
+      question: blocker.question ?? '',
+      context: blocker.context ?? '',
+      blocksProgress: blocker.blocksProgress ?? true,
+      ...(blocker.options && blocker.options.length > 0 ? { options: blocker.options } : {}),
+      ...(blocker.chosenOption ? { chosenOption: blocker.chosenOption } : {}),
+      ...(blocker.chosenReasoning ? { chosenReasoning: blocker.chosenReasoning } : {}),
+      clarified: checked ? (status === 'skipped' ? 'skipped' : 'clarified') : 'pending',
+      ...(blocker.clarification ? { clarification: blocker.clarification } : {}),
+      ...(blocker.occurrences ? { occurrences: blocker.occurrences } : {}),
+      ...(blocker.lastSeen ? { lastSeen: blocker.lastSeen } : {}),
+      ...(blocker.related && blocker.related.length > 0 ? { related: blocker.related } : {}),
+      ...(blocker.files && blocker.files.length > 0 ? { files: blocker.files } : {}),
+      ...(blocker.git ? { git: blocker.git } : {}),
+      ...(blocker.diff ? { diff: blocker.diff } : {}),
+    })
+    current = null
+  }
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\r$/, '')
+
+    if (current) {
+      const continuation = line.match(CHECKLIST_CONTINUATION)
+      if (continuation) {
+        current.fields.get(field)!.push(continuation[1])
+        continue
+      }
+
+      const fieldLine = line.match(CHECKLIST_FIELD)
+      const variable = fieldLine ? CHECKLIST_FIELDS[fieldLine[1].trim().toLowerCase()] : undefined
+      if (fieldLine && variable) {
+        field = variable
+        current.fields.set(field, [fieldLine[2] ?? ''])
+        continue
+      }
+
+      flush()
+    }
+
+    const heading = line.match(/^#{1,2}\s+.+$/)
+    if (heading) {
+      const text = line.trimEnd()
+      blocksProgress = text !== CHECKLIST_SOFT_HEADING
+      continue
+    }
+
+    const item = line.match(CHECKLIST_ITEM)
+    if (item) {
+      const blocker: Partial<Blocker> = { id: item[2], blocksProgress }
+      assignField(blocker, 'category', item[3])
+      current = { blocker, checked: item[1] !== ' ', fields: new Map([['question', [item[4]]]]) }
+      field = 'question'
+    }
+  }
+  flush()
+
+  return blockers
+}
+
+/**
+ * Extract the free-form preamble that precedes the first blocker entry
+ *
+ * Used when regenerating the file so titles and notes written above the
+ * entries survive a rebuild.
+ *
+ * @param content - Raw markdown file content
+ * @param templates - Templates the entries may have been rendered with
+ * @returns Text before the first entry header (whole content if no entries)
+ */
+export function extractPreamble(content: string, templates: string[]): string {
+  const headers = templates.length > 0
+    ? templates.map(t => deriveTemplateSchema(t).header)
+    : [DEFAULT_HEADER]
+  const lines = content.split('\n')
+  const firstEntry = lines.findIndex(line => headers.some(h => h.test(line.trimEnd())))
+
+  return firstEntry === -1 ? content : lines.slice(0, firstEntry).join('\n')
+}
+
+/**
+ * Line range of one blocker in BLOCKERS.md content
+ */
+export interface BlockerLines {
+  /** First line (entry header or checklist item line) */
+  start: number
+  /** Line after the last line of the blocker */
+  end: number
+  /** Layout the blocker was rendered in */
+  layout: BlockersLayout
+}
+
+/**
+ * Locate a blocker's lines in BLOCKERS.md content
+ *
+ * Uses the same boundaries as the parsers: an entry runs from its header to
+ * the next entry header or a top-level heading that is not part of a
+ * template (e.g. a run header); a checklist item spans its `- [ ]` line and
+ * the indented field lines below it.
+ *
+ * @param content - Raw markdown file content
+ * @param id - Long blocker ID
+ * @param templates - Templates the entries may have been rendered with
+ * @returns Line range (indexes into `content.split('\n')`), or null if not found
+ */
+export function findBlockerLines(content: string, id: string, templates: string[]): BlockerLines | null {
+  const lines = content.split('\n')
+
+  const item = lines.findIndex(line => {
+    const match = line.replace(/\r$/, '').match(CHECKLIST_ITEM)
+    return match !== null && match[2] === id
+  })
+  if (item !== -1) {
+    let end = item + 1
+    while (end < lines.length && /^ {2}/.test(lines[end])) end++
+    return { start: item, end, layout: 'checklist' }
+  }
+
+  const schemas = templates.length > 0
+    ? templates.map(deriveTemplateSchema)
+    : [{ header: DEFAULT_HEADER, inline: [], sections: new Map<string, string>() }]
+  const templateHeadings = new Set(schemas.flatMap(s => [...s.sections.keys()]))
+  const headerId = (line: string) =>
+    schemas.map(s => line.trimEnd().match(s.header)).find(m => m !== null)?.[1].trim()
+
+  const start = lines.findIndex(line => headerId(line) === id)
+  if (start === -1) return null
+
+  let end = start + 1
+  while (end < lines.length) {
+    const line = lines[end].trimEnd()
+    const topLevel = line.match(/^#{1,2}\s+(.+?)\s*$/)
+    if (headerId(line) !== undefined || (topLevel && !templateHeadings.has(topLevel[1].toLowerCase()))) break
+    end++
+  }
+
+  return { start, end, layout: 'entries' }
+}
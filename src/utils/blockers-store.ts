@@ -0,0 +1,966 @@
+/**
+ * Structured blocker store
+ *
+ * Keeps every blocker as one JSON record per line in a JSONL sidecar
+ * (default: .opencode/blockers.jsonl). The store is the source of truth;
+ * BLOCKERS.md is a rendered view of it:
+ * - New blockers are written to the store first, then rendered into the log
+ * - The log can be regenerated from the store at any time
+ * - Answers written into the log by humans are folded back into the store
+ *   before the log is regenerated, so they are never lost
+ *
+ * Records are full Blocker objects. `clarified` is always present
+ * ('pending' until someone answers) so scripts can filter on it directly.
+ *
+ * @module utils/blockers-store
+ */
+
+import { basename, dirname, resolve } from 'node:path'
+import { appendFile, mkdir, rename, writeFile } from 'node:fs/promises'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import type { Blocker, BlockerStatusUpdate, PluginConfig } from '../types'
+import type { LogClient } from '../config'
+import {
+  appendBlocker,
+  archiveBlockersFile,
+  findLatestArchives,
+  insertChecklistBlocker,
+  readBlockers,
+  rebuildBlockersFile,
+  replaceBlockerEntry,
+  rotateIfNeeded,
+  updateBlockerStatus,
+  updatePriorityIndex,
+  validatePath,
+  type ArchiveResult,
+  type RotationOptions,
+} from './blockers-file'
+import { withFileLock } from './file-lock'
+import { findRecurringBlocker } from './dedupe'
+import { findBlocker } from './short-id'
+import { getCategoryNames } from './categories'
+import { getBlockersFileFor, getBlockersFiles } from './routing'
+import { findPackageLogs } from './packages'
+import { findSimilarBlockers } from './similarity'
+import { isIndexed } from './priority'
+import { logError, logWarn, showWarningToast } from './logging'
+import { isEditedExternally, getWrittenBlockerIds, acknowledgeExternalEdit } from './external-edits'
+
+/**
+ * Normalizes a blocker into its stored record shape
+ *
+ * @param blocker - Blocker to store
+ * @returns Copy with explicit clarification status
+ */
+function toStoreRecord(blocker: Blocker): Blocker {
+  return { ...blocker, clarified: blocker.clarified ?? 'pending' }
+}
+
+/**
+ * Reads all blocker records from the JSONL store
+ *
+ * Malformed lines (e.g. a partial line from a crash mid-write) are skipped
+ * and reported, never fatal. When a blocker ID appears more than once, the
+ * last record wins.
+ *
+ * @param storeFile - Path to the JSONL store
+ * @param projectDir - Project root for path validation
+ * @param logClient - Optional logging client
+ * @returns Promise<Blocker[]> - Stored blockers in insertion order (empty if missing)
+ * @throws Error if path validation fails
+ */
+export async function readStore(
+  storeFile: string,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<Blocker[]> {
+  try {
+    const resolvedPath = validatePath(storeFile, projectDir)
+
+    const file = Bun.file(resolvedPath)
+    if (!(await file.exists())) {
+      return []
+    }
+
+    const records = new Map<string, Blocker>()
+    let skipped = 0
+
+    for (const line of (await file.text()).split('\n')) {
+      if (!line.trim()) continue
+
+      try {
+        const record = JSON.parse(line) as Blocker
+        if (typeof record?.id !== 'string' || record.id.length === 0) {
+          skipped++
+          continue
+        }
+        records.set(record.id, record)
+      } catch {
+        skipped++
+      }
+    }
+
+    if (skipped > 0) {
+      await logWarn(logClient, 'Skipped malformed blocker store records', { storeFile, skipped })
+    }
+
+    return [...records.values()]
+  } catch (error) {
+    // Re-throw validation errors (security-critical)
+    if (error instanceof Error && error.message.includes('directory traversal')) {
+      throw error
+    }
+
+    await logError(logClient, 'Failed to read blocker store', error as Error, { storeFile })
+    return []
+  }
+}
+
+/**
+ * Appends a blocker record to the JSONL store
+ *
+ * Idempotent by blocker ID: a record already in the store is not written
+ * again, so retries after a partial failure never duplicate entries.
+ *
+ * @param storeFile - Path to the JSONL store
+ * @param blocker - Blocker to store
+ * @param projectDir - Project root for path validation
+ * @param logClient - Optional logging client
+ * @returns Promise<boolean> - true if stored (or already present), false on error
+ * @throws Error if path validation fails
+ */
+export async function appendToStore(
+  storeFile: string,
+  blocker: Blocker,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<boolean> {
+  try {
+    const resolvedPath = validatePath(storeFile, projectDir)
+
+    await mkdir(dirname(resolvedPath), { recursive: true })
+
+    // Duplicate check and append under one lock, so concurrent retries stay idempotent
+    await withFileLock(resolvedPath, projectDir, async () => {
+      const existing = await readStore(storeFile, projectDir, logClient)
+      if (existing.some(record => record.id === blocker.id)) {
+        return
+      }
+
+      await appendFile(resolvedPath, JSON.stringify(toStoreRecord(blocker)) + '\n', 'utf-8')
+    })
+
+    return true
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('directory traversal')) {
+      throw error
+    }
+
+    await logError(logClient, 'Failed to append to blocker store', error as Error, {
+      storeFile,
+      blockerId: blocker.id,
+    })
+    return false
+  }
+}
+
+/**
+ * Replaces the full contents of the JSONL store
+ *
+ * Writes to a temp file and renames it into place (atomic on POSIX).
+ *
+ * @param storeFile - Path to the JSONL store
+ * @param blockers - Complete list of records to keep
+ * @param projectDir - Project root for path validation
+ * @param logClient - Optional logging client
+ * @returns Promise<boolean> - true if written, false on error
+ * @throws Error if path validation fails
+ */
+export async function writeStore(
+  storeFile: string,
+  blockers: Blocker[],
+  projectDir: string,
+  logClient?: LogClient
+): Promise<boolean> {
+  try {
+    const resolvedPath = validatePath(storeFile, projectDir)
+
+    await mkdir(dirname(resolvedPath), { recursive: true })
+
+    const tempPath = `${resolvedPath}.${process.pid}.tmp`
+    const content = blockers.map(b => JSON.stringify(toStoreRecord(b)) + '\n').join('')
+    await withFileLock(resolvedPath, projectDir, async () => {
+      await writeFile(tempPath, content, 'utf-8')
+      await rename(tempPath, resolvedPath)
+    })
+
+    return true
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('directory traversal')) {
+      throw error
+    }
+
+    await logError(logClient, 'Failed to write blocker store', error as Error, { storeFile })
+    return false
+  }
+}
+
+/**
+ * Folds answers written into the markdown back into stored records
+ *
+ * Status and clarification from the markdown win; entries only present in
+ * the markdown are appended.
+ *
+ * @param stored - Records from the store
+ * @param rendered - Blockers parsed from the markdown log
+ * @returns Merged records, store order first
+ */
+function mergeMarkdownAnswers(stored: Blocker[], rendered: Blocker[]): Blocker[] {
+  const renderedById = new Map(rendered.map(b => [b.id, b]))
+  const storedIds = new Set(stored.map(b => b.id))
+
+  const merged = stored.map(record => {
+    const edited = renderedById.get(record.id)
+    if (!edited) return record
+
+    const answered = edited.clarified !== undefined && edited.clarified !== 'pending'
+    return {
+      ...record,
+      ...(answered ? { clarified: edited.clarified } : {}),
+      ...(edited.clarification ? { clarification: edited.clarification } : {}),
+    }
+  })
+  merged.push(...rendered.filter(b => !storedIds.has(b.id)))
+
+  return merged
+}
+
+/**
+ * One markdown log and the blockers parsed from it
+ */
+export interface BlockerLog {
+  /** Log path as configured (absolute, or project-relative for package logs) */
+  file: string
+  /** Package the log belongs to, for package logs */
+  package?: string
+  blockers: Blocker[]
+}
+
+/**
+ * Every markdown log blockers can be in: blockersFile, route files, and
+ * with `packageLogs` the package logs that exist
+ *
+ * @param config - Plugin configuration (blockersFile, routes, packageLogs, packageRoots)
+ * @param projectDir - Project root
+ * @returns Logs (without blockers), blockersFile first
+ */
+async function getBlockerLogFiles(config: PluginConfig, projectDir: string): Promise<Array<Omit<BlockerLog, 'blockers'>>> {
+  return [
+    ...getBlockersFiles(config).map(file => ({ file })),
+    ...(config.packageLogs ? await findPackageLogs(config, projectDir) : []),
+  ]
+}
+
+/**
+ * Reads every markdown log blockers are routed to
+ *
+ * Blockers read from a package log are attributed to its package, so they
+ * stay there when the logs are rebuilt.
+ *
+ * @param config - Plugin configuration (blockersFile, routes, packageLogs, categories)
+ * @param projectDir - Project root for path validation and template loading
+ * @param logClient - Optional logging client
+ * @returns Parsed blockers per log, blockersFile first
+ * @throws Error if path validation fails
+ *
+ * @example
+ * ```typescript
+ * const logs = await readBlockerLogs(config, worktree)
+ * const open = logs.flatMap(log => log.blockers).filter(b => b.clarified === 'pending')
+ * ```
+ */
+export async function readBlockerLogs(
+  config: PluginConfig,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<BlockerLog[]> {
+  const logs: BlockerLog[] = []
+  for (const log of await getBlockerLogFiles(config, projectDir)) {
+    const blockers = await readBlockers(log.file, projectDir, logClient, getCategoryNames(config))
+    logs.push({
+      ...log,
+      blockers: log.package ? blockers.map(blocker => ({ package: log.package, ...blocker })) : blockers,
+    })
+  }
+  return logs
+}
+
+/**
+ * Blockers of the most recent rotation, read from its archived store and logs
+ *
+ * Lets lookups see past a rotation (such as rotateOnRunStart), after which
+ * the live logs and store start empty.
+ *
+ * @param config - Plugin configuration (blockersFile, archiveDir, storeFile, categories)
+ * @param projectDir - Project root for path validation and template loading
+ * @param logClient - Optional logging client
+ * @returns Promise<Blocker[]> - Archived blockers, store order first (empty if nothing was archived yet)
+ * @throws Error if path validation fails
+ */
+async function readLatestArchive(
+  config: PluginConfig,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<Blocker[]> {
+  const archives = await findLatestArchives(config.blockersFile, projectDir, {
+    archiveDir: config.archiveDir,
+    storeFile: config.storeFile,
+  })
+
+  const stored: Blocker[] = []
+  const rendered: Blocker[] = []
+  for (const archive of archives) {
+    if (archive.endsWith('.jsonl')) {
+      stored.push(...await readStore(archive, projectDir, logClient))
+    } else {
+      rendered.push(...await readBlockers(archive, projectDir, logClient, getCategoryNames(config)))
+    }
+  }
+  return mergeMarkdownAnswers(stored, rendered)
+}
+
+/**
+ * Blockers on disk, split into live and archived ones
+ */
+interface KnownBlockers {
+  /** The store's records, with answers and entries only in the live logs merged in */
+  live: Blocker[]
+  /** Blockers of the latest rotation */
+  archived: Blocker[]
+}
+
+/**
+ * Known blockers already read in the current async call chain, by project
+ * and logs
+ */
+const knownBlockersCache = new AsyncLocalStorage<Map<string, Promise<KnownBlockers>>>()
+
+/**
+ * Runs fn with the known blockers read at most once within it
+ *
+ * Before a blocker is logged, recurrence, archived recurrence, related
+ * blockers and the short ID counter each look at every blocker on disk.
+ * Within fn they share one read of the store, the logs and the latest
+ * archive. Only those lookups use it: writes always re-read the files under
+ * their locks, and a recurrence bump clears it. Nested calls share the
+ * outermost cache; outside any, every lookup reads the files again.
+ *
+ * @param fn - Work to run (typically one tool call)
+ * @returns fn's result
+ *
+ * @example
+ * ```typescript
+ * return withKnownBlockersCache(() => handleToolExecuteBefore(input, output, logClient, config, worktree))
+ * ```
+ */
+export function withKnownBlockersCache<T>(fn: () => Promise<T>): Promise<T> {
+  return knownBlockersCache.getStore() ? fn() : knownBlockersCache.run(new Map(), fn)
+}
+
+/**
+ * Reads the live and archived blockers (see withKnownBlockersCache)
+ *
+ * @param config - Plugin configuration (blockersFile, routes, storeFile, packageLogs, archiveDir)
+ * @param projectDir - Project root for path validation and template loading
+ * @param logClient - Optional logging client
+ * @throws Error if path validation fails
+ */
+function readKnownBlockerSets(
+  config: PluginConfig,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<KnownBlockers> {
+  const read = async (): Promise<KnownBlockers> => {
+    const stored = config.storeFile ? await readStore(config.storeFile, projectDir, logClient) : []
+    const rendered = (await readBlockerLogs(config, projectDir, logClient)).flatMap(log => log.blockers)
+    return {
+      live: mergeMarkdownAnswers(stored, rendered),
+      archived: await readLatestArchive(config, projectDir, logClient),
+    }
+  }
+
+  const cache = knownBlockersCache.getStore()
+  if (!cache) {
+    return read()
+  }
+
+  const key = JSON.stringify([
+    resolve(projectDir),
+    config.blockersFile,
+    config.storeFile,
+    config.routes,
+    config.packageLogs,
+    config.packageRoots,
+    config.archiveDir,
+  ])
+  let known = cache.get(key)
+  if (!known) {
+    known = read()
+    cache.set(key, known)
+  }
+  return known
+}
+
+/**
+ * Every live blocker: the store's records, with answers and entries only
+ * present in the live logs (blockersFile, routes, package logs) merged in
+ *
+ * @param config - Plugin configuration (blockersFile, routes, storeFile, packageLogs)
+ * @param projectDir - Project root for path validation and template loading
+ * @param logClient - Optional logging client
+ * @returns Promise<Blocker[]> - Blockers, store order first
+ * @throws Error if path validation fails
+ */
+export async function readLiveBlockers(
+  config: PluginConfig,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<Blocker[]> {
+  return (await readKnownBlockerSets(config, projectDir, logClient)).live
+}
+
+/**
+ * Every blocker on disk: the store's records, with answers and entries
+ * only present in the live logs merged in, then those of the latest archive
+ *
+ * @param config - Plugin configuration (blockersFile, routes, storeFile, packageLogs)
+ * @param projectDir - Project root for path validation and template loading
+ * @param logClient - Optional logging client
+ * @returns Promise<Blocker[]> - Blockers, live ones first
+ * @throws Error if path validation fails
+ */
+export async function readKnownBlockers(
+  config: PluginConfig,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<Blocker[]> {
+  const { live, archived } = await readKnownBlockerSets(config, projectDir, logClient)
+  return [...live, ...archived]
+}
+
+/**
+ * Runs fn holding the locks of every markdown log, then the store's
+ * (same order as rotation: logs first)
+ *
+ * @param config - Plugin configuration (blockersFile, routes, packageLogs)
+ * @param projectDir - Project root for path validation
+ * @param storeFile - Store to lock as well, if any
+ * @param fn - Work to do under the locks
+ * @throws Error if path validation fails
+ */
+async function withLogLocks<T>(
+  config: PluginConfig,
+  projectDir: string,
+  storeFile: string | undefined,
+  fn: () => Promise<T>
+): Promise<T> {
+  const paths = [
+    ...(await getBlockerLogFiles(config, projectDir)).map(log => validatePath(log.file, projectDir)),
+    ...(storeFile ? [validatePath(storeFile, projectDir)] : []),
+  ]
+  return paths.reduceRight<() => Promise<T>>((inner, path) => () => withFileLock(path, projectDir, inner), fn)()
+}
+
+/**
+ * Builds rotation options (archive dir, retention, size limit) from config
+ *
+ * Route and package logs are archived together with blockersFile, so a
+ * rotation never leaves blockers behind that the next store would import.
+ *
+ * @param config - Plugin configuration
+ * @param projectDir - Project root (to find package logs)
+ * @returns Options for rotateIfNeeded / archiveBlockersFile
+ */
+async function getRotationOptions(config: PluginConfig, projectDir: string): Promise<RotationOptions> {
+  return {
+    archiveDir: config.archiveDir,
+    maxArchives: config.maxArchives,
+    maxBytes: config.rotateMaxBytes,
+    storeFile: config.storeFile,
+    otherLogs: (await getBlockerLogFiles(config, projectDir))
+      .map(log => log.file)
+      .filter(file => file !== config.blockersFile),
+  }
+}
+
+/**
+ * Archives the current blockers log, every routed log and the store
+ * unconditionally
+ *
+ * Used when a run starts (rotateOnRunStart) and by /blockers.archive.
+ *
+ * @param config - Plugin configuration
+ * @param projectDir - Project root for path validation
+ * @param logClient - Optional logging client
+ * @returns Promise<ArchiveResult | null> - Archive details, or null if there was nothing to archive
+ * @throws Error if path validation fails
+ */
+export async function archiveBlockers(
+  config: PluginConfig,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<ArchiveResult | null> {
+  return archiveBlockersFile(config.blockersFile, projectDir, await getRotationOptions(config, projectDir), logClient)
+}
+
+/**
+ * Rotates the blockers logs (and store) into the archive when the configured
+ * entry or size limit has been reached
+ *
+ * Runs before a blocker is written anywhere, so a rotation never separates
+ * a new store record from its markdown entry.
+ *
+ * @param config - Plugin configuration (blockersFile, rotation limits)
+ * @param projectDir - Project root for path validation
+ * @param logClient - Optional logging client
+ * @throws Error if path validation fails
+ */
+export async function rotateBlockersIfNeeded(
+  config: PluginConfig,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<void> {
+  if (config.rotateMaxEntries === undefined && config.rotateMaxBytes === undefined) {
+    return
+  }
+
+  await rotateIfNeeded(
+    config.blockersFile,
+    config.rotateMaxEntries ?? Number.POSITIVE_INFINITY,
+    projectDir,
+    logClient,
+    await getRotationOptions(config, projectDir)
+  )
+}
+
+/**
+ * Appends a blocker to a JSONL store
+ *
+ * On the first write to the configured store of a project that already has
+ * a BLOCKERS.md (or routed logs), existing entries are imported so the store
+ * is complete.
+ *
+ * @param config - Plugin configuration (blockersFile, routes, storeFile)
+ * @param blocker - Blocker to store
+ * @param projectDir - Project root for path validation
+ * @param logClient - Optional logging client
+ * @param storeFile - Store to write (default: config.storeFile; none means nothing to do)
+ * @returns Promise<boolean> - true if stored (or no store configured), false on error
+ * @throws Error if path validation fails
+ */
+export async function storeBlocker(
+  config: PluginConfig,
+  blocker: Blocker,
+  projectDir: string,
+  logClient?: LogClient,
+  storeFile: string | undefined = config.storeFile
+): Promise<boolean> {
+  if (!storeFile) {
+    return true
+  }
+
+  if (storeFile === config.storeFile) {
+    const storeExists = await Bun.file(validatePath(storeFile, projectDir)).exists()
+    if (!storeExists) {
+      const legacy = (await readBlockerLogs(config, projectDir, logClient)).flatMap(log => log.blockers)
+      if (legacy.length > 0 && !(await writeStore(storeFile, legacy, projectDir, logClient))) {
+        return false
+      }
+    }
+  }
+
+  return appendToStore(storeFile, blocker, projectDir, logClient)
+}
+
+/**
+ * Merges an external edit of a markdown log before appending to it
+ *
+ * When someone edited the log since the plugin last wrote it (see
+ * utils/external-edits), their version is kept as is: blockers the plugin
+ * appended earlier that the edit dropped (typically an editor saving a
+ * stale copy) are appended again from the store, and nothing else. A
+ * warning toast tells the user either way.
+ *
+ * @param config - Plugin configuration (storeFile, layout)
+ * @param blockersFile - Log about to be written
+ * @param blocker - Blocker about to be appended (never re-appended here)
+ * @param projectDir - Project root for path validation and template loading
+ * @param logClient - Optional logging client
+ * @throws Error if path validation fails
+ */
+async function mergeExternalEdit(
+  config: PluginConfig,
+  blockersFile: string,
+  blocker: Blocker,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<void> {
+  const resolvedPath = validatePath(blockersFile, projectDir)
+  if (!(await isEditedExternally(resolvedPath, projectDir))) {
+    return
+  }
+
+  const inFile = new Set((await readBlockers(blockersFile, projectDir, logClient, getCategoryNames(config))).map(b => b.id))
+  const dropped = new Set((await getWrittenBlockerIds(resolvedPath, projectDir)).filter(id => id !== blocker.id && !inFile.has(id)))
+  const records = dropped.size > 0 && config.storeFile
+    ? (await readStore(config.storeFile, projectDir, logClient)).filter(record => dropped.has(record.id))
+    : []
+
+  for (const record of records) {
+    // Stored records say 'pending' explicitly; logs leave it out
+    const restored = record.clarified === 'pending' ? { ...record, clarified: undefined } : record
+    if (config.layout === 'checklist') {
+      await insertChecklistBlocker(blockersFile, restored, projectDir, logClient)
+    } else {
+      await appendBlocker(blockersFile, restored, projectDir, logClient)
+    }
+  }
+  await acknowledgeExternalEdit(resolvedPath, projectDir)
+
+  const name = basename(resolvedPath)
+  await logWarn(logClient, `${name} was edited during the run, merged before writing`, {
+    blockersFile,
+    restored: records.map(record => record.id),
+  })
+  await showWarningToast(
+    logClient,
+    records.length > 0
+      ? `${name} was edited during the run: your changes are kept, and ${records.length} blocker(s) the edit dropped were added back.`
+      : `${name} was edited during the run: your changes are kept, and new blockers are added after them.`
+  )
+}
+
+/**
+ * Renders a blocker into a markdown log using the configured layout
+ *
+ * If the log was edited by someone else since the plugin last wrote it,
+ * the edit is merged first (see mergeExternalEdit). With `priorityIndex`
+ * on, the "read this first" index at the top of the log is regenerated
+ * afterwards when the blocker belongs in it (p0–p2); other blockers are
+ * only appended.
+ *
+ * @param config - Plugin configuration (blockersFile, layout)
+ * @param blocker - Blocker to render
+ * @param projectDir - Project root for path validation and template loading
+ * @param logClient - Optional logging client
+ * @param blockersFile - Log to write (default: config.blockersFile)
+ * @returns Promise<boolean> - true if written, false on error
+ * @throws Error if path validation fails
+ */
+export async function renderBlocker(
+  config: PluginConfig,
+  blocker: Blocker,
+  projectDir: string,
+  logClient?: LogClient,
+  blockersFile: string = config.blockersFile
+): Promise<boolean> {
+  // One lock for merge, append and index, so no edit is taken for another's
+  return withFileLock(validatePath(blockersFile, projectDir), projectDir, async () => {
+    try {
+      await mergeExternalEdit(config, blockersFile, blocker, projectDir, logClient)
+    } catch (error) {
+      // Appending is still safe: it keeps whatever is in the file
+      await logError(logClient, 'Failed to merge external edit of blockers file', error as Error, { blockersFile })
+    }
+
+    const written = config.layout === 'checklist'
+      ? await insertChecklistBlocker(blockersFile, blocker, projectDir, logClient)
+      : await appendBlocker(blockersFile, blocker, projectDir, logClient)
+
+    // The entry is in place either way; a stale index is refreshed on the next write
+    if (written && config.priorityIndex && isIndexed(blocker, config)) {
+      await updatePriorityIndex(blockersFile, projectDir, logClient, config)
+    }
+
+    return written
+  })
+}
+
+/**
+ * Regenerates BLOCKERS.md (and every routed log) from the store
+ *
+ * Before rendering, status and clarifications a human wrote into the
+ * markdown are merged into the store (markdown answers win), and entries
+ * only present in the markdown are adopted into the store. Each blocker is
+ * then rendered into the log its route (or package) picks.
+ *
+ * @param config - Plugin configuration (blockersFile, routes, storeFile)
+ * @param projectDir - Project root for path validation and template loading
+ * @param logClient - Optional logging client
+ * @returns Promise<boolean> - true if the view was regenerated, false if no store or on error
+ * @throws Error if path validation fails
+ */
+export async function rebuildBlockersView(
+  config: PluginConfig,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<boolean> {
+  if (!config.storeFile) {
+    return false
+  }
+
+  const storeFile = config.storeFile
+
+  // Hold all locks (logs first, like rotation) so no blocker is written
+  // between reading the logs and replacing them
+  return withLogLocks(config, projectDir, storeFile, async () => {
+    const stored = await readStore(storeFile, projectDir, logClient)
+    const logs = await readBlockerLogs(config, projectDir, logClient)
+    const merged = mergeMarkdownAnswers(stored, logs.flatMap(log => log.blockers))
+
+    if (!(await writeStore(storeFile, merged, projectDir, logClient))) {
+      return false
+    }
+
+    // Existing logs, plus package logs the store has blockers for
+    const files = [...new Set([...logs.map(log => log.file), ...merged.map(blocker => getBlockersFileFor(blocker, config))])]
+
+    let rebuilt = true
+    for (const file of files) {
+      const routed = merged.filter(blocker => getBlockersFileFor(blocker, config) === file)
+      const existing = logs.find(log => log.file === file)?.blockers ?? []
+      // Leave route files that never received a blocker uncreated
+      if (file !== config.blockersFile && routed.length === 0 && existing.length === 0) {
+        continue
+      }
+
+      const written = await rebuildBlockersFile(file, routed, projectDir, logClient, config.layout)
+      if (written && config.priorityIndex) {
+        await updatePriorityIndex(file, projectDir, logClient, config)
+      }
+      rebuilt = rebuilt && written
+    }
+    return rebuilt
+  })
+}
+
+/**
+ * Counts a repeated question against the unresolved blocker already asking it
+ *
+ * Looks for an unresolved blocker with the same question in the live logs
+ * (blockersFile and every route file) and the store. With `nearDuplicates: 'merge'`,
+ * the closest unresolved blocker above `similarityThreshold` also counts.
+ * On a match, its occurrence counter is incremented and `lastSeen` set to
+ * now, in the store record and in place in the log holding it, instead of
+ * logging a duplicate. Matches left in the archive by the last rotation are
+ * found by findArchivedRecurrence instead.
+ *
+ * The match is looked for in the known blockers (see withKnownBlockersCache);
+ * only when there is one are the files re-read under their locks to bump it.
+ *
+ * @param config - Plugin configuration (blockersFile, routes, storeFile, layout)
+ * @param question - Question of the blocker about to be logged
+ * @param projectDir - Project root for path validation and template loading
+ * @param logClient - Optional logging client
+ * @returns Promise<Blocker | null> - The updated blocker, or null if there is no match (or on error)
+ * @throws Error if path validation fails
+ *
+ * @example
+ * ```typescript
+ * const existing = await recordRecurrence(config, args.question, worktree, logClient)
+ * if (existing) return BLOCKER_RESPONSE_MESSAGE
+ * ```
+ */
+export async function recordRecurrence(
+  config: PluginConfig,
+  question: string,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<Blocker | null> {
+  const storeFile = config.storeFile
+  const threshold = config.nearDuplicates === 'merge' ? config.similarityThreshold : undefined
+
+  const update = async (): Promise<Blocker | null> => {
+    const stored = storeFile ? await readStore(storeFile, projectDir, logClient) : []
+    const logs = await readBlockerLogs(config, projectDir, logClient)
+    const rendered = logs.flatMap(log => log.blockers)
+
+    const match = findRecurringBlocker(question, mergeMarkdownAnswers(stored, rendered), threshold)
+    if (!match) {
+      return null
+    }
+
+    const bump = { occurrences: (match.occurrences ?? 1) + 1, lastSeen: new Date().toISOString() }
+
+    if (storeFile && stored.some(record => record.id === match.id)) {
+      const records = stored.map(record => (record.id === match.id ? { ...record, ...bump } : record))
+      if (!(await writeStore(storeFile, records, projectDir, logClient))) {
+        return null
+      }
+    }
+
+    for (const { file, blockers } of logs) {
+      const entry = blockers.find(b => b.id === match.id)
+      if (entry) {
+        await replaceBlockerEntry(file, { ...entry, ...bump }, projectDir, logClient)
+      }
+    }
+
+    return { ...match, ...bump }
+  }
+
+  try {
+    if (!findRecurringBlocker(question, (await readKnownBlockerSets(config, projectDir, logClient)).live, threshold)) {
+      return null
+    }
+
+    // Same lock order as rotation and rebuild: logs first, then store
+    const recurring = await withLogLocks(config, projectDir, storeFile, update)
+    // Occurrences changed on disk: later lookups read them again
+    knownBlockersCache.getStore()?.clear()
+    return recurring
+  } catch (error) {
+    await logError(logClient, 'Failed to record recurring blocker', error as Error, {
+      blockersFile: config.blockersFile,
+    })
+    return null
+  }
+}
+
+/**
+ * Finds the unresolved blocker asking the same question in the latest archive
+ *
+ * Complements recordRecurrence across rotations: the question is logged
+ * again in the fresh logs, carrying the archived blocker's occurrence count
+ * forward, so recurrence survives rotateOnRunStart.
+ *
+ * @param config - Plugin configuration (blockersFile, archiveDir, storeFile, nearDuplicates, similarityThreshold)
+ * @param question - Question of the blocker about to be logged
+ * @param projectDir - Project root for path validation and template loading
+ * @param logClient - Optional logging client
+ * @returns Promise<Blocker | null> - The archived blocker, or null if there is no match
+ * @throws Error if path validation fails
+ *
+ * @example
+ * ```typescript
+ * const previous = await findArchivedRecurrence(config, args.question, worktree, logClient)
+ * const occurrences = previous ? (previous.occurrences ?? 1) + 1 : undefined
+ * ```
+ */
+export async function findArchivedRecurrence(
+  config: PluginConfig,
+  question: string,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<Blocker | null> {
+  const threshold = config.nearDuplicates === 'merge' ? config.similarityThreshold : undefined
+  const { archived } = await readKnownBlockerSets(config, projectDir, logClient)
+  return findRecurringBlocker(question, archived, threshold) ?? null
+}
+
+/**
+ * Sets the status (and clarification) of a logged blocker
+ *
+ * The blocker is looked up by long or short ID in the live logs and the
+ * store. Its store record is updated, and its entry is edited in place in
+ * the log holding it (see updateBlockerStatus; the rest of the log is left
+ * as is), so commands and tools can resolve blockers without rewriting the
+ * markdown. With `priorityIndex` on, that log's index is refreshed when
+ * the blocker is listed in it.
+ *
+ * @param config - Plugin configuration (blockersFile, routes, storeFile, priorityIndex)
+ * @param ref - Long ID, or short ID such as "B-0142" / "b-142"
+ * @param update - New status, and the clarification to add or replace
+ * @param projectDir - Project root for path validation and template loading
+ * @param logClient - Optional logging client
+ * @returns Promise<Blocker | null> - The updated blocker, or null if not found (or on error)
+ * @throws Error if path validation fails
+ *
+ * @example
+ * ```typescript
+ * await setBlockerStatus(config, 'B-0142', { clarified: 'clarified', clarification: 'Use RS256' }, worktree, logClient)
+ * ```
+ */
+export async function setBlockerStatus(
+  config: PluginConfig,
+  ref: string,
+  update: BlockerStatusUpdate,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<Blocker | null> {
+  const storeFile = config.storeFile
+
+  const apply = async (): Promise<Blocker | null> => {
+    const stored = storeFile ? await readStore(storeFile, projectDir, logClient) : []
+    const logs = await readBlockerLogs(config, projectDir, logClient)
+    const match = findBlocker(mergeMarkdownAnswers(stored, logs.flatMap(log => log.blockers)), ref)
+    if (!match) {
+      return null
+    }
+
+    const fields = {
+      clarified: update.clarified,
+      ...(update.clarification !== undefined ? { clarification: update.clarification } : {}),
+    }
+
+    if (storeFile && stored.some(record => record.id === match.id)) {
+      const records = stored.map(record => (record.id === match.id ? { ...record, ...fields } : record))
+      if (!(await writeStore(storeFile, records, projectDir, logClient))) {
+        return null
+      }
+    }
+
+    for (const { file, blockers } of logs) {
+      if (blockers.some(b => b.id === match.id) && (await updateBlockerStatus(file, match.id, update, projectDir, logClient))) {
+        if (config.priorityIndex && isIndexed(match, config)) {
+          await updatePriorityIndex(file, projectDir, logClient, config)
+        }
+      }
+    }
+
+    return { ...match, ...fields }
+  }
+
+  try {
+    // Same lock order as rotation and rebuild: logs first, then store
+    return await withLogLocks(config, projectDir, storeFile, apply)
+  } catch (error) {
+    await logError(logClient, 'Failed to set blocker status', error as Error, { ref })
+    return null
+  }
+}
+
+/**
+ * Most related blockers listed on a new blocker
+ */
+const MAX_RELATED = 3
+
+/**
+ * Finds blockers on disk asking nearly the same question
+ *
+ * Used with `nearDuplicates: 'link'`: the new blocker is still logged, and
+ * lists these under `related`. Answered blockers are included, since an
+ * earlier answer often settles the new question too. The live logs, the
+ * store and the latest archive are searched.
+ *
+ * @param config - Plugin configuration (blockersFile, routes, storeFile, archiveDir, nearDuplicates, similarityThreshold)
+ * @param question - Question of the blocker about to be logged
+ * @param projectDir - Project root for path validation
+ * @param logClient - Optional logging client
+ * @returns Promise<string[]> - Up to 3 short IDs (long IDs when missing), best match first; empty when linking is off
+ * @throws Error if path validation fails
+ */
+export async function findRelatedBlockers(
+  config: PluginConfig,
+  question: string,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<string[]> {
+  if (config.nearDuplicates !== 'link' || config.similarityThreshold === undefined) {
+    return []
+  }
+
+  return findSimilarBlockers(question, await readKnownBlockers(config, projectDir, logClient), config.similarityThreshold)
+    .slice(0, MAX_RELATED)
+    .map(match => match.blocker.shortId ?? match.blocker.id)
+}
@@ -0,0 +1,172 @@
+/**
+ * Blocker category taxonomy
+ *
+ * The single definition of which categories exist and what they mean. The
+ * blocker tool's arguments, the Zod validation and the system prompt are all
+ * derived from it, so they can no longer disagree.
+ *
+ * Every project has the built-in categories. `config.categories` can
+ * override their description, default hard/soft and default priority, and
+ * add new ones:
+ *
+ *   "categories": {
+ *     "compliance": { "description": "Licensing and data-protection questions", "priority": "p1" },
+ *     "question": { "blocksProgress": false }
+ *   }
+ *
+ * (The same entries carry the per-category limits, see utils/category-limits.
+ * A category disabled there is not offered to agents.)
+ *
+ * @module utils/categories
+ */
+
+import { BUILTIN_CATEGORIES, type BlockerCategory, type BlockerPriority, type BuiltinCategory, type PluginConfig } from '../types'
+
+/**
+ * One category as agents see it
+ */
+export interface CategoryDefinition {
+  name: BlockerCategory
+  /** What the category is for */
+  description: string
+  /**
+   * Default for `blocksProgress` when the agent omits it; undefined leaves
+   * it to the agent (soft with researched options, else hard)
+   */
+  blocksProgress?: boolean
+  /** Default priority when the agent omits it */
+  priority: BlockerPriority
+}
+
+/**
+ * Built-in categories, in the order they are listed to agents
+ */
+const BUILTIN_DEFINITIONS: Record<BuiltinCategory, Omit<CategoryDefinition, 'name'>> = {
+  permission: {
+    description: 'Permission dialogs (bash, edit, external_directory)',
+    blocksProgress: true,
+    priority: 'p2',
+  },
+  architecture: {
+    description: 'High-level design decisions (frameworks, data models, service boundaries)',
+    blocksProgress: true,
+    priority: 'p2',
+  },
+  security: {
+    description: 'Security-sensitive choices (authentication, secrets, access control)',
+    blocksProgress: true,
+    priority: 'p1',
+  },
+  destructive: {
+    description: 'Potentially destructive operations (delete, drop, truncate, force-push)',
+    blocksProgress: true,
+    priority: 'p1',
+  },
+  deployment: {
+    description: 'Deployment and infrastructure configuration',
+    blocksProgress: true,
+    priority: 'p2',
+  },
+  question: {
+    description: 'General questions that need an answer from the user',
+    priority: 'p3',
+  },
+  other: {
+    description: 'Anything that fits no other category',
+    priority: 'p3',
+  },
+}
+
+/**
+ * All categories of a project: the built-in ones, then those added in config
+ *
+ * @param config - Plugin configuration (categories); omit for the built-in set
+ * @returns Category definitions in listing order
+ *
+ * @example
+ * ```typescript
+ * getCategories(config).map(category => category.name)
+ * // ['permission', 'architecture', ..., 'other', 'compliance']
+ * ```
+ */
+export function getCategories(config?: Pick<PluginConfig, 'categories'>): CategoryDefinition[] {
+  const configured = config?.categories ?? {}
+  const names = [...new Set<string>([...BUILTIN_CATEGORIES, ...Object.keys(configured)])]
+
+  return names.map(name => {
+    const builtin = BUILTIN_DEFINITIONS[name as BuiltinCategory] as Omit<CategoryDefinition, 'name'> | undefined
+    const overrides = configured[name]
+    const blocksProgress = overrides?.blocksProgress ?? (builtin ? builtin.blocksProgress : true)
+    return {
+      name,
+      description: overrides?.description ?? builtin?.description ?? '',
+      ...(blocksProgress !== undefined ? { blocksProgress } : {}),
+      priority: overrides?.priority ?? builtin?.priority ?? 'p3',
+    }
+  })
+}
+
+/**
+ * Categories agents may log blockers in: all but those with `enabled: false`
+ *
+ * If every category is disabled, all are returned so the tool still has a
+ * category to accept (the limits then drop the blocker).
+ *
+ * @param config - Plugin configuration (categories); omit for the built-in set
+ * @returns Category definitions in listing order
+ */
+export function getAgentCategories(config?: Pick<PluginConfig, 'categories'>): CategoryDefinition[] {
+  const categories = getCategories(config)
+  const enabled = categories.filter(category => config?.categories?.[category.name]?.enabled !== false)
+  return enabled.length > 0 ? enabled : categories
+}
+
+/**
+ * Names of all categories of a project
+ *
+ * @param config - Plugin configuration (categories); omit for the built-in set
+ * @returns Category names in listing order (never empty)
+ */
+export function getCategoryNames(config?: Pick<PluginConfig, 'categories'>): [BlockerCategory, ...BlockerCategory[]] {
+  const [first, ...rest] = getCategories(config).map(category => category.name)
+  return [first, ...rest]
+}
+
+/**
+ * Names of the categories agents may log blockers in (see getAgentCategories)
+ *
+ * @param config - Plugin configuration (categories); omit for the built-in set
+ * @returns Category names in listing order (never empty)
+ */
+export function getAgentCategoryNames(config?: Pick<PluginConfig, 'categories'>): [BlockerCategory, ...BlockerCategory[]] {
+  const [first, ...rest] = getAgentCategories(config).map(category => category.name)
+  return [first, ...rest]
+}
+
+/**
+ * Definition of one category
+ *
+ * @param name - Category name
+ * @param config - Plugin configuration (categories); omit for the built-in set
+ * @returns Definition, or undefined for an unknown category
+ */
+export function getCategory(
+  name: BlockerCategory,
+  config?: Pick<PluginConfig, 'categories'>
+): CategoryDefinition | undefined {
+  return getCategories(config).find(category => category.name === name)
+}
+
+/**
+ * One-line description of a category for agents
+ *
+ * @param category - Category definition
+ * @returns e.g. "security (hard, p1): Security-sensitive choices (authentication, secrets, access control)"
+ */
+export function describeCategory(category: CategoryDefinition): string {
+  const kind = category.blocksProgress === undefined ? 'hard or soft' : category.blocksProgress ? 'hard' : 'soft'
+  const defaults = `${kind}, ${category.priority}`
+  return category.description
+    ? `${category.name} (${defaults}): ${category.description}`
+    : `${category.name} (${defaults})`
+}
@@ -0,0 +1,117 @@
+/**
+ * Per-category blocker limits
+ *
+ * `config.categories` overrides the run-wide limits for single categories,
+ * e.g. at most 5 `architecture` blockers, no limit on `permission`, and a
+ * long cooldown only for `question`:
+ * - max: blockers of this category per run; replaces `maxBlockersPerRun` for
+ *   it, `null` means no limit
+ * - cooldownMs: dedupe window for this category instead of `cooldownMs`
+ * - enabled: false drops blockers of this category without logging them
+ *
+ * Categories without an entry share the run-wide `maxBlockersPerRun`.
+ *
+ * @module utils/category-limits
+ */
+
+import type { BlockerCategory, PluginConfig, SessionState } from '../types'
+
+/**
+ * Outcome of checking whether one more blocker may be logged
+ * - disabled: the category is switched off
+ * - category-max: the category's own `max` is reached
+ * - run-max: `maxBlockersPerRun` is reached
+ */
+export type CategoryLimitCheck =
+  | { allowed: true }
+  | { allowed: false; reason: 'disabled' }
+  | { allowed: false; reason: 'category-max' | 'run-max'; count: number; max: number }
+
+/**
+ * Blockers logged for one category in the current run
+ */
+export interface CategoryUsage {
+  category: string
+  count: number
+  /** Own limit; null for no limit, undefined when the run-wide limit applies */
+  max?: number | null
+  enabled: boolean
+}
+
+/**
+ * Check a new blocker against its category's limits and the run-wide limit
+ *
+ * @param category - Category of the blocker about to be logged
+ * @param state - Session state (blockers logged so far)
+ * @param config - Plugin configuration (maxBlockersPerRun, categories)
+ * @returns Whether the blocker may be logged, and why not
+ *
+ * @example
+ * ```typescript
+ * const limit = checkCategoryLimit('architecture', state, config)
+ * if (!limit.allowed) return BLOCKER_RESPONSE_MESSAGE
+ * ```
+ */
+export function checkCategoryLimit(
+  category: BlockerCategory,
+  state: SessionState,
+  config: PluginConfig
+): CategoryLimitCheck {
+  const limits = config.categories?.[category]
+
+  if (limits?.enabled === false) {
+    return { allowed: false, reason: 'disabled' }
+  }
+
+  if (limits?.max === null) {
+    return { allowed: true }
+  }
+
+  if (limits?.max !== undefined) {
+    const count = state.blockers.filter(blocker => blocker.category === category).length
+    return count < limits.max
+      ? { allowed: true }
+      : { allowed: false, reason: 'category-max', count, max: limits.max }
+  }
+
+  const count = state.blockers.length
+  return count < config.maxBlockersPerRun
+    ? { allowed: true }
+    : { allowed: false, reason: 'run-max', count, max: config.maxBlockersPerRun }
+}
+
+/**
+ * Dedupe cooldown for a category
+ *
+ * @param category - Blocker category
+ * @param config - Plugin configuration (cooldownMs, categories)
+ * @returns The category's own cooldownMs, else the run-wide one
+ */
+export function getCategoryCooldownMs(category: BlockerCategory, config: PluginConfig): number {
+  return config.categories?.[category]?.cooldownMs ?? config.cooldownMs
+}
+
+/**
+ * Per-category usage for /blockers.status
+ *
+ * Lists every configured category and every category with blockers in
+ * this run, configured ones first.
+ *
+ * @param state - Session state (blockers logged so far)
+ * @param config - Plugin configuration (categories)
+ * @returns One entry per category
+ */
+export function getCategoryUsage(state: SessionState, config: PluginConfig): CategoryUsage[] {
+  const configured = Object.keys(config.categories ?? {})
+  const logged = state.blockers.map(blocker => blocker.category as string)
+
+  return [...new Set([...configured, ...logged])].map(category => {
+    const limits = config.categories?.[category]
+    return {
+      category,
+      count: state.blockers.filter(blocker => blocker.category === category).length,
+      ...(limits?.max !== undefined ? { max: limits.max } : {}),
+      enabled: limits?.enabled !== false,
+    }
+  })
+}
@@ -10,7 +10,9 @@
  * @module utils/dedupe
  */
 
-import type { SessionState, PluginConfig } from '../types'
+import type { Blocker, BlockerCategory, SessionState, PluginConfig } from '../types'
+import { findSimilarBlockers } from './similarity'
+import { getCategoryCooldownMs } from './category-limits'
 
 /**
  * Generate SHA-256 hash for blocker deduplication
@@ -113,11 +115,13 @@ export function isInCooldown(
  * If the hash already exists, this updates the expiry timestamp to the
  * new calculated value (extending the cooldown).
  * 
- * Expiry calculation: `Date.now() + config.cooldownMs`
+ * Expiry calculation: `Date.now() + config.cooldownMs`, or the category's
+ * own `cooldownMs` from `config.categories` when one is set
  * 
  * @param hash - The blocker hash to track
  * @param state - Session state to update (mutates cooldownHashes Map)
  * @param config - Plugin config containing cooldownMs duration
+ * @param category - Optional blocker category, for per-category cooldowns
  * 
  * @example
  * ```typescript
@@ -131,11 +135,62 @@ export function isInCooldown(
 export function addToCooldown(
   hash: string,
   state: SessionState,
-  config: PluginConfig
+  config: PluginConfig,
+  category?: BlockerCategory
 ): void {
   // Calculate expiry timestamp
-  const expiry = Date.now() + config.cooldownMs
+  const expiry = Date.now() + (category ? getCategoryCooldownMs(category, config) : config.cooldownMs)
   
   // Set in cooldown map (overwrites if exists)
   state.cooldownHashes.set(hash, expiry)
 }
+
+/**
+ * Normalize a question for matching against blockers already on disk
+ * 
+ * Unlike the cooldown hash, this ignores case and context: the same
+ * question asked again from a different place is still the same blocker.
+ * 
+ * @param question - The blocker question text
+ * @returns Trimmed, whitespace-collapsed, lowercased question
+ */
+export function normalizeQuestion(question: string): string {
+  return question.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * Find an unresolved blocker asking the same question
+ * 
+ * Only blockers still waiting for an answer (`clarified` unset or
+ * 'pending') count; a question asked again after it was answered is a new
+ * blocker. With a `threshold`, the most similar unresolved blocker at or
+ * above it (see utils/similarity) is returned when there is no exact match.
+ * 
+ * @param question - Question of the blocker about to be logged
+ * @param blockers - Blockers already on disk
+ * @param threshold - Optional minimum similarity (0–1) for near-duplicates
+ * @returns The first unresolved exact match, else the closest near-duplicate, or undefined
+ * 
+ * @example
+ * ```typescript
+ * const existing = findRecurringBlocker(args.question, await readBlockers(file, worktree))
+ * if (existing) {
+ *   // bump existing.occurrences instead of logging a duplicate
+ * }
+ * ```
+ */
+export function findRecurringBlocker<T extends Blocker>(
+  question: string,
+  blockers: T[],
+  threshold?: number
+): T | undefined {
+  const normalized = normalizeQuestion(question)
+  const unresolved = blockers.filter(blocker => blocker.clarified === undefined || blocker.clarified === 'pending')
+
+  const exact = unresolved.find(blocker => normalizeQuestion(blocker.question) === normalized)
+  if (exact || threshold === undefined) {
+    return exact
+  }
+
+  return findSimilarBlockers(question, unresolved, threshold)[0]?.blocker
+}
@@ -0,0 +1,193 @@
+/**
+ * External edits to blocker logs
+ *
+ * People open BLOCKERS.md and start answering while an overnight run is
+ * still writing to it. The editor's copy then goes stale: saving it drops
+ * the entries the run appended in the meantime.
+ *
+ * Every plugin write to a log records the file's fingerprint (mtime, size
+ * and content hash) afterwards, and the IDs of the blockers it appended. A
+ * file that no longer matches its fingerprint was edited by someone else;
+ * the conflict stays flagged until the next blocker write has merged it
+ * (see renderBlocker in utils/blockers-store).
+ *
+ * Fingerprints are kept on disk under `.opencode/blocker-diverter/fingerprints/`
+ * (keyed by the log's project-relative path) and only changed while holding
+ * the log's lock, so several processes writing one log see each other's
+ * writes as their own.
+ *
+ * @module utils/external-edits
+ */
+
+import { mkdir, readFile, writeFile, rename, stat, unlink } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { getPluginFilePath } from './project-dir'
+
+/**
+ * What a log looked like after the plugin last wrote it
+ */
+interface TrackedLog {
+  mtimeMs: number
+  size: number
+  hash: string
+  /** Set once an external edit is seen, until acknowledged */
+  edited: boolean
+  /** Blockers the plugin appended to the log, in write order */
+  written: string[]
+}
+
+/**
+ * Path of the file holding a log's fingerprint
+ *
+ * @param path - Absolute path of the log
+ * @param projectDir - Project root
+ */
+function fingerprintPath(path: string, projectDir: string): string {
+  return getPluginFilePath(projectDir, 'fingerprints', path, '.json')
+}
+
+/**
+ * Reads a log's recorded fingerprint
+ *
+ * @param path - Absolute path of the log
+ * @param projectDir - Project root
+ * @returns Recorded fingerprint, or null if the log is not tracked (or the
+ *   fingerprint file is unreadable)
+ */
+async function readTracked(path: string, projectDir: string): Promise<TrackedLog | null> {
+  try {
+    const tracked = JSON.parse(await readFile(fingerprintPath(path, projectDir), 'utf-8'))
+    return tracked && typeof tracked.hash === 'string' && Array.isArray(tracked.written) ? tracked : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Records a log's fingerprint (temp file renamed into place)
+ *
+ * @param path - Absolute path of the log
+ * @param projectDir - Project root
+ * @param tracked - Fingerprint to record
+ */
+async function writeTracked(path: string, projectDir: string, tracked: TrackedLog): Promise<void> {
+  const trackedPath = fingerprintPath(path, projectDir)
+  await mkdir(dirname(trackedPath), { recursive: true })
+  await writeFile(`${trackedPath}.${process.pid}.tmp`, JSON.stringify(tracked), 'utf-8')
+  await rename(`${trackedPath}.${process.pid}.tmp`, trackedPath)
+}
+
+/**
+ * Current fingerprint of a log
+ *
+ * @param path - Absolute path of the log
+ * @returns Fingerprint, or null if the file does not exist
+ */
+async function fingerprint(path: string): Promise<Pick<TrackedLog, 'mtimeMs' | 'size' | 'hash'> | null> {
+  const stats = await stat(path).catch(() => null)
+  if (!stats) {
+    return null
+  }
+  return { mtimeMs: stats.mtimeMs, size: stats.size, hash: Bun.hash(await readFile(path)).toString(16) }
+}
+
+/**
+ * Whether a log changed since the plugin last wrote it
+ *
+ * A newer mtime alone does not count (e.g. saved without changes): the
+ * content hash must differ too. A log that was deleted is forgotten.
+ *
+ * @param path - Absolute path of the log
+ * @param projectDir - Project root
+ * @returns True if edited by someone else (and not yet acknowledged)
+ */
+export async function isEditedExternally(path: string, projectDir: string): Promise<boolean> {
+  const tracked = await readTracked(path, projectDir)
+  if (!tracked) {
+    return false
+  }
+
+  const stats = await stat(path).catch(() => null)
+  if (!stats) {
+    await forgetLog(path, projectDir)
+    return false
+  }
+
+  if (tracked.edited) {
+    return true
+  }
+  if (stats.mtimeMs === tracked.mtimeMs && stats.size === tracked.size) {
+    return false
+  }
+  return Bun.hash(await readFile(path)).toString(16) !== tracked.hash
+}
+
+/**
+ * Runs a plugin write to a log and records the log's new fingerprint
+ *
+ * An external edit found before the write stays flagged, so rewriting the
+ * file does not hide it. Call while holding the log's lock.
+ *
+ * @param path - Absolute path of the log
+ * @param projectDir - Project root
+ * @param write - The write
+ * @param appended - IDs of the blockers the write appends
+ * @returns Whatever the write returns
+ */
+export async function trackWrite<T>(
+  path: string,
+  projectDir: string,
+  write: () => Promise<T>,
+  appended: string[] = []
+): Promise<T> {
+  const edited = await isEditedExternally(path, projectDir)
+  const result = await write()
+
+  const current = await fingerprint(path)
+  if (!current) {
+    await forgetLog(path, projectDir)
+    return result
+  }
+
+  const written = new Set((await readTracked(path, projectDir))?.written ?? [])
+  for (const id of appended) written.add(id)
+  await writeTracked(path, projectDir, { ...current, edited, written: [...written] })
+  return result
+}
+
+/**
+ * IDs of the blockers the plugin appended to a log
+ *
+ * @param path - Absolute path of the log
+ * @param projectDir - Project root
+ * @returns IDs in write order
+ */
+export async function getWrittenBlockerIds(path: string, projectDir: string): Promise<string[]> {
+  return (await readTracked(path, projectDir))?.written ?? []
+}
+
+/**
+ * Accepts a log's current content once an external edit has been merged
+ *
+ * Call while holding the log's lock.
+ *
+ * @param path - Absolute path of the log
+ * @param projectDir - Project root
+ */
+export async function acknowledgeExternalEdit(path: string, projectDir: string): Promise<void> {
+  const tracked = await readTracked(path, projectDir)
+  const current = await fingerprint(path)
+  if (tracked && current) {
+    await writeTracked(path, projectDir, { ...tracked, ...current, edited: false })
+  }
+}
+
+/**
+ * Stops tracking a log (it was archived or deleted)
+ *
+ * @param path - Absolute path of the log
+ * @param projectDir - Project root
+ */
+export async function forgetLog(path: string, projectDir: string): Promise<void> {
+  await unlink(fingerprintPath(path, projectDir)).catch(() => {})
+}
@@ -0,0 +1,299 @@
+/**
+ * Cross-process advisory file locks
+ *
+ * Several OpenCode sessions (and child task sessions) can write the same
+ * BLOCKERS.md at once. Every write and rotation takes a lock first: a lock
+ * file created with O_EXCL, so exactly one process holds it. Lock files live
+ * under `.opencode/blocker-diverter/locks/`, keyed by the locked file's
+ * project-relative path, so they never clutter the user's tree.
+ *
+ * - Waiting writers retry with backoff until a timeout (LockTimeoutError)
+ * - Holders touch the lock's mtime while they work, so a slow rotation or
+ *   store rewrite is never mistaken for an abandoned lock
+ * - Stale locks are broken: the owner process on this host is gone, or the
+ *   lock was not touched within the stale limit (owner crashed or hung)
+ * - Re-entrant within one async call chain: rotation can archive while
+ *   holding the lock, without deadlocking on itself
+ * - A lock is only removed by its owner, or as the stale lock a waiter saw:
+ *   it is first renamed to a unique name and its token checked there, so a
+ *   fresh lock another writer took meanwhile is put back, never deleted
+ *
+ * Locks are advisory: they only coordinate writers that use this module.
+ *
+ * @module utils/file-lock
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { randomUUID } from 'node:crypto'
+import { dirname } from 'node:path'
+import { hostname } from 'node:os'
+import { link, mkdir, open, readFile, rename, stat, unlink, utimes } from 'node:fs/promises'
+import { getPluginFilePath } from './project-dir'
+
+/**
+ * Max time to wait for a lock before giving up
+ */
+const LOCK_TIMEOUT_MS = 10000
+
+/**
+ * Time without a touch after which a lock is considered abandoned
+ * Holders touch the lock every third of this; it only trips on crashed or hung owners
+ */
+const LOCK_STALE_MS = 30000
+
+/**
+ * First retry delay; doubles per attempt up to LOCK_MAX_RETRY_MS
+ */
+const LOCK_RETRY_MS = 10
+
+/**
+ * Upper bound for the retry delay
+ */
+const LOCK_MAX_RETRY_MS = 200
+
+/**
+ * Options for acquiring a lock (defaults suit blocker log writes)
+ */
+export interface FileLockOptions {
+  /** Max time to wait for the lock in milliseconds */
+  timeoutMs?: number
+  /** Time in milliseconds without a touch after which an existing lock is broken */
+  staleMs?: number
+}
+
+/**
+ * Thrown when a lock could not be acquired in time
+ */
+export class LockTimeoutError extends Error {
+  /**
+   * Create a LockTimeoutError
+   *
+   * @param lockPath - Lock file that stayed held
+   * @param timeoutMs - How long we waited
+   */
+  constructor(lockPath: string, timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms waiting for lock ${lockPath}`)
+    this.name = 'LockTimeoutError'
+  }
+}
+
+/**
+ * Contents of a lock file
+ */
+interface LockOwner {
+  pid: number
+  hostname: string
+  token: string
+  acquiredAt: string
+}
+
+/**
+ * Lock files held by the current async call chain
+ */
+const heldLocks = new AsyncLocalStorage<Set<string>>()
+
+/**
+ * Whether a process with this PID is running on this host
+ *
+ * @param pid - Process ID
+ * @returns true if running (or not ours to signal)
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM: process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+/**
+ * Reads the owner recorded in a lock file
+ *
+ * @returns Owner, or null if the file is missing or not (yet) fully written
+ */
+async function readOwner(lockPath: string): Promise<LockOwner | null> {
+  try {
+    const owner = JSON.parse(await readFile(lockPath, 'utf-8')) as LockOwner
+    return typeof owner?.pid === 'number' && typeof owner.token === 'string' ? owner : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Decides whether an existing lock was abandoned
+ *
+ * @returns The abandoned owner's token (null if the lock file was never
+ *   fully written), or undefined if the lock is live or gone
+ */
+async function findStaleToken(lockPath: string, staleMs: number): Promise<string | null | undefined> {
+  let modified: number
+  try {
+    modified = (await stat(lockPath)).mtimeMs
+  } catch {
+    // Released meanwhile - not stale, just retry
+    return undefined
+  }
+
+  const owner = await readOwner(lockPath)
+  if (Date.now() - modified > staleMs) {
+    return owner?.token ?? null
+  }
+  return owner !== null && owner.hostname === hostname() && !isProcessAlive(owner.pid) ? owner.token : undefined
+}
+
+/**
+ * Removes the lock file if it belongs to the given token
+ *
+ * Reading the owner and then unlinking could delete a lock another writer
+ * created in between. The lock is renamed to a unique name first, so the
+ * token is checked on exactly the file that is removed; a lock that turns
+ * out to be someone else's is linked back (unless a newer one exists).
+ *
+ * @param lockPath - Lock file
+ * @param token - Token of the owner to remove (null: an owner that never
+ *   finished writing the lock file)
+ * @param staleMs - For a null token: how long the lock must be untouched,
+ *   so a fresh lock that is still being written is not taken for it
+ * @returns Whether the lock was removed
+ */
+async function removeLock(lockPath: string, token: string | null, staleMs = 0): Promise<boolean> {
+  const moved = `${lockPath}.${randomUUID()}.removing`
+  try {
+    await rename(lockPath, moved)
+  } catch {
+    // Already removed by someone else
+    return false
+  }
+
+  const owner = await readOwner(moved)
+  const matches = token !== null
+    ? owner?.token === token
+    : owner === null && Date.now() - (await stat(moved).then(stats => stats.mtimeMs, () => Date.now())) > staleMs
+  if (!matches) {
+    await link(moved, lockPath).catch(() => {})
+  }
+  await unlink(moved).catch(() => {})
+  return matches
+}
+
+/**
+ * Creates the lock file, waiting for the current owner if needed
+ *
+ * @returns Promise<string> - Token identifying this lock holder
+ * @throws LockTimeoutError if the lock stays held past the timeout
+ */
+async function acquire(lockPath: string, timeoutMs: number, staleMs: number): Promise<string> {
+  const deadline = Date.now() + timeoutMs
+  const owner: LockOwner = {
+    pid: process.pid,
+    hostname: hostname(),
+    token: randomUUID(),
+    acquiredAt: new Date().toISOString(),
+  }
+
+  await mkdir(dirname(lockPath), { recursive: true })
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const handle = await open(lockPath, 'wx')
+      try {
+        await handle.writeFile(JSON.stringify(owner), 'utf-8')
+      } finally {
+        await handle.close()
+      }
+      return owner.token
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error
+      }
+    }
+
+    const staleToken = await findStaleToken(lockPath, staleMs)
+    if (staleToken !== undefined && (await removeLock(lockPath, staleToken, staleMs))) {
+      continue
+    }
+
+    if (Date.now() >= deadline) {
+      throw new LockTimeoutError(lockPath, timeoutMs)
+    }
+
+    const delay = Math.min(LOCK_RETRY_MS * 2 ** attempt, LOCK_MAX_RETRY_MS)
+    await new Promise(resolve => setTimeout(resolve, delay + Math.random() * LOCK_RETRY_MS))
+  }
+}
+
+/**
+ * Touches the lock's mtime while it is held, so it never looks abandoned
+ *
+ * @returns Function stopping the touches
+ */
+function keepFresh(lockPath: string, token: string, staleMs: number): () => void {
+  const timer = setInterval(() => {
+    void (async () => {
+      // Never refresh a lock that was broken and taken over by another writer
+      if ((await readOwner(lockPath))?.token === token) {
+        const now = new Date()
+        await utimes(lockPath, now, now)
+      }
+    })().catch(() => {})
+  }, staleMs / 3)
+  timer.unref?.()
+  return () => clearInterval(timer)
+}
+
+/**
+ * Lock file of a project file
+ *
+ * @param filePath - Absolute path of the file being written
+ * @param projectDir - Project root
+ * @returns Absolute path under `.opencode/blocker-diverter/locks/`
+ */
+export function getLockPath(filePath: string, projectDir: string): string {
+  return getPluginFilePath(projectDir, 'locks', filePath, '.lock')
+}
+
+/**
+ * Runs `fn` while holding the lock for `filePath` (see getLockPath)
+ *
+ * Re-entrant: nested calls for the same file within `fn` run immediately.
+ * The lock is released when `fn` settles, including on errors.
+ *
+ * @param filePath - Absolute path of the file being written
+ * @param projectDir - Project root (where the lock file is kept)
+ * @param fn - Work to do while holding the lock
+ * @param options - Timeout and stale-lock limits
+ * @returns Promise resolving to the result of `fn`
+ * @throws LockTimeoutError if the lock could not be acquired in time
+ *
+ * @example
+ * ```typescript
+ * await withFileLock(resolvedPath, projectDir, () => appendFile(resolvedPath, entry, 'utf-8'))
+ * ```
+ */
+export async function withFileLock<T>(
+  filePath: string,
+  projectDir: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const lockPath = getLockPath(filePath, projectDir)
+  const held = heldLocks.getStore()
+  if (held?.has(lockPath)) {
+    return fn()
+  }
+
+  const staleMs = options.staleMs ?? LOCK_STALE_MS
+  const token = await acquire(lockPath, options.timeoutMs ?? LOCK_TIMEOUT_MS, staleMs)
+  const stopTouching = keepFresh(lockPath, token, staleMs)
+  try {
+    return await heldLocks.run(new Set([...(held ?? []), lockPath]), fn)
+  } finally {
+    stopTouching()
+    // Only removes it if it is still ours (it may have been broken as stale
+    // and taken over by another writer)
+    await removeLock(lockPath, token)
+  }
+}
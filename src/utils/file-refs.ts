@@ -0,0 +1,82 @@
+/**
+ * File references of a blocker
+ *
+ * Agents point at the code a blocker is about with `files: [{ path, line?,
+ * endLine? }]`. The log renders each reference as a markdown link relative
+ * to the blockers file, so it opens from the editor or a repository browser:
+ *
+ *   [src/auth.ts:45-52](../src/auth.ts#L45-L52)
+ *
+ * The link text (project-relative path and lines) is what is read back when
+ * parsing the log. Pure functions only; paths are validated by the tool.
+ *
+ * @module utils/file-refs
+ */
+
+import { relative, join, sep } from 'node:path'
+import type { BlockerFileRef } from '../types'
+
+/**
+ * Matches a rendered link, capturing its text
+ */
+const FILE_LINK = /\[([^\]\n]+)\]\([^)\n]*\)/g
+
+/**
+ * Label of a reference: path plus line or line range
+ *
+ * @param ref - File reference
+ * @returns e.g. "src/auth.ts", "src/auth.ts:45", "src/auth.ts:45-52"
+ */
+export function formatFileRef(ref: BlockerFileRef): string {
+  if (ref.line === undefined) return ref.path
+  return ref.endLine !== undefined && ref.endLine !== ref.line
+    ? `${ref.path}:${ref.line}-${ref.endLine}`
+    : `${ref.path}:${ref.line}`
+}
+
+/**
+ * Parse a reference label back (inverse of formatFileRef)
+ *
+ * @param label - e.g. "src/auth.ts:45-52"
+ * @returns File reference, or null for an empty label
+ */
+export function parseFileRef(label: string): BlockerFileRef | null {
+  const match = label.trim().match(/^(.+?)(?::(\d+)(?:-(\d+))?)?$/)
+  if (!match) return null
+
+  return {
+    path: match[1],
+    ...(match[2] ? { line: Number.parseInt(match[2], 10) } : {}),
+    ...(match[3] ? { endLine: Number.parseInt(match[3], 10) } : {}),
+  }
+}
+
+/**
+ * Render a reference as a markdown link
+ *
+ * @param ref - File reference (path relative to projectDir)
+ * @param projectDir - Project root
+ * @param fromDir - Directory of the file the link is written to
+ * @returns e.g. "[src/auth.ts:45-52](src/auth.ts#L45-L52)"
+ */
+export function formatFileLink(ref: BlockerFileRef, projectDir: string, fromDir: string): string {
+  const target = encodeURI(relative(fromDir, join(projectDir, ref.path)).split(sep).join('/'))
+  const anchor = ref.line === undefined
+    ? ''
+    : ref.endLine !== undefined && ref.endLine !== ref.line
+      ? `#L${ref.line}-L${ref.endLine}`
+      : `#L${ref.line}`
+  return `[${formatFileRef(ref)}](${target}${anchor})`
+}
+
+/**
+ * Read the references back from rendered links
+ *
+ * @param text - Markdown holding links written by formatFileLink
+ * @returns References in order of appearance
+ */
+export function parseFileLinks(text: string): BlockerFileRef[] {
+  return [...text.matchAll(FILE_LINK)]
+    .map(match => parseFileRef(match[1]))
+    .filter((ref): ref is BlockerFileRef => ref !== null)
+}
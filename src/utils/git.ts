@@ -0,0 +1,189 @@
+/**
+ * Git helpers
+ *
+ * Read-only queries against the project repository, used to annotate the
+ * blockers log (run headers, the code state each blocker was asked
+ * against, and the half-written changes to the files it refers to).
+ * Every helper degrades to null when git is unavailable, the directory is
+ * not a repository, or the command does not finish in time.
+ *
+ * @module utils/git
+ */
+
+import { execFile } from 'node:child_process'
+import type { GitSnapshot } from '../types'
+
+/**
+ * Max time a single git command may take before it is abandoned
+ */
+const GIT_TIMEOUT_MS = 2000
+
+/**
+ * Max output read from a single git command (larger diffs are dropped, not truncated)
+ */
+const GIT_MAX_BUFFER = 8 * 1024 * 1024
+
+/**
+ * Most uncommitted files listed in a snapshot; the rest are only counted
+ */
+const MAX_DIRTY_FILES = 50
+
+/**
+ * Runs a git command in the project directory
+ *
+ * @param args - Arguments passed to git
+ * @param projectDir - Directory to run git in
+ * @param okExitCodes - Exit codes that still count as success (`diff --no-index` exits 1 when files differ)
+ * @returns Promise<string | null> - Raw stdout, or null on any failure
+ */
+function runGit(args: string[], projectDir: string, okExitCodes: number[] = [0]): Promise<string | null> {
+  return new Promise(resolve => {
+    execFile('git', args, { cwd: projectDir, timeout: GIT_TIMEOUT_MS, maxBuffer: GIT_MAX_BUFFER }, (error, stdout) => {
+      const ok = !error || (typeof error.code === 'number' && !error.killed && okExitCodes.includes(error.code))
+      resolve(ok ? String(stdout) : null)
+    })
+  })
+}
+
+/**
+ * Gets the checked-out branch name
+ *
+ * @param projectDir - Project root directory
+ * @returns Promise<string | null> - Branch name, 'HEAD' when detached, null if unavailable
+ *
+ * @example
+ * ```typescript
+ * const branch = await getGitBranch(projectDir) ?? 'unknown'
+ * ```
+ */
+export async function getGitBranch(projectDir: string): Promise<string | null> {
+  const branch = (await runGit(['rev-parse', '--abbrev-ref', 'HEAD'], projectDir))?.trim()
+  return branch ? branch : null
+}
+
+/**
+ * Parses `git status --porcelain -z` output into changed paths
+ *
+ * Each record is "XY path"; renames and copies are followed by an extra
+ * record holding the old path, which is skipped.
+ */
+function parseStatus(output: string): string[] {
+  const records = output.split('\0')
+  const paths: string[] = []
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i]
+    if (record.length < 4) continue
+    paths.push(record.slice(3))
+    if (/[RC]/.test(record.slice(0, 2))) i++
+  }
+
+  return paths
+}
+
+/**
+ * Captures the code state of the repository: branch, HEAD commit and
+ * uncommitted changes
+ *
+ * @param projectDir - Project root directory
+ * @returns Promise<GitSnapshot | null> - Snapshot, or null outside a repository or before the first commit
+ *
+ * @example
+ * ```typescript
+ * const git = await getGitSnapshot(worktree)
+ * // { branch: 'main', head: '3f2c9e1…', dirty: ['src/auth.ts'], dirtyCount: 1 }
+ * ```
+ */
+export async function getGitSnapshot(projectDir: string): Promise<GitSnapshot | null> {
+  const [branch, head, status] = await Promise.all([
+    getGitBranch(projectDir),
+    runGit(['rev-parse', 'HEAD'], projectDir),
+    runGit(['status', '--porcelain=v1', '-z'], projectDir),
+  ])
+
+  if (!branch || !head?.trim() || status === null) {
+    return null
+  }
+
+  const dirty = parseStatus(status)
+  return {
+    branch,
+    head: head.trim(),
+    dirty: dirty.slice(0, MAX_DIRTY_FILES),
+    dirtyCount: dirty.length,
+  }
+}
+
+/**
+ * Cuts a diff down to at most maxBytes, at a line boundary
+ *
+ * Whole lines are kept; only a first line longer than maxBytes is cut, and
+ * then between characters, so no multibyte character is ever split.
+ */
+function truncateDiff(diff: string, maxBytes: number): string {
+  const total = Buffer.byteLength(diff, 'utf-8')
+  if (total <= maxBytes) {
+    return diff
+  }
+
+  const lines = diff.split('\n')
+  let kept = 0
+  let size = 0
+  while (kept < lines.length) {
+    const lineBytes = Buffer.byteLength(lines[kept], 'utf-8') + (kept > 0 ? 1 : 0)
+    if (size + lineBytes > maxBytes) break
+    size += lineBytes
+    kept++
+  }
+
+  let head = lines.slice(0, kept).join('\n')
+  if (kept === 0) {
+    // Iterating a string walks code points, so surrogate pairs stay whole
+    for (const char of lines[0]) {
+      const charBytes = Buffer.byteLength(char, 'utf-8')
+      if (size + charBytes > maxBytes) break
+      head += char
+      size += charBytes
+    }
+  }
+  return `${head}\n… truncated (${total - size} more bytes)`
+}
+
+/**
+ * Gets the uncommitted changes (staged and unstaged, against HEAD) to some
+ * files, including untracked files (shown as added in full)
+ *
+ * @param projectDir - Project root directory
+ * @param paths - Files to restrict the diff to, relative to projectDir
+ * @param maxBytes - Size cap; longer diffs are cut at a line boundary and marked as truncated
+ * @returns Promise<string | null> - Unified diff, or null when there is nothing to show or git fails
+ *
+ * @example
+ * ```typescript
+ * const diff = await getGitDiff(worktree, ['src/auth.ts'], config.diffMaxBytes)
+ * ```
+ */
+export async function getGitDiff(projectDir: string, paths: string[], maxBytes: number): Promise<string | null> {
+  if (paths.length === 0) {
+    return null
+  }
+
+  const [tracked, untracked] = await Promise.all([
+    runGit(['--literal-pathspecs', 'diff', '--no-color', '--no-ext-diff', 'HEAD', '--', ...paths], projectDir),
+    runGit(['--literal-pathspecs', 'ls-files', '--others', '--exclude-standard', '-z', '--', ...paths], projectDir),
+  ])
+
+  // `git diff HEAD` leaves out files git does not know yet
+  const added: string[] = []
+  for (const file of (untracked ?? '').split('\0').filter(Boolean)) {
+    const diff = await runGit(['diff', '--no-index', '--no-color', '--no-ext-diff', '--', '/dev/null', file], projectDir, [0, 1])
+    if (diff) added.push(diff)
+  }
+
+  const diff = [tracked ?? '', ...added].map(part => part.replace(/\n+$/, '')).filter(part => part.trim()).join('\n')
+  if (!diff) {
+    return null
+  }
+
+  return truncateDiff(diff, maxBytes)
+}
@@ -2,7 +2,8 @@
  * Structured logging utilities for Blocker Diverter plugin
  * 
  * Provides wrapper functions around OpenCode's client.app.log() API
- * with service tagging, error handling, and graceful degradation.
+ * with service tagging, error handling, and graceful degradation, plus
+ * warning toasts via client.tui.showToast().
  * 
  * All functions handle cases where client is undefined or unavailable,
  * making logging optional and non-blocking throughout the plugin.
@@ -239,3 +240,32 @@ export async function logDebug(
     // Silently fail if logging service is unavailable
   }
 }
+
+/**
+ * Show a warning toast in the OpenCode TUI
+ * 
+ * Used when a write needed attention the user should see now, not only in
+ * the logs (e.g. BLOCKERS.md edited during a run). Does nothing without a TUI.
+ * 
+ * @param client - Optional OpenCode client with TUI capability
+ * @param message - Toast text
+ * 
+ * @example
+ * ```typescript
+ * await showWarningToast(client, 'BLOCKERS.md was edited during the run')
+ * ```
+ */
+export async function showWarningToast(
+  client: LogClient | undefined,
+  message: string
+): Promise<void> {
+  if (!client?.tui?.showToast) {
+    return // Graceful degradation when no TUI available
+  }
+
+  try {
+    await client.tui.showToast({ body: { title: 'Blocker Diverter', message, variant: 'warning' } })
+  } catch {
+    // Toasts are best-effort, like logs
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Monorepo packages
+ *
+ * With `packageLogs` on, a blocker about files inside one package is logged
+ * in that package's own BLOCKERS.md instead of the one at the project root,
+ * so each package's owners see only their questions:
+ *
+ *   packages/api/src/auth.ts  →  packages/api/BLOCKERS.md
+ *
+ * A package root is the nearest directory above a file that holds a
+ * package.json, or, when `packageRoots` globs are configured, that matches
+ * one of them. The project root itself is never a package: blockers whose
+ * files are outside any package, or spread over several, stay in
+ * blockersFile.
+ *
+ * Finding every package root walks the project tree, so one tool call or
+ * command runs inside withPackageRootsCache and walks it at most once.
+ *
+ * @module utils/packages
+ */
+
+import { basename, join, posix, relative, resolve, sep } from 'node:path'
+import { readdir } from 'node:fs/promises'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import type { PluginConfig } from '../types'
+
+/**
+ * Directories never searched for packages
+ */
+const SKIPPED_DIRS = new Set(['node_modules', 'dist', 'build', 'coverage'])
+
+/**
+ * Deepest directory level searched for packages
+ */
+const MAX_SCAN_DEPTH = 6
+
+/**
+ * Package roots already found in the current async call chain, by project
+ * and globs
+ */
+const packageRootsCache = new AsyncLocalStorage<Map<string, Promise<string[]>>>()
+
+/**
+ * Runs fn with findPackageRoots results reused within it
+ *
+ * Packages do not appear or vanish during one tool call, but its log reads
+ * (recurrence, related blockers, short IDs, rotation) each need the roots.
+ * Nested calls share the outermost cache; outside any, every lookup walks
+ * the tree again.
+ *
+ * @param fn - Work to run (typically one tool call or command)
+ * @returns fn's result
+ *
+ * @example
+ * ```typescript
+ * return withPackageRootsCache(() => handleToolExecuteBefore(input, output, logClient, config, worktree))
+ * ```
+ */
+export function withPackageRootsCache<T>(fn: () => Promise<T>): Promise<T> {
+  return packageRootsCache.getStore() ? fn() : packageRootsCache.run(new Map(), fn)
+}
+
+/**
+ * Whether a directory is a package root
+ *
+ * @param dir - Project-relative, forward-slash directory (not the root)
+ * @param projectDir - Project root
+ * @param packageRoots - Configured globs; empty means "has a package.json"
+ */
+async function isPackageRoot(dir: string, projectDir: string, packageRoots: string[]): Promise<boolean> {
+  if (packageRoots.length > 0) {
+    return packageRoots.some(pattern => new Bun.Glob(pattern).match(dir))
+  }
+  return Bun.file(join(projectDir, dir, 'package.json')).exists()
+}
+
+/**
+ * Package holding all the given files
+ *
+ * @param paths - Project-relative, forward-slash file paths (as stored on blockers)
+ * @param projectDir - Project root
+ * @param packageRoots - Configured globs; empty means "has a package.json"
+ * @returns Project-relative package directory, or null when the files are
+ *   outside any package or in different ones
+ *
+ * @example
+ * ```typescript
+ * await findPackageRoot(['packages/api/src/auth.ts'], worktree, []) // 'packages/api'
+ * ```
+ */
+export async function findPackageRoot(
+  paths: string[],
+  projectDir: string,
+  packageRoots: string[]
+): Promise<string | null> {
+  let found: string | null | undefined
+
+  for (const path of paths) {
+    let pkg: string | null = null
+    for (let dir = posix.dirname(path); dir !== '.' && dir !== '/'; dir = posix.dirname(dir)) {
+      if (await isPackageRoot(dir, projectDir, packageRoots)) {
+        pkg = dir
+        break
+      }
+    }
+
+    if (found !== undefined && found !== pkg) return null
+    found = pkg
+  }
+
+  return found ?? null
+}
+
+/**
+ * All package roots of the project
+ *
+ * Searches up to 6 levels deep, skipping hidden directories and build
+ * output (node_modules, dist, build, coverage). Inside
+ * withPackageRootsCache the search runs once per project.
+ *
+ * @param projectDir - Project root
+ * @param packageRoots - Configured globs; empty means "has a package.json"
+ * @returns Project-relative package directories, sorted
+ */
+export function findPackageRoots(projectDir: string, packageRoots: string[]): Promise<string[]> {
+  const cache = packageRootsCache.getStore()
+  if (!cache) {
+    return scanPackageRoots(projectDir, packageRoots)
+  }
+
+  const key = JSON.stringify([resolve(projectDir), packageRoots])
+  let roots = cache.get(key)
+  if (!roots) {
+    roots = scanPackageRoots(projectDir, packageRoots)
+    cache.set(key, roots)
+  }
+  return roots.then(found => [...found])
+}
+
+/**
+ * Walks the project tree for package roots (see findPackageRoots)
+ */
+async function scanPackageRoots(projectDir: string, packageRoots: string[]): Promise<string[]> {
+  const found: string[] = []
+
+  const scan = async (dir: string, depth: number): Promise<void> => {
+    const entries = await readdir(join(projectDir, dir), { withFileTypes: true }).catch(() => [])
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('.') || SKIPPED_DIRS.has(entry.name)) continue
+
+      const child = dir ? `${dir}/${entry.name}` : entry.name
+      if (await isPackageRoot(child, projectDir, packageRoots)) {
+        found.push(child)
+      }
+      if (depth < MAX_SCAN_DEPTH) {
+        await scan(child, depth + 1)
+      }
+    }
+  }
+
+  await scan('', 1)
+  return found.sort()
+}
+
+/**
+ * BLOCKERS.md of a package (same file name as blockersFile)
+ *
+ * @param pkg - Project-relative package directory
+ * @param config - Plugin configuration (blockersFile)
+ * @returns Project-relative log path, e.g. "packages/api/BLOCKERS.md"
+ */
+export function getPackageLogFile(pkg: string, config: Pick<PluginConfig, 'blockersFile'>): string {
+  return `${pkg}/${basename(config.blockersFile)}`
+}
+
+/**
+ * Package logs that exist on disk
+ *
+ * @param config - Plugin configuration (blockersFile, packageRoots)
+ * @param projectDir - Project root
+ * @returns Package and log path of every package with a log, sorted by package
+ */
+export async function findPackageLogs(
+  config: Pick<PluginConfig, 'blockersFile' | 'packageRoots'>,
+  projectDir: string
+): Promise<Array<{ package: string; file: string }>> {
+  const logs: Array<{ package: string; file: string }> = []
+
+  for (const pkg of await findPackageRoots(projectDir, config.packageRoots ?? [])) {
+    const file = getPackageLogFile(pkg, config)
+    if (await Bun.file(join(projectDir, file)).exists()) {
+      logs.push({ package: pkg, file })
+    }
+  }
+
+  return logs
+}
+
+/**
+ * Project-relative, forward-slash form of a log path for display
+ *
+ * @param file - Absolute or project-relative path
+ * @param projectDir - Project root
+ */
+export function displayLogPath(file: string, projectDir: string): string {
+  return relative(projectDir, resolve(projectDir, file)).split(sep).join('/')
+}
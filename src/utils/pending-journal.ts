@@ -0,0 +1,314 @@
+/**
+ * Pending write journal
+ *
+ * Durable copy of the retry queue (SessionState.pendingWrites). A blocker
+ * that failed to reach one or more sinks is journaled with the sinks it is
+ * still missing (default: .opencode/blocker-diverter/pending.jsonl), so a
+ * restart of OpenCode does not lose it. The journal is replayed when the
+ * plugin starts and on every session.idle.
+ *
+ * - One PendingWrite record per line, keyed by blocker ID, with the
+ *   process that journaled it
+ * - Updates are read-modify-write under the journal's file lock, so
+ *   parallel sessions never drop each other's entries
+ * - A flush claims the entries it retries under that lock, so parallel
+ *   flushes (other sessions, other processes, the startup replay) never
+ *   write the same blocker twice
+ * - The file is removed once the queue is empty
+ *
+ * @module utils/pending-journal
+ */
+
+import { dirname } from 'node:path'
+import { hostname } from 'node:os'
+import { mkdir, rename, unlink, writeFile } from 'node:fs/promises'
+import type { PendingWrite } from '../types'
+import type { LogClient } from '../config'
+import { validatePath } from './blockers-file'
+import { isProcessAlive, withFileLock } from './file-lock'
+import { logError, logWarn } from './logging'
+
+/**
+ * Age after which a claim is considered abandoned (the flush crashed or hung)
+ */
+const CLAIM_STALE_MS = 5 * 60 * 1000
+
+/**
+ * A process, as recorded in the journal
+ */
+interface JournalProcess {
+  pid: number
+  hostname: string
+}
+
+/**
+ * A queued write as stored in the journal
+ */
+export interface JournalEntry extends PendingWrite {
+  /** Process that journaled the write (missing in older journals) */
+  owner?: JournalProcess
+  /** Set while a flush is retrying the write */
+  claim?: JournalProcess & { token: string; at: number }
+}
+
+/**
+ * The current process
+ */
+function currentProcess(): JournalProcess {
+  return { pid: process.pid, hostname: hostname() }
+}
+
+/**
+ * Whether a process recorded in the journal has exited
+ *
+ * Processes on other hosts cannot be checked and count as running.
+ */
+function isGone(owner: JournalProcess): boolean {
+  return owner.hostname === hostname() && !isProcessAlive(owner.pid)
+}
+
+/**
+ * Strips the journal bookkeeping from an entry
+ */
+function toPendingWrite({ owner: _owner, claim: _claim, ...pending }: JournalEntry): PendingWrite {
+  return pending
+}
+
+/**
+ * Parses journal content, skipping malformed lines
+ *
+ * @returns Entries by blocker ID (last record wins) and the number of skipped lines
+ */
+function parseJournal(content: string): { entries: Map<string, JournalEntry>; skipped: number } {
+  const entries = new Map<string, JournalEntry>()
+  let skipped = 0
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue
+
+    try {
+      const record = JSON.parse(line) as JournalEntry
+      if (typeof record?.id !== 'string' || record.id.length === 0) {
+        skipped++
+        continue
+      }
+      entries.set(record.id, record)
+    } catch {
+      skipped++
+    }
+  }
+
+  return { entries, skipped }
+}
+
+/**
+ * Reads all queued writes from the journal
+ *
+ * @param journalFile - Path to the journal
+ * @param projectDir - Project root for path validation
+ * @param logClient - Optional logging client
+ * @returns Promise<PendingWrite[]> - Queued writes in insertion order (empty if missing)
+ * @throws Error if path validation fails
+ */
+export async function readJournal(
+  journalFile: string,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<PendingWrite[]> {
+  try {
+    const resolvedPath = validatePath(journalFile, projectDir)
+
+    const file = Bun.file(resolvedPath)
+    if (!(await file.exists())) {
+      return []
+    }
+
+    const { entries, skipped } = parseJournal(await file.text())
+    if (skipped > 0) {
+      await logWarn(logClient, 'Skipped malformed pending write journal records', { journalFile, skipped })
+    }
+
+    return [...entries.values()].map(toPendingWrite)
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('directory traversal')) {
+      throw error
+    }
+
+    await logError(logClient, 'Failed to read pending write journal', error as Error, { journalFile })
+    return []
+  }
+}
+
+/**
+ * Applies changes to the journal atomically
+ *
+ * Reads the current entries, passes them to `updater` and writes back the
+ * result (temp file + rename), all while holding the journal's lock.
+ * Entries keep their journal bookkeeping (owner, claim) unless the updater
+ * drops it.
+ *
+ * @param journalFile - Path to the journal
+ * @param projectDir - Project root for path validation
+ * @param updater - Returns the new entries, given the current ones
+ * @param logClient - Optional logging client
+ * @returns Promise<boolean> - true if written, false on error
+ * @throws Error if path validation fails
+ *
+ * @example
+ * ```typescript
+ * await updateJournal(config.journalFile, worktree, entries => [...entries, pending], logClient)
+ * ```
+ */
+export async function updateJournal(
+  journalFile: string,
+  projectDir: string,
+  updater: (entries: JournalEntry[]) => JournalEntry[],
+  logClient?: LogClient
+): Promise<boolean> {
+  try {
+    const resolvedPath = validatePath(journalFile, projectDir)
+
+    await mkdir(dirname(resolvedPath), { recursive: true })
+
+    await withFileLock(resolvedPath, projectDir, async () => {
+      const file = Bun.file(resolvedPath)
+      const current = (await file.exists()) ? [...parseJournal(await file.text()).entries.values()] : []
+      const updated = updater(current)
+
+      if (updated.length === 0) {
+        await unlink(resolvedPath).catch(() => {})
+        return
+      }
+
+      const tempPath = `${resolvedPath}.${process.pid}.tmp`
+      await writeFile(tempPath, updated.map(entry => JSON.stringify(entry) + '\n').join(''), 'utf-8')
+      await rename(tempPath, resolvedPath)
+    })
+
+    return true
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('directory traversal')) {
+      throw error
+    }
+
+    await logError(logClient, 'Failed to update pending write journal', error as Error, { journalFile })
+    return false
+  }
+}
+
+/**
+ * Adds (or replaces, by blocker ID) one queued write in the journal
+ *
+ * @param journalFile - Path to the journal
+ * @param pending - Queued write to persist
+ * @param projectDir - Project root for path validation
+ * @param logClient - Optional logging client
+ * @returns Promise<boolean> - true if journaled, false on error
+ * @throws Error if path validation fails
+ */
+export async function journalPendingWrite(
+  journalFile: string,
+  pending: PendingWrite,
+  projectDir: string,
+  logClient?: LogClient
+): Promise<boolean> {
+  return updateJournal(
+    journalFile,
+    projectDir,
+    entries => [...entries.filter(entry => entry.id !== pending.id), { ...pending, owner: currentProcess() }],
+    logClient
+  )
+}
+
+/**
+ * Claims journaled writes for a flush to retry
+ *
+ * Under the journal's lock, every entry `eligible` accepts that no other
+ * flush is retrying is marked with `token` (claims of exited processes, or
+ * older than 5 minutes, are taken over). Release them with
+ * releaseJournalEntries once retried.
+ *
+ * @param journalFile - Path to the journal
+ * @param projectDir - Project root for path validation
+ * @param token - Unique ID of the flush
+ * @param eligible - Whether this flush may retry an entry
+ * @param logClient - Optional logging client
+ * @returns Promise<PendingWrite[]> - Claimed writes (empty if none, or on error)
+ * @throws Error if path validation fails
+ */
+export async function claimJournalEntries(
+  journalFile: string,
+  projectDir: string,
+  token: string,
+  eligible: (entry: JournalEntry) => boolean,
+  logClient?: LogClient
+): Promise<PendingWrite[]> {
+  const now = Date.now()
+  const claimed: PendingWrite[] = []
+
+  const updated = await updateJournal(
+    journalFile,
+    projectDir,
+    entries => entries.map(entry => {
+      const free = !entry.claim || isGone(entry.claim) || now - entry.claim.at > CLAIM_STALE_MS
+      if (!free || !eligible(entry)) return entry
+
+      claimed.push(toPendingWrite(entry))
+      return { ...entry, claim: { ...currentProcess(), token, at: now } }
+    }),
+    logClient
+  )
+
+  // Nothing is marked if the journal could not be written
+  return updated ? claimed : []
+}
+
+/**
+ * Releases a flush's claims: drops the entries it claimed and journals the
+ * writes still failing
+ *
+ * Entries journaled again while the flush ran (no longer carrying its
+ * claim) are kept as they are.
+ *
+ * @param journalFile - Path to the journal
+ * @param projectDir - Project root for path validation
+ * @param token - Unique ID of the flush (as passed to claimJournalEntries)
+ * @param remaining - Writes still failing
+ * @param logClient - Optional logging client
+ * @returns Promise<boolean> - true if written, false on error
+ * @throws Error if path validation fails
+ */
+export async function releaseJournalEntries(
+  journalFile: string,
+  projectDir: string,
+  token: string,
+  remaining: PendingWrite[],
+  logClient?: LogClient
+): Promise<boolean> {
+  return updateJournal(
+    journalFile,
+    projectDir,
+    entries => [
+      ...entries.filter(entry => entry.claim?.token !== token),
+      ...remaining.map(pending => ({ ...pending, owner: currentProcess() })),
+    ],
+    logClient
+  )
+}
+
+/**
+ * Whether nobody is left to retry a journaled write: the process that
+ * journaled it has exited (e.g. before a restart), or it is this process
+ * and its session is gone
+ *
+ * @param entry - Journal entry
+ * @param isLiveSession - Whether this process still has a session
+ * @returns true if any flush may adopt the entry
+ */
+export function isOrphaned(entry: JournalEntry, isLiveSession: (sessionId: string) => boolean): boolean {
+  if (!entry.owner) return true
+  if (isGone(entry.owner)) return true
+
+  const self = currentProcess()
+  return entry.owner.pid === self.pid && entry.owner.hostname === self.hostname && !isLiveSession(entry.sessionId)
+}
@@ -0,0 +1,153 @@
+/**
+ * Blocker priorities and the "read this first" index
+ *
+ * Every blocker has a priority from p0 (most urgent) to p3. Agents may set
+ * one; otherwise it follows from the category (see utils/categories): by
+ * default security and destructive decisions are high, architecture /
+ * deployment / permission medium, plain questions low.
+ *
+ * The index is a short list of the unresolved p0–p2 blockers, most urgent
+ * first, kept between two HTML comments at the very top of BLOCKERS.md so
+ * the morning review starts with the decisions that matter most. Only
+ * writing or answering one of those blockers changes it, so the log is
+ * rewritten for the index only then: plain p3 questions keep the cheap
+ * append-only write. Everything outside the markers is left alone.
+ *
+ * @module utils/priority
+ */
+
+import type { Blocker, BlockerCategory, BlockerPriority, PluginConfig } from '../types'
+import { getCategory } from './categories'
+
+/**
+ * All priorities, most urgent first
+ */
+export const PRIORITIES: readonly BlockerPriority[] = ['p0', 'p1', 'p2', 'p3']
+
+/**
+ * Least urgent priority listed in the index
+ */
+const INDEX_MAX_PRIORITY: BlockerPriority = 'p2'
+
+/**
+ * Markers around the generated index
+ */
+export const PRIORITY_INDEX_START = '<!-- blocker-diverter:index:start -->'
+export const PRIORITY_INDEX_END = '<!-- blocker-diverter:index:end -->'
+
+/**
+ * Heading of the generated index
+ */
+const PRIORITY_INDEX_HEADING = '## Read this first'
+
+/**
+ * Longest question shown in the index; full text is in the entry
+ */
+const INDEX_QUESTION_LENGTH = 100
+
+/**
+ * Default priority for a category
+ *
+ * @param category - Blocker category
+ * @param config - Plugin configuration (categories); omit for the built-in defaults
+ * @returns The category's priority (built-in: 'p1' for security/destructive,
+ *   'p2' for architecture/deployment/permission, else 'p3'); 'p3' for unknown categories
+ */
+export function getDefaultPriority(
+  category: BlockerCategory,
+  config?: Pick<PluginConfig, 'categories'>
+): BlockerPriority {
+  return getCategory(category, config)?.priority ?? 'p3'
+}
+
+/**
+ * Effective priority of a blocker (its own, else its category's default)
+ *
+ * @param blocker - Blocker to rank
+ * @param config - Plugin configuration (categories); omit for the built-in defaults
+ * @returns Priority, p0–p3
+ */
+export function getPriority(blocker: Blocker, config?: Pick<PluginConfig, 'categories'>): BlockerPriority {
+  return blocker.priority ?? getDefaultPriority(blocker.category, config)
+}
+
+/**
+ * Whether a blocker's priority is urgent enough for the index (p0–p2)
+ *
+ * Writing or answering a blocker that is not cannot change the index, so
+ * callers skip regenerating it.
+ *
+ * @param blocker - Blocker to check
+ * @param config - Plugin configuration (categories); omit for the built-in defaults
+ * @returns true if listed in the index while unresolved
+ */
+export function isIndexed(blocker: Blocker, config?: Pick<PluginConfig, 'categories'>): boolean {
+  return PRIORITIES.indexOf(getPriority(blocker, config)) <= PRIORITIES.indexOf(INDEX_MAX_PRIORITY)
+}
+
+/**
+ * Render the "read this first" index
+ *
+ * Lists unresolved p0–p2 blockers, most urgent first, oldest first within a
+ * priority.
+ *
+ * @param blockers - Blockers in the file
+ * @param config - Plugin configuration (categories); omit for the built-in defaults
+ * @returns Index block including its markers, or '' when no urgent blocker is unresolved
+ *
+ * @example
+ * ```typescript
+ * renderPriorityIndex(blockers)
+ * // <!-- blocker-diverter:index:start -->
+ * // ## Read this first
+ * //
+ * // - **p1** `B-0142` (security) Rotate the leaked API key?
+ * // <!-- blocker-diverter:index:end -->
+ * ```
+ */
+export function renderPriorityIndex(blockers: Blocker[], config?: Pick<PluginConfig, 'categories'>): string {
+  const unresolved = blockers
+    .filter(blocker => blocker.clarified === undefined || blocker.clarified === 'pending')
+    .filter(blocker => isIndexed(blocker, config))
+    .map((blocker, order) => ({ blocker, order, rank: PRIORITIES.indexOf(getPriority(blocker, config)) }))
+    .sort((a, b) => a.rank - b.rank || a.order - b.order)
+
+  if (unresolved.length === 0) {
+    return ''
+  }
+
+  const lines = unresolved.map(({ blocker }) => {
+    // One line per blocker, so only code fences need escaping
+    const question = blocker.question.replace(/\s+/g, ' ').trim().replace(/```/g, '\\`\\`\\`')
+    const shown = question.length > INDEX_QUESTION_LENGTH
+      ? question.slice(0, INDEX_QUESTION_LENGTH - 1).trimEnd() + '…'
+      : question
+    return `- **${getPriority(blocker, config)}** \`${blocker.shortId ?? blocker.id}\` (${blocker.category}) ${shown}`
+  })
+
+  return [PRIORITY_INDEX_START, PRIORITY_INDEX_HEADING, '', ...lines, PRIORITY_INDEX_END, ''].join('\n')
+}
+
+/**
+ * Replace (or insert, or remove) the index at the top of a blockers file
+ *
+ * @param content - Current file content
+ * @param index - Output of renderPriorityIndex ('' removes the index)
+ * @returns New file content; unchanged outside the index markers
+ */
+export function replacePriorityIndex(content: string, index: string): string {
+  const start = content.indexOf(PRIORITY_INDEX_START)
+  const end = content.indexOf(PRIORITY_INDEX_END)
+
+  if (start === -1 || end < start) {
+    return index ? `${index}\n${content}` : content
+  }
+
+  // Drop the old block together with the blank line that separated it
+  let after = end + PRIORITY_INDEX_END.length
+  if (content.startsWith('\n', after)) after++
+  if (content.startsWith('\n', after)) after++
+
+  const rest = content.slice(0, start) + content.slice(after)
+  return index ? `${content.slice(0, start)}${index}\n${content.slice(after)}` : rest
+}
@@ -1,3 +1,4 @@
+import { isAbsolute, join, relative, resolve, sep } from 'node:path'
 import type { Plugin } from '../types'
 
 /**
@@ -17,3 +18,30 @@ export function getProjectBaseDir(ctx: Parameters<Plugin>[0]): string {
 
   return worktree || projectWorktree || directory || '/'
 }
+
+/**
+ * Where the plugin keeps its own files, relative to the project root
+ */
+export const PLUGIN_DATA_DIR = '.opencode/blocker-diverter'
+
+/**
+ * Path of a file the plugin keeps about a project file (its lock, its
+ * fingerprint, its backup), under PLUGIN_DATA_DIR instead of next to it
+ *
+ * Keyed by the file's project-relative path, so logs in different packages
+ * never share one, and the user's tree stays free of plugin clutter. A file
+ * outside the project keeps it next to itself.
+ *
+ * @param projectDir - Project root
+ * @param kind - Subdirectory of PLUGIN_DATA_DIR (e.g. 'locks')
+ * @param filePath - Absolute path of the project file
+ * @param suffix - Appended to the file name (e.g. '.lock')
+ * @returns Absolute path
+ */
+export function getPluginFilePath(projectDir: string, kind: string, filePath: string, suffix: string): string {
+  const rel = relative(resolve(projectDir), resolve(filePath))
+  if (!rel || rel === '..' || rel.startsWith('..' + sep) || isAbsolute(rel)) {
+    return `${filePath}${suffix}`
+  }
+  return join(resolve(projectDir), PLUGIN_DATA_DIR, kind, `${rel}${suffix}`)
+}
@@ -0,0 +1,72 @@
+/**
+ * Blocker routing
+ *
+ * Sends blockers to different markdown logs so each kind of decision lands
+ * with the people who own it. `config.routes` is a list of rules, tried in
+ * order; the first rule whose conditions all hold picks the log, and
+ * blockers matching none stay in `blockersFile`:
+ *
+ *   "routes": [
+ *     { "categories": ["security", "destructive"], "file": "SECURITY-REVIEW.md" },
+ *     { "blocksProgress": false, "file": "DECISIONS.md" }
+ *   ]
+ *
+ * Route files are resolved and checked against the project root by
+ * loadConfig like blockersFile. Blockers no route takes that belong to a
+ * monorepo package go to that package's log (see utils/packages). The JSONL
+ * store stays a single file.
+ *
+ * @module utils/routing
+ */
+
+import type { Blocker, BlockerRoute, PluginConfig } from '../types'
+import { getPriority } from './priority'
+import { getPackageLogFile } from './packages'
+
+/**
+ * Whether a blocker meets every condition of a route
+ *
+ * @param blocker - Blocker to route
+ * @param route - Routing rule
+ * @param config - Plugin configuration (categories); omit for the built-in defaults
+ * @returns True when the route takes the blocker
+ */
+export function matchesRoute(blocker: Blocker, route: BlockerRoute, config?: Pick<PluginConfig, 'categories'>): boolean {
+  return (
+    (route.categories === undefined || route.categories.includes(blocker.category)) &&
+    (route.priorities === undefined || route.priorities.includes(getPriority(blocker, config))) &&
+    (route.blocksProgress === undefined || route.blocksProgress === blocker.blocksProgress)
+  )
+}
+
+/**
+ * Markdown log a blocker is rendered into
+ *
+ * @param blocker - Blocker to route
+ * @param config - Plugin configuration (blockersFile, routes, packageLogs, categories)
+ * @returns File of the first matching route, else the blocker's package log,
+ *   else config.blockersFile
+ *
+ * @example
+ * ```typescript
+ * getBlockersFileFor(securityBlocker, config) // '/project/SECURITY-REVIEW.md'
+ * ```
+ */
+export function getBlockersFileFor(
+  blocker: Blocker,
+  config: Pick<PluginConfig, 'blockersFile' | 'routes' | 'packageLogs' | 'categories'>
+): string {
+  const route = config.routes?.find(candidate => matchesRoute(blocker, candidate, config))
+  if (route) return route.file
+  return blocker.package && config.packageLogs ? getPackageLogFile(blocker.package, config) : config.blockersFile
+}
+
+/**
+ * Every markdown log blockers can be routed to
+ *
+ * @param config - Plugin configuration (blockersFile, routes)
+ * @returns blockersFile first, then each route file once
+ */
+export function getBlockersFiles(config: Pick<PluginConfig, 'blockersFile' | 'routes'>): string[] {
+  return [...new Set([config.blockersFile, ...(config.routes ?? []).map(route => route.file)])]
+}
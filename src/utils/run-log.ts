@@ -0,0 +1,200 @@
+/**
+ * Per-run sections in the blockers log
+ *
+ * Groups the blockers of one autonomous run under a header and footer so
+ * the morning review reads as one chapter per run:
+ * - Header (on /blockers.on): start time, session ID, session title, git branch
+ * - Footer (when the run ends): end time, outcome, blocker counts
+ *
+ * Both sections start with a heading, so the parser never mistakes them
+ * for part of a blocker entry.
+ *
+ * @module utils/run-log
+ */
+
+import type { PluginConfig, RunOutcome, SessionState } from '../types'
+import type { LogClient } from '../config'
+import { appendSection } from './blockers-file'
+import { RUN_FOOTER_HEADING, RUN_HEADER_HEADING } from './blockers-parser'
+import { getGitBranch } from './git'
+import { logError, logInfo } from './logging'
+import { withTimeout } from './with-timeout'
+import { persistState } from '../state'
+
+/**
+ * Max time to wait for the session title lookup
+ */
+const SESSION_TITLE_TIMEOUT_MS = 5000
+
+/**
+ * Session lookup client (subset of the OpenCode SDK client)
+ */
+interface SessionLookupClient {
+  session?: {
+    get?: (params: { path: { id: string } }) => Promise<{ data?: { title?: string } } | undefined>
+  }
+}
+
+/**
+ * Values rendered into a run header
+ */
+export interface RunHeader {
+  startedAt: string
+  sessionId: string
+  sessionTitle?: string | null
+  branch?: string | null
+}
+
+/**
+ * Values rendered into a run footer
+ */
+export interface RunFooter {
+  endedAt: string
+  outcome: RunOutcome
+  /** Blockers logged during the run */
+  blockerCount: number
+  /** How many of them block progress */
+  blockingCount: number
+}
+
+/**
+ * Renders the run header section
+ *
+ * @param header - Run start details
+ * @returns Markdown section
+ */
+export function formatRunHeader(header: RunHeader): string {
+  const lines = [
+    '',
+    `${RUN_HEADER_HEADING} ${header.startedAt}`,
+    '',
+    `**Session:** ${header.sessionId}  `,
+  ]
+  if (header.sessionTitle) lines.push(`**Title:** ${header.sessionTitle}  `)
+  lines.push(`**Branch:** ${header.branch ?? 'unknown'}`, '')
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Renders the run footer section
+ *
+ * @param footer - Run end details
+ * @returns Markdown section
+ */
+export function formatRunFooter(footer: RunFooter): string {
+  return [
+    '',
+    `${RUN_FOOTER_HEADING} ${footer.endedAt}`,
+    '',
+    `**Outcome:** ${footer.outcome}  `,
+    `**Blockers logged:** ${footer.blockerCount} (${footer.blockingCount} blocking progress)`,
+    '',
+    '---',
+    '',
+  ].join('\n')
+}
+
+/**
+ * Looks up the session title through the OpenCode client
+ *
+ * @param client - OpenCode client (may lack the session API in tests/TUI)
+ * @param sessionId - Session to look up
+ * @returns Promise<string | null> - Title, or null if unavailable
+ */
+async function getSessionTitle(client: LogClient | undefined, sessionId: string): Promise<string | null> {
+  const get = (client as SessionLookupClient | undefined)?.session?.get
+  if (typeof get !== 'function') return null
+
+  try {
+    const response = await withTimeout(
+      get.call((client as SessionLookupClient).session, { path: { id: sessionId } }),
+      SESSION_TITLE_TIMEOUT_MS,
+      'Session title lookup'
+    )
+    return response?.data?.title || null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Starts a run: records it in session state and writes the run header
+ *
+ * A run already in progress is left untouched (no second header).
+ *
+ * @param state - Session state (mutated and saved: state.run is set)
+ * @param sessionId - Session starting the run
+ * @param config - Plugin configuration (blockersFile)
+ * @param projectDir - Project root directory
+ * @param client - OpenCode client for logging and session lookup
+ */
+export async function startRun(
+  state: SessionState,
+  sessionId: string,
+  config: PluginConfig,
+  projectDir: string,
+  client?: LogClient
+): Promise<void> {
+  if (state.run) return
+
+  const startedAt = new Date().toISOString()
+  state.run = { startedAt, sessionId, blockersAtStart: state.blockers.length }
+  persistState(sessionId)
+
+  try {
+    const [sessionTitle, branch] = await Promise.all([
+      getSessionTitle(client, sessionId),
+      getGitBranch(projectDir),
+    ])
+    await appendSection(
+      config.blockersFile,
+      formatRunHeader({ startedAt, sessionId, sessionTitle, branch }),
+      projectDir,
+      client
+    )
+    await logInfo(client, 'Run started', { sessionId, startedAt, branch })
+  } catch (error) {
+    // The run is still tracked; only the header is missing
+    await logError(client, 'Failed to write run header', error as Error, { sessionId })
+  }
+}
+
+/**
+ * Finishes the active run: writes the run footer and clears state.run
+ *
+ * No-op when no run is in progress, so every exit path can call it safely.
+ *
+ * @param state - Session state (mutated and saved: state.run is cleared)
+ * @param outcome - How the run ended
+ * @param config - Plugin configuration (blockersFile)
+ * @param projectDir - Project root directory
+ * @param client - OpenCode client for logging
+ */
+export async function finishRun(
+  state: SessionState,
+  outcome: RunOutcome,
+  config: PluginConfig,
+  projectDir: string,
+  client?: LogClient
+): Promise<void> {
+  const run = state.run
+  if (!run) return
+  state.run = null
+  persistState(run.sessionId)
+
+  const logged = state.blockers.slice(run.blockersAtStart)
+  const footer: RunFooter = {
+    endedAt: new Date().toISOString(),
+    outcome,
+    blockerCount: logged.length,
+    blockingCount: logged.filter(b => b.blocksProgress).length,
+  }
+
+  try {
+    await appendSection(config.blockersFile, formatRunFooter(footer), projectDir, client)
+    await logInfo(client, 'Run finished', { sessionId: run.sessionId, ...footer })
+  } catch (error) {
+    await logError(client, 'Failed to write run footer', error as Error, { sessionId: run.sessionId })
+  }
+}
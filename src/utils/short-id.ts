@@ -0,0 +1,165 @@
+/**
+ * Short blocker IDs
+ *
+ * Blockers keep their long ID (`${Date.now()}-${sessionId}-${hash6}`) as the
+ * internal key, and additionally get a short, project-wide sequential ID
+ * such as `B-0142` that people can say out loud and type in commands.
+ *
+ * The last allocated number lives in .opencode/blocker-diverter/ids.json,
+ * outside the blockers log and store, so numbering survives restarts and
+ * rotation. Allocation holds the counter's file lock, so parallel sessions
+ * never hand out the same number. A missing or corrupt counter is rebuilt
+ * from the highest short ID already on disk.
+ *
+ * @module utils/short-id
+ */
+
+import { dirname } from 'node:path'
+import { mkdir, rename, writeFile } from 'node:fs/promises'
+import type { Blocker } from '../types'
+import type { LogClient } from '../config'
+import { validatePath } from './blockers-file'
+import { withFileLock } from './file-lock'
+import { logError, logWarn } from './logging'
+
+/**
+ * Counter file, relative to the project root
+ */
+export const SHORT_ID_COUNTER_FILE = '.opencode/blocker-diverter/ids.json'
+
+/**
+ * Prefix of every short ID
+ */
+const SHORT_ID_PREFIX = 'B-'
+
+/**
+ * Minimum digits (zero-padded); IDs grow past B-9999 naturally
+ */
+const SHORT_ID_DIGITS = 4
+
+/**
+ * Accepted spellings of a short ID: "B-0142", "b-142", "B0142", "#B-0142"
+ */
+const SHORT_ID_INPUT = /^#?b-?(\d+)$/i
+
+/**
+ * Formats a sequence number as a short ID
+ *
+ * @param sequence - Sequence number (1-based)
+ * @returns Short ID, e.g. "B-0142"
+ */
+export function formatShortId(sequence: number): string {
+  return `${SHORT_ID_PREFIX}${String(sequence).padStart(SHORT_ID_DIGITS, '0')}`
+}
+
+/**
+ * Normalizes user input to the canonical short ID form
+ *
+ * @param ref - Reference typed by a user or agent
+ * @returns Canonical short ID ("b-142" → "B-0142"), or null if `ref` is not a short ID
+ */
+export function normalizeShortId(ref: string): string | null {
+  const match = ref.trim().match(SHORT_ID_INPUT)
+  return match ? formatShortId(Number.parseInt(match[1], 10)) : null
+}
+
+/**
+ * Finds a blocker by its long ID or its short ID (in any accepted spelling)
+ *
+ * @param blockers - Blockers to search
+ * @param ref - Long ID, or short ID such as "B-0142" / "b-142"
+ * @returns Matching blocker, or undefined
+ *
+ * @example
+ * ```typescript
+ * const blocker = findBlocker(await readBlockers(config.blockersFile, worktree), 'b-142')
+ * ```
+ */
+export function findBlocker<T extends Blocker>(blockers: T[], ref: string): T | undefined {
+  const trimmed = ref.trim()
+  const byId = blockers.find(blocker => blocker.id === trimmed)
+  if (byId) return byId
+
+  const shortId = normalizeShortId(trimmed)
+  return shortId ? blockers.find(blocker => blocker.shortId === shortId) : undefined
+}
+
+/**
+ * Highest sequence number among blockers' short IDs
+ *
+ * @param blockers - Blockers to scan
+ * @returns Highest sequence number, or 0 if none has a short ID
+ */
+export function highestShortId(blockers: Blocker[]): number {
+  return blockers.reduce((highest, blocker) => {
+    const match = blocker.shortId?.match(SHORT_ID_INPUT)
+    return match ? Math.max(highest, Number.parseInt(match[1], 10)) : highest
+  }, 0)
+}
+
+/**
+ * Reads the counter file
+ *
+ * @returns Last allocated number, or null if the file is missing or not a valid counter
+ */
+async function readCounter(counterPath: string): Promise<number | null> {
+  const file = Bun.file(counterPath)
+  if (!(await file.exists())) {
+    return null
+  }
+
+  try {
+    const parsed = JSON.parse(await file.text()) as { last?: unknown }
+    return typeof parsed?.last === 'number' && Number.isInteger(parsed.last) && parsed.last >= 0 ? parsed.last : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Allocates the next short ID for a project
+ *
+ * When the counter is missing or corrupt (a warning is logged for the
+ * latter), numbering continues after the highest short ID among `known`,
+ * so IDs already handed out are not reused.
+ *
+ * @param projectDir - Project root (the counter lives under .opencode/)
+ * @param logClient - Optional logging client
+ * @param known - Loads the blockers already on disk (default: none, numbering starts at 1)
+ * @returns Promise<string | undefined> - New short ID, or undefined if the counter could not be updated
+ *
+ * @example
+ * ```typescript
+ * const shortId = await allocateShortId(worktree, logClient, () => readKnownBlockers(config, worktree, logClient))
+ * ```
+ */
+export async function allocateShortId(
+  projectDir: string,
+  logClient?: LogClient,
+  known?: () => Promise<Blocker[]>
+): Promise<string | undefined> {
+  try {
+    const counterPath = validatePath(SHORT_ID_COUNTER_FILE, projectDir)
+    await mkdir(dirname(counterPath), { recursive: true })
+
+    const sequence = await withFileLock(counterPath, projectDir, async () => {
+      let last = await readCounter(counterPath)
+      if (last === null) {
+        if (await Bun.file(counterPath).exists()) {
+          await logWarn(logClient, 'Short ID counter is corrupt, rebuilding it from the blockers on disk', { counterPath })
+        }
+        last = known ? highestShortId(await known()) : 0
+      }
+
+      const tempPath = `${counterPath}.${process.pid}.tmp`
+      await writeFile(tempPath, JSON.stringify({ last: last + 1 }) + '\n', 'utf-8')
+      await rename(tempPath, counterPath)
+      return last + 1
+    })
+
+    return formatShortId(sequence)
+  } catch (error) {
+    await logError(logClient, 'Failed to allocate short blocker ID', error as Error, { projectDir })
+    return undefined
+  }
+}
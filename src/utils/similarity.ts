@@ -0,0 +1,185 @@
+/**
+ * Near-duplicate detection for blocker questions
+ *
+ * Exact matching (see dedupe.ts) misses paraphrases: "Should I use Zod or
+ * Yup?" and "Zod vs Yup for validation?" ask the same thing. This module
+ * scores questions by TF-IDF cosine similarity, fully offline:
+ * - Questions are lowercased and split into words; stop words ("should",
+ *   "use", "or", "vs", ...) are dropped and inflections folded
+ *   ("storing", "storage" → "stor")
+ * - Each term is weighted by how rare it is among the questions compared,
+ *   so shared specifics ("zod", "yup") count more than shared generic words
+ * - Scores range from 0 (nothing in common) to 1 (same terms)
+ *
+ * Only the question is compared. Context describes where the agent was,
+ * which differs between occurrences of the same blocker.
+ *
+ * @module utils/similarity
+ */
+
+import type { Blocker } from '../types'
+
+/**
+ * Words that carry no meaning for telling blockers apart
+ *
+ * Negations ("no", "not") are kept: "Drop the table?" and "Not drop the
+ * table?" ask opposite things.
+ */
+const STOP_WORDS = new Set([
+  'a', 'about', 'all', 'allow', 'allowed', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'approve', 'approved',
+  'be', 'been', 'best', 'better', 'between', 'both', 'but', 'by',
+  'can', 'choice', 'choose', 'could', 'do', 'does', 'doing', 'each', 'either', 'for', 'from',
+  'go', 'going', 'got', 'have', 'here', 'how', 'i', 'if', 'in', 'instead', 'into', 'is', 'it', 'its',
+  'just', 'me', 'might', 'more', 'most', 'my', 'need', 'now',
+  'of', 'ok', 'okay', 'on', 'one', 'option', 'or', 'our', 'over', 'pick', 'please', 'prefer', 'preferred',
+  'rather', 'really', 'right', 'same', 'shall', 'should', 'so', 'some',
+  'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'this', 'those', 'to',
+  'up', 'us', 'use', 'used', 'using', 'versus', 'vs', 'want', 'was', 'we', 'were',
+  'what', 'when', 'where', 'whether', 'which', 'who', 'why', 'will', 'with', 'would',
+  'yes', 'you', 'your',
+])
+
+/**
+ * Blocker scored against a question
+ */
+export interface SimilarBlocker<T extends Blocker = Blocker> {
+  /** The blocker compared against */
+  blocker: T
+  /** Cosine similarity of the two questions, 0–1 */
+  score: number
+}
+
+/**
+ * Split a question into comparable terms
+ *
+ * @param question - Question text
+ * @returns Terms in order of appearance (duplicates kept)
+ *
+ * @example
+ * ```typescript
+ * tokenize('Should I drop the legacy tables?') // ['drop', 'legacy', 'tabl']
+ * ```
+ */
+export function tokenize(question: string): string[] {
+  return (question.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [])
+    .filter(word => !STOP_WORDS.has(word))
+    .map(stem)
+}
+
+/**
+ * Fold common English inflections onto one stem
+ *
+ * Deliberately crude: both words of a pair only need to end up on the same
+ * stem ("storing", "storage", "stored" → "stor"), not on a real word.
+ * Identifiers (anything with a digit or underscore) are kept as written.
+ */
+function stem(word: string): string {
+  if (word.length <= 3 || isIdentifier(word)) return word
+
+  let stemmed = word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word
+  const suffix = ['ation', 'ing', 'age', 'ed'].find(s => stemmed.endsWith(s) && stemmed.length - s.length >= 3)
+  if (suffix) {
+    stemmed = stemmed.slice(0, -suffix.length)
+    // "dropped" → "dropp" → "drop"
+    if (/([b-df-hj-np-tv-z])\1$/.test(stemmed)) stemmed = stemmed.slice(0, -1)
+  }
+  return stemmed.length > 4 && stemmed.endsWith('e') ? stemmed.slice(0, -1) : stemmed
+}
+
+/**
+ * Extra weight of identifiers (table names, versions, ...): they name the
+ * specific thing a question is about, so "drop legacy_orders?" and
+ * "drop users?" should not match on "drop" alone
+ */
+const IDENTIFIER_WEIGHT = 2
+
+/**
+ * Whether a term looks like an identifier rather than a word
+ */
+function isIdentifier(term: string): boolean {
+  return /[\d_]/.test(term)
+}
+
+/**
+ * Term frequencies of a tokenized question
+ */
+function termCounts(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) ?? 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * Score a question against a set of blockers
+ *
+ * Term rarity is computed over the given blockers plus the question itself,
+ * so the same pair can score differently against a different set.
+ *
+ * @param question - Question of the blocker about to be logged
+ * @param blockers - Blockers to compare against
+ * @returns One score per blocker, in input order
+ */
+export function scoreQuestions<T extends Blocker>(question: string, blockers: T[]): SimilarBlocker<T>[] {
+  const documents = [question, ...blockers.map(blocker => blocker.question)].map(text => termCounts(tokenize(text)))
+
+  // Smoothed inverse document frequency: rare terms weigh more, none weigh zero
+  const documentFrequency = new Map<string, number>()
+  for (const counts of documents) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)
+    }
+  }
+  const idf = (term: string) => Math.log((documents.length + 1) / ((documentFrequency.get(term) ?? 0) + 1)) + 1
+
+  const vectors = documents.map(counts => {
+    const vector = new Map<string, number>()
+    for (const [term, count] of counts) {
+      vector.set(term, count * idf(term) * (isIdentifier(term) ? IDENTIFIER_WEIGHT : 1))
+    }
+    return vector
+  })
+  const norm = (vector: Map<string, number>) => Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0))
+
+  const [query, ...rest] = vectors
+  const queryNorm = norm(query)
+
+  return blockers.map((blocker, i) => {
+    const vector = rest[i]
+    const denominator = queryNorm * norm(vector)
+    if (denominator === 0) {
+      return { blocker, score: 0 }
+    }
+
+    let dot = 0
+    for (const [term, weight] of query) {
+      dot += weight * (vector.get(term) ?? 0)
+    }
+    return { blocker, score: dot / denominator }
+  })
+}
+
+/**
+ * Find blockers asking (nearly) the same question
+ *
+ * @param question - Question of the blocker about to be logged
+ * @param blockers - Blockers to compare against
+ * @param threshold - Minimum score, 0–1
+ * @returns Matches at or above the threshold, best first
+ *
+ * @example
+ * ```typescript
+ * const [best] = findSimilarBlockers('Zod vs Yup for validation?', logged, config.similarityThreshold)
+ * ```
+ */
+export function findSimilarBlockers<T extends Blocker>(
+  question: string,
+  blockers: T[],
+  threshold: number
+): SimilarBlocker<T>[] {
+  return scoreQuestions(question, blockers)
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+}
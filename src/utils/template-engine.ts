@@ -0,0 +1,494 @@
+/**
+ * Template engine for BLOCKERS.template.md
+ *
+ * A small, dependency-free subset of Handlebars syntax:
+ * - {{path}} / {{path.to.value}} / {{this}} / {{../parent}} - escaped output
+ * - {{{path}}} - raw output (no escaping)
+ * - {{#if expr}} ... {{else}} ... {{/if}} and {{#unless expr}} ... {{/unless}}
+ * - {{#each list}} ... {{else}} ... {{/each}} with {{@index}}, {{@first}}, {{@last}}, {{@key}}
+ * - Helpers and subexpressions: {{truncate question 80}}, {{#if (eq category "security")}}
+ * - Comments: {{! ignored }}
+ *
+ * Block tags alone on a line are removed together with that line, so
+ * conditional sections don't leave blank lines behind.
+ *
+ * Templates are compiled once and can be rendered many times. Malformed
+ * templates (unclosed blocks, unknown helpers) throw TemplateError at compile
+ * time, never at render time.
+ *
+ * @module utils/template-engine
+ */
+
+/**
+ * Thrown when a template cannot be compiled
+ */
+export class TemplateError extends Error {
+  /**
+   * Create a TemplateError
+   *
+   * @param message - What is wrong with the template
+   */
+  constructor(message: string) {
+    super(message)
+    this.name = 'TemplateError'
+  }
+}
+
+/**
+ * Pre-rendered markdown that must not be escaped again
+ */
+export class SafeString {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value
+  }
+}
+
+/**
+ * Helper function: positional args and key=value hash args
+ */
+type Helper = (args: unknown[], hash: Record<string, unknown>) => unknown
+
+/**
+ * Options applied when rendering
+ */
+export interface RenderOptions {
+  /** Applied to every {{...}} output (not {{{...}}} or SafeString) */
+  escape?: (text: string) => string
+  /** Converts non-string values to output text (default: String) */
+  stringify?: (value: unknown) => string
+}
+
+/**
+ * Compiled template: render with a context object
+ */
+export type CompiledTemplate = (context: unknown, options?: RenderOptions) => string
+
+type Expression =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'path'; depth: number; data: boolean; parts: string[] }
+  | { kind: 'call'; name: string; args: Expression[]; hash: Record<string, Expression> }
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expr: Expression; raw: boolean }
+  | { type: 'block'; name: BlockName; expr: Expression; body: Node[]; inverse: Node[] }
+
+type BlockName = 'if' | 'unless' | 'each'
+
+type Token =
+  | { type: 'text'; value: string }
+  | { type: 'output'; source: string; raw: boolean }
+  | { type: 'open'; name: string; source: string }
+  | { type: 'close'; name: string }
+  | { type: 'else' }
+  | { type: 'comment' }
+
+interface Frame {
+  context: unknown
+  data: Record<string, unknown>
+}
+
+const BLOCK_NAMES: readonly BlockName[] = ['if', 'unless', 'each']
+
+/**
+ * Property names never resolved from template paths
+ */
+const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'constructor', 'prototype'])
+
+/**
+ * Formats a date as UTC using YYYY, MM, DD, HH, mm, ss tokens
+ * Returns the input unchanged when it is not a valid date
+ */
+function formatDate(value: unknown, format: string): string {
+  const date = value instanceof Date ? value : new Date(String(value))
+  if (value === undefined || value === null || value === '' || Number.isNaN(date.getTime())) {
+    return value === undefined || value === null ? '' : String(value)
+  }
+
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getUTCFullYear()),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+  }
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, token => tokens[token])
+}
+
+/**
+ * Built-in helpers
+ */
+const HELPERS: Record<string, Helper> = {
+  eq: ([a, b]) => a === b,
+  ne: ([a, b]) => a !== b,
+  gt: ([a, b]) => Number(a) > Number(b),
+  lt: ([a, b]) => Number(a) < Number(b),
+  not: ([a]) => !isTruthy(a),
+  and: args => args.every(isTruthy),
+  or: args => args.some(isTruthy),
+  add: ([a, b]) => Number(a) + Number(b),
+  default: ([value, fallback]) => (isTruthy(value) ? value : fallback),
+  upper: ([value]) => (value === undefined || value === null ? '' : String(value).toUpperCase()),
+  lower: ([value]) => (value === undefined || value === null ? '' : String(value).toLowerCase()),
+  join: ([list, separator]) =>
+    Array.isArray(list) ? list.join(typeof separator === 'string' ? separator : ', ') : '',
+  date: ([value, format]) => formatDate(value, typeof format === 'string' ? format : 'YYYY-MM-DD HH:mm'),
+  truncate: ([value, length, suffix]) => {
+    const text = value === undefined || value === null ? '' : String(value)
+    const max = Number(length)
+    const tail = typeof suffix === 'string' ? suffix : '…'
+    if (!Number.isFinite(max) || text.length <= max) return text
+    return text.slice(0, Math.max(0, max - tail.length)).trimEnd() + tail
+  },
+}
+
+/**
+ * Whether a name refers to a built-in helper
+ *
+ * @param name - Identifier used in a template expression
+ * @returns true if `name` is a helper (e.g. "date", "truncate")
+ */
+export function isTemplateHelper(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(HELPERS, name)
+}
+
+/**
+ * Handlebars truthiness: empty arrays are falsy too
+ */
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value)
+}
+
+/**
+ * Splits a template into text and tag tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  const tagPattern = /\{\{\{([\s\S]+?)\}\}\}|\{\{([\s\S]+?)\}\}/g
+  let lastIndex = 0
+
+  for (const match of source.matchAll(tagPattern)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) tokens.push({ type: 'text', value: source.slice(lastIndex, index) })
+    lastIndex = index + match[0].length
+
+    if (match[1] !== undefined) {
+      tokens.push({ type: 'output', source: match[1].trim(), raw: true })
+      continue
+    }
+
+    const inner = match[2].trim()
+    if (inner.startsWith('!')) {
+      tokens.push({ type: 'comment' })
+    } else if (inner.startsWith('#')) {
+      const [name, ...rest] = inner.slice(1).trim().split(/\s+/)
+      tokens.push({ type: 'open', name, source: rest.join(' ') })
+    } else if (inner.startsWith('/')) {
+      tokens.push({ type: 'close', name: inner.slice(1).trim() })
+    } else if (inner === 'else') {
+      tokens.push({ type: 'else' })
+    } else {
+      tokens.push({ type: 'output', source: inner, raw: false })
+    }
+  }
+
+  if (lastIndex < source.length) tokens.push({ type: 'text', value: source.slice(lastIndex) })
+  return tokens
+}
+
+/**
+ * Strips block tags that stand alone on their line together with the
+ * indentation before them and the newline after them
+ */
+function stripStandaloneTags(tokens: Token[]): void {
+  // Decide on the original text first: stripping one tag must not change
+  // whether the next tag on the following line counts as standalone
+  const standalone = tokens.map((token, i) => {
+    if (token.type === 'text' || token.type === 'output') return false
+
+    const prev = tokens[i - 1]
+    const next = tokens[i + 1]
+    const prevText = prev === undefined ? '' : prev.type === 'text' ? prev.value : null
+    const nextText = next === undefined ? '' : next.type === 'text' ? next.value : null
+    if (prevText === null || nextText === null) return false
+
+    // Leading whitespace only counts as a line start at the very beginning of the template
+    const lineStart = /\n[ \t]*$/.test(prevText) || (i <= 1 && /^[ \t]*$/.test(prevText))
+    const lineEnd = /^[ \t]*(\r?\n|$)/.test(nextText)
+    return lineStart && lineEnd
+  })
+
+  standalone.forEach((isStandalone, i) => {
+    if (!isStandalone) return
+    const prev = tokens[i - 1]
+    const next = tokens[i + 1]
+    if (prev?.type === 'text') prev.value = prev.value.replace(/[ \t]*$/, '')
+    if (next?.type === 'text') next.value = next.value.replace(/^[ \t]*(\r?\n)?/, '')
+  })
+}
+
+/**
+ * Splits an expression source into tokens: parens, strings, key=, words
+ */
+function lexExpression(source: string): string[] {
+  const parts = source.match(/\(|\)|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[^\s()]+=|[^\s()"']+/g)
+  return parts ?? []
+}
+
+/**
+ * Parses a single value: literal, path or parenthesized subexpression
+ */
+function parseValue(tokens: string[], pos: { i: number }, source: string): Expression {
+  const token = tokens[pos.i++]
+  if (token === undefined) throw new TemplateError(`Unexpected end of expression: "${source}"`)
+
+  if (token === '(') {
+    const call = parseCall(tokens, pos, source, true)
+    if (tokens[pos.i++] !== ')') throw new TemplateError(`Missing ")" in expression: "${source}"`)
+    return call
+  }
+  if (token === ')') throw new TemplateError(`Unexpected ")" in expression: "${source}"`)
+
+  if (/^"|^'/.test(token)) return { kind: 'literal', value: token.slice(1, -1).replace(/\\(.)/g, '$1') }
+  if (/^-?\d+(\.\d+)?$/.test(token)) return { kind: 'literal', value: Number(token) }
+  if (token === 'true' || token === 'false') return { kind: 'literal', value: token === 'true' }
+  if (token === 'null' || token === 'undefined') return { kind: 'literal', value: undefined }
+
+  let path = token
+  let depth = 0
+  while (path.startsWith('../')) {
+    depth++
+    path = path.slice(3)
+  }
+  if (path.startsWith('./')) path = path.slice(2)
+
+  const data = path.startsWith('@')
+  if (data) path = path.slice(1)
+
+  const parts = path.split('.').filter(part => part.length > 0 && part !== 'this')
+  return { kind: 'path', depth, data, parts }
+}
+
+/**
+ * Parses "helper arg1 arg2 key=value" (or a lone value when not a call)
+ */
+function parseCall(tokens: string[], pos: { i: number }, source: string, mustCall: boolean): Expression {
+  const nameToken = tokens[pos.i]
+  const isCall =
+    nameToken !== undefined &&
+    /^[A-Za-z_]\w*$/.test(nameToken) &&
+    (mustCall || (tokens.length - pos.i > 1))
+
+  if (!isCall) return parseValue(tokens, pos, source)
+
+  if (!isTemplateHelper(nameToken)) {
+    throw new TemplateError(`Unknown helper "${nameToken}" in expression: "${source}"`)
+  }
+  pos.i++
+
+  const args: Expression[] = []
+  const hash: Record<string, Expression> = {}
+  while (pos.i < tokens.length && tokens[pos.i] !== ')') {
+    const token = tokens[pos.i]
+    if (token.endsWith('=')) {
+      pos.i++
+      hash[token.slice(0, -1)] = parseValue(tokens, pos, source)
+    } else {
+      args.push(parseValue(tokens, pos, source))
+    }
+  }
+  return { kind: 'call', name: nameToken, args, hash }
+}
+
+/**
+ * Parses an expression source string
+ */
+function parseExpression(source: string): Expression {
+  const tokens = lexExpression(source)
+  if (tokens.length === 0) throw new TemplateError('Empty expression')
+
+  const pos = { i: 0 }
+  const expr = parseCall(tokens, pos, source, false)
+  if (pos.i < tokens.length) throw new TemplateError(`Unexpected "${tokens[pos.i]}" in expression: "${source}"`)
+  return expr
+}
+
+/**
+ * Builds the node tree, checking that blocks are balanced
+ */
+function buildTree(tokens: Token[]): Node[] {
+  const root: Node[] = []
+  const stack: Array<{ node: Extract<Node, { type: 'block' }>; target: Node[] }> = []
+  let target = root
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'text':
+        if (token.value) target.push({ type: 'text', value: token.value })
+        break
+      case 'output':
+        target.push({ type: 'output', expr: parseExpression(token.source), raw: token.raw })
+        break
+      case 'comment':
+        break
+      case 'open': {
+        if (!(BLOCK_NAMES as readonly string[]).includes(token.name)) {
+          throw new TemplateError(`Unknown block "{{#${token.name}}}"`)
+        }
+        const node: Extract<Node, { type: 'block' }> = {
+          type: 'block',
+          name: token.name as BlockName,
+          expr: parseExpression(token.source),
+          body: [],
+          inverse: [],
+        }
+        target.push(node)
+        stack.push({ node, target })
+        target = node.body
+        break
+      }
+      case 'else': {
+        const open = stack[stack.length - 1]
+        if (!open) throw new TemplateError('{{else}} outside of a block')
+        target = open.node.inverse
+        break
+      }
+      case 'close': {
+        const open = stack.pop()
+        if (!open) throw new TemplateError(`Unexpected "{{/${token.name}}}"`)
+        if (open.node.name !== token.name) {
+          throw new TemplateError(`"{{/${token.name}}}" closes "{{#${open.node.name}}}"`)
+        }
+        target = open.target
+        break
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new TemplateError(`Unclosed block "{{#${stack[stack.length - 1].node.name}}}"`)
+  }
+  return root
+}
+
+/**
+ * Resolves a property path, refusing prototype-related names
+ */
+function lookup(value: unknown, parts: string[]): unknown {
+  let current = value
+  for (const part of parts) {
+    if (current === undefined || current === null || FORBIDDEN_PROPERTIES.has(part)) return undefined
+    current = (current as Record<string, unknown>)[part]
+  }
+  return current
+}
+
+/**
+ * Evaluates an expression against the frame stack
+ */
+function evaluate(expr: Expression, stack: Frame[]): unknown {
+  switch (expr.kind) {
+    case 'literal':
+      return expr.value
+    case 'path': {
+      const frame = stack[Math.max(0, stack.length - 1 - expr.depth)]
+      if (!expr.data) return lookup(frame.context, expr.parts)
+      const [first, ...rest] = expr.parts
+      if (first === 'root') return lookup(stack[0].context, rest)
+      return lookup(frame.data[first], rest)
+    }
+    case 'call': {
+      const args = expr.args.map(arg => evaluate(arg, stack))
+      const hash = Object.fromEntries(
+        Object.entries(expr.hash).map(([key, value]) => [key, evaluate(value, stack)])
+      )
+      return HELPERS[expr.name](args, hash)
+    }
+  }
+}
+
+/**
+ * Renders a node list
+ */
+function renderNodes(nodes: Node[], stack: Frame[], options: RenderOptions): string {
+  const escape = options.escape ?? ((text: string) => text)
+  const stringify = options.stringify ?? ((value: unknown) => String(value))
+  let out = ''
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      out += node.value
+      continue
+    }
+
+    if (node.type === 'output') {
+      const value = evaluate(node.expr, stack)
+      if (value instanceof SafeString) {
+        out += value.value
+      } else if (value !== undefined && value !== null) {
+        const text = typeof value === 'string' ? value : stringify(value)
+        out += node.raw ? text : escape(text)
+      }
+      continue
+    }
+
+    const value = evaluate(node.expr, stack)
+    const frame = stack[stack.length - 1]
+
+    if (node.name === 'if' || node.name === 'unless') {
+      const pass = node.name === 'if' ? isTruthy(value) : !isTruthy(value)
+      out += renderNodes(pass ? node.body : node.inverse, stack, options)
+      continue
+    }
+
+    // each
+    const entries: Array<[string | number, unknown]> = Array.isArray(value)
+      ? value.map((item, index) => [index, item])
+      : value !== null && typeof value === 'object'
+        ? Object.entries(value)
+        : []
+
+    if (entries.length === 0) {
+      out += renderNodes(node.inverse, stack, options)
+      continue
+    }
+
+    entries.forEach(([key, item], index) => {
+      const data = {
+        ...frame.data,
+        index,
+        key,
+        first: index === 0,
+        last: index === entries.length - 1,
+      }
+      out += renderNodes(node.body, [...stack, { context: item, data }], options)
+    })
+  }
+
+  return out
+}
+
+/**
+ * Compiles a template
+ *
+ * @param source - Template text
+ * @returns Render function
+ * @throws TemplateError if the template is malformed
+ *
+ * @example
+ * ```typescript
+ * const render = compileTemplate('{{#each options}}{{add @index 1}}. {{this}}\n{{/each}}')
+ * render({ options: ['A', 'B'] }) // => "1. A\n2. B\n"
+ * ```
+ */
+export function compileTemplate(source: string): CompiledTemplate {
+  const tokens = tokenize(source)
+  stripStandaloneTags(tokens)
+  const tree = buildTree(tokens)
+
+  return (context, options = {}) => renderNodes(tree, [{ context, data: {} }], options)
+}
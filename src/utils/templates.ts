@@ -8,6 +8,7 @@
  */
 
 import type { PluginConfig, SessionState } from '../types'
+import { getAgentCategories, getAgentCategoryNames, describeCategory } from './categories'
 
 /**
  * Fixed response message for blocker acknowledgment (FR-009)
@@ -228,13 +229,17 @@ export function getSystemPromptTemplate(
   
   // Show last 3 blockers only
   const recentBlockers = blockers.slice(-3)
+  const categories = getAgentCategories(config)
+  const hardCategories = categories
+    .filter(category => category.blocksProgress === true)
+    .map(category => sanitizeInput(category.name))
   
   return `<blocker-diverter-mode enabled>
 You are operating in AUTONOMOUS MODE with the Blocker Diverter plugin active.
 
 ## Core Responsibilities
 
-1. **HARD BLOCKERS** (Architecture, Security, Destructive, Deployment):
+1. **HARD BLOCKERS** (${hardCategories.join(', ')}):
    - DO NOT ask the user
    - Log to BLOCKERS.md with STRUCTURED CONTEXT (see below)
    - Continue with independent parallel tasks
@@ -246,6 +251,11 @@ You are operating in AUTONOMOUS MODE with the Blocker Diverter plugin active.
    - Log your choice and reasoning with STRUCTURED CONTEXT
    - Examples: "Name this function?", "Format as JSON or YAML?"
 
+## Blocker Categories
+
+Pick the \`category\` that fits best (default hard/soft and priority in parentheses):
+${categories.map(category => `- ${sanitizeInput(describeCategory(category))}`).join('\n')}
+
 ## Blocker Context Requirements
 
 When logging blockers, ALWAYS include structured context:
@@ -253,17 +263,17 @@ When logging blockers, ALWAYS include structured context:
 **Required Elements**:
 - **Task Reference**: Task ID, todo item number, or brief task description
 - **What You Were Doing**: Specific action/operation being attempted
-- **Where You Got Stuck**: Exact file path(s), line numbers, or command
+- **Where You Got Stuck**: Exact command or function; list the files (with line numbers) in the \`files\` argument
 - **Progress Made**: What was completed before hitting the blocker
 
 **Good Context Example**:
 \`\`\`
 Task: #3 "Implement user authentication"
 Action: Setting up JWT token validation middleware
-Files: src/middleware/auth.ts:45, src/config/jwt.ts
 Progress: Created auth middleware skeleton, installed jsonwebtoken package
 Blocker: Need to decide between RS256 (asymmetric) vs HS256 (symmetric) signing
 \`\`\`
+with \`files: [{ "path": "src/middleware/auth.ts", "line": 45 }, { "path": "src/config/jwt.ts" }]\`
 
 **Bad Context Example** (too vague):
 \`\`\`
@@ -329,6 +339,7 @@ Review these before stopping.
  * 
  * Format follows: <tools><tool><name>...</name><description>...</description><input_schema><json_schema>...</json_schema></input_schema></tool></tools>
  * 
+ * @param config - Plugin configuration (categories); omit for the built-in set
  * @returns XML string containing blocker tool definition
  * 
  * @example
@@ -337,7 +348,9 @@ Review these before stopping.
  * output.system.push(toolXML)
  * ```
  */
-export function getBlockerToolDefinition(): string {
+export function getBlockerToolDefinition(config?: Pick<PluginConfig, 'categories'>): string {
+  const categoryDescription = `Category of the blocker: ${getAgentCategories(config).map(describeCategory).join('; ')}`
+
   return `<tools>
 <tool>
   <name>blocker</name>
@@ -346,11 +359,11 @@ export function getBlockerToolDefinition(): string {
 IMPORTANT: Provide STRUCTURED CONTEXT in the 'context' field:
 - Task Reference: Task ID, todo item, or task description
 - What You Were Doing: Specific action/operation attempted
-- Where You Got Stuck: File paths (e.g., src/auth.ts:45), commands, or function names
+- Where You Got Stuck: Commands or function names (file paths go in 'files')
 - Progress Made: What was completed before hitting the blocker
 
 Example context:
-"Task: #3 'Implement JWT auth' | Action: Setting up token validation | Files: src/middleware/auth.ts:45, src/config/jwt.ts | Progress: Created middleware skeleton, installed jsonwebtoken | Blocker: Need to decide RS256 vs HS256 signing algorithm"
+"Task: #3 'Implement JWT auth' | Action: Setting up token validation | Progress: Created middleware skeleton, installed jsonwebtoken | Blocker: Need to decide RS256 vs HS256 signing algorithm"
 </description>
   <input_schema>
     <json_schema>
@@ -363,12 +376,30 @@ Example context:
           },
           "category": {
             "type": "string",
-            "enum": ["architecture", "security", "destructive", "deployment", "question", "other"],
-            "description": "Category of the blocker"
+            "enum": ${JSON.stringify(getAgentCategoryNames(config))},
+            "description": ${JSON.stringify(categoryDescription)}
+          },
+          "priority": {
+            "type": "string",
+            "enum": ["p0", "p1", "p2", "p3"],
+            "description": "How urgent the decision is, p0 (critical) to p3 (low). Omit to default from category"
           },
           "context": {
             "type": "string",
-            "description": "Additional context: what you were doing, file paths, command args, etc."
+            "description": "Additional context: what you were doing, command args, etc."
+          },
+          "files": {
+            "type": "array",
+            "description": "Files the blocker is about. Paths are relative to the project root and must exist",
+            "items": {
+              "type": "object",
+              "properties": {
+                "path": { "type": "string" },
+                "line": { "type": "integer", "minimum": 1 },
+                "endLine": { "type": "integer", "minimum": 1 }
+              },
+              "required": ["path"]
+            }
           }
         },
         "required": ["question", "category"]
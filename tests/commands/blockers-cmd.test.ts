@@ -1,19 +1,24 @@
 /**
  * Tests for dot-delimited /blockers.* command handlers
  * 
- * Tests all commands (on, off, status, list) with mocked dependencies,
+ * Tests all commands (on, off, status, list, clarify, archive, rebuild) with mocked dependencies,
  * verifying state changes and logging output.
  */
 
 import { describe, it, expect, mock, beforeEach, afterEach } from 'bun:test'
+import { mkdir, readdir, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
 import { 
   handleOnCommand,
   handleOffCommand,
   handleStopCommand,
   handleStatusCommand,
-  handleListCommand 
+  handleListCommand,
+  handleArchiveCommand,
+  handleRebuildCommand,
+  handleClarifyCommand
 } from '../../src/commands/blockers-cmd'
-import { getState, cleanupState } from '../../src/state'
+import { getState, cleanupState, configureStatePersistence, STATE_DIR } from '../../src/state'
 import type { LogClient } from '../../src/config'
 import type { PluginConfig } from '../../src/types'
 
@@ -86,6 +91,175 @@ describe('Blocker Command Handlers', () => {
       expect(logMsg.message).toMatch(/blocker diverter enabled/i)
       expect(result.toast?.message).toContain('Enabled')
     })
+
+    it('should archive the previous log when rotateOnRunStart is set', async () => {
+      const projectDir = '/tmp/blocker-diverter-cmd-test'
+      await mkdir(projectDir, { recursive: true })
+      await writeFile(join(projectDir, 'blockers.md'), '## Blocker #1\nOld run\n', 'utf-8')
+      const state = getState(testSessionId)
+      state.divertBlockers = false
+
+      try {
+        await handleOnCommand(state, mockClient, { ...testConfig, rotateOnRunStart: true, archiveDir: './archive' }, projectDir)
+
+        expect(await Bun.file(join(projectDir, 'blockers.md')).exists()).toBe(false)
+        expect(await readdir(join(projectDir, 'archive'))).toHaveLength(1)
+      } finally {
+        await rm(projectDir, { recursive: true, force: true })
+      }
+    })
+
+    it('should not archive when diversion was already enabled', async () => {
+      const projectDir = '/tmp/blocker-diverter-cmd-test'
+      await mkdir(projectDir, { recursive: true })
+      await writeFile(join(projectDir, 'blockers.md'), '## Blocker #1\nCurrent run\n', 'utf-8')
+      const state = getState(testSessionId)
+      state.divertBlockers = true
+
+      try {
+        await handleOnCommand(state, mockClient, { ...testConfig, rotateOnRunStart: true }, projectDir)
+
+        expect(await Bun.file(join(projectDir, 'blockers.md')).exists()).toBe(true)
+      } finally {
+        await rm(projectDir, { recursive: true, force: true })
+      }
+    })
+  })
+
+  describe('run header and footer', () => {
+    const projectDir = '/tmp/blocker-diverter-run-cmd-test'
+
+    beforeEach(async () => {
+      await mkdir(projectDir, { recursive: true })
+    })
+
+    afterEach(async () => {
+      await rm(projectDir, { recursive: true, force: true })
+    })
+
+    it('should write a run header when /blockers.on starts a run', async () => {
+      const state = getState(testSessionId)
+      state.divertBlockers = false
+
+      await handleOnCommand(state, mockClient, testConfig, projectDir, testSessionId)
+
+      expect(state.run?.sessionId).toBe(testSessionId)
+      const content = await Bun.file(join(projectDir, 'blockers.md')).text()
+      expect(content).toContain('# Run started')
+      expect(content).toContain(`**Session:** ${testSessionId}`)
+    })
+
+    it('should write a stopped footer on /blockers.stop', async () => {
+      const state = getState(testSessionId)
+      state.divertBlockers = false
+      await handleOnCommand(state, mockClient, testConfig, projectDir, testSessionId)
+
+      await handleStopCommand(state, mockClient, testConfig, projectDir)
+
+      expect(state.run).toBeNull()
+      const content = await Bun.file(join(projectDir, 'blockers.md')).text()
+      expect(content).toContain('**Outcome:** stopped')
+    })
+
+    it('should write a stopped footer on /blockers.off', async () => {
+      const state = getState(testSessionId)
+      state.divertBlockers = false
+      await handleOnCommand(state, mockClient, testConfig, projectDir, testSessionId)
+
+      await handleOffCommand(state, mockClient, testConfig, projectDir)
+
+      const content = await Bun.file(join(projectDir, 'blockers.md')).text()
+      expect(content).toContain('## Run finished')
+    })
+
+    it('should save the stopped session to its snapshot', async () => {
+      configureStatePersistence(projectDir)
+      try {
+        const state = getState(testSessionId)
+        state.divertBlockers = false
+        await handleOnCommand(state, mockClient, testConfig, projectDir, testSessionId)
+
+        await handleStopCommand(state, mockClient, testConfig, projectDir, testSessionId)
+
+        const saved = await Bun.file(join(projectDir, STATE_DIR, `${Buffer.from(testSessionId).toString('base64url')}.json`)).json()
+        expect(saved.divertBlockers).toBe(false)
+        expect(saved.run).toBeNull()
+      } finally {
+        cleanupState(testSessionId)
+        configureStatePersistence(null)
+      }
+    })
+  })
+
+  describe('handleArchiveCommand', () => {
+    const projectDir = '/tmp/blocker-diverter-archive-cmd-test'
+
+    beforeEach(async () => {
+      await mkdir(projectDir, { recursive: true })
+    })
+
+    afterEach(async () => {
+      await rm(projectDir, { recursive: true, force: true })
+    })
+
+    it('should archive the blockers log and report the count', async () => {
+      await writeFile(join(projectDir, 'blockers.md'), '## Blocker #1\nA\n\n## Blocker #2\nB\n', 'utf-8')
+      const state = getState(testSessionId)
+
+      const result = await handleArchiveCommand(state, mockClient, { ...testConfig, archiveDir: './archive' }, projectDir)
+
+      expect(result.handled).toBe(true)
+      expect(result.toast?.variant).toBe('success')
+      expect(result.toast?.message).toContain('Archived 2 blockers')
+      expect(state.ignoreNextUserMessage).toBe(true)
+      expect(await readdir(join(projectDir, 'archive'))).toHaveLength(1)
+    })
+
+    it('should report nothing to archive when no log exists', async () => {
+      const state = getState(testSessionId)
+
+      const result = await handleArchiveCommand(state, mockClient, testConfig, projectDir)
+
+      expect(result.handled).toBe(true)
+      expect(result.toast?.variant).toBe('info')
+      expect(result.toast?.message).toBe('Nothing to archive')
+    })
+  })
+
+  describe('handleRebuildCommand', () => {
+    const projectDir = '/tmp/blocker-diverter-rebuild-cmd-test'
+    const storeConfig = { ...testConfig, storeFile: '.opencode/blockers.jsonl' }
+
+    beforeEach(async () => {
+      await mkdir(join(projectDir, '.opencode'), { recursive: true })
+    })
+
+    afterEach(async () => {
+      await rm(projectDir, { recursive: true, force: true })
+    })
+
+    it('should regenerate the blockers log from the store', async () => {
+      const record = { id: 'stored-1', timestamp: '2026-01-01T00:00:00.000Z', sessionId: testSessionId, category: 'question', question: 'Which cache?', context: 'ctx', blocksProgress: false, clarified: 'pending' }
+      await writeFile(join(projectDir, '.opencode/blockers.jsonl'), JSON.stringify(record) + '\n', 'utf-8')
+      const state = getState(testSessionId)
+
+      const result = await handleRebuildCommand(state, mockClient, storeConfig, projectDir)
+
+      expect(result.handled).toBe(true)
+      expect(result.toast?.variant).toBe('success')
+      expect(state.ignoreNextUserMessage).toBe(true)
+      expect(await Bun.file(join(projectDir, 'blockers.md')).text()).toContain('## Blocker #stored-1')
+    })
+
+    it('should report that there is no store to rebuild from', async () => {
+      const state = getState(testSessionId)
+
+      const result = await handleRebuildCommand(state, mockClient, testConfig, projectDir)
+
+      expect(result.handled).toBe(true)
+      expect(result.toast?.message).toBe('No blocker store configured')
+      expect(await Bun.file(join(projectDir, 'blockers.md')).exists()).toBe(false)
+    })
   })
 
   describe('handleOffCommand', () => {
@@ -191,6 +365,62 @@ describe('Blocker Command Handlers', () => {
       expect(logMsg.message).toMatch(/15.*50/)
       expect(result.toast?.message).toContain('15/50')
     })
+    it('should show per-category usage against category limits', async () => {
+      const state = getState(testSessionId)
+      const blockerOf = (category: 'architecture' | 'permission', i: number) => ({
+        id: `${category}-${i}`,
+        timestamp: new Date().toISOString(),
+        sessionId: testSessionId,
+        category,
+        question: `Question ${i}`,
+        context: '',
+        blocksProgress: true,
+      })
+      state.blockers = [blockerOf('architecture', 1), blockerOf('architecture', 2), blockerOf('permission', 3)]
+
+      const result = await handleStatusCommand(state, mockClient, {
+        ...testConfig,
+        categories: { architecture: { max: 5 }, permission: { max: null }, question: { enabled: false } },
+      })
+
+      expect(logMessages[0].message).toContain(
+        'By category: architecture 2/5, permission 1 (no limit), question 0 (disabled)'
+      )
+      expect(result.minimalResponse).toContain('architecture 2/5')
+    })
+
+    it('should report unflushed writes from the session queue and the journal', async () => {
+      const projectDir = '/tmp/blocker-diverter-cmd-test'
+      const journalFile = '.opencode/blocker-diverter/pending.jsonl'
+      const queued = {
+        id: 'queued-1',
+        timestamp: new Date().toISOString(),
+        sessionId: testSessionId,
+        category: 'question' as const,
+        question: 'Queued?',
+        context: '',
+        blocksProgress: true,
+      }
+      await mkdir(join(projectDir, '.opencode/blocker-diverter'), { recursive: true })
+      await writeFile(
+        join(projectDir, journalFile),
+        [queued, { ...queued, id: 'other-session', sessionId: 'other' }].map(b => JSON.stringify(b) + '\n').join(''),
+        'utf-8'
+      )
+      const state = getState(testSessionId)
+      state.pendingWrites = [queued]
+
+      try {
+        const result = await handleStatusCommand(state, mockClient, { ...testConfig, journalFile }, projectDir)
+
+        expect(logMessages[0].message).toContain('Unflushed writes: 2')
+        expect(result.minimalResponse).toContain('2 blocker write(s) not yet flushed')
+        expect(result.toast?.message).toContain('2 unflushed')
+        expect(result.toast?.variant).toBe('warning')
+      } finally {
+        await rm(projectDir, { recursive: true, force: true })
+      }
+    })
   })
 
   describe('handleStopCommand', () => {
@@ -309,6 +539,106 @@ describe('Blocker Command Handlers', () => {
     })
   })
 
+  describe('handleListCommand with package logs', () => {
+    const projectDir = '/tmp/blocker-diverter-list-cmd-test'
+
+    beforeEach(async () => {
+      await mkdir(join(projectDir, 'packages', 'api'), { recursive: true })
+      await writeFile(join(projectDir, 'packages', 'api', 'package.json'), '{}', 'utf-8')
+    })
+
+    afterEach(async () => {
+      await rm(projectDir, { recursive: true, force: true })
+    })
+
+    it('should pass an overview of every log to the template', async () => {
+      await writeFile(join(projectDir, 'blockers.md'), '## Blocker #root-1\n**ID:** B-0001\n**Category:** question\n\n### Question\nWhich logger?\n', 'utf-8')
+      await writeFile(
+        join(projectDir, 'packages', 'api', 'blockers.md'),
+        '## Blocker #api-1\n**ID:** B-0002\n**Category:** security\n\n### Question\nRotate the API keys?\n\n' +
+          '## Blocker #api-2\n**ID:** B-0003\n**Category:** question\n**Status:** clarified\n\n### Question\nTabs?\n',
+        'utf-8'
+      )
+
+      const result = await handleListCommand(getState(testSessionId), mockClient, { ...testConfig, packageLogs: true }, projectDir)
+
+      expect(result.handled).toBe(false)
+      expect(result.context).toBe(
+        '## Blocker logs\n\n' +
+          '### blockers.md (1 unresolved)\n- `B-0001` [p3] question: Which logger?\n\n' +
+          '### packages/api/blockers.md (1 unresolved)\n- `B-0002` [p1] security: Rotate the API keys?'
+      )
+    })
+
+    it('should leave the template alone without packageLogs', async () => {
+      const result = await handleListCommand(getState(testSessionId), mockClient, testConfig, projectDir)
+
+      expect(result).toEqual({ handled: false })
+    })
+  })
+
+  describe('handleClarifyCommand', () => {
+    const projectDir = '/tmp/blocker-diverter-clarify-cmd-test'
+    const config = {
+      ...testConfig,
+      storeFile: '.opencode/blockers.jsonl',
+      packageLogs: true,
+      routes: [{ file: 'SECURITY-REVIEW.md', categories: ['security'] }],
+    }
+
+    beforeEach(async () => {
+      await mkdir(join(projectDir, 'packages', 'api'), { recursive: true })
+      await writeFile(join(projectDir, 'packages', 'api', 'package.json'), '{}', 'utf-8')
+    })
+
+    afterEach(async () => {
+      await rm(projectDir, { recursive: true, force: true })
+    })
+
+    it('should pass the unresolved blockers of the store and every log to the template', async () => {
+      const record = (id: string, fields: Record<string, unknown>) =>
+        JSON.stringify({ id, timestamp: '2026-02-13T10:00:00Z', sessionId: 's', context: '', blocksProgress: true, clarified: 'pending', ...fields })
+      await mkdir(join(projectDir, '.opencode'), { recursive: true })
+      await writeFile(
+        join(projectDir, '.opencode', 'blockers.jsonl'),
+        [
+          record('root-1', { shortId: 'B-0001', category: 'question', question: 'Which logger?', options: ['pino', 'winston'] }),
+          record('sec-1', { shortId: 'B-0002', category: 'security', question: 'Rotate the API keys?', context: 'Keys leaked in CI' }),
+          record('done-1', { shortId: 'B-0003', category: 'question', question: 'Tabs?', clarified: 'clarified' }),
+        ].join('\n') + '\n',
+        'utf-8'
+      )
+      await writeFile(
+        join(projectDir, 'packages', 'api', 'blockers.md'),
+        '## Blocker #api-1\n**ID:** B-0004\n**Category:** architecture\n\n### Question\nREST or gRPC?\n',
+        'utf-8'
+      )
+
+      const result = await handleClarifyCommand(mockClient, config, projectDir)
+
+      expect(result.handled).toBe(false)
+      expect(result.context).toBe(
+        '## Unresolved blockers\n\n' +
+          '### blockers.md (1 unresolved)\n\n' +
+          '#### `B-0001` [p3] question\n**Question:** Which logger?\n**Context:** No additional context\n' +
+          '**Options Considered:**\n1. pino\n2. winston\n\n' +
+          '### SECURITY-REVIEW.md (1 unresolved)\n\n' +
+          '#### `B-0002` [p1] security\n**Question:** Rotate the API keys?\n**Context:** Keys leaked in CI\n\n' +
+          '### packages/api/blockers.md (1 unresolved)\n\n' +
+          '#### `B-0004` [p2] architecture\n**Question:** REST or gRPC?\n**Context:** No additional context'
+      )
+    })
+
+    it('should say so when nothing is left to clarify', async () => {
+      const result = await handleClarifyCommand(mockClient, config, projectDir)
+
+      expect(result).toEqual({
+        handled: false,
+        context: '## Unresolved blockers\n\nNone: every blocker in the store and the logs has been answered.',
+      })
+    })
+  })
+
   describe('error handling', () => {
     it('should handle missing client gracefully in handleOnCommand', async () => {
       const state = getState(testSessionId)
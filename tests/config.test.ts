@@ -24,6 +24,37 @@ describe('ConfigSchema', () => {
       enabled: true,
       defaultDivertBlockers: false,
       blockersFile: './logs/blockers.md',
+      storeFile: './logs/blockers.jsonl',
+      journalFile: './logs/pending.jsonl',
+      archiveDir: './logs/archive',
+      maxArchives: 5,
+      rotateMaxEntries: 100,
+      rotateMaxBytes: 65536,
+      rotateOnRunStart: true,
+      layout: 'checklist',
+      priorityIndex: false,
+      gitSnapshot: false,
+      diffExcerpt: true,
+      diffMaxBytes: 2048,
+      categories: {
+        architecture: { max: 5, enabled: true },
+        permission: { max: null, enabled: true },
+        question: { cooldownMs: 600000, enabled: false, blocksProgress: false },
+        compliance: { description: 'Licensing questions', priority: 'p1', enabled: true },
+      },
+      routes: [
+        { categories: ['security', 'destructive'], file: 'SECURITY-REVIEW.md' },
+        { blocksProgress: false, file: 'DECISIONS.md' },
+      ],
+      packageLogs: true,
+      packageRoots: ['packages/*', 'apps/*'],
+      nearDuplicates: 'merge',
+      similarityThreshold: 0.8,
+      sinks: [
+        { type: 'jsonl' },
+        { type: 'markdown', path: './logs/blockers.md' },
+        { type: 'webhook', name: 'chat', url: 'https://hooks.example.com/blockers', headers: { Authorization: 'Bearer x' }, timeoutMs: 2000 },
+      ],
       maxBlockersPerRun: 25,
       cooldownMs: 60000,
       maxReprompts: 3,
@@ -62,6 +93,25 @@ describe('ConfigSchema', () => {
       enabled: true,
       defaultDivertBlockers: false, // Changed default
       blockersFile: './BLOCKERS.md', // Changed default
+      storeFile: './.opencode/blockers.jsonl',
+      journalFile: './.opencode/blocker-diverter/pending.jsonl',
+      archiveDir: './.opencode/blockers-archive',
+      maxArchives: 10,
+      rotateMaxEntries: 200,
+      rotateMaxBytes: 1048576,
+      rotateOnRunStart: false,
+      layout: 'entries',
+      priorityIndex: true,
+      gitSnapshot: true,
+      diffExcerpt: false,
+      diffMaxBytes: 4096,
+      categories: {},
+      routes: [],
+      packageLogs: false,
+      packageRoots: [],
+    nearDuplicates: 'link',
+      similarityThreshold: 0.55,
+      sinks: [{ type: 'jsonl' }, { type: 'markdown' }],
       maxBlockersPerRun: 50,
       cooldownMs: 5000, // Changed default (from 30s to 5s)
       maxReprompts: 5,
@@ -116,6 +166,23 @@ describe('ConfigSchema', () => {
     expect(result.success).toBe(false)
   })
 
+  it('should reject similarityThreshold outside 0-1', () => {
+    expect(ConfigSchema.safeParse({ similarityThreshold: 1.5 }).success).toBe(false)
+    expect(ConfigSchema.safeParse({ similarityThreshold: -0.1 }).success).toBe(false)
+    // 0 would treat every pair of questions as near-duplicates
+    expect(ConfigSchema.safeParse({ similarityThreshold: 0 }).success).toBe(false)
+  })
+
+  it('should reject category names agents could not pass as an identifier', () => {
+    expect(ConfigSchema.safeParse({ categories: { 'Data Protection': {} } }).success).toBe(false)
+    expect(ConfigSchema.safeParse({ categories: { compliance: { priority: 'urgent' } } }).success).toBe(false)
+  })
+
+  it('should reject routes without a condition', () => {
+    expect(ConfigSchema.safeParse({ routes: [{ file: 'DECISIONS.md' }] }).success).toBe(false)
+    expect(ConfigSchema.safeParse({ routes: [{ file: 'DECISIONS.md', priorities: ['p9'] }] }).success).toBe(false)
+  })
+
   it('should reject non-integer maxBlockersPerRun', () => {
     const invalidConfig = {
       maxBlockersPerRun: 25.5,
@@ -218,6 +285,25 @@ describe('loadConfig', () => {
       enabled: true,
       defaultDivertBlockers: false, // Changed default
       blockersFile: resolve(mockProjectDir, './BLOCKERS.md'), // Changed default
+      storeFile: resolve(mockProjectDir, './.opencode/blockers.jsonl'),
+      journalFile: resolve(mockProjectDir, './.opencode/blocker-diverter/pending.jsonl'),
+      archiveDir: resolve(mockProjectDir, './.opencode/blockers-archive'),
+      maxArchives: 10,
+      rotateMaxEntries: 200,
+      rotateMaxBytes: 1048576,
+      rotateOnRunStart: false,
+      layout: 'entries',
+      priorityIndex: true,
+      gitSnapshot: true,
+      diffExcerpt: false,
+      diffMaxBytes: 4096,
+      categories: {},
+      routes: [],
+      packageLogs: false,
+      packageRoots: [],
+    nearDuplicates: 'link',
+      similarityThreshold: 0.55,
+      sinks: [{ type: 'jsonl' }, { type: 'markdown' }],
       maxBlockersPerRun: 50,
       cooldownMs: 5000, // Changed default (from 30s to 5s)
       maxReprompts: 5,
@@ -307,6 +393,66 @@ describe('loadConfig', () => {
     globalThis.Bun.file = originalBunFile
   })
 
+  it('should resolve storeFile and journalFile and reject traversal to their own defaults', async () => {
+    const originalBunFile = globalThis.Bun.file
+    
+    globalThis.Bun.file = ((path: string) => {
+      if (path === projectConfigPath) {
+        return {
+          exists: () => Promise.resolve(true),
+          text: () => Promise.resolve(JSON.stringify({
+            storeFile: '../../outside.jsonl',
+            journalFile: '../../pending.jsonl',
+          })),
+        }
+      }
+      return {
+        exists: () => Promise.resolve(false),
+        text: () => Promise.reject(new Error('ENOENT')),
+      }
+    }) as any
+
+    const config = await loadConfig(mockProjectDir)
+
+    expect(config.storeFile).toBe(resolve(mockProjectDir, './.opencode/blockers.jsonl'))
+    expect(config.journalFile).toBe(resolve(mockProjectDir, './.opencode/blocker-diverter/pending.jsonl'))
+    expect(config.blockersFile).toBe(resolve(mockProjectDir, './BLOCKERS.md'))
+
+    globalThis.Bun.file = originalBunFile
+  })
+
+  it('should resolve route files and send routes escaping the project to blockersFile', async () => {
+    const originalBunFile = globalThis.Bun.file
+    
+    globalThis.Bun.file = ((path: string) => {
+      if (path === projectConfigPath) {
+        return {
+          exists: () => Promise.resolve(true),
+          text: () => Promise.resolve(JSON.stringify({
+            blockersFile: './docs/BLOCKERS.md',
+            routes: [
+              { categories: ['security'], file: './SECURITY-REVIEW.md' },
+              { blocksProgress: false, file: '../../DECISIONS.md' },
+            ],
+          })),
+        }
+      }
+      return {
+        exists: () => Promise.resolve(false),
+        text: () => Promise.reject(new Error('ENOENT')),
+      }
+    }) as any
+
+    const config = await loadConfig(mockProjectDir)
+
+    expect(config.routes).toEqual([
+      { categories: ['security'], file: resolve(mockProjectDir, './SECURITY-REVIEW.md') },
+      { blocksProgress: false, file: resolve(mockProjectDir, './docs/BLOCKERS.md') },
+    ])
+
+    globalThis.Bun.file = originalBunFile
+  })
+
   it('should log info when config loaded successfully', async () => {
     const originalBunFile = globalThis.Bun.file
     
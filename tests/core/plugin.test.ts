@@ -8,6 +8,7 @@ import { describe, it, expect, mock, beforeEach } from 'bun:test'
 import { mkdirSync, existsSync, rmSync, statSync } from 'fs'
 import type { Plugin } from '@opencode-ai/plugin'
 import { createPlugin } from '../../src/core/plugin'
+import { getState, cleanupState, configureStatePersistence, STATE_DIR } from '../../src/state'
 
 describe('createPlugin', () => {
   // Mock context object matching OpenCode SDK structure
@@ -342,6 +343,22 @@ describe('createPlugin', () => {
       expect(output.parts).toHaveLength(0)
     })
     
+    it('should pass the unresolved blockers to the /blockers.clarify template', async () => {
+      const mockContext = createMockContext()
+      const hooks = await createPlugin(mockContext)
+      const output = { parts: [] as any[] }
+
+      await hooks['command.execute.before']!({
+        command: '/blockers.clarify',
+        arguments: '',
+        sessionID: 'test-session'
+      } as any, output)
+
+      // Not intercepted: the template gets the list appended to its prompt
+      expect(output.parts).toHaveLength(1)
+      expect(output.parts[0].text).toStartWith('## Unresolved blockers\n\n')
+    })
+    
     it('should ignore non-blockers commands', async () => {
       const mockContext = createMockContext()
       const logSpy = mockContext.client.app.log
@@ -399,4 +416,34 @@ describe('createPlugin', () => {
       expect(output.parts).toHaveLength(0)
     })
   })
+
+  it('should keep autonomous mode of a session across a restart', async () => {
+    const projectDir = '/tmp/test-project-restart'
+    const sessionId = 'restart-session'
+    const mockContext = createMockContext()
+    mockContext.worktree = projectDir
+    mockContext.project.worktree = projectDir
+    mockContext.directory = projectDir
+
+    try {
+      mkdirSync(projectDir, { recursive: true })
+      const hooks = await createPlugin(mockContext)
+      await (hooks as any)['command.execute.before'](
+        { command: '/blockers.on', arguments: '', sessionID: sessionId },
+        { parts: [] }
+      )
+      expect(existsSync(`${projectDir}/${STATE_DIR}/${Buffer.from(sessionId).toString('base64url')}.json`)).toBe(true)
+
+      // Restart: the in-memory state is gone, the snapshot is not
+      configureStatePersistence(null)
+      cleanupState(sessionId)
+      await createPlugin(mockContext)
+
+      expect(getState(sessionId).divertBlockers).toBe(true)
+    } finally {
+      cleanupState(sessionId)
+      configureStatePersistence(null)
+      rmSync(projectDir, { recursive: true, force: true })
+    }
+  })
 })
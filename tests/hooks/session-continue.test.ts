@@ -2,6 +2,8 @@ import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test'
 import type { Plugin } from '../../src/types'
 import { getState, cleanupState } from '../../src/state'
 import { createSessionHooks } from '../../src/hooks/session'
+import { mkdir, rm } from 'node:fs/promises'
+import { join } from 'node:path'
 
 describe('Session Idle - Continue Prompt Injection', () => {
   let mockContext: Parameters<Plugin>[0]
@@ -373,6 +375,37 @@ describe('Session Idle - Continue Prompt Injection', () => {
     const updatedState = getState(testSessionId)
     expect(updatedState.repromptCount).toBe(1) // Reset to 0, then incremented to 1
   })
+
+  it('should flush queued and journaled blocker writes on idle', async () => {
+    const projectDir = '/tmp/blocker-diverter-idle-flush-test'
+    const journalPath = join(projectDir, '.opencode/blocker-diverter/pending.jsonl')
+    const queued = {
+      id: 'queued-blocker',
+      timestamp: new Date().toISOString(),
+      sessionId: testSessionId,
+      category: 'permission' as const,
+      question: 'Queued question?',
+      context: 'Context',
+      blocksProgress: true
+    }
+    await mkdir(join(projectDir, '.opencode/blocker-diverter'), { recursive: true })
+    await Bun.write(journalPath, JSON.stringify({ ...queued, id: 'journaled-blocker', question: 'Journaled question?' }) + '\n')
+    const hooks = createSessionHooks({ ...mockContext, directory: projectDir, worktree: projectDir, project: { ...mockContext.project, worktree: projectDir } } as any)
+    const state = getState(testSessionId)
+    state.pendingWrites.push(queued)
+
+    try {
+      await hooks.event({ event: { type: 'session.idle', properties: { sessionID: testSessionId } } })
+
+      expect(state.pendingWrites).toHaveLength(0)
+      expect(await Bun.file(journalPath).exists()).toBe(false)
+      const log = await Bun.file(join(projectDir, 'BLOCKERS.md')).text()
+      expect(log).toContain('Queued question?')
+      expect(log).toContain('Journaled question?')
+    } finally {
+      await rm(projectDir, { recursive: true, force: true })
+    }
+  })
 })
 
 describe('Session Idle - Completion Marker Detection', () => {
@@ -1123,3 +1156,72 @@ describe('Chat Message - Assistant Message Capture', () => {
     expect(state.lastMessageContent).toBe('Second message')
   })
 })
+
+describe('Session Idle - Run footer', () => {
+  let mockContext: Parameters<Plugin>[0]
+  const testSessionId = 'test-session-run-footer'
+  const projectDir = '/tmp/blocker-diverter-run-footer-test'
+
+  beforeEach(async () => {
+    cleanupState(testSessionId)
+    await mkdir(projectDir, { recursive: true })
+
+    mockContext = {
+      client: {
+        app: { log: mock(() => Promise.resolve()) },
+        session: { promptAsync: mock(() => Promise.resolve()) }
+      },
+      project: { id: 'test-project', worktree: projectDir, name: 'test' },
+      $: mock(() => ({})) as any,
+      directory: projectDir,
+      worktree: projectDir
+    } as any
+  })
+
+  afterEach(async () => {
+    cleanupState(testSessionId)
+    await rm(projectDir, { recursive: true, force: true })
+  })
+
+  it('writes a completed footer when the completion marker ends the run', async () => {
+    const hooks = createSessionHooks(mockContext)
+    const state = getState(testSessionId)
+    state.divertBlockers = true
+    state.completionMarkerDetected = true
+    state.run = { startedAt: new Date().toISOString(), sessionId: testSessionId, blockersAtStart: 0 }
+
+    await hooks.event({ event: { type: 'session.idle', properties: { sessionID: testSessionId } } })
+
+    expect(getState(testSessionId).run).toBeNull()
+    const content = await Bun.file(join(projectDir, 'BLOCKERS.md')).text()
+    expect(content).toContain('**Outcome:** completed')
+  })
+
+  it('writes a max-reprompts footer once the reprompt limit is reached', async () => {
+    const hooks = createSessionHooks(mockContext)
+    const state = getState(testSessionId)
+    state.divertBlockers = true
+    state.repromptCount = 5
+    state.lastRepromptTime = Date.now()
+    state.run = { startedAt: new Date().toISOString(), sessionId: testSessionId, blockersAtStart: 0 }
+
+    await hooks.event({ event: { type: 'session.idle', properties: { sessionID: testSessionId } } })
+    await hooks.event({ event: { type: 'session.idle', properties: { sessionID: testSessionId } } })
+
+    const content = await Bun.file(join(projectDir, 'BLOCKERS.md')).text()
+    expect(content.match(/\*\*Outcome:\*\* max-reprompts/g)).toHaveLength(1)
+  })
+
+  it('writes a stopped footer when the user interrupts the run', async () => {
+    const hooks = createSessionHooks(mockContext)
+    const state = getState(testSessionId)
+    state.divertBlockers = true
+    state.lastAssistantAborted = true
+    state.run = { startedAt: new Date().toISOString(), sessionId: testSessionId, blockersAtStart: 0 }
+
+    await hooks.event({ event: { type: 'session.idle', properties: { sessionID: testSessionId } } })
+
+    const content = await Bun.file(join(projectDir, 'BLOCKERS.md')).text()
+    expect(content).toContain('**Outcome:** stopped')
+  })
+})
@@ -580,5 +580,23 @@ describe('Session Event Handlers', () => {
       const state = getState(testSessionId)
       expect(state.lastMessageContent).toContain('BLOCKER_DIVERTER_DONE!')
     })
+
+    it('should track the active agent and model for blocker provenance', async () => {
+      const hooks = createSessionHooks(mockContext)
+
+      await hooks['chat.message'](
+        { sessionID: testSessionId, agent: 'build', model: { providerID: 'anthropic', modelID: 'model-a' }, messageID: 'msg_1' },
+        { message: { role: 'user' }, parts: [{ type: 'text', text: 'Go' }] }
+      )
+      // Messages without agent/model keep the last known ones
+      await hooks['chat.message'](
+        { sessionID: testSessionId },
+        { message: { role: 'user' }, parts: [{ type: 'text', text: 'Again' }] }
+      )
+
+      const state = getState(testSessionId)
+      expect(state.activeAgent).toBe('build')
+      expect(state.activeModel).toBe('anthropic/model-a')
+    })
   })
 })
@@ -222,6 +222,38 @@ describe("System Prompt Hook", () => {
     })
   })
 
+  describe("Categories", () => {
+    it("should list the configured categories in the prompt and tool definition", async () => {
+      const hooks = createSystemPromptHook(mockContext, {
+        ...mockConfig,
+        categories: {
+          compliance: { description: "Licensing questions", priority: "p1" },
+          question: { blocksProgress: false },
+          deployment: { enabled: false },
+        },
+      })
+      const state = getState(testSessionId)
+      state.divertBlockers = true
+      
+      const output = { system: [] as string[] }
+      
+      await hooks["experimental.chat.system.transform"](
+        { sessionID: testSessionId, model: { id: "gpt-4" } },
+        output
+      )
+      
+      const [prompt, toolDefinition] = output.system
+      expect(prompt).toContain("**HARD BLOCKERS** (permission, architecture, security, destructive, compliance)")
+      expect(prompt).toContain("- compliance (hard, p1): Licensing questions")
+      expect(prompt).toContain("- question (soft, p3):")
+      expect(prompt).toContain("- other (hard or soft, p3):")
+      expect(prompt).not.toContain("deployment (")
+      expect(toolDefinition).toContain('"compliance"')
+      expect(toolDefinition).toContain('"permission"')
+      expect(toolDefinition).not.toContain('"deployment"')
+    })
+  })
+
   describe("Dynamic Content", () => {
     it("should include current blockers section when blockers exist", async () => {
       const hooks = createSystemPromptHook(mockContext, mockConfig)
@@ -9,8 +9,12 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
 import { handleToolExecuteBefore } from '../../src/hooks/tool-intercept'
 import * as blockersFile from '../../src/utils/blockers-file'
+import { archiveBlockers } from '../../src/utils/blockers-store'
 import { getState, cleanupState } from '../../src/state'
 import type { LogClient } from '../../src/config'
 import type { PluginConfig } from '../../src/types'
@@ -213,6 +217,26 @@ describe('handleToolExecuteBefore', () => {
       expect(appendBlockerSpy.mock.calls.length).toBe(initialCallCount)
     })
     
+    it('should block but not log the question tool when its category is disabled', async () => {
+      const state = getState(TEST_SESSION_ID)
+      state.divertBlockers = true
+      const initialCallCount = appendBlockerSpy.mock.calls.length
+
+      const input = {
+        tool: 'question',
+        sessionID: TEST_SESSION_ID,
+        callID: 'call-question-disabled'
+      }
+      const config = { ...mockConfig, categories: { question: { enabled: false } } }
+
+      await expect(
+        handleToolExecuteBefore(input, { args: {} }, mockClient, config, TEST_PROJECT_DIR)
+      ).rejects.toThrow()
+
+      expect(appendBlockerSpy.mock.calls.length).toBe(initialCallCount)
+      expect(state.blockers).toHaveLength(0)
+    })
+    
     it('should queue failed writes to pendingWrites (FR-024)', async () => {
       const state = getState(TEST_SESSION_ID)
       state.divertBlockers = true
@@ -238,6 +262,51 @@ describe('handleToolExecuteBefore', () => {
     })
   })
   
+  describe('Recurring question tool calls', () => {
+    let worktree: string
+    let projectConfig: PluginConfig
+
+    beforeEach(async () => {
+      // These write real logs
+      appendBlockerSpy.mockRestore()
+      worktree = await mkdtemp(join(tmpdir(), 'blocker-diverter-intercept-'))
+      projectConfig = { ...mockConfig, blockersFile: 'BLOCKERS.md', storeFile: 'blockers.jsonl', archiveDir: 'archive' }
+      getState(TEST_SESSION_ID).divertBlockers = true
+    })
+
+    afterEach(async () => {
+      await rm(worktree, { recursive: true, force: true })
+    })
+
+    const intercept = (callID: string) =>
+      handleToolExecuteBefore({ tool: 'question', sessionID: TEST_SESSION_ID, callID }, { args: {} }, mockClient, projectConfig, worktree)
+
+    it('should count a repeated intercept on the unresolved blocker instead of logging it again', async () => {
+      await expect(intercept('call-1')).rejects.toThrow(/Autonomous mode is active/)
+      // Cooldown is per session; an earlier run's blocker is only on disk
+      cleanupState(TEST_SESSION_ID)
+      getState(TEST_SESSION_ID).divertBlockers = true
+      await expect(intercept('call-2')).rejects.toThrow(/Autonomous mode is active/)
+
+      const logged = await blockersFile.readBlockers(projectConfig.blockersFile, worktree)
+      expect(logged).toHaveLength(1)
+      expect(logged[0].occurrences).toBe(2)
+      expect(getState(TEST_SESSION_ID).blockers).toHaveLength(0)
+    })
+
+    it('should carry the count of an intercept still unanswered in the latest archive', async () => {
+      await expect(intercept('call-1')).rejects.toThrow(/Autonomous mode is active/)
+      await archiveBlockers(projectConfig, worktree)
+      cleanupState(TEST_SESSION_ID)
+      getState(TEST_SESSION_ID).divertBlockers = true
+      await expect(intercept('call-2')).rejects.toThrow(/Autonomous mode is active/)
+
+      const logged = await blockersFile.readBlockers(projectConfig.blockersFile, worktree)
+      expect(logged).toHaveLength(1)
+      expect(logged[0].occurrences).toBe(2)
+    })
+  })
+
   describe('Error handling', () => {
     it('should handle unexpected errors gracefully', async () => {
       const state = getState(TEST_SESSION_ID)
@@ -0,0 +1,371 @@
+/**
+ * Tests for sinks - Fan-out of blockers to configured destinations
+ *
+ * Uses real temp files for the markdown/JSONL sinks and a local Bun server
+ * for the webhook sink.
+ * Covers: sink naming, fan-out, failure isolation, per-sink retry queue,
+ * pending write journal, claims of parallel flushes.
+ *
+ * @module tests/sinks
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { resolve, join } from 'node:path'
+import { rm, mkdir, readFile } from 'node:fs/promises'
+import { hostname } from 'node:os'
+import {
+  createSinks,
+  writeToSinks,
+  flushPendingWrites,
+  queuePendingWrite,
+  replayPendingJournal,
+  type BlockerSink,
+} from '../../src/sinks'
+import { readStore } from '../../src/utils/blockers-store'
+import { readJournal, journalPendingWrite, updateJournal } from '../../src/utils/pending-journal'
+import { clearTemplateCache } from '../../src/utils/blockers-file'
+import { getState, cleanupState } from '../../src/state'
+import type { Blocker, PendingWrite, PluginConfig } from '../../src/types'
+
+describe('sinks', () => {
+  const tempDir = resolve('/tmp/blocker-diverter-sinks-test')
+  const sessionId = 'test-session-sinks'
+
+  const config = {
+    enabled: true,
+    defaultDivertBlockers: false,
+    blockersFile: 'BLOCKERS.md',
+    storeFile: '.opencode/blockers.jsonl',
+    maxBlockersPerRun: 50,
+    cooldownMs: 5000,
+    maxReprompts: 5,
+    repromptWindowMs: 300000,
+    completionMarker: 'BLOCKER_DIVERTER_DONE!',
+    promptTimeoutMs: 30000,
+  } satisfies PluginConfig
+
+  const sampleBlocker: Blocker = {
+    id: '1771161981594-session-123-abc123',
+    timestamp: '2026-02-13T10:00:00Z',
+    sessionId,
+    category: 'security',
+    question: 'Rotate the leaked API key?',
+    context: 'Found key in .env.example',
+    blocksProgress: true,
+  }
+
+  /** Sink that fails until `failures` reaches zero */
+  function flakySink(name: string, failures: number, written: string[] = []): BlockerSink {
+    return {
+      name,
+      async write(blocker) {
+        if (failures > 0) {
+          failures--
+          return false
+        }
+        written.push(blocker.id)
+        return true
+      },
+    }
+  }
+
+  beforeEach(async () => {
+    await mkdir(tempDir, { recursive: true })
+    clearTemplateCache()
+    cleanupState(sessionId)
+  })
+
+  afterEach(async () => {
+    cleanupState(sessionId)
+    try {
+      await rm(tempDir, { recursive: true, force: true })
+    } catch {
+      // Ignore cleanup errors
+    }
+  })
+
+  describe('createSinks', () => {
+    it('should default to the JSONL store then the markdown log', () => {
+      expect(createSinks(config).map(s => s.name)).toEqual(['jsonl', 'markdown'])
+    })
+
+    it('should name sinks by name or type and suffix repeats', () => {
+      const sinks = createSinks({
+        ...config,
+        sinks: [
+          { type: 'webhook', url: 'http://localhost:1/a' },
+          { type: 'webhook', url: 'http://localhost:1/b' },
+          { type: 'webhook', name: 'chat', url: 'http://localhost:1/c' },
+        ],
+      })
+
+      expect(sinks.map(s => s.name)).toEqual(['webhook', 'webhook-2', 'chat'])
+    })
+  })
+
+  describe('writeToSinks', () => {
+    it('should write the blocker to the store and the markdown log', async () => {
+      const failed = await writeToSinks(createSinks(config), sampleBlocker, config, tempDir)
+
+      expect(failed).toEqual([])
+      expect((await readStore(config.storeFile, tempDir)).map(b => b.id)).toEqual([sampleBlocker.id])
+      expect(await readFile(join(tempDir, 'BLOCKERS.md'), 'utf-8')).toContain(sampleBlocker.question)
+    })
+
+    it('should write a markdown sink to its own path', async () => {
+      const sinks = createSinks({ ...config, sinks: [{ type: 'markdown', path: 'reviews/security.md' }] })
+
+      await writeToSinks(sinks, sampleBlocker, config, tempDir)
+
+      expect(await readFile(join(tempDir, 'reviews/security.md'), 'utf-8')).toContain(sampleBlocker.question)
+      expect(await Bun.file(join(tempDir, 'BLOCKERS.md')).exists()).toBe(false)
+    })
+
+    it('should write the markdown log the blocker is routed to', async () => {
+      const routed = { ...config, routes: [{ categories: ['security'], file: 'SECURITY-REVIEW.md' }] }
+
+      await writeToSinks(createSinks(routed), sampleBlocker, routed, tempDir)
+
+      expect(await readFile(join(tempDir, 'SECURITY-REVIEW.md'), 'utf-8')).toContain(sampleBlocker.question)
+      expect(await Bun.file(join(tempDir, 'BLOCKERS.md')).exists()).toBe(false)
+    })
+
+    it('should keep writing other sinks when one fails', async () => {
+      const written: string[] = []
+      const sinks = [flakySink('broken', 1), flakySink('ok', 0, written)]
+
+      const failed = await writeToSinks(sinks, sampleBlocker, config, tempDir)
+
+      expect(failed).toEqual(['broken'])
+      expect(written).toEqual([sampleBlocker.id])
+    })
+
+    it('should count a throwing sink as failed', async () => {
+      const sinks: BlockerSink[] = [{ name: 'throws', write: async () => { throw new Error('boom') } }]
+
+      expect(await writeToSinks(sinks, sampleBlocker, config, tempDir)).toEqual(['throws'])
+    })
+
+    it('should re-throw directory traversal errors', async () => {
+      const sinks = createSinks({ ...config, sinks: [{ type: 'markdown', path: '../../etc/blockers.md' }] })
+
+      await expect(writeToSinks(sinks, sampleBlocker, config, tempDir)).rejects.toThrow('directory traversal')
+    })
+  })
+
+  describe('webhook sink', () => {
+    it('should POST the blocker as JSON and fail on non-2xx responses', async () => {
+      const received: unknown[] = []
+      let status = 200
+      const server = Bun.serve({
+        port: 0,
+        async fetch(request) {
+          received.push({ auth: request.headers.get('authorization'), body: await request.json() })
+          return new Response(null, { status })
+        },
+      })
+
+      try {
+        const sinks = createSinks({
+          ...config,
+          sinks: [{ type: 'webhook', url: `http://localhost:${server.port}/hook`, headers: { Authorization: 'Bearer t' } }],
+        })
+
+        expect(await writeToSinks(sinks, sampleBlocker, config, tempDir)).toEqual([])
+        status = 503
+        expect(await writeToSinks(sinks, sampleBlocker, config, tempDir)).toEqual(['webhook'])
+
+        expect(received[0]).toEqual({ auth: 'Bearer t', body: { type: 'blocker', blocker: sampleBlocker } })
+      } finally {
+        server.stop(true)
+      }
+    })
+
+    it('should fail when the endpoint is unreachable', async () => {
+      const sinks = createSinks({ ...config, sinks: [{ type: 'webhook', url: 'http://127.0.0.1:9/hook', timeoutMs: 500 }] })
+
+      expect(await writeToSinks(sinks, sampleBlocker, config, tempDir)).toEqual(['webhook'])
+    })
+  })
+
+  describe('flushPendingWrites', () => {
+    it('should retry only the sinks a queued blocker has not reached', async () => {
+      const storeWrites: string[] = []
+      const webhookWrites: string[] = []
+      const sinks = [flakySink('jsonl', 0, storeWrites), flakySink('webhook', 0, webhookWrites)]
+      const state = getState(sessionId)
+      state.pendingWrites.push({ ...sampleBlocker, sinks: ['webhook'] })
+
+      const flushed = await flushPendingWrites(state, sessionId, sinks, config, tempDir)
+
+      expect(flushed).toBe(1)
+      expect(storeWrites).toEqual([])
+      expect(webhookWrites).toEqual([sampleBlocker.id])
+      expect(state.pendingWrites).toHaveLength(0)
+    })
+
+    it('should write queued blockers without a sink list to every sink', async () => {
+      const a: string[] = []
+      const b: string[] = []
+      const state = getState(sessionId)
+      state.pendingWrites.push(sampleBlocker)
+
+      await flushPendingWrites(state, sessionId, [flakySink('a', 0, a), flakySink('b', 0, b)], config, tempDir)
+
+      expect(a).toEqual([sampleBlocker.id])
+      expect(b).toEqual([sampleBlocker.id])
+    })
+
+    it('should keep still-failing sinks queued', async () => {
+      const state = getState(sessionId)
+      state.pendingWrites.push(sampleBlocker)
+
+      const flushed = await flushPendingWrites(state, sessionId, [flakySink('a', 0), flakySink('b', 5)], config, tempDir)
+
+      expect(flushed).toBe(0)
+      expect(state.pendingWrites).toEqual([{ ...sampleBlocker, sinks: ['b'] }])
+    })
+  })
+
+  describe('pending write journal', () => {
+    const journalConfig = { ...config, journalFile: '.opencode/blocker-diverter/pending.jsonl' }
+
+    /** Journals a write the way a process that has since exited did */
+    async function journalFromExitedProcess(pending: PendingWrite): Promise<void> {
+      const exited = Bun.spawnSync(['true']).pid
+      await updateJournal(journalConfig.journalFile, tempDir, entries => [
+        ...entries,
+        { ...pending, owner: { pid: exited, hostname: hostname() } },
+      ])
+    }
+
+    it('should journal queued writes alongside the session queue', async () => {
+      const state = getState(sessionId)
+
+      await queuePendingWrite(state, sampleBlocker, ['markdown'], journalConfig, tempDir)
+
+      expect(state.pendingWrites).toEqual([{ ...sampleBlocker, sinks: ['markdown'] }])
+      expect(await readJournal(journalConfig.journalFile, tempDir)).toEqual([{ ...sampleBlocker, sinks: ['markdown'] }])
+    })
+
+    it('should remove flushed writes from the journal', async () => {
+      const state = getState(sessionId)
+      await queuePendingWrite(state, sampleBlocker, ['a'], journalConfig, tempDir)
+
+      await flushPendingWrites(state, sessionId, [flakySink('a', 0)], journalConfig, tempDir)
+
+      expect(state.pendingWrites).toHaveLength(0)
+      expect(await readJournal(journalConfig.journalFile, tempDir)).toEqual([])
+    })
+
+    it('should replay writes journaled before a restart', async () => {
+      const written: string[] = []
+      await journalFromExitedProcess({ ...sampleBlocker, sinks: ['a'] })
+
+      const flushed = await replayPendingJournal([flakySink('a', 0, written)], journalConfig, tempDir)
+
+      expect(flushed).toBe(1)
+      expect(written).toEqual([sampleBlocker.id])
+      expect(await readJournal(journalConfig.journalFile, tempDir)).toEqual([])
+    })
+
+    it('should retry orphaned writes of other sessions without adopting them', async () => {
+      const written: string[] = []
+      const state = getState(sessionId)
+      const orphan = { ...sampleBlocker, id: 'other', sessionId: 'ended-session', sinks: ['a'] }
+      await journalFromExitedProcess(orphan)
+
+      const flushed = await flushPendingWrites(state, sessionId, [flakySink('a', 1, written)], journalConfig, tempDir)
+
+      expect(flushed).toBe(0)
+      expect(state.pendingWrites).toEqual([])
+      expect(await readJournal(journalConfig.journalFile, tempDir)).toEqual([orphan])
+    })
+
+    it('should leave the writes of other live sessions to them', async () => {
+      const written: string[] = []
+      const live = 'test-session-sinks-live'
+      getState(live)
+      try {
+        await journalPendingWrite(journalConfig.journalFile, { ...sampleBlocker, id: 'live', sessionId: live }, tempDir)
+
+        expect(await flushPendingWrites(getState(sessionId), sessionId, [flakySink('a', 0, written)], journalConfig, tempDir)).toBe(0)
+        expect(await replayPendingJournal([flakySink('a', 0, written)], journalConfig, tempDir)).toBe(0)
+
+        expect(written).toEqual([])
+        expect((await readJournal(journalConfig.journalFile, tempDir)).map(p => p.id)).toEqual(['live'])
+      } finally {
+        cleanupState(live)
+      }
+    })
+
+    it('should adopt the writes of sessions that are gone', async () => {
+      const written: string[] = []
+      await journalPendingWrite(journalConfig.journalFile, { ...sampleBlocker, id: 'deleted', sessionId: 'deleted-session' }, tempDir)
+
+      expect(await flushPendingWrites(getState(sessionId), sessionId, [flakySink('a', 0, written)], journalConfig, tempDir)).toBe(1)
+
+      expect(written).toEqual(['deleted'])
+    })
+
+    it('should write each journaled blocker once when flushes run in parallel', async () => {
+      const written: string[] = []
+      const slowSink: BlockerSink = {
+        name: 'a',
+        async write(blocker) {
+          await Bun.sleep(20)
+          written.push(blocker.id)
+          return true
+        },
+      }
+      await journalFromExitedProcess({ ...sampleBlocker, id: 'orphan-1' })
+      await journalFromExitedProcess({ ...sampleBlocker, id: 'orphan-2' })
+      const other = 'test-session-sinks-other'
+
+      try {
+        await Promise.all([
+          replayPendingJournal([slowSink], journalConfig, tempDir),
+          flushPendingWrites(getState(sessionId), sessionId, [slowSink], journalConfig, tempDir),
+          flushPendingWrites(getState(other), other, [slowSink], journalConfig, tempDir),
+        ])
+      } finally {
+        cleanupState(other)
+      }
+
+      expect(written.sort()).toEqual(['orphan-1', 'orphan-2'])
+      expect(await readJournal(journalConfig.journalFile, tempDir)).toEqual([])
+    })
+
+    it('should skip writes another live process is retrying', async () => {
+      const written: string[] = []
+      await journalFromExitedProcess(sampleBlocker)
+      await updateJournal(journalConfig.journalFile, tempDir, entries => entries.map(entry => ({
+        ...entry,
+        claim: { pid: process.ppid, hostname: hostname(), token: 'other-flush', at: Date.now() },
+      })))
+
+      expect(await replayPendingJournal([flakySink('a', 0, written)], journalConfig, tempDir)).toBe(0)
+
+      expect(written).toEqual([])
+      expect(await readJournal(journalConfig.journalFile, tempDir)).toHaveLength(1)
+    })
+
+    it('should journal writes that are still failing', async () => {
+      const state = getState(sessionId)
+      state.pendingWrites.push(sampleBlocker)
+
+      await flushPendingWrites(state, sessionId, [flakySink('a', 0), flakySink('b', 5)], journalConfig, tempDir)
+
+      expect(await readJournal(journalConfig.journalFile, tempDir)).toEqual([{ ...sampleBlocker, sinks: ['b'] }])
+    })
+
+    it('should replay real sinks end to end', async () => {
+      await journalFromExitedProcess(sampleBlocker)
+
+      await replayPendingJournal(createSinks(journalConfig), journalConfig, tempDir)
+
+      expect(await readFile(join(tempDir, 'BLOCKERS.md'), 'utf-8')).toContain(sampleBlocker.question)
+      expect((await readStore(config.storeFile, tempDir)).map(b => b.id)).toEqual([sampleBlocker.id])
+    })
+  })
+})
@@ -1,5 +1,17 @@
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
-import { getState, updateState, cleanupState } from '../src/state'
+import { mkdtempSync, readFileSync, writeFileSync, existsSync, rmSync, mkdirSync, readdirSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  getState,
+  updateState,
+  cleanupState,
+  persistState,
+  configureStatePersistence,
+  flushStateSnapshots,
+  STATE_DIR,
+  SNAPSHOT_DELAY_MS,
+} from '../src/state'
 
 describe('state.ts - Session State Management', () => {
   const sessionId1 = 'test-session-1'
@@ -298,4 +310,187 @@ describe('state.ts - Session State Management', () => {
       expect(state3.repromptCount).toBe(3)
     })
   })
+
+  describe('Persistence', () => {
+    let projectDir: string
+    const fileName = (id: string) => `${Buffer.from(id).toString('base64url')}.json`
+    const snapshot = (id: string) => join(projectDir, STATE_DIR, fileName(id))
+
+    // What a restarted process sees: an empty map, same project
+    const restart = (sessionIds = [sessionId1, sessionId2]) => {
+      flushStateSnapshots()
+      configureStatePersistence(null)
+      for (const sessionId of sessionIds) cleanupState(sessionId)
+      configureStatePersistence(projectDir)
+    }
+
+    beforeEach(() => {
+      projectDir = mkdtempSync(join(tmpdir(), 'blocker-diverter-state-'))
+      configureStatePersistence(projectDir)
+    })
+
+    afterEach(() => {
+      cleanupState(sessionId1)
+      cleanupState(sessionId2)
+      configureStatePersistence(null)
+      rmSync(projectDir, { recursive: true, force: true })
+    })
+
+    it('should snapshot autonomous mode and reprompt count changes at once', () => {
+      getState(sessionId1)
+      expect(existsSync(snapshot(sessionId1))).toBe(false)
+
+      updateState(sessionId1, (s) => { s.divertBlockers = true })
+      expect(JSON.parse(readFileSync(snapshot(sessionId1), 'utf-8')).divertBlockers).toBe(true)
+
+      updateState(sessionId1, (s) => { s.repromptCount = 2 })
+      const saved = JSON.parse(readFileSync(snapshot(sessionId1), 'utf-8'))
+      expect(saved.sessionId).toBe(sessionId1)
+      expect(saved.repromptCount).toBe(2)
+    })
+
+    it('should batch other changes, with cooldowns as entries', async () => {
+      updateState(sessionId1, (s) => { s.cooldownHashes.set('hash-abc', 1234) })
+      updateState(sessionId1, (s) => { s.lastBlockerTime = 5678 })
+      expect(existsSync(snapshot(sessionId1))).toBe(false)
+
+      await Bun.sleep(SNAPSHOT_DELAY_MS + 50)
+
+      const saved = JSON.parse(readFileSync(snapshot(sessionId1), 'utf-8'))
+      expect(saved.cooldownHashes).toEqual([['hash-abc', 1234]])
+      expect(saved.lastBlockerTime).toBe(5678)
+    })
+
+    it('should leave transient fields out of the snapshot', () => {
+      updateState(sessionId1, (s) => {
+        s.divertBlockers = true
+        s.isRecovering = true
+        s.lastMessageContent = 'Working on it'
+        s.pendingWrites.push({
+          id: 'b-1',
+          timestamp: '2026-02-13T10:00:00Z',
+          sessionId: sessionId1,
+          category: 'question',
+          question: 'Tabs or spaces?',
+          context: '',
+          blocksProgress: true,
+          sinks: ['markdown'],
+        })
+      })
+
+      const saved = JSON.parse(readFileSync(snapshot(sessionId1), 'utf-8'))
+      expect(Object.keys(saved)).not.toContain('pendingWrites')
+      expect(Object.keys(saved)).not.toContain('isRecovering')
+      expect(Object.keys(saved)).not.toContain('lastMessageContent')
+    })
+
+    it('should rehydrate a session after a restart', () => {
+      const blocker = {
+        id: 'b-1',
+        timestamp: '2026-02-13T10:00:00Z',
+        sessionId: sessionId1,
+        category: 'question',
+        question: 'Tabs or spaces?',
+        context: '',
+        blocksProgress: true,
+      }
+      updateState(sessionId1, (s) => {
+        s.divertBlockers = true
+        s.repromptCount = 3
+        s.lastRepromptTime = 5678
+        s.blockers.push(blocker)
+        s.cooldownHashes.set('hash-abc', 1234)
+        s.pendingWrites.push({ ...blocker, sinks: ['markdown'] })
+        s.run = { startedAt: '2026-02-13T09:00:00Z', sessionId: sessionId1, blockersAtStart: 0 }
+      })
+
+      restart()
+      const state = getState(sessionId1)
+
+      expect(state.divertBlockers).toBe(true)
+      expect(state.repromptCount).toBe(3)
+      expect(state.lastRepromptTime).toBe(5678)
+      expect(state.blockers).toEqual([blocker])
+      expect(state.cooldownHashes).toEqual(new Map([['hash-abc', 1234]]))
+      expect(state.run?.startedAt).toBe('2026-02-13T09:00:00Z')
+      // Failed writes come back from the pending journal, not the snapshot
+      expect(state.pendingWrites).toEqual([])
+      expect(getState(sessionId2).divertBlockers).toBe(false)
+    })
+
+    it('should snapshot direct mutations on request', () => {
+      getState(sessionId1).divertBlockers = true
+      persistState(sessionId1)
+      persistState(sessionId2)
+
+      restart()
+
+      expect(getState(sessionId1).divertBlockers).toBe(true)
+      expect(existsSync(snapshot(sessionId2))).toBe(false)
+    })
+
+    it('should start from defaults when the snapshot is unreadable or belongs to another session', () => {
+      mkdirSync(join(projectDir, STATE_DIR), { recursive: true })
+      writeFileSync(snapshot(sessionId1), '{ "divertBlockers": tru', 'utf-8')
+      writeFileSync(snapshot(sessionId2), JSON.stringify({ sessionId: 'other', divertBlockers: true }), 'utf-8')
+
+      expect(getState(sessionId1).divertBlockers).toBe(false)
+      expect(getState(sessionId2).divertBlockers).toBe(false)
+    })
+
+    it('should start transient fields from defaults even if a snapshot has them', () => {
+      mkdirSync(join(projectDir, STATE_DIR), { recursive: true })
+      writeFileSync(snapshot(sessionId1), JSON.stringify({
+        sessionId: sessionId1,
+        divertBlockers: true,
+        isRecovering: true,
+        lastMessageContent: 'Working on it',
+      }), 'utf-8')
+
+      const state = getState(sessionId1)
+
+      expect(state.divertBlockers).toBe(true)
+      expect(state.isRecovering).toBe(false)
+      expect(state.lastMessageContent).toBe('')
+      expect(state.cooldownHashes).toEqual(new Map())
+    })
+
+    it('should keep snapshot files inside the state directory', () => {
+      updateState('../../escape', (s) => { s.divertBlockers = true })
+
+      expect(readdirSync(join(projectDir, STATE_DIR))).toEqual([fileName('../../escape')])
+      cleanupState('../../escape')
+      expect(readdirSync(join(projectDir, STATE_DIR))).toEqual([])
+    })
+
+    it('should give session IDs that differ only in punctuation their own snapshots', () => {
+      updateState('session.1', (s) => { s.divertBlockers = true })
+      updateState('session_1', (s) => { s.repromptCount = 4 })
+
+      restart(['session.1', 'session_1'])
+
+      expect(getState('session.1')).toMatchObject({ divertBlockers: true, repromptCount: 0 })
+      expect(getState('session_1')).toMatchObject({ divertBlockers: false, repromptCount: 4 })
+      cleanupState('session.1')
+      cleanupState('session_1')
+    })
+
+    it('should not write a batched snapshot after cleanup', async () => {
+      updateState(sessionId1, (s) => { s.cooldownHashes.set('hash-abc', 1234) })
+
+      cleanupState(sessionId1)
+      await Bun.sleep(SNAPSHOT_DELAY_MS + 50)
+
+      expect(existsSync(snapshot(sessionId1))).toBe(false)
+    })
+
+    it('should delete the snapshot on cleanup', () => {
+      updateState(sessionId1, (s) => { s.divertBlockers = true })
+
+      cleanupState(sessionId1)
+
+      expect(existsSync(snapshot(sessionId1))).toBe(false)
+      expect(getState(sessionId1).divertBlockers).toBe(false)
+    })
+  })
 })
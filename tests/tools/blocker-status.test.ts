@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createBlockerStatusTool } from '../../src/tools/blocker-status'
+import { appendBlocker, readBlockers } from '../../src/utils/blockers-file'
+import { appendToStore, readStore } from '../../src/utils/blockers-store'
+import type { Blocker } from '../../src/types'
+
+const config = {
+  enabled: true,
+  defaultDivertBlockers: false,
+  blockersFile: 'BLOCKERS.md',
+  storeFile: 'blockers.jsonl',
+  maxBlockersPerRun: 50,
+  cooldownMs: 5000,
+  maxReprompts: 5,
+  repromptWindowMs: 300000,
+  completionMarker: 'BLOCKER_DIVERTER_DONE!',
+  promptTimeoutMs: 30000,
+}
+
+const logClient = {
+  app: {
+    log: mock(() => Promise.resolve()),
+  },
+}
+
+const blocker: Blocker = {
+  id: '1771161981594-session-123-abc123',
+  shortId: 'B-0142',
+  timestamp: '2026-02-13T10:00:00Z',
+  sessionId: 'session-123',
+  category: 'security',
+  question: 'Rotate the leaked API key?',
+  context: '',
+  blocksProgress: true,
+}
+
+describe('tools/blocker-status', () => {
+  let worktree: string
+
+  beforeEach(async () => {
+    // Spies other files left on appendBlocker would swallow the setup write
+    mock.restore()
+    worktree = await mkdtemp(join(tmpdir(), 'blocker-diverter-status-tool-'))
+    await appendToStore(config.storeFile, blocker, worktree)
+    await appendBlocker(config.blockersFile, blocker, worktree)
+  })
+
+  afterEach(async () => {
+    await rm(worktree, { recursive: true, force: true })
+  })
+
+  it('records the answer in the log and the store by short ID', async () => {
+    const statusTool = createBlockerStatusTool(logClient as any, config as any, worktree)
+
+    const result = await statusTool.execute(
+      { id: 'b-142', status: 'clarified', clarification: 'Yes, rotate it today.' },
+      { sessionID: 'session-123' } as any,
+    )
+
+    expect(result).toBe('Blocker B-0142 marked clarified.')
+    const [logged] = await readBlockers(config.blockersFile, worktree)
+    expect([logged.clarified, logged.clarification]).toEqual(['clarified', 'Yes, rotate it today.'])
+    const [stored] = await readStore(config.storeFile, worktree)
+    expect([stored.clarified, stored.clarification]).toEqual(['clarified', 'Yes, rotate it today.'])
+  })
+
+  it('rejects an unknown ID', async () => {
+    const statusTool = createBlockerStatusTool(logClient as any, config as any, worktree)
+
+    await expect(
+      statusTool.execute({ id: 'B-9999', status: 'skipped' }, { sessionID: 'session-123' } as any)
+    ).rejects.toThrow(/No blocker "B-9999"/)
+  })
+})
@@ -1,6 +1,11 @@
-import { describe, it, expect, afterEach, mock, spyOn } from 'bun:test'
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { execFileSync } from 'node:child_process'
 import { createBlockerTool } from '../../src/tools/blocker'
 import * as blockersFile from '../../src/utils/blockers-file'
+import { archiveBlockers } from '../../src/utils/blockers-store'
 import { getState, cleanupState } from '../../src/state'
 import { BLOCKER_RESPONSE_MESSAGE } from '../../src/utils/templates'
 
@@ -9,7 +14,7 @@ const sessionID = 'test-blocker-tool-session'
 const config = {
   enabled: true,
   defaultDivertBlockers: false,
-  blockersFile: '/tmp/BLOCKERS.md',
+  blockersFile: 'BLOCKERS.md',
   maxBlockersPerRun: 50,
   cooldownMs: 5000,
   maxReprompts: 5,
@@ -25,9 +30,19 @@ const logClient = {
 }
 
 describe('tools/blocker', () => {
-  afterEach(() => {
+  // Fresh project per test: the tool keeps its short ID counter under .opencode/
+  let worktree: string
+
+  beforeEach(async () => {
+    // Spies other files left on appendBlocker would add to the call counts
+    mock.restore()
+    worktree = await mkdtemp(join(tmpdir(), 'blocker-diverter-tool-'))
+  })
+
+  afterEach(async () => {
     cleanupState(sessionID)
     mock.restore()
+    await rm(worktree, { recursive: true, force: true })
   })
 
   it('retries write once before queuing pending blocker', async () => {
@@ -38,7 +53,7 @@ describe('tools/blocker', () => {
     const state = getState(sessionID)
     state.divertBlockers = true
 
-    const blockerTool = createBlockerTool(logClient as any, config as any, '/tmp')
+    const blockerTool = createBlockerTool(logClient as any, config as any, worktree)
 
     const result = await blockerTool.execute(
       {
@@ -60,7 +75,7 @@ describe('tools/blocker', () => {
     const state = getState(sessionID)
     state.divertBlockers = false
 
-    const blockerTool = createBlockerTool(logClient as any, config as any, '/tmp')
+    const blockerTool = createBlockerTool(logClient as any, config as any, worktree)
 
     const result = await blockerTool.execute(
       {
@@ -90,7 +105,7 @@ describe('tools/blocker', () => {
       blocksProgress: true,
     })
 
-    const blockerTool = createBlockerTool(logClient as any, config as any, '/tmp')
+    const blockerTool = createBlockerTool(logClient as any, config as any, worktree)
 
     const result = await blockerTool.execute(
       {
@@ -105,4 +120,402 @@ describe('tools/blocker', () => {
     expect(state.pendingWrites).toHaveLength(0)
     expect(state.blockers).toHaveLength(1)
   })
+
+  it('queues only the sinks that failed', async () => {
+    spyOn(blockersFile, 'appendBlocker').mockResolvedValue(true)
+
+    const state = getState(sessionID)
+    const blockerTool = createBlockerTool(
+      logClient as any,
+      { ...config, sinks: [{ type: 'markdown' }, { type: 'webhook', url: 'http://127.0.0.1:9/hook', timeoutMs: 200 }] } as any,
+      worktree,
+    )
+
+    await blockerTool.execute(
+      {
+        question: 'Webhook is down',
+        category: 'question',
+      },
+      { sessionID } as any,
+    )
+
+    expect(state.blockers).toHaveLength(1)
+    expect(state.pendingWrites).toHaveLength(1)
+    expect(state.pendingWrites[0].sinks).toEqual(['webhook'])
+  })
+
+  it('assigns sequential short IDs that survive a new tool instance', async () => {
+    const worktree = await mkdtemp(join(tmpdir(), 'blocker-diverter-short-id-'))
+    spyOn(blockersFile, 'appendBlocker').mockResolvedValue(true)
+
+    try {
+      const state = getState(sessionID)
+      const projectConfig = { ...config, blockersFile: join(worktree, 'BLOCKERS.md') }
+      await createBlockerTool(logClient as any, projectConfig as any, worktree).execute(
+        { question: 'First blocker', category: 'question' },
+        { sessionID } as any,
+      )
+      // A fresh instance (e.g. after a restart) continues the sequence
+      await createBlockerTool(logClient as any, projectConfig as any, worktree).execute(
+        { question: 'Second blocker', category: 'question' },
+        { sessionID } as any,
+      )
+
+      expect(state.blockers.map(b => b.shortId)).toEqual(['B-0001', 'B-0002'])
+    } finally {
+      await rm(worktree, { recursive: true, force: true })
+    }
+  })
+
+  it('counts a repeated unresolved question on the existing blocker instead of logging it again', async () => {
+    const worktree = await mkdtemp(join(tmpdir(), 'blocker-diverter-recurring-'))
+
+    try {
+      const state = getState(sessionID)
+      const projectConfig = {
+        ...config,
+        blockersFile: join(worktree, 'BLOCKERS.md'),
+        storeFile: join(worktree, 'blockers.jsonl'),
+      }
+      const blockerTool = createBlockerTool(logClient as any, projectConfig as any, worktree)
+
+      await blockerTool.execute(
+        { question: 'Which database should we use?', category: 'architecture', context: 'first attempt' },
+        { sessionID } as any,
+      )
+      const result = await blockerTool.execute(
+        { question: '  which database   should we use? ', category: 'architecture', context: 'second attempt' },
+        { sessionID } as any,
+      )
+
+      expect(result).toBe(BLOCKER_RESPONSE_MESSAGE)
+      expect(state.blockers).toHaveLength(1)
+
+      const logged = await blockersFile.readBlockers(projectConfig.blockersFile, worktree)
+      expect(logged).toHaveLength(1)
+      expect(logged[0].occurrences).toBe(2)
+      expect(logged[0].lastSeen).toBeDefined()
+
+      const stored = (await Bun.file(projectConfig.storeFile).text()).trim().split('\n').map(line => JSON.parse(line))
+      expect(stored).toHaveLength(1)
+      expect(stored[0].occurrences).toBe(2)
+    } finally {
+      await rm(worktree, { recursive: true, force: true })
+    }
+  })
+
+  it('carries the count of a question still unanswered in the latest archive', async () => {
+    const projectConfig = { ...config, storeFile: 'blockers.jsonl', archiveDir: 'archive' }
+    const blockerTool = createBlockerTool(logClient as any, projectConfig as any, worktree)
+    const args = { question: 'Which database should we use?', category: 'architecture', context: '' }
+
+    await blockerTool.execute(args, { sessionID } as any)
+    // A new run rotates the logs, and the cooldown is per session
+    await archiveBlockers(projectConfig as any, worktree)
+    cleanupState(sessionID)
+    await blockerTool.execute(args, { sessionID } as any)
+
+    const logged = await blockersFile.readBlockers(projectConfig.blockersFile, worktree)
+    expect(logged).toHaveLength(1)
+    expect(logged[0].occurrences).toBe(2)
+  })
+
+  it('reads the blockers on disk once per call', async () => {
+    const projectConfig = {
+      ...config,
+      storeFile: 'blockers.jsonl',
+      archiveDir: 'archive',
+      nearDuplicates: 'link',
+      similarityThreshold: 0.55,
+    }
+    const blockerTool = createBlockerTool(logClient as any, projectConfig as any, worktree)
+    await blockerTool.execute({ question: 'Should I use Zod or Yup?', category: 'architecture' }, { sessionID } as any)
+    await archiveBlockers(projectConfig as any, worktree)
+    const readSpy = spyOn(blockersFile, 'readBlockers')
+
+    await blockerTool.execute({ question: 'Zod vs Yup for validation?', category: 'architecture' }, { sessionID } as any)
+
+    // Recurrence, archived recurrence and related blockers all looked at the archive
+    expect(readSpy.mock.calls.filter(([file]) => String(file).includes('archive'))).toHaveLength(1)
+    expect((await blockersFile.readBlockers(projectConfig.blockersFile, worktree))[0].related).toEqual(['B-0001'])
+  })
+
+  it('derives priority from the category unless the agent sets one', async () => {
+    spyOn(blockersFile, 'appendBlocker').mockResolvedValue(true)
+
+    const state = getState(sessionID)
+    const blockerTool = createBlockerTool(logClient as any, config as any, worktree)
+
+    await blockerTool.execute({ question: 'Drop the audit table?', category: 'destructive' }, { sessionID } as any)
+    await blockerTool.execute({ question: 'Tabs or spaces?', category: 'question', priority: 'p0' }, { sessionID } as any)
+
+    expect(state.blockers.map(b => b.priority)).toEqual(['p1', 'p0'])
+  })
+
+  it('stamps the agent, model and message ID on blockers', async () => {
+    spyOn(blockersFile, 'appendBlocker').mockResolvedValue(true)
+
+    const state = getState(sessionID)
+    state.activeAgent = 'plan'
+    state.activeModel = 'anthropic/model-a'
+    const blockerTool = createBlockerTool(logClient as any, config as any, worktree)
+
+    await blockerTool.execute({ question: 'Which queue?', category: 'architecture' } as any, { sessionID, agent: 'build', messageID: 'msg_42' } as any)
+    await blockerTool.execute({ question: 'Which cache?', category: 'architecture' } as any, { sessionID } as any)
+
+    expect(state.blockers.map(({ agent, model, messageId }) => ({ agent, model, messageId }))).toEqual([
+      { agent: 'build', model: 'anthropic/model-a', messageId: 'msg_42' },
+      { agent: 'plan', model: 'anthropic/model-a', messageId: undefined },
+    ])
+  })
+
+  it('accepts configured categories and applies their defaults', async () => {
+    spyOn(blockersFile, 'appendBlocker').mockResolvedValue(true)
+
+    const state = getState(sessionID)
+    const blockerTool = createBlockerTool(
+      logClient as any,
+      {
+        ...config,
+        categories: {
+          compliance: { description: 'Licensing questions', priority: 'p1' },
+          question: { blocksProgress: false },
+        },
+      } as any,
+      worktree,
+    )
+    const log = (args: Record<string, unknown>) => blockerTool.execute(args as any, { sessionID } as any)
+
+    await log({ question: 'Can we ship GPL code?', category: 'compliance' })
+    await log({ question: 'Tabs or spaces?', category: 'question', options: ['tabs', 'spaces'], chosenOption: 'spaces' })
+    await log({ question: 'Which logger?', category: 'question' })
+    await expect(log({ question: 'Nice?', category: 'vibes' })).rejects.toThrow('Invalid blocker tool arguments')
+
+    expect(state.blockers.map(({ category, priority, blocksProgress }) => ({ category, priority, blocksProgress }))).toEqual([
+      { category: 'compliance', priority: 'p1', blocksProgress: true },
+      { category: 'question', priority: 'p3', blocksProgress: false },
+      // Soft by default, but without options there is nothing to choose from
+      { category: 'question', priority: 'p3', blocksProgress: true },
+    ])
+  })
+
+  it('enforces per-category limits before logging', async () => {
+    spyOn(blockersFile, 'appendBlocker').mockResolvedValue(true)
+
+    const state = getState(sessionID)
+    const blockerTool = createBlockerTool(
+      logClient as any,
+      { ...config, categories: { architecture: { max: 1 } } } as any,
+      worktree,
+    )
+    const log = (question: string, category: string) =>
+      blockerTool.execute({ question, category } as any, { sessionID } as any)
+
+    await log('Monolith or services?', 'architecture')
+    await log('REST or GraphQL?', 'architecture')
+    await log('Allow npm install?', 'permission')
+
+    expect(state.blockers.map(b => b.category)).toEqual(['architecture', 'permission'])
+  })
+
+  it('does not offer disabled categories', async () => {
+    const blockerTool = createBlockerTool(logClient as any, { ...config, categories: { security: { enabled: false } } } as any, worktree)
+
+    expect((blockerTool.args.category as any).options).not.toContain('security')
+    expect(blockerTool.description).not.toContain('security')
+    await expect(
+      blockerTool.execute({ question: 'Rotate the API keys?', category: 'security' } as any, { sessionID } as any)
+    ).rejects.toThrow(/Invalid blocker tool arguments/)
+  })
+
+  describe('file references', () => {
+    const setup = async () => {
+      const worktree = await mkdtemp(join(tmpdir(), 'blocker-diverter-files-'))
+      await Bun.write(join(worktree, 'src', 'auth.ts'), 'export {}\n')
+      const projectConfig = { ...config, blockersFile: join(worktree, 'docs', 'BLOCKERS.md') }
+      return { worktree, blockerTool: createBlockerTool(logClient as any, projectConfig as any, worktree), projectConfig }
+    }
+
+    it('logs files as links relative to the blockers file', async () => {
+      const { worktree, blockerTool, projectConfig } = await setup()
+
+      try {
+        const state = getState(sessionID)
+        await blockerTool.execute(
+          {
+            question: 'RS256 or HS256?',
+            category: 'security',
+            files: [{ path: './src/auth.ts', line: 45, endLine: 52 }, { path: join(worktree, 'src') }],
+          } as any,
+          { sessionID } as any,
+        )
+
+        expect(state.blockers[0].files).toEqual([{ path: 'src/auth.ts', line: 45, endLine: 52 }, { path: 'src' }])
+        const content = await Bun.file(projectConfig.blockersFile).text()
+        expect(content).toContain('- [src/auth.ts:45-52](../src/auth.ts#L45-L52)')
+        expect(content).toContain('- [src](../src)')
+      } finally {
+        await rm(worktree, { recursive: true, force: true })
+      }
+    })
+
+    it('rejects paths outside the project or missing from it', async () => {
+      const { worktree, blockerTool } = await setup()
+
+      try {
+        const log = (path: string) =>
+          blockerTool.execute({ question: 'Which file?', category: 'question', files: [{ path }] } as any, { sessionID } as any)
+
+        await expect(log('../etc/passwd')).rejects.toThrow('Invalid file reference "../etc/passwd": path resolves outside the project')
+        await expect(log('src/missing.ts')).rejects.toThrow('Invalid file reference "src/missing.ts": no such file in the project')
+        expect(getState(sessionID).blockers).toHaveLength(0)
+      } finally {
+        await rm(worktree, { recursive: true, force: true })
+      }
+    })
+
+    it('rejects a line range ending before it starts', async () => {
+      const { worktree, blockerTool } = await setup()
+
+      try {
+        await expect(
+          blockerTool.execute(
+            { question: 'Which lines?', category: 'question', files: [{ path: 'src/auth.ts', line: 9, endLine: 3 }] } as any,
+            { sessionID } as any,
+          ),
+        ).rejects.toThrow('endLine requires line and must not be before it')
+      } finally {
+        await rm(worktree, { recursive: true, force: true })
+      }
+    })
+  })
+
+  it('logs blockers about files of a monorepo package in its own log', async () => {
+    const worktree = await mkdtemp(join(tmpdir(), 'blocker-diverter-monorepo-'))
+    try {
+      await Bun.write(join(worktree, 'packages', 'api', 'package.json'), '{}')
+      await Bun.write(join(worktree, 'packages', 'api', 'src', 'auth.ts'), 'export {}\n')
+      const projectConfig = { ...config, blockersFile: join(worktree, 'BLOCKERS.md'), packageLogs: true }
+      const blockerTool = createBlockerTool(logClient as any, projectConfig as any, worktree)
+
+      await blockerTool.execute(
+        { question: 'JWT or sessions?', category: 'architecture', files: [{ path: 'packages/api/src/auth.ts' }] } as any,
+        { sessionID } as any,
+      )
+      await blockerTool.execute({ question: 'Which CI?', category: 'deployment' } as any, { sessionID } as any)
+
+      expect(getState(sessionID).blockers.map(b => b.package)).toEqual(['packages/api', undefined])
+      expect(await Bun.file(join(worktree, 'packages', 'api', 'BLOCKERS.md')).text()).toContain('JWT or sessions?')
+      expect(await Bun.file(join(worktree, 'BLOCKERS.md')).text()).not.toContain('JWT or sessions?')
+    } finally {
+      await rm(worktree, { recursive: true, force: true })
+    }
+  })
+
+  it('records the git state of the worktree when enabled', async () => {
+    const worktree = await mkdtemp(join(tmpdir(), 'blocker-diverter-git-state-'))
+    spyOn(blockersFile, 'appendBlocker').mockResolvedValue(true)
+
+    try {
+      const git = (...args: string[]) =>
+        execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: worktree })
+          .toString()
+          .trim()
+      git('init', '-q', '-b', 'overnight')
+      await Bun.write(join(worktree, 'a.ts'), 'export {}\n')
+      git('add', '.')
+      git('commit', '-qm', 'init')
+      await Bun.write(join(worktree, 'a.ts'), 'export const a = 1\n')
+
+      const state = getState(sessionID)
+      const projectConfig = { ...config, blockersFile: join(worktree, 'BLOCKERS.md'), gitSnapshot: true }
+      await createBlockerTool(logClient as any, projectConfig as any, worktree).execute(
+        { question: 'Keep the a.ts change?', category: 'question' },
+        { sessionID } as any,
+      )
+
+      expect(state.blockers[0].git).toEqual({ branch: 'overnight', head: git('rev-parse', 'HEAD'), dirty: ['a.ts'], dirtyCount: 1 })
+    } finally {
+      await rm(worktree, { recursive: true, force: true })
+    }
+  })
+
+  it('attaches the diff of the referenced files when enabled', async () => {
+    const worktree = await mkdtemp(join(tmpdir(), 'blocker-diverter-diff-'))
+    spyOn(blockersFile, 'appendBlocker').mockResolvedValue(true)
+
+    try {
+      const git = (...args: string[]) =>
+        execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: worktree })
+      git('init', '-q')
+      await Bun.write(join(worktree, 'a.ts'), 'export const a = 1\n')
+      await Bun.write(join(worktree, 'b.ts'), 'export const b = 1\n')
+      git('add', '.')
+      git('commit', '-qm', 'init')
+      await Bun.write(join(worktree, 'a.ts'), 'export const a = 2\n')
+      await Bun.write(join(worktree, 'b.ts'), 'export const b = 2\n')
+
+      const state = getState(sessionID)
+      const projectConfig = { ...config, blockersFile: join(worktree, 'BLOCKERS.md'), diffExcerpt: true, diffMaxBytes: 4096 }
+      const blockerTool = createBlockerTool(logClient as any, projectConfig as any, worktree)
+      await blockerTool.execute({ question: 'Keep a = 2?', category: 'question', files: [{ path: 'a.ts' }] } as any, { sessionID } as any)
+      await blockerTool.execute({ question: 'Anything else?', category: 'question' }, { sessionID } as any)
+
+      expect(state.blockers[0].diff).toContain('+export const a = 2')
+      expect(state.blockers[0].diff).not.toContain('b.ts')
+      expect(state.blockers[1].diff).toBeUndefined()
+    } finally {
+      await rm(worktree, { recursive: true, force: true })
+    }
+  })
+
+  describe('near-duplicate questions', () => {
+    const setup = async (nearDuplicates: 'link' | 'merge') => {
+      const worktree = await mkdtemp(join(tmpdir(), 'blocker-diverter-near-dup-'))
+      const projectConfig = {
+        ...config,
+        blockersFile: join(worktree, 'BLOCKERS.md'),
+        storeFile: join(worktree, 'blockers.jsonl'),
+        nearDuplicates,
+        similarityThreshold: 0.55,
+      }
+      const blockerTool = createBlockerTool(logClient as any, projectConfig as any, worktree)
+      const log = (question: string) =>
+        blockerTool.execute({ question, category: 'architecture' }, { sessionID } as any)
+      return { worktree, projectConfig, log }
+    }
+
+    it('links a paraphrased question to the blocker already logged', async () => {
+      const { worktree, projectConfig, log } = await setup('link')
+
+      try {
+        await log('Should I use Zod or Yup?')
+        await log('Tabs or spaces?')
+        await log('Zod vs Yup for validation?')
+
+        const logged = await blockersFile.readBlockers(projectConfig.blockersFile, worktree)
+        expect(logged).toHaveLength(3)
+        expect(logged[2].related).toEqual([logged[0].shortId!])
+        expect(logged[1].related).toBeUndefined()
+      } finally {
+        await rm(worktree, { recursive: true, force: true })
+      }
+    })
+
+    it('merges a paraphrased question into the unresolved blocker in merge mode', async () => {
+      const { worktree, projectConfig, log } = await setup('merge')
+
+      try {
+        await log('Should I use Zod or Yup?')
+        await log('Zod vs Yup for validation?')
+
+        const logged = await blockersFile.readBlockers(projectConfig.blockersFile, worktree)
+        expect(logged).toHaveLength(1)
+        expect(logged[0].question).toBe('Should I use Zod or Yup?')
+        expect(logged[0].occurrences).toBe(2)
+      } finally {
+        await rm(worktree, { recursive: true, force: true })
+      }
+    })
+  })
 })
@@ -11,9 +11,25 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
-import { resolve, join } from 'node:path'
-import { rm, mkdir, readFile, writeFile } from 'node:fs/promises'
-import { appendBlocker, getBlockerCount, rotateIfNeeded, clearTemplateCache } from '../../src/utils/blockers-file'
+import { resolve, join, basename } from 'node:path'
+import { rm, mkdir, readFile, writeFile, readdir } from 'node:fs/promises'
+import {
+  appendBlocker,
+  getBlockerCount,
+  rotateIfNeeded,
+  archiveBlockersFile,
+  findLatestArchives,
+  insertChecklistBlocker,
+  rebuildBlockersFile,
+  readBlockers,
+  replaceBlockerEntry,
+  updateBlockerStatus,
+  getBackupPath,
+  appendSection,
+  clearTemplateCache,
+} from '../../src/utils/blockers-file'
+import { formatRunFooter, formatRunHeader } from '../../src/utils/run-log'
+import { getLockPath } from '../../src/utils/file-lock'
 import type { Blocker } from '../../src/types'
 
 describe('blockers-file', () => {
@@ -113,6 +129,7 @@ describe('blockers-file', () => {
     it('should format blocker entry with all fields', async () => {
       const richBlocker: Blocker = {
         id: '2026-02-13T10:00:00Z-session-456-xyz',
+        shortId: 'B-0042',
         timestamp: '2026-02-13T10:00:00Z',
         sessionId: 'session-456',
         category: 'architecture',
@@ -367,6 +384,631 @@ Content
         rotateIfNeeded(traversalPath, 10, tempDir)
       ).rejects.toThrow(/directory traversal/i)
     })
+    it('should rotate when file reaches maxBytes', async () => {
+      const filePath = join(tempDir, mockFilePath)
+      await writeFile(filePath, '## Blocker #1\n' + 'x'.repeat(2048), 'utf-8')
+
+      const rotated = await rotateIfNeeded(mockFilePath, 10, tempDir, undefined, { maxBytes: 1024 })
+
+      expect(rotated).toBe(true)
+      expect(await Bun.file(filePath).exists()).toBe(false)
+    })
+
+    it('should move rotated file into archiveDir', async () => {
+      const filePath = join(tempDir, mockFilePath)
+      await writeFile(filePath, '## Blocker #1\nContent\n', 'utf-8')
+
+      const rotated = await rotateIfNeeded(mockFilePath, 1, tempDir, undefined, { archiveDir: 'archive' })
+
+      expect(rotated).toBe(true)
+      const archived = await readdir(join(tempDir, 'archive'))
+      expect(archived).toHaveLength(1)
+      expect(archived[0]).toMatch(/^blockers-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}\.md$/)
+    })
+  })
+
+  describe('archiveBlockersFile', () => {
+    it('should return null when there is nothing to archive', async () => {
+      expect(await archiveBlockersFile(mockFilePath, tempDir)).toBeNull()
+    })
+
+    it('should report archive path and blocker count', async () => {
+      await writeFile(join(tempDir, mockFilePath), '## Blocker #1\nA\n\n## Blocker #2\nB\n', 'utf-8')
+
+      const result = await archiveBlockersFile(mockFilePath, tempDir, { archiveDir: 'archive' })
+
+      expect(result?.blockerCount).toBe(2)
+      expect(result?.archivePath.startsWith(join(tempDir, 'archive'))).toBe(true)
+      expect(await readFile(result!.archivePath, 'utf-8')).toContain('## Blocker #2')
+    })
+
+    it('should not overwrite an archive created in the same second', async () => {
+      const filePath = join(tempDir, mockFilePath)
+      await writeFile(filePath, '## Blocker #1\n', 'utf-8')
+      const first = await archiveBlockersFile(mockFilePath, tempDir)
+      await writeFile(filePath, '## Blocker #2\n', 'utf-8')
+      const second = await archiveBlockersFile(mockFilePath, tempDir)
+
+      expect(first?.archivePath).not.toBe(second?.archivePath)
+      expect(await Bun.file(first!.archivePath).exists()).toBe(true)
+      expect(await Bun.file(second!.archivePath).exists()).toBe(true)
+    })
+
+    it('should delete the oldest archives beyond maxArchives', async () => {
+      const archiveDir = join(tempDir, 'archive')
+      await mkdir(archiveDir, { recursive: true })
+      await writeFile(join(archiveDir, 'blockers-2026-01-01T00-00-00.md'), 'old', 'utf-8')
+      await writeFile(join(archiveDir, 'blockers-2026-01-02T00-00-00.md'), 'newer', 'utf-8')
+      await writeFile(join(archiveDir, 'notes.md'), 'unrelated', 'utf-8')
+      await writeFile(join(tempDir, mockFilePath), '## Blocker #1\n', 'utf-8')
+
+      const result = await archiveBlockersFile(mockFilePath, tempDir, { archiveDir: 'archive', maxArchives: 2 })
+
+      expect(result?.pruned).toEqual([join(archiveDir, 'blockers-2026-01-01T00-00-00.md')])
+      const remaining = (await readdir(archiveDir)).sort()
+      expect(remaining).toContain('blockers-2026-01-02T00-00-00.md')
+      expect(remaining).toContain('notes.md')
+      expect(remaining).toHaveLength(3)
+    })
+
+    it('should archive the JSONL store alongside the markdown log', async () => {
+      await mkdir(join(tempDir, '.opencode'), { recursive: true })
+      await writeFile(join(tempDir, '.opencode/blockers.jsonl'), '{"id":"1"}\n', 'utf-8')
+      await writeFile(join(tempDir, mockFilePath), '## Blocker #1\n', 'utf-8')
+
+      await archiveBlockersFile(mockFilePath, tempDir, {
+        archiveDir: 'archive',
+        storeFile: '.opencode/blockers.jsonl',
+      })
+
+      expect(await Bun.file(join(tempDir, '.opencode/blockers.jsonl')).exists()).toBe(false)
+      const archived = await readdir(join(tempDir, 'archive'))
+      const stamps = archived.map(name => name.replace(/^blockers-/, '').replace(/\.(md|jsonl)$/, ''))
+      expect(archived).toHaveLength(2)
+      expect(stamps[0]).toBe(stamps[1])
+    })
+
+    it('should archive other logs with the same timestamp, named by their path', async () => {
+      await mkdir(join(tempDir, 'packages/api'), { recursive: true })
+      await writeFile(join(tempDir, mockFilePath), '## Blocker #1\n', 'utf-8')
+      await writeFile(join(tempDir, 'packages/api/blockers.md'), '## Blocker #2\n\n## Blocker #3\n', 'utf-8')
+
+      const result = await archiveBlockersFile(mockFilePath, tempDir, {
+        archiveDir: 'archive',
+        otherLogs: ['packages/api/blockers.md', 'DECISIONS.md'],
+      })
+
+      expect(result?.blockerCount).toBe(3)
+      expect(result?.archivePath).toBe(result!.logArchives[0])
+      expect(await Bun.file(join(tempDir, 'packages/api/blockers.md')).exists()).toBe(false)
+      const archived = (await readdir(join(tempDir, 'archive'))).sort()
+      expect(archived).toHaveLength(2)
+      expect(archived[0]).toMatch(/^blockers-\d{4}/)
+      expect(archived[1]).toBe(archived[0].replace(/^blockers-/, 'packages-api-blockers-'))
+    })
+
+    it('should reject an archiveDir outside the project', async () => {
+      await writeFile(join(tempDir, mockFilePath), '## Blocker #1\n', 'utf-8')
+
+      await expect(
+        archiveBlockersFile(mockFilePath, tempDir, { archiveDir: '../../tmp-archive' })
+      ).rejects.toThrow(/directory traversal/i)
+    })
+  })
+
+  describe('findLatestArchives', () => {
+    it('should return nothing before the first rotation', async () => {
+      expect(await findLatestArchives(mockFilePath, tempDir, { archiveDir: 'archive' })).toEqual([])
+    })
+
+    it("should return the newest rotation's logs and store", async () => {
+      const archiveDir = join(tempDir, 'archive')
+      await mkdir(archiveDir, { recursive: true })
+      for (const name of [
+        'blockers-2026-01-01T00-00-00.md',
+        'store-2026-01-01T00-00-00.jsonl',
+        'blockers-2026-02-01T00-00-00.md',
+        'packages-api-BLOCKERS-2026-02-01T00-00-00.md',
+        'store-2026-02-01T00-00-00.jsonl',
+        'other-2026-03-01T00-00-00.jsonl',
+      ]) {
+        await writeFile(join(archiveDir, name), '', 'utf-8')
+      }
+
+      const latest = await findLatestArchives(mockFilePath, tempDir, { archiveDir: 'archive', storeFile: 'store.jsonl' })
+
+      expect(latest.map(path => path.slice(archiveDir.length + 1)).sort()).toEqual([
+        'blockers-2026-02-01T00-00-00.md',
+        'packages-api-BLOCKERS-2026-02-01T00-00-00.md',
+        'store-2026-02-01T00-00-00.jsonl',
+      ])
+    })
+  })
+
+  describe('readBlockers', () => {
+    it('should return empty array when file does not exist', async () => {
+      const blockers = await readBlockers(mockFilePath, tempDir)
+      expect(blockers).toEqual([])
+    })
+
+    it('should round-trip appended blockers', async () => {
+      const richBlocker: Blocker = {
+        id: '2026-02-13T10:00:00Z-session-456-xyz',
+        timestamp: '2026-02-13T10:00:00Z',
+        sessionId: 'session-456',
+        category: 'architecture',
+        question: 'Which framework should we use?',
+        context: 'Building new API service\nFiles: src/server.ts:12',
+        blocksProgress: false,
+        options: ['Express', 'Fastify', 'Hono'],
+        chosenOption: 'Fastify',
+        chosenReasoning: 'Better TypeScript support',
+        clarified: 'clarified',
+        clarification: 'Fastify is fine',
+        priority: 'p0',
+        occurrences: 2,
+        lastSeen: '2026-02-13T11:00:00Z',
+        related: ['B-0007', 'B-0011'],
+        agent: 'build',
+        model: 'anthropic/model-a',
+        messageId: 'msg_01HZX',
+      }
+
+      await appendBlocker(mockFilePath, sampleBlocker, tempDir)
+      await appendBlocker(mockFilePath, richBlocker, tempDir)
+
+      const blockers = await readBlockers(mockFilePath, tempDir)
+
+      expect(blockers).toEqual([sampleBlocker, richBlocker])
+    })
+
+    it('should render file references as links relative to the blockers file', async () => {
+      const withFiles: Blocker = {
+        ...sampleBlocker,
+        files: [{ path: 'src/auth.ts', line: 45, endLine: 52 }, { path: 'src/my config.ts', line: 3 }, { path: 'README.md' }],
+      }
+
+      await appendBlocker('docs/BLOCKERS.md', withFiles, tempDir)
+
+      const content = await readFile(join(tempDir, 'docs/BLOCKERS.md'), 'utf-8')
+      expect(content).toContain(
+        '### Files\n' +
+        '- [src/auth.ts:45-52](../src/auth.ts#L45-L52)\n' +
+        '- [src/my config.ts:3](../src/my%20config.ts#L3)\n' +
+        '- [README.md](../README.md)\n'
+      )
+      const [blocker] = await readBlockers('docs/BLOCKERS.md', tempDir)
+      expect(blocker).toEqual(withFiles)
+    })
+
+    it('should render and read back the git snapshot', async () => {
+      const git = { branch: 'feature/auth', head: '3f2c9e1a7b4d5c6e8f9a0b1c2d3e4f5a6b7c8d9e', dirty: ['src/auth.ts', 'notes.md'], dirtyCount: 2 }
+      const clean = { ...sampleBlocker, id: 'clean-1', git: { ...git, dirty: [], dirtyCount: 0 } }
+
+      await appendBlocker(mockFilePath, { ...sampleBlocker, git }, tempDir)
+      await appendBlocker(mockFilePath, clean, tempDir)
+
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      expect(content).toContain(`### Code State\nBranch: feature/auth  \nCommit: ${git.head}  \nUncommitted: 2 (src/auth.ts, notes.md)  \n`)
+      expect(await readBlockers(mockFilePath, tempDir)).toEqual([{ ...sampleBlocker, git }, clean])
+    })
+
+    it('should render the diff excerpt verbatim in a collapsed block', async () => {
+      const diff = 'diff --git a/README.md b/README.md\n--- a/README.md\n+++ b/README.md\n@@ -1,2 +1,3 @@\n # Title\n+```ts\n+## Blocker #fake\n+```'
+      const withDiff: Blocker = { ...sampleBlocker, diff }
+
+      await appendBlocker(mockFilePath, withDiff, tempDir)
+
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      expect(content).toContain(
+        '### Uncommitted Diff\n<details>\n<summary>Uncommitted changes (8 lines)</summary>\n\n````diff\n' + diff + '\n````\n\n</details>\n'
+      )
+      expect(await readBlockers(mockFilePath, tempDir)).toEqual([withDiff])
+    })
+
+    it('should round-trip content that was escaped on write', async () => {
+      const trickyBlocker: Blocker = {
+        ...sampleBlocker,
+        question: '## Blocker #999 injected?',
+        context: '```ts\nconst x = 1\n```',
+      }
+
+      await appendBlocker(mockFilePath, trickyBlocker, tempDir)
+
+      const blockers = await readBlockers(mockFilePath, tempDir)
+
+      expect(blockers).toHaveLength(1)
+      expect(blockers[0].question).toBe(trickyBlocker.question)
+      expect(blockers[0].context).toBe(trickyBlocker.context)
+    })
+
+    it('should parse entries rendered with a custom template', async () => {
+      const templateDir = join(tempDir, '.opencode')
+      await mkdir(templateDir, { recursive: true })
+      await writeFile(
+        join(templateDir, 'BLOCKERS.template.md'),
+        '## Blocker #{{id}}\n**When:** {{timestamp}} | **Kind:** {{category}}\n\n#### Ask\n{{question}}\n\n---\n',
+        'utf-8'
+      )
+
+      await appendBlocker(mockFilePath, sampleBlocker, tempDir)
+
+      const [blocker] = await readBlockers(mockFilePath, tempDir)
+
+      expect(blocker.id).toBe(sampleBlocker.id)
+      expect(blocker.timestamp).toBe(sampleBlocker.timestamp)
+      expect(blocker.category).toBe(sampleBlocker.category)
+      expect(blocker.question).toBe(sampleBlocker.question)
+    })
+
+    it('should pick up clarifications written by hand', async () => {
+      await appendBlocker(mockFilePath, sampleBlocker, tempDir)
+      const filePath = join(tempDir, mockFilePath)
+      const content = await readFile(filePath, 'utf-8')
+      await writeFile(
+        filePath,
+        content + '\n**Status:** clarified\n\n### User Clarification\nYes, run git status.\n',
+        'utf-8'
+      )
+
+      const [blocker] = await readBlockers(mockFilePath, tempDir)
+
+      expect(blocker.clarified).toBe('clarified')
+      expect(blocker.clarification).toBe('Yes, run git status.')
+    })
+
+    it('should reject directory traversal attempts', async () => {
+      await expect(
+        readBlockers('../../../etc/passwd', tempDir)
+      ).rejects.toThrow(/directory traversal/i)
+    })
+  })
+
+  describe('checklist layout', () => {
+    const softBlocker: Blocker = {
+      ...sampleBlocker,
+      id: 'soft-1',
+      category: 'question',
+      question: 'Tabs or spaces?',
+      blocksProgress: false,
+    }
+
+    it('should create hard and soft sections on first insert', async () => {
+      await insertChecklistBlocker(mockFilePath, sampleBlocker, tempDir)
+
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      expect(content).toBe(
+        '## Hard blockers\n\n' +
+        `- [ ] \`${sampleBlocker.id}\` **permission** — Allow bash command: git status?\n` +
+        '  - Session: session-123\n' +
+        '  - Timestamp: 2026-02-13T10:00:00Z\n' +
+        '  - Context: Checking repository status\n' +
+        '\n## Soft decisions\n'
+      )
+    })
+
+    it('should keep each run\'s blockers in sections under its own header', async () => {
+      const header = (startedAt: string) => formatRunHeader({ startedAt, sessionId: 'session-123', branch: 'main' })
+      const footer = formatRunFooter({ endedAt: '2026-02-13T06:00:00Z', outcome: 'completed', blockerCount: 1, blockingCount: 1 })
+      await appendSection(mockFilePath, header('2026-02-12T22:00:00Z'), tempDir)
+      await insertChecklistBlocker(mockFilePath, { ...sampleBlocker, id: 'night-1' }, tempDir)
+      await appendSection(mockFilePath, footer, tempDir)
+      await appendSection(mockFilePath, header('2026-02-13T22:00:00Z'), tempDir)
+      await insertChecklistBlocker(mockFilePath, { ...sampleBlocker, id: 'night-2' }, tempDir)
+      await insertChecklistBlocker(mockFilePath, { ...softBlocker, id: 'night-2-soft' }, tempDir)
+
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      const [night1, night2] = content.split('# Run started').slice(1)
+      expect(night1).toContain('`night-1`')
+      expect(night1).not.toContain('night-2')
+      expect(night2.split('## Soft decisions')[0]).toContain('`night-2`')
+      expect(night2.split('## Soft decisions')[1]).toContain('`night-2-soft`')
+      expect(content.match(/^## Hard blockers$/gm)).toHaveLength(2)
+      expect((await readBlockers(mockFilePath, tempDir)).map(b => [b.id, b.blocksProgress])).toEqual([
+        ['night-1', true],
+        ['night-2', true],
+        ['night-2-soft', false],
+      ])
+    })
+
+    it('should render and read back the short ID and priority', async () => {
+      await insertChecklistBlocker(mockFilePath, { ...sampleBlocker, shortId: 'B-0007', priority: 'p1' }, tempDir)
+
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      expect(content).toContain('  - ID: B-0007\n  - Priority: p1\n')
+      const [blocker] = await readBlockers(mockFilePath, tempDir)
+      expect([blocker.shortId, blocker.priority]).toEqual(['B-0007', 'p1'])
+    })
+
+    it('should render and read back agent, model and message ID', async () => {
+      const provenance = { agent: 'build', model: 'anthropic/model-a', messageId: 'msg_01HZX' }
+      await insertChecklistBlocker(mockFilePath, { ...sampleBlocker, ...provenance }, tempDir)
+
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      expect(content).toContain('  - Agent: build\n  - Model: anthropic/model-a\n  - Message: msg_01HZX\n')
+      const [blocker] = await readBlockers(mockFilePath, tempDir)
+      expect(blocker).toMatchObject(provenance)
+    })
+
+    it('should render and read back file references', async () => {
+      const files = [{ path: 'src/auth.ts', line: 45 }, { path: 'src/jwt.ts' }]
+      await insertChecklistBlocker(mockFilePath, { ...sampleBlocker, files }, tempDir)
+
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      expect(content).toContain('  - Files: [src/auth.ts:45](src/auth.ts#L45), [src/jwt.ts](src/jwt.ts)\n')
+      const [blocker] = await readBlockers(mockFilePath, tempDir)
+      expect(blocker.files).toEqual(files)
+    })
+
+    it('should render and read back the git snapshot', async () => {
+      const git = { branch: 'main', head: '3f2c9e1', dirty: ['src/auth.ts'], dirtyCount: 7 }
+      await insertChecklistBlocker(mockFilePath, { ...sampleBlocker, git }, tempDir)
+
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      expect(content).toContain('  - Branch: main\n  - Commit: 3f2c9e1\n  - Uncommitted: 7 (src/auth.ts)\n')
+      const [blocker] = await readBlockers(mockFilePath, tempDir)
+      expect(blocker.git).toEqual(git)
+    })
+
+    it('should render and read back the diff excerpt', async () => {
+      const diff = '--- a/src/auth.ts\n+++ b/src/auth.ts\n@@ -1 +1 @@\n-old\n+new'
+      await insertChecklistBlocker(mockFilePath, { ...sampleBlocker, diff }, tempDir)
+
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      expect(content).toContain('  - Diff:\n    <details>\n')
+      expect(content).toContain('    ```diff\n    --- a/src/auth.ts\n')
+      const [blocker] = await readBlockers(mockFilePath, tempDir)
+      expect(blocker.diff).toBe(diff)
+    })
+
+    it('should insert each blocker at the end of its section', async () => {
+      await insertChecklistBlocker(mockFilePath, sampleBlocker, tempDir)
+      await insertChecklistBlocker(mockFilePath, softBlocker, tempDir)
+      await insertChecklistBlocker(mockFilePath, { ...sampleBlocker, id: 'hard-2' }, tempDir)
+
+      const blockers = await readBlockers(mockFilePath, tempDir)
+
+      expect(blockers.map(b => b.id)).toEqual([sampleBlocker.id, 'hard-2', 'soft-1'])
+      expect(blockers.map(b => b.blocksProgress)).toEqual([true, true, false])
+    })
+
+    it('should keep existing content above the sections', async () => {
+      await writeFile(join(tempDir, mockFilePath), '# Overnight blockers\n\nRead me first.\n', 'utf-8')
+
+      await insertChecklistBlocker(mockFilePath, softBlocker, tempDir)
+
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      expect(content.startsWith('# Overnight blockers\n\nRead me first.\n\n## Hard blockers\n')).toBe(true)
+      expect(content.indexOf('## Soft decisions')).toBeLessThan(content.indexOf('soft-1'))
+    })
+
+    it('should treat a ticked box as resolved', async () => {
+      await insertChecklistBlocker(mockFilePath, sampleBlocker, tempDir)
+      const path = join(tempDir, mockFilePath)
+      await writeFile(path, (await readFile(path, 'utf-8')).replace('- [ ]', '- [x]'), 'utf-8')
+
+      const [blocker] = await readBlockers(mockFilePath, tempDir)
+
+      expect(blocker.clarified).toBe('clarified')
+    })
+
+    it('should keep multi-line values inside the item', async () => {
+      const multiline = { ...sampleBlocker, context: 'Line one\n\n## Blocker #fake\n- [ ] `x` **other** — injected' }
+
+      await insertChecklistBlocker(mockFilePath, multiline, tempDir)
+
+      const blockers = await readBlockers(mockFilePath, tempDir)
+      expect(blockers).toHaveLength(1)
+      expect(blockers[0].context).toBe(multiline.context)
+    })
+
+    it('should count checklist items for rotation', async () => {
+      await insertChecklistBlocker(mockFilePath, sampleBlocker, tempDir)
+      await insertChecklistBlocker(mockFilePath, softBlocker, tempDir)
+
+      expect(await getBlockerCount(mockFilePath, tempDir)).toBe(2)
+    })
+
+    it('should regenerate the file as a checklist', async () => {
+      await writeFile(join(tempDir, mockFilePath), '# Blockers\n\n## Hard blockers\n\n- [ ] `old` **other** — Old?\n', 'utf-8')
+
+      await rebuildBlockersFile(
+        mockFilePath,
+        [softBlocker, { ...sampleBlocker, clarified: 'clarified', clarification: 'Yes' }],
+        tempDir,
+        undefined,
+        'checklist'
+      )
+
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      expect(content.startsWith('# Blockers\n')).toBe(true)
+      expect(content).not.toContain('`old`')
+      const blockers = await readBlockers(mockFilePath, tempDir)
+      expect(blockers.map(b => [b.id, b.clarified])).toEqual([
+        [sampleBlocker.id, 'clarified'],
+        ['soft-1', 'pending'],
+      ])
+      expect(blockers[0].clarification).toBe('Yes')
+    })
+
+    it('should reject directory traversal attempts', async () => {
+      await expect(
+        insertChecklistBlocker('../../etc/passwd', sampleBlocker, tempDir)
+      ).rejects.toThrow(/directory traversal/i)
+    })
+  })
+
+  describe('replaceBlockerEntry', () => {
+    const second: Blocker = { ...sampleBlocker, id: 'second-1', question: 'Second question?' }
+    const recurring = { occurrences: 3, lastSeen: '2026-02-14T08:00:00Z' }
+
+    it('should rewrite only the matching entry', async () => {
+      const path = join(tempDir, mockFilePath)
+      await appendBlocker(mockFilePath, sampleBlocker, tempDir)
+      await appendBlocker(mockFilePath, second, tempDir)
+      await writeFile(path, '# Run notes\n\nKeep this.\n\n' + (await readFile(path, 'utf-8')), 'utf-8')
+      const before = await readFile(path, 'utf-8')
+
+      const result = await replaceBlockerEntry(mockFilePath, { ...sampleBlocker, ...recurring }, tempDir)
+
+      expect(result).toBe(true)
+      const after = await readFile(path, 'utf-8')
+      expect(after).toContain('Occurrences: 3 (last seen 2026-02-14T08:00:00Z)')
+      expect(after.startsWith('# Run notes\n\nKeep this.\n\n')).toBe(true)
+      expect(after.slice(after.indexOf('## Blocker #second-1'))).toBe(before.slice(before.indexOf('## Blocker #second-1')))
+
+      const blockers = await readBlockers(mockFilePath, tempDir)
+      expect(blockers.map(b => [b.id, b.occurrences, b.lastSeen])).toEqual([
+        [sampleBlocker.id, 3, recurring.lastSeen],
+        ['second-1', undefined, undefined],
+      ])
+    })
+
+    it('should rewrite a checklist item in place', async () => {
+      await insertChecklistBlocker(mockFilePath, sampleBlocker, tempDir)
+      await insertChecklistBlocker(mockFilePath, second, tempDir)
+
+      await replaceBlockerEntry(mockFilePath, { ...second, ...recurring }, tempDir)
+
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      expect(content).toContain('  - Occurrences: 3 (last seen 2026-02-14T08:00:00Z)\n')
+      const blockers = await readBlockers(mockFilePath, tempDir)
+      expect(blockers.map(b => [b.id, b.occurrences])).toEqual([
+        [sampleBlocker.id, undefined],
+        ['second-1', 3],
+      ])
+    })
+
+    it('should return false when the blocker is not in the file', async () => {
+      await appendBlocker(mockFilePath, sampleBlocker, tempDir)
+
+      expect(await replaceBlockerEntry(mockFilePath, second, tempDir)).toBe(false)
+    })
+
+    it('should reject directory traversal attempts', async () => {
+      await expect(
+        replaceBlockerEntry('../../etc/passwd', sampleBlocker, tempDir)
+      ).rejects.toThrow(/directory traversal/i)
+    })
+  })
+
+  describe('updateBlockerStatus', () => {
+    const second: Blocker = { ...sampleBlocker, id: 'second-1', question: 'Second question?' }
+
+    it('should add status and clarification, leaving everything else byte-for-byte', async () => {
+      const path = join(tempDir, mockFilePath)
+      await appendBlocker(mockFilePath, sampleBlocker, tempDir)
+      await appendBlocker(mockFilePath, second, tempDir)
+      await writeFile(path, '# Run notes\n\nKeep  this.\n\n' + (await readFile(path, 'utf-8')), 'utf-8')
+      const before = await readFile(path, 'utf-8')
+
+      const result = await updateBlockerStatus(
+        mockFilePath,
+        sampleBlocker.id,
+        { clarified: 'clarified', clarification: 'Yes, always.\nBut log it.' },
+        tempDir
+      )
+
+      expect(result).toBe(true)
+      const after = await readFile(path, 'utf-8')
+      const added = '**Status:** clarified\n\n### User Clarification\nYes, always.\nBut log it.\n\n'
+      expect(after.replace(added, '')).toBe(before)
+      expect(await readFile(getBackupPath(path, tempDir), 'utf-8')).toBe(before)
+
+      const blockers = await readBlockers(mockFilePath, tempDir)
+      expect(blockers.map(b => [b.id, b.clarified, b.clarification])).toEqual([
+        [sampleBlocker.id, 'clarified', 'Yes, always.\nBut log it.'],
+        ['second-1', undefined, undefined],
+      ])
+    })
+
+    it('should keep CRLF line endings', async () => {
+      const path = join(tempDir, mockFilePath)
+      await appendBlocker(mockFilePath, sampleBlocker, tempDir)
+      await appendBlocker(mockFilePath, second, tempDir)
+      const before = (await readFile(path, 'utf-8')).replace(/\n/g, '\r\n')
+      await writeFile(path, before, 'utf-8')
+
+      expect(await updateBlockerStatus(mockFilePath, sampleBlocker.id, { clarified: 'clarified', clarification: 'Yes.\nLog it.' }, tempDir)).toBe(true)
+
+      const after = await readFile(path, 'utf-8')
+      expect(after.replace('**Status:** clarified\r\n\r\n### User Clarification\r\nYes.\r\nLog it.\r\n\r\n', '')).toBe(before)
+      expect(after.replace(/\r\n/g, '')).not.toContain('\n')
+      expect((await readBlockers(mockFilePath, tempDir))[0].clarification).toBe('Yes.\nLog it.')
+    })
+
+    it('should keep CRLF line endings in the checklist layout', async () => {
+      const path = join(tempDir, mockFilePath)
+      await insertChecklistBlocker(mockFilePath, sampleBlocker, tempDir)
+      await insertChecklistBlocker(mockFilePath, second, tempDir)
+      await writeFile(path, (await readFile(path, 'utf-8')).replace(/\n/g, '\r\n'), 'utf-8')
+
+      expect(await updateBlockerStatus(mockFilePath, second.id, { clarified: 'clarified', clarification: 'A\nB' }, tempDir)).toBe(true)
+
+      const after = await readFile(path, 'utf-8')
+      expect(after.replace(/\r\n/g, '')).not.toContain('\n')
+      expect((await readBlockers(mockFilePath, tempDir)).find(b => b.id === second.id)?.clarified).toBe('clarified')
+    })
+
+    it('should replace an existing status and clarification where they are', async () => {
+      const path = join(tempDir, mockFilePath)
+      await appendBlocker(mockFilePath, { ...sampleBlocker, clarified: 'clarified', clarification: 'Old answer' }, tempDir)
+      await appendBlocker(mockFilePath, second, tempDir)
+      const before = await readFile(path, 'utf-8')
+
+      await updateBlockerStatus(mockFilePath, sampleBlocker.id, { clarified: 'skipped', clarification: 'New answer' }, tempDir)
+
+      const after = await readFile(path, 'utf-8')
+      expect(after).toBe(
+        before.replace('**Status:** clarified', '**Status:** skipped').replace('Old answer', 'New answer')
+      )
+    })
+
+    it('should keep the clarification when only the status changes', async () => {
+      await appendBlocker(mockFilePath, { ...sampleBlocker, clarification: 'Kept' }, tempDir)
+
+      await updateBlockerStatus(mockFilePath, sampleBlocker.id, { clarified: 'pending' }, tempDir)
+
+      const [blocker] = await readBlockers(mockFilePath, tempDir)
+      expect([blocker.clarified, blocker.clarification]).toEqual(['pending', 'Kept'])
+    })
+
+    it('should tick a checklist item and add its fields', async () => {
+      const path = join(tempDir, mockFilePath)
+      await insertChecklistBlocker(mockFilePath, { ...sampleBlocker, occurrences: 2, lastSeen: '2026-02-14T08:00:00Z' }, tempDir)
+      await insertChecklistBlocker(mockFilePath, second, tempDir)
+      const before = await readFile(path, 'utf-8')
+
+      await updateBlockerStatus(mockFilePath, sampleBlocker.id, { clarified: 'skipped', clarification: 'Not now\nmaybe later' }, tempDir)
+
+      const after = await readFile(path, 'utf-8')
+      expect(after).toBe(
+        before
+          .replace(`- [ ] \`${sampleBlocker.id}\``, `- [x] \`${sampleBlocker.id}\``)
+          .replace('  - Occurrences:', '  - Status: skipped\n  - Clarification: Not now\n    maybe later\n  - Occurrences:')
+      )
+
+      await updateBlockerStatus(mockFilePath, sampleBlocker.id, { clarified: 'pending', clarification: 'Asked again' }, tempDir)
+
+      const blockers = await readBlockers(mockFilePath, tempDir)
+      expect(blockers.map(b => [b.id, b.clarified, b.clarification])).toEqual([
+        [sampleBlocker.id, 'pending', 'Asked again'],
+        ['second-1', 'pending', undefined],
+      ])
+    })
+
+    it('should return false when the blocker is not in the file', async () => {
+      await appendBlocker(mockFilePath, sampleBlocker, tempDir)
+
+      expect(await updateBlockerStatus(mockFilePath, second.id, { clarified: 'clarified' }, tempDir)).toBe(false)
+      expect(await Bun.file(getBackupPath(join(tempDir, mockFilePath), tempDir)).exists()).toBe(false)
+    })
+
+    it('should reject directory traversal attempts', async () => {
+      await expect(
+        updateBlockerStatus('../../etc/passwd', sampleBlocker.id, { clarified: 'clarified' }, tempDir)
+      ).rejects.toThrow(/directory traversal/i)
+    })
   })
 
   describe('integration test', () => {
@@ -404,6 +1046,64 @@ Content
     })
   })
 
+  describe('concurrent writes', () => {
+    const blockerN = (i: number): Blocker => ({ ...sampleBlocker, id: `blocker-${i}`, question: `Question ${i}?` })
+
+    it('should keep every entry intact when appends run in parallel', async () => {
+      const results = await Promise.all(
+        Array.from({ length: 20 }, (_, i) => appendBlocker(mockFilePath, blockerN(i), tempDir))
+      )
+
+      expect(results.every(Boolean)).toBe(true)
+      const blockers = await readBlockers(mockFilePath, tempDir)
+      expect(blockers.map(b => b.id).sort()).toEqual(Array.from({ length: 20 }, (_, i) => `blocker-${i}`).sort())
+      expect(blockers.every(b => b.question === `Question ${b.id.slice('blocker-'.length)}?`)).toBe(true)
+    })
+
+    it('should keep every checklist item when inserts run in parallel', async () => {
+      await Promise.all(
+        Array.from({ length: 10 }, (_, i) => insertChecklistBlocker(mockFilePath, blockerN(i), tempDir))
+      )
+
+      expect(await getBlockerCount(mockFilePath, tempDir)).toBe(10)
+    })
+
+    it('should not lose appends that race a rotation', async () => {
+      for (let i = 0; i < 3; i++) {
+        await appendBlocker(mockFilePath, blockerN(i), tempDir)
+      }
+
+      await Promise.all([
+        rotateIfNeeded(mockFilePath, 3, tempDir),
+        ...Array.from({ length: 5 }, (_, i) => appendBlocker(mockFilePath, blockerN(i + 3), tempDir)),
+      ])
+
+      // Every entry ends up in exactly one of the live file and the archive
+      const files = await readdir(tempDir)
+      const archive = files.find(f => f.startsWith('blockers-') && f.endsWith('.md'))
+      expect(archive).toBeDefined()
+      const archived = await readBlockers(archive!, tempDir)
+      const live = await readBlockers(mockFilePath, tempDir)
+      expect([...archived, ...live].map(b => b.id).sort()).toEqual(
+        Array.from({ length: 8 }, (_, i) => `blocker-${i}`).sort()
+      )
+    })
+
+    it('should release the lock file after writing', async () => {
+      await appendBlocker(mockFilePath, sampleBlocker, tempDir)
+
+      expect(await Bun.file(getLockPath(join(tempDir, mockFilePath), tempDir)).exists()).toBe(false)
+    })
+
+    it('should keep lock, fingerprint and backup files out of the log directory', async () => {
+      await appendBlocker(mockFilePath, sampleBlocker, tempDir)
+      await appendBlocker(mockFilePath, { ...sampleBlocker, id: 'second' }, tempDir)
+      await updateBlockerStatus(mockFilePath, sampleBlocker.id, { clarified: 'clarified' }, tempDir)
+
+      expect((await readdir(tempDir)).sort()).toEqual(['.opencode', basename(mockFilePath)])
+    })
+  })
+
   describe('template system', () => {
     it('should use default template when custom template does not exist', async () => {
       // No custom template in tempDir/.opencode/
@@ -505,6 +1205,174 @@ Progress blocked: {{blocksProgress}}
       expect(content).toContain('Best performance')
     })
 
+    it('should render conditionals, loops and helpers', async () => {
+      const opencodeDir = join(tempDir, '.opencode')
+      await mkdir(opencodeDir, { recursive: true })
+      await writeFile(
+        join(opencodeDir, 'BLOCKERS.template.md'),
+        [
+          '## Blocker #{{id}}',
+          '**Logged:** {{date timestamp "YYYY-MM-DD"}}',
+          '**Summary:** {{truncate question 10}}',
+          '{{#if (eq category "permission")}}',
+          '> Needs a permission decision',
+          '{{/if}}',
+          '{{#each options}}',
+          '- [{{@index}}] {{this}}{{#if @last}} (last){{/if}}',
+          '{{else}}',
+          'No options recorded',
+          '{{/each}}',
+          '---',
+          '',
+        ].join('\n'),
+        'utf-8'
+      )
+
+      await appendBlocker(mockFilePath, { ...sampleBlocker, options: ['Allow', 'Deny ```x```'] }, tempDir)
+      await appendBlocker(mockFilePath, { ...sampleBlocker, id: 'blocker-2', category: 'other' }, tempDir)
+
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      expect(content).toContain('**Logged:** 2026-02-13\n')
+      expect(content).toContain('**Summary:** Allow bas…\n')
+      expect(content.match(/Needs a permission decision/g)).toHaveLength(1)
+      expect(content).toContain('- [0] Allow\n- [1] Deny \\`\\`\\`x\\`\\`\\` (last)\n')
+      expect(content).toContain('No options recorded')
+      expect(content).not.toContain('{{')
+    })
+
+    it('should fall back to the default template when the custom one is malformed', async () => {
+      const opencodeDir = join(tempDir, '.opencode')
+      await mkdir(opencodeDir, { recursive: true })
+      await writeFile(
+        join(opencodeDir, 'BLOCKERS.template.md'),
+        '# {{id}}\n{{#if options}}\n{{question}}\n---\n',
+        'utf-8'
+      )
+
+      const result = await appendBlocker(mockFilePath, sampleBlocker, tempDir)
+
+      expect(result).toBe(true)
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      expect(content).toContain(`## Blocker #${sampleBlocker.id}`)
+    })
+
+    it('should render a baseline-style custom template unchanged', async () => {
+      const opencodeDir = join(tempDir, '.opencode')
+      await mkdir(opencodeDir, { recursive: true })
+      const baseline = [
+        '',
+        '## Blocker #{{id}}',
+        '**Timestamp:** {{timestamp}}  ',
+        '**Session:** {{sessionId}}  ',
+        '**Category:** {{category}}',
+        '',
+        '### Question',
+        '{{question}}',
+        '',
+        '### Context',
+        '{{context}}',
+        '',
+        '{{optionsSection}}',
+        '{{chosenSection}}',
+        '',
+        '### Additional Info',
+        'Blocks Progress: {{blocksProgress}}',
+        '',
+        '---',
+        '',
+      ].join('\n')
+      await writeFile(join(opencodeDir, 'BLOCKERS.template.md'), baseline, 'utf-8')
+
+      await appendBlocker(mockFilePath, { ...sampleBlocker, context: '' }, tempDir)
+
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      expect(content).toContain('### Context\nNo additional context\n')
+      expect(content).toContain('Blocks Progress: Yes\n')
+      const [blocker] = await readBlockers(mockFilePath, tempDir)
+      expect(blocker.context).toBe('')
+    })
+
+    it('should round-trip entries rendered with the shipped template', async () => {
+      const opencodeDir = join(tempDir, '.opencode')
+      await mkdir(opencodeDir, { recursive: true })
+      const shipped = await readFile(resolve(import.meta.dir, '../../.opencode/BLOCKERS.template.md'), 'utf-8')
+      await writeFile(join(opencodeDir, 'BLOCKERS.template.md'), shipped, 'utf-8')
+
+      const richBlocker: Blocker = {
+        ...sampleBlocker,
+        context: '',
+        options: ['Option A', 'Option B'],
+        chosenOption: 'Option B',
+        chosenReasoning: 'Smaller change',
+      }
+      await appendBlocker(mockFilePath, richBlocker, tempDir)
+
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      expect(content).toContain('### Context\nNo additional context\n')
+      expect(content).toContain('### Options Considered\n1. Option A\n2. Option B\n')
+
+      const [blocker] = await readBlockers(mockFilePath, tempDir)
+      expect(blocker).toMatchObject({
+        context: '',
+        options: ['Option A', 'Option B'],
+        chosenOption: 'Option B',
+        chosenReasoning: 'Smaller change',
+        blocksProgress: true,
+      })
+    })
+
+    it('should prefer a per-category template over the generic one', async () => {
+      const opencodeDir = join(tempDir, '.opencode')
+      await mkdir(opencodeDir, { recursive: true })
+      await writeFile(join(opencodeDir, 'BLOCKERS.template.md'), '## Blocker #{{id}}\nGeneric: {{question}}\n---\n', 'utf-8')
+      await writeFile(
+        join(opencodeDir, 'BLOCKERS.security.template.md'),
+        '## Blocker #{{id}}\n### Risk\n{{question}}\n### Rollback\n{{default chosenReasoning "TBD"}}\n---\n',
+        'utf-8'
+      )
+
+      await appendBlocker(mockFilePath, { ...sampleBlocker, id: 'sec-1', category: 'security' }, tempDir)
+      await appendBlocker(mockFilePath, { ...sampleBlocker, id: 'gen-1' }, tempDir)
+
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      expect(content).toContain('## Blocker #sec-1\n### Risk\nAllow bash command: git status?\n### Rollback\nTBD\n')
+      expect(content).toContain('## Blocker #gen-1\nGeneric: Allow bash command: git status?\n')
+
+      const blockers = await readBlockers(mockFilePath, tempDir)
+      expect(blockers.map(b => [b.id, b.question])).toEqual([
+        ['sec-1', sampleBlocker.question],
+        ['gen-1', sampleBlocker.question],
+      ])
+    })
+
+    it('should fall back to the generic template when the category template is malformed', async () => {
+      const opencodeDir = join(tempDir, '.opencode')
+      await mkdir(opencodeDir, { recursive: true })
+      await writeFile(join(opencodeDir, 'BLOCKERS.template.md'), '## Blocker #{{id}}\nGeneric: {{question}}\n---\n', 'utf-8')
+      await writeFile(join(opencodeDir, 'BLOCKERS.destructive.template.md'), '{{#each options}}\n', 'utf-8')
+
+      await appendBlocker(mockFilePath, { ...sampleBlocker, category: 'destructive' }, tempDir)
+
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      expect(content).toContain('Generic: Allow bash command: git status?')
+    })
+
+    it('should cache templates per project and category', async () => {
+      const opencodeDir = join(tempDir, '.opencode')
+      await mkdir(opencodeDir, { recursive: true })
+      await writeFile(join(opencodeDir, 'BLOCKERS.security.template.md'), '# Security {{id}}\n---\n', 'utf-8')
+
+      await appendBlocker(mockFilePath, { ...sampleBlocker, category: 'security' }, tempDir)
+      await appendBlocker(mockFilePath, sampleBlocker, tempDir)
+      await writeFile(join(opencodeDir, 'BLOCKERS.permission.template.md'), '# Permission {{id}}\n---\n', 'utf-8')
+      await appendBlocker(mockFilePath, sampleBlocker, tempDir)
+
+      const content = await readFile(join(tempDir, mockFilePath), 'utf-8')
+      expect(content.match(/# Security/g)).toHaveLength(1)
+      expect(content).not.toContain('# Permission')
+      expect(content.match(/## Blocker #/g)).toHaveLength(2)
+    })
+
     it('should cache template per project directory', async () => {
       // Create custom template BEFORE any calls
       const opencodeDir = join(tempDir, '.opencode')
@@ -0,0 +1,358 @@
+/**
+ * Tests for blockers-parser.ts - Reading BLOCKERS.md back into Blocker objects
+ *
+ * Covers: default template, custom templates, status/clarification sections,
+ * unescaping of sanitized markdown, hand-edited and mixed-layout files.
+ *
+ * @module tests/utils/blockers-parser
+ */
+
+import { describe, it, expect } from 'bun:test'
+import {
+  parseBlockersMarkdown,
+  parseChecklistMarkdown,
+  deriveTemplateSchema,
+  unescapeMarkdown,
+} from '../../src/utils/blockers-parser'
+
+const DEFAULT_TEMPLATE = `
+## Blocker #{{id}}
+**Timestamp:** {{timestamp}}
+**Session:** {{sessionId}}
+**Category:** {{category}}
+
+### Question
+{{question}}
+
+### Context
+{{context}}
+
+{{optionsSection}}
+{{chosenSection}}
+
+### Additional Info
+Blocks Progress: {{blocksProgress}}
+
+---
+`
+
+describe('blockers-parser', () => {
+  describe('parseBlockersMarkdown', () => {
+    it('should parse entries rendered with the default template', () => {
+      const content = `
+## Blocker #1771161981594-ses_abc-5db59e
+**Timestamp:** 2026-02-15T14:32:10.594Z
+**Session:** ses_abc
+**Category:** architecture
+
+### Question
+Which auth framework should I use?
+
+### Context
+Task: #3 "Implement auth"
+Files: src/auth.ts:45
+
+### Options Considered
+1. Passport
+2. Lucia
+
+### Chosen Option
+Lucia
+
+### Reasoning
+Smaller surface area
+
+### Additional Info
+Blocks Progress: No
+
+---
+`
+      const [blocker] = parseBlockersMarkdown(content, [DEFAULT_TEMPLATE])
+
+      expect(blocker).toEqual({
+        id: '1771161981594-ses_abc-5db59e',
+        timestamp: '2026-02-15T14:32:10.594Z',
+        sessionId: 'ses_abc',
+        category: 'architecture',
+        question: 'Which auth framework should I use?',
+        context: 'Task: #3 "Implement auth"\nFiles: src/auth.ts:45',
+        blocksProgress: false,
+        options: ['Passport', 'Lucia'],
+        chosenOption: 'Lucia',
+        chosenReasoning: 'Smaller surface area',
+      })
+    })
+
+    it('should parse multiple entries in file order', () => {
+      const content = [
+        '# Blockers\n',
+        '## Blocker #a\n**Category:** security\n\n### Question\nFirst?\n\n---\n',
+        '## Blocker #b\n**Category:** question\n\n### Question\nSecond?\n\n---\n',
+      ].join('\n')
+
+      const blockers = parseBlockersMarkdown(content, [DEFAULT_TEMPLATE])
+
+      expect(blockers.map(b => b.id)).toEqual(['a', 'b'])
+      expect(blockers.map(b => b.question)).toEqual(['First?', 'Second?'])
+      expect(blockers[0].category).toBe('security')
+    })
+
+    it('should read Status lines and User Clarification sections', () => {
+      const content = `## Blocker #x1
+**Category:** architecture
+
+### Question
+RS256 or HS256?
+
+### Additional Info
+Blocks Progress: Yes
+
+---
+
+**Status:** clarified
+
+### User Clarification
+Use RS256, keys live in Vault.
+
+---
+`
+      const [blocker] = parseBlockersMarkdown(content, [DEFAULT_TEMPLATE])
+
+      expect(blocker.clarified).toBe('clarified')
+      expect(blocker.clarification).toBe('Use RS256, keys live in Vault.')
+      expect(blocker.blocksProgress).toBe(true)
+    })
+
+    it('should treat a clarification without status as clarified', () => {
+      const content = `## Blocker #x2
+### Question
+Delete legacy table?
+
+### User Clarification
+Yes, drop it.
+`
+      const [blocker] = parseBlockersMarkdown(content, [DEFAULT_TEMPLATE])
+
+      expect(blocker.clarified).toBe('clarified')
+      expect(blocker.clarification).toBe('Yes, drop it.')
+    })
+
+    it('should parse entries rendered with a custom template', () => {
+      const template = `### Decision {{id}} ({{category}})
+- When: {{timestamp}}
+- Session: {{sessionId}}
+
+#### Ask
+{{question}}
+
+#### Background
+{{context}}
+`
+      const content = `### Decision 42-ses-abc (security)
+- When: 2026-02-15T10:00:00Z
+- Session: ses-xyz
+
+#### Ask
+Rotate the API keys now?
+
+#### Background
+Found keys committed in config/dev.json
+`
+      const [blocker] = parseBlockersMarkdown(content, [template, DEFAULT_TEMPLATE])
+
+      expect(blocker.id).toBe('42-ses-abc')
+      expect(blocker.timestamp).toBe('2026-02-15T10:00:00Z')
+      expect(blocker.sessionId).toBe('ses-xyz')
+      expect(blocker.question).toBe('Rotate the API keys now?')
+      expect(blocker.context).toBe('Found keys committed in config/dev.json')
+    })
+
+    it('should read files mixing custom and default layouts', () => {
+      const template = `## Blocker #{{id}}
+**Kind:** {{category}}
+
+#### Ask
+{{question}}
+`
+      const content = `## Blocker #old
+**Category:** destructive
+
+### Question
+Old style?
+
+---
+
+## Blocker #new
+**Kind:** permission
+
+#### Ask
+New style?
+`
+      const blockers = parseBlockersMarkdown(content, [template, DEFAULT_TEMPLATE])
+
+      expect(blockers).toHaveLength(2)
+      expect(blockers[0]).toMatchObject({ id: 'old', category: 'destructive', question: 'Old style?' })
+      expect(blockers[1]).toMatchObject({ id: 'new', category: 'permission', question: 'New style?' })
+    })
+
+    it('should stop an entry at an unrelated top-level heading', () => {
+      const content = `## Blocker #a
+### Question
+Only question?
+
+## Notes from the morning review
+This is not part of the blocker.
+`
+      const [blocker] = parseBlockersMarkdown(content, [DEFAULT_TEMPLATE])
+
+      expect(blocker.question).toBe('Only question?')
+      expect(blocker.context).toBe('')
+    })
+
+    it('should coerce unknown categories to other', () => {
+      const content = '## Blocker #a\n**Category:** vibes\n'
+
+      const [blocker] = parseBlockersMarkdown(content, [DEFAULT_TEMPLATE])
+
+      expect(blocker.category).toBe('other')
+    })
+
+    it('should keep categories the project configured', () => {
+      const content = '## Blocker #a\n**Category:** compliance\n'
+
+      const [blocker] = parseBlockersMarkdown(content, [DEFAULT_TEMPLATE], ['question', 'other', 'compliance'])
+
+      expect(blocker.category).toBe('compliance')
+    })
+
+    it('should map the default "No additional context" placeholder to empty context', () => {
+      const content = '## Blocker #a\n### Context\nNo additional context\n'
+
+      const [blocker] = parseBlockersMarkdown(content, [DEFAULT_TEMPLATE])
+
+      expect(blocker.context).toBe('')
+    })
+
+    it('should return empty array for content without entries', () => {
+      expect(parseBlockersMarkdown('# Just a title\n\nSome notes.', [DEFAULT_TEMPLATE])).toEqual([])
+      expect(parseBlockersMarkdown('', [])).toEqual([])
+    })
+
+    it('should handle CRLF line endings', () => {
+      const content = '## Blocker #a\r\n### Question\r\nWindows?\r\n'
+
+      const [blocker] = parseBlockersMarkdown(content, [DEFAULT_TEMPLATE])
+
+      expect(blocker.question).toBe('Windows?')
+    })
+  })
+
+  describe('parseChecklistMarkdown', () => {
+    const checklist = `# Overnight blockers
+
+## Hard blockers
+
+- [ ] \`b-1\` **architecture** — Which auth framework should I use?
+  - Session: ses_abc
+  - Timestamp: 2026-02-15T14:32:10.594Z
+  - Context: Task: #3 "Implement auth"
+    Files: src/auth.ts:45
+  - Options:
+    1. Passport
+    2. Lucia
+  - Chosen option: Lucia
+  - Reasoning: Smaller surface area
+- [x] \`b-2\` **security** — Rotate the API keys?
+  - Session: ses_abc
+  - Timestamp: 2026-02-15T15:00:00.000Z
+
+## Soft decisions
+
+- [X] \`b-3\` **question** — Tabs or spaces?
+  - Session: ses_abc
+  - Timestamp: 2026-02-15T16:00:00.000Z
+  - Status: skipped
+`
+
+    it('should parse items with fields, options and multi-line context', () => {
+      const [first] = parseChecklistMarkdown(checklist)
+
+      expect(first).toEqual({
+        id: 'b-1',
+        timestamp: '2026-02-15T14:32:10.594Z',
+        sessionId: 'ses_abc',
+        category: 'architecture',
+        question: 'Which auth framework should I use?',
+        context: 'Task: #3 "Implement auth"\nFiles: src/auth.ts:45',
+        blocksProgress: true,
+        options: ['Passport', 'Lucia'],
+        chosenOption: 'Lucia',
+        chosenReasoning: 'Smaller surface area',
+        clarified: 'pending',
+      })
+    })
+
+    it('should treat ticked boxes as resolved', () => {
+      const blockers = parseChecklistMarkdown(checklist)
+
+      expect(blockers.map(b => b.clarified)).toEqual(['pending', 'clarified', 'skipped'])
+    })
+
+    it('should derive blocksProgress from the section', () => {
+      const blockers = parseChecklistMarkdown(checklist)
+
+      expect(blockers.map(b => b.blocksProgress)).toEqual([true, true, false])
+    })
+
+    it('should ignore entry-layout content', () => {
+      const content = '## Blocker #a\n### Question\nFirst?\n\n- [ ] plain todo item\n'
+
+      expect(parseChecklistMarkdown(content)).toEqual([])
+    })
+  })
+
+  describe('deriveTemplateSchema', () => {
+    it('should derive header, inline fields and sections from the default template', () => {
+      const schema = deriveTemplateSchema(DEFAULT_TEMPLATE)
+
+      expect(schema.header.test('## Blocker #123-abc')).toBe(true)
+      expect(schema.sections.get('question')).toBe('question')
+      expect(schema.sections.get('context')).toBe('context')
+      expect(schema.inline.map(f => f.variables[0])).toEqual(
+        ['timestamp', 'sessionId', 'category', 'blocksProgress']
+      )
+    })
+
+    it('should read through block tags, loops and helpers', () => {
+      const schema = deriveTemplateSchema([
+        '## Blocker #{{id}}',
+        '**Category:** {{upper category}} | **When:** {{date timestamp "YYYY-MM-DD"}}',
+        '{{#if context}}',
+        '### Context',
+        '{{default context "none"}}',
+        '{{/if}}',
+        '{{#each options}}',
+        '**Option:** {{this}}',
+        '{{/each}}',
+      ].join('\n'))
+
+      expect(schema.inline).toHaveLength(1)
+      expect(schema.inline[0].variables).toEqual(['category', 'timestamp'])
+      expect(schema.sections.get('context')).toBe('context')
+    })
+
+    it('should escape regex characters in template labels', () => {
+      const schema = deriveTemplateSchema('## Blocker #{{id}}\n(*) Category [{{category}}]\n')
+
+      expect(schema.inline[0].pattern.test('(*) Category [security]')).toBe(true)
+      expect(schema.inline[0].pattern.test('xx Category [security]')).toBe(false)
+    })
+  })
+
+  describe('unescapeMarkdown', () => {
+    it('should reverse sanitizeMarkdown escaping', () => {
+      expect(unescapeMarkdown('\\## Blocker #fake')).toBe('## Blocker #fake')
+      expect(unescapeMarkdown('\\`\\`\\`js')).toBe('```js')
+    })
+  })
+})
@@ -0,0 +1,559 @@
+/**
+ * Tests for blockers-store.ts - Structured JSONL blocker store
+ *
+ * Uses real temp files (same approach as blockers-file tests).
+ * Covers: append/read, idempotency, malformed lines, legacy import,
+ * markdown view regeneration and clarification merge-back, lookups in
+ * the latest archive.
+ *
+ * @module tests/utils/blockers-store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { resolve, join } from 'node:path'
+import { rm, mkdir, readFile, writeFile, readdir, stat } from 'node:fs/promises'
+import {
+  readStore,
+  appendToStore,
+  writeStore,
+  rebuildBlockersView,
+  archiveBlockers,
+  recordRecurrence,
+  findArchivedRecurrence,
+  findRelatedBlockers,
+  readBlockerLogs,
+  readKnownBlockers,
+  setBlockerStatus,
+  withKnownBlockersCache,
+} from '../../src/utils/blockers-store'
+import { appendBlocker, readBlockers, clearTemplateCache } from '../../src/utils/blockers-file'
+import { createSinks, writeToSinks } from '../../src/sinks'
+import type { LogClient } from '../../src/config'
+import type { Blocker, PluginConfig } from '../../src/types'
+
+/**
+ * Writes a blocker the way the blocker tool does: to every configured sink
+ */
+async function writeBlocker(config: PluginConfig, blocker: Blocker, projectDir: string, logClient?: LogClient): Promise<boolean> {
+  return (await writeToSinks(createSinks(config), blocker, config, projectDir, logClient)).length === 0
+}
+
+describe('blockers-store', () => {
+  const tempDir = resolve('/tmp/blocker-diverter-store-test')
+  const storeFile = '.opencode/blockers.jsonl'
+  const blockersFile = 'BLOCKERS.md'
+
+  const config = {
+    enabled: true,
+    defaultDivertBlockers: false,
+    blockersFile,
+    storeFile,
+    maxBlockersPerRun: 50,
+    cooldownMs: 5000,
+    maxReprompts: 5,
+    repromptWindowMs: 300000,
+    completionMarker: 'BLOCKER_DIVERTER_DONE!',
+    promptTimeoutMs: 30000,
+  } satisfies PluginConfig
+
+  const sampleBlocker: Blocker = {
+    id: '1771161981594-session-123-abc123',
+    timestamp: '2026-02-13T10:00:00Z',
+    sessionId: 'session-123',
+    category: 'architecture',
+    question: 'RS256 or HS256?',
+    context: 'Setting up JWT validation',
+    blocksProgress: true,
+  }
+
+  beforeEach(async () => {
+    await mkdir(tempDir, { recursive: true })
+    clearTemplateCache()
+  })
+
+  afterEach(async () => {
+    try {
+      await rm(tempDir, { recursive: true, force: true })
+    } catch {
+      // Ignore cleanup errors
+    }
+  })
+
+  describe('appendToStore / readStore', () => {
+    it('should return empty array when store does not exist', async () => {
+      expect(await readStore(storeFile, tempDir)).toEqual([])
+    })
+
+    it('should write one JSON record per line with explicit pending status', async () => {
+      const result = await appendToStore(storeFile, sampleBlocker, tempDir)
+
+      expect(result).toBe(true)
+      const lines = (await readFile(join(tempDir, storeFile), 'utf-8')).trim().split('\n')
+      expect(lines).toHaveLength(1)
+      expect(JSON.parse(lines[0])).toEqual({ ...sampleBlocker, clarified: 'pending' })
+    })
+
+    it('should keep clarification fields', async () => {
+      const answered: Blocker = { ...sampleBlocker, clarified: 'clarified', clarification: 'RS256' }
+
+      await appendToStore(storeFile, answered, tempDir)
+
+      expect(await readStore(storeFile, tempDir)).toEqual([answered])
+    })
+
+    it('should not duplicate a record that is already stored', async () => {
+      await appendToStore(storeFile, sampleBlocker, tempDir)
+      await appendToStore(storeFile, sampleBlocker, tempDir)
+
+      expect(await readStore(storeFile, tempDir)).toHaveLength(1)
+    })
+
+    it('should skip malformed lines', async () => {
+      await mkdir(join(tempDir, '.opencode'), { recursive: true })
+      await writeFile(
+        join(tempDir, storeFile),
+        `${JSON.stringify(sampleBlocker)}\n{"id": "partial\n{"noId": true}\n`,
+        'utf-8'
+      )
+
+      const records = await readStore(storeFile, tempDir)
+
+      expect(records.map(r => r.id)).toEqual([sampleBlocker.id])
+    })
+
+    it('should let later records supersede earlier ones with the same ID', async () => {
+      await mkdir(join(tempDir, '.opencode'), { recursive: true })
+      const updated = { ...sampleBlocker, clarified: 'skipped' }
+      await writeFile(
+        join(tempDir, storeFile),
+        `${JSON.stringify(sampleBlocker)}\n${JSON.stringify(updated)}\n`,
+        'utf-8'
+      )
+
+      expect(await readStore(storeFile, tempDir)).toEqual([updated as Blocker])
+    })
+
+    it('should reject directory traversal attempts', async () => {
+      await expect(readStore('../../etc/passwd', tempDir)).rejects.toThrow(/directory traversal/i)
+      await expect(appendToStore('../../evil.jsonl', sampleBlocker, tempDir)).rejects.toThrow(/directory traversal/i)
+    })
+  })
+
+  describe('writeStore', () => {
+    it('should replace store contents', async () => {
+      await appendToStore(storeFile, sampleBlocker, tempDir)
+      const other = { ...sampleBlocker, id: 'other' }
+
+      await writeStore(storeFile, [other], tempDir)
+
+      expect((await readStore(storeFile, tempDir)).map(r => r.id)).toEqual(['other'])
+    })
+  })
+
+  describe('writing through the sinks', () => {
+    it('should write to store and markdown log', async () => {
+      const result = await writeBlocker(config, sampleBlocker, tempDir)
+
+      expect(result).toBe(true)
+      expect(await readStore(storeFile, tempDir)).toHaveLength(1)
+      const markdown = await readFile(join(tempDir, blockersFile), 'utf-8')
+      expect(markdown).toContain(`## Blocker #${sampleBlocker.id}`)
+    })
+
+    it('should import existing markdown entries when the store is created', async () => {
+      const legacy = { ...sampleBlocker, id: 'legacy-1', question: 'Old question?' }
+      await appendBlocker(blockersFile, legacy, tempDir)
+
+      await writeBlocker(config, sampleBlocker, tempDir)
+
+      const records = await readStore(storeFile, tempDir)
+      expect(records.map(r => r.id)).toEqual(['legacy-1', sampleBlocker.id])
+      expect(records[0].question).toBe('Old question?')
+    })
+
+    it('should only write markdown when no store is configured', async () => {
+      const { storeFile: _omit, ...markdownOnly } = config
+
+      await writeBlocker(markdownOnly, sampleBlocker, tempDir)
+
+      expect(await Bun.file(join(tempDir, storeFile)).exists()).toBe(false)
+      expect(await Bun.file(join(tempDir, blockersFile)).exists()).toBe(true)
+    })
+
+    it('should keep a read-this-first index of unresolved blockers at the top of the log', async () => {
+      const indexed = { ...config, priorityIndex: true }
+      await writeFile(join(tempDir, blockersFile), '# Overnight run\n', 'utf-8')
+
+      await writeBlocker(indexed, { ...sampleBlocker, id: 'low', shortId: 'B-0001', category: 'question' }, tempDir)
+      await writeBlocker(indexed, { ...sampleBlocker, id: 'high', shortId: 'B-0002', category: 'security', priority: 'p1' }, tempDir)
+
+      const markdown = await readFile(join(tempDir, blockersFile), 'utf-8')
+      expect(markdown.startsWith('<!-- blocker-diverter:index:start -->\n## Read this first\n\n- **p1** `B-0002`')).toBe(true)
+      expect(markdown).not.toContain('`B-0001`')
+      expect(markdown).toContain('<!-- blocker-diverter:index:end -->\n\n# Overnight run\n')
+      expect(markdown.match(/## Read this first/g)).toHaveLength(1)
+      expect((await readBlockers(blockersFile, tempDir)).map(b => [b.id, b.priority])).toEqual([
+        ['low', undefined],
+        ['high', 'p1'],
+      ])
+    })
+
+    it('should only append low-priority blockers, leaving the index as is', async () => {
+      const indexed = { ...config, priorityIndex: true }
+      await writeBlocker(indexed, { ...sampleBlocker, id: 'high', category: 'security' }, tempDir)
+      const before = await readFile(join(tempDir, blockersFile), 'utf-8')
+      const { ino } = await stat(join(tempDir, blockersFile))
+
+      await writeBlocker(indexed, { ...sampleBlocker, id: 'low', category: 'question' }, tempDir)
+
+      // Rewriting goes through a temp file and rename, which replaces the inode
+      expect((await stat(join(tempDir, blockersFile))).ino).toBe(ino)
+      expect((await readFile(join(tempDir, blockersFile), 'utf-8')).startsWith(before)).toBe(true)
+    })
+
+    it('should rotate log and store into the archive once rotateMaxEntries is reached', async () => {
+      const rotating = { ...config, archiveDir: 'archive', rotateMaxEntries: 2 }
+      await writeBlocker(rotating, { ...sampleBlocker, id: 'one' }, tempDir)
+      await writeBlocker(rotating, { ...sampleBlocker, id: 'two' }, tempDir)
+
+      await writeBlocker(rotating, { ...sampleBlocker, id: 'three' }, tempDir)
+
+      expect((await readStore(storeFile, tempDir)).map(r => r.id)).toEqual(['three'])
+      expect((await readBlockers(blockersFile, tempDir)).map(b => b.id)).toEqual(['three'])
+      expect(await readdir(join(tempDir, 'archive'))).toHaveLength(2)
+    })
+  })
+
+  describe('routing', () => {
+    const routed = {
+      ...config,
+      routes: [
+        { categories: ['security', 'destructive'], file: 'SECURITY-REVIEW.md' },
+        { blocksProgress: false, file: 'DECISIONS.md' },
+      ],
+    }
+    const security = { ...sampleBlocker, id: 'sec', category: 'security', question: 'Rotate the API keys?' }
+    const soft = { ...sampleBlocker, id: 'soft', blocksProgress: false, options: ['a', 'b'], question: 'Tabs or spaces?' }
+
+    it('should render each blocker into the log its route picks', async () => {
+      await writeBlocker(routed, sampleBlocker, tempDir)
+      await writeBlocker(routed, security, tempDir)
+      await writeBlocker(routed, soft, tempDir)
+
+      expect((await readBlockers(blockersFile, tempDir)).map(b => b.id)).toEqual([sampleBlocker.id])
+      expect((await readBlockers('SECURITY-REVIEW.md', tempDir)).map(b => b.id)).toEqual(['sec'])
+      expect((await readBlockers('DECISIONS.md', tempDir)).map(b => b.id)).toEqual(['soft'])
+      expect((await readStore(storeFile, tempDir)).map(r => r.id)).toEqual([sampleBlocker.id, 'sec', 'soft'])
+    })
+
+    it('should count a repeated question in the routed log holding it', async () => {
+      await writeBlocker(routed, security, tempDir)
+
+      const recurring = await recordRecurrence(routed, 'rotate the API keys?', tempDir)
+
+      expect(recurring?.occurrences).toBe(2)
+      const [entry] = await readBlockers('SECURITY-REVIEW.md', tempDir)
+      expect(entry.occurrences).toBe(2)
+      expect(await Bun.file(join(tempDir, blockersFile)).exists()).toBe(false)
+    })
+
+    it('should rebuild every routed log and keep answers written in them', async () => {
+      await writeBlocker(config, sampleBlocker, tempDir)
+      await writeBlocker(config, security, tempDir)
+      const path = join(tempDir, blockersFile)
+      await writeFile(path, (await readFile(path, 'utf-8')) + '\n**Status:** clarified\n\n### User Clarification\nYes, today.\n', 'utf-8')
+
+      // Routes added after the fact: the security blocker moves, with its answer
+      expect(await rebuildBlockersView(routed, tempDir)).toBe(true)
+
+      expect((await readBlockers(blockersFile, tempDir)).map(b => b.id)).toEqual([sampleBlocker.id])
+      const [moved] = await readBlockers('SECURITY-REVIEW.md', tempDir)
+      expect(moved.id).toBe('sec')
+      expect(moved.clarification).toBe('Yes, today.')
+      expect(await Bun.file(join(tempDir, 'DECISIONS.md')).exists()).toBe(false)
+    })
+  })
+
+  describe('package logs', () => {
+    const monorepo = { ...config, packageLogs: true }
+    const api = { ...sampleBlocker, id: 'api', package: 'packages/api', question: 'Which auth library?' }
+
+    beforeEach(async () => {
+      await mkdir(join(tempDir, 'packages', 'api'), { recursive: true })
+      await writeFile(join(tempDir, 'packages', 'api', 'package.json'), '{}', 'utf-8')
+    })
+
+    it('should log blockers of a package in its own BLOCKERS.md', async () => {
+      await writeBlocker(monorepo, sampleBlocker, tempDir)
+      await writeBlocker(monorepo, api, tempDir)
+
+      expect((await readBlockers(blockersFile, tempDir)).map(b => b.id)).toEqual([sampleBlocker.id])
+      expect((await readBlockers('packages/api/BLOCKERS.md', tempDir)).map(b => b.id)).toEqual(['api'])
+    })
+
+    it('should read every log and attribute package entries to their package', async () => {
+      await writeBlocker(monorepo, sampleBlocker, tempDir)
+      await appendBlocker('packages/api/BLOCKERS.md', { ...api, package: undefined, id: 'hand-written' }, tempDir)
+
+      const logs = await readBlockerLogs(monorepo, tempDir)
+
+      expect(logs.map(log => [log.file, log.package, log.blockers.map(b => [b.id, b.package])])).toEqual([
+        [blockersFile, undefined, [[sampleBlocker.id, undefined]]],
+        ['packages/api/BLOCKERS.md', 'packages/api', [['hand-written', 'packages/api']]],
+      ])
+    })
+
+    it('should count a repeated question in the package log holding it', async () => {
+      await writeBlocker(monorepo, api, tempDir)
+
+      expect((await recordRecurrence(monorepo, 'which auth library?', tempDir))?.occurrences).toBe(2)
+      expect((await readBlockers('packages/api/BLOCKERS.md', tempDir))[0].occurrences).toBe(2)
+    })
+
+    it('should rebuild package logs from the store', async () => {
+      await appendToStore(storeFile, sampleBlocker, tempDir)
+      await appendToStore(storeFile, api, tempDir)
+
+      expect(await rebuildBlockersView(monorepo, tempDir)).toBe(true)
+
+      expect((await readBlockers(blockersFile, tempDir)).map(b => b.id)).toEqual([sampleBlocker.id])
+      expect((await readBlockers('packages/api/BLOCKERS.md', tempDir)).map(b => b.id)).toEqual(['api'])
+    })
+  })
+
+  describe('checklist layout', () => {
+    it('should render written blockers as checklist items', async () => {
+      await writeBlocker({ ...config, layout: 'checklist' }, sampleBlocker, tempDir)
+
+      const markdown = await readFile(join(tempDir, blockersFile), 'utf-8')
+      expect(markdown).toContain(`- [ ] \`${sampleBlocker.id}\``)
+    })
+
+    it('should fold ticked boxes back into the store', async () => {
+      const checklist = { ...config, layout: 'checklist' as const }
+      await writeBlocker(checklist, sampleBlocker, tempDir)
+      const path = join(tempDir, blockersFile)
+      await writeFile(path, (await readFile(path, 'utf-8')).replace('- [ ]', '- [x]'), 'utf-8')
+
+      await rebuildBlockersView(checklist, tempDir)
+
+      const [record] = await readStore(storeFile, tempDir)
+      expect(record.clarified).toBe('clarified')
+      expect(await readFile(path, 'utf-8')).toContain(`- [x] \`${sampleBlocker.id}\``)
+    })
+  })
+
+  describe('external edits', () => {
+    const toasts: string[] = []
+    const client = { tui: { showToast: async ({ body }: { body: { message: string } }) => { toasts.push(body.message) } } }
+    const second = { ...sampleBlocker, id: 'second', question: 'Second?' }
+    const third = { ...sampleBlocker, id: 'third', question: 'Third?' }
+
+    beforeEach(() => {
+      toasts.length = 0
+    })
+
+    it('should add back blockers an editor save dropped, keeping the edit', async () => {
+      const path = join(tempDir, blockersFile)
+      await writeBlocker(config, sampleBlocker, tempDir, client)
+      const stale = await readFile(path, 'utf-8')
+      await writeBlocker(config, second, tempDir, client)
+
+      // The editor still had the file from before `second`, and saves an answer
+      await writeFile(path, stale + '\n**Status:** clarified\n\n### User Clarification\nUse RS256.\n', 'utf-8')
+      await writeBlocker(config, third, tempDir, client)
+
+      const blockers = await readBlockers(blockersFile, tempDir)
+      expect(blockers.map(b => [b.id, b.clarification])).toEqual([
+        [sampleBlocker.id, 'Use RS256.'],
+        ['second', undefined],
+        ['third', undefined],
+      ])
+      expect((await readFile(path, 'utf-8')).startsWith(stale)).toBe(true)
+      expect(toasts).toHaveLength(1)
+      expect(toasts[0]).toContain('1 blocker(s) the edit dropped were added back')
+    })
+
+    it('should warn without re-adding anything when the edit only added text', async () => {
+      const path = join(tempDir, blockersFile)
+      await writeBlocker(config, sampleBlocker, tempDir, client)
+      await writeFile(path, (await readFile(path, 'utf-8')) + '\n**Status:** skipped\n', 'utf-8')
+
+      await writeBlocker(config, second, tempDir, client)
+      await writeBlocker(config, third, tempDir, client)
+
+      expect((await readBlockers(blockersFile, tempDir)).map(b => [b.id, b.clarified])).toEqual([
+        [sampleBlocker.id, 'skipped'],
+        ['second', undefined],
+        ['third', undefined],
+      ])
+      expect(toasts).toEqual(['BLOCKERS.md was edited during the run: your changes are kept, and new blockers are added after them.'])
+    })
+
+    it('should not warn about its own writes', async () => {
+      const indexed = { ...config, priorityIndex: true }
+      await writeBlocker(indexed, sampleBlocker, tempDir, client)
+      await recordRecurrence(indexed, sampleBlocker.question, tempDir, client)
+      await setBlockerStatus(indexed, sampleBlocker.id, { clarified: 'clarified' }, tempDir, client)
+      await writeBlocker(indexed, second, tempDir, client)
+
+      expect(toasts).toEqual([])
+    })
+  })
+
+  describe('setBlockerStatus', () => {
+    it('should answer a blocker by short ID in the store and in place in its log', async () => {
+      const indexed = { ...config, priorityIndex: true, routes: [{ file: 'SECURITY.md', categories: ['security'] }] }
+      await writeBlocker(indexed, { ...sampleBlocker, shortId: 'B-0001' }, tempDir)
+      await writeBlocker(indexed, { ...sampleBlocker, id: 'sec', shortId: 'B-0002', category: 'security' }, tempDir)
+      const root = await readFile(join(tempDir, blockersFile), 'utf-8')
+
+      const updated = await setBlockerStatus(indexed, 'b-2', { clarified: 'clarified', clarification: 'Rotate them.' }, tempDir)
+
+      expect(updated).toMatchObject({ id: 'sec', clarified: 'clarified', clarification: 'Rotate them.' })
+      expect((await readStore(storeFile, tempDir)).map(r => [r.id, r.clarified, r.clarification])).toEqual([
+        [sampleBlocker.id, 'pending', undefined],
+        ['sec', 'clarified', 'Rotate them.'],
+      ])
+      expect(await readFile(join(tempDir, blockersFile), 'utf-8')).toBe(root)
+      const security = await readFile(join(tempDir, 'SECURITY.md'), 'utf-8')
+      expect(security).toContain('**Status:** clarified\n\n### User Clarification\nRotate them.\n')
+      // Nothing is left unresolved in that log, so its index is gone
+      expect(security).not.toContain('## Read this first')
+    })
+
+    it('should update blockers only present in the markdown', async () => {
+      await appendBlocker(blockersFile, sampleBlocker, tempDir)
+
+      expect(await setBlockerStatus(config, sampleBlocker.id, { clarified: 'skipped' }, tempDir)).not.toBeNull()
+
+      expect((await readBlockers(blockersFile, tempDir))[0].clarified).toBe('skipped')
+      expect(await Bun.file(join(tempDir, storeFile)).exists()).toBe(false)
+    })
+
+    it('should return null for an unknown blocker', async () => {
+      await writeBlocker(config, sampleBlocker, tempDir)
+
+      expect(await setBlockerStatus(config, 'B-0099', { clarified: 'clarified' }, tempDir)).toBeNull()
+    })
+  })
+
+  describe('archiveBlockers', () => {
+    it('should archive log and store using config paths', async () => {
+      await writeBlocker(config, sampleBlocker, tempDir)
+
+      const result = await archiveBlockers({ ...config, archiveDir: 'archive', maxArchives: 3 }, tempDir)
+
+      expect(result?.blockerCount).toBe(1)
+      expect(await Bun.file(join(tempDir, blockersFile)).exists()).toBe(false)
+      expect(await Bun.file(join(tempDir, storeFile)).exists()).toBe(false)
+    })
+
+    it('should archive route and package logs with the blockers log', async () => {
+      const everywhere = {
+        ...config,
+        archiveDir: 'archive',
+        packageLogs: true,
+        routes: [{ categories: ['security'], file: 'SECURITY-REVIEW.md' }],
+      }
+      await mkdir(join(tempDir, 'packages', 'api'), { recursive: true })
+      await writeFile(join(tempDir, 'packages', 'api', 'package.json'), '{}', 'utf-8')
+      await writeBlocker(everywhere, sampleBlocker, tempDir)
+      await writeBlocker(everywhere, { ...sampleBlocker, id: 'sec', category: 'security' }, tempDir)
+      await writeBlocker(everywhere, { ...sampleBlocker, id: 'api', package: 'packages/api' }, tempDir)
+
+      const result = await archiveBlockers(everywhere, tempDir)
+
+      expect(result?.blockerCount).toBe(3)
+      expect(result?.logArchives).toHaveLength(3)
+      expect(await Bun.file(join(tempDir, 'SECURITY-REVIEW.md')).exists()).toBe(false)
+      expect(await Bun.file(join(tempDir, 'packages/api/BLOCKERS.md')).exists()).toBe(false)
+      const archived = (await readdir(join(tempDir, 'archive'))).map(name => name.replace(/-\d{4}-.*$/, '')).sort()
+      expect(archived).toEqual(['BLOCKERS', 'SECURITY-REVIEW', 'blockers', 'packages-api-BLOCKERS'])
+
+      // The next store starts empty instead of importing the routed logs again
+      await writeBlocker(everywhere, { ...sampleBlocker, id: 'next' }, tempDir)
+      expect((await readStore(storeFile, tempDir)).map(r => r.id)).toEqual(['next'])
+    })
+
+    it('should still find recurring and related blockers in the latest archive', async () => {
+      const archiving = { ...config, archiveDir: 'archive', nearDuplicates: 'link' as const, similarityThreshold: 0.5 }
+      await writeBlocker(archiving, { ...sampleBlocker, shortId: 'B-0001', occurrences: 2 }, tempDir)
+      await writeBlocker(archiving, { ...sampleBlocker, id: 'answered', shortId: 'B-0002', question: 'Use Postgres or MySQL?', clarified: 'clarified' }, tempDir)
+      await archiveBlockers(archiving, tempDir)
+
+      expect(await recordRecurrence(archiving, sampleBlocker.question, tempDir)).toBeNull()
+      expect((await findArchivedRecurrence(archiving, sampleBlocker.question, tempDir))?.occurrences).toBe(2)
+      // Answered questions are new blockers, but still related
+      expect(await findArchivedRecurrence(archiving, 'Use Postgres or MySQL?', tempDir)).toBeNull()
+      expect(await findRelatedBlockers(archiving, 'Postgres or MySQL for the database?', tempDir)).toEqual(['B-0002'])
+    })
+  })
+
+  describe('withKnownBlockersCache', () => {
+    it('should read the blockers on disk once for every lookup within it', async () => {
+      await writeBlocker(config, { ...sampleBlocker, shortId: 'B-0001' }, tempDir)
+
+      await withKnownBlockersCache(async () => {
+        expect((await readKnownBlockers(config, tempDir)).map(b => b.id)).toEqual([sampleBlocker.id])
+        await appendToStore(storeFile, { ...sampleBlocker, id: 'later' }, tempDir)
+
+        expect((await readKnownBlockers(config, tempDir)).map(b => b.id)).toEqual([sampleBlocker.id])
+      })
+      // Outside it, every lookup reads the files again
+      expect((await readKnownBlockers(config, tempDir)).map(b => b.id)).toEqual([sampleBlocker.id, 'later'])
+    })
+
+    it('should read the blockers again once a recurrence was counted', async () => {
+      await writeBlocker(config, sampleBlocker, tempDir)
+
+      await withKnownBlockersCache(async () => {
+        expect(await findRelatedBlockers(config, sampleBlocker.question, tempDir)).toEqual([])
+        expect((await recordRecurrence(config, sampleBlocker.question, tempDir))?.occurrences).toBe(2)
+
+        expect((await readKnownBlockers(config, tempDir))[0].occurrences).toBe(2)
+        expect((await recordRecurrence(config, sampleBlocker.question, tempDir))?.occurrences).toBe(3)
+      })
+    })
+  })
+
+  describe('rebuildBlockersView', () => {
+    it('should regenerate markdown from the store and keep the preamble', async () => {
+      await writeFile(join(tempDir, blockersFile), '# Overnight blockers\n\nRead me first.\n', 'utf-8')
+      await appendToStore(storeFile, sampleBlocker, tempDir)
+      await appendToStore(storeFile, { ...sampleBlocker, id: 'second', question: 'Second?' }, tempDir)
+
+      const result = await rebuildBlockersView(config, tempDir)
+
+      expect(result).toBe(true)
+      const markdown = await readFile(join(tempDir, blockersFile), 'utf-8')
+      expect(markdown.startsWith('# Overnight blockers\n\nRead me first.\n')).toBe(true)
+      const parsed = await readBlockers(blockersFile, tempDir)
+      expect(parsed.map(b => b.id)).toEqual([sampleBlocker.id, 'second'])
+    })
+
+    it('should fold clarifications written in markdown back into the store', async () => {
+      await writeBlocker(config, sampleBlocker, tempDir)
+      const path = join(tempDir, blockersFile)
+      await writeFile(
+        path,
+        (await readFile(path, 'utf-8')) + '\n**Status:** clarified\n\n### User Clarification\nUse RS256.\n',
+        'utf-8'
+      )
+
+      await rebuildBlockersView(config, tempDir)
+
+      const [record] = await readStore(storeFile, tempDir)
+      expect(record.clarified).toBe('clarified')
+      expect(record.clarification).toBe('Use RS256.')
+      const [rendered] = await readBlockers(blockersFile, tempDir)
+      expect(rendered.clarification).toBe('Use RS256.')
+    })
+
+    it('should return false without a configured store', async () => {
+      const { storeFile: _omit, ...markdownOnly } = config
+
+      expect(await rebuildBlockersView(markdownOnly, tempDir)).toBe(false)
+    })
+  })
+})
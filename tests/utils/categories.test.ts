@@ -0,0 +1,65 @@
+/**
+ * Tests for the blocker category taxonomy
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { getCategories, getCategoryNames, getCategory, describeCategory, getAgentCategoryNames } from '../../src/utils/categories'
+import { BUILTIN_CATEGORIES } from '../../src/types'
+
+describe('categories', () => {
+  it('should list the built-in categories without config', () => {
+    expect(getCategoryNames()).toEqual([...BUILTIN_CATEGORIES])
+    expect(getCategory('security')).toEqual({
+      name: 'security',
+      description: 'Security-sensitive choices (authentication, secrets, access control)',
+      blocksProgress: true,
+      priority: 'p1',
+    })
+  })
+
+  it('should add configured categories after the built-in ones', () => {
+    const config = { categories: { compliance: { description: 'Licensing questions', priority: 'p1' as const } } }
+
+    expect(getCategoryNames(config).slice(-2)).toEqual(['other', 'compliance'])
+    expect(getCategory('compliance', config)).toEqual({
+      name: 'compliance',
+      description: 'Licensing questions',
+      blocksProgress: true,
+      priority: 'p1',
+    })
+  })
+
+  it('should let config override built-in defaults field by field', () => {
+    const config = { categories: { question: { blocksProgress: false }, security: { max: 2 } } }
+
+    expect(getCategory('question', config)).toMatchObject({ blocksProgress: false, priority: 'p3' })
+    expect(getCategory('security', config)).toEqual(getCategory('security'))
+  })
+
+  it('should leave hard or soft to the agent for question and other', () => {
+    expect(getCategory('question')!.blocksProgress).toBeUndefined()
+    expect(getCategory('other')!.blocksProgress).toBeUndefined()
+    expect(describeCategory(getCategory('other')!)).toBe('other (hard or soft, p3): Anything that fits no other category')
+  })
+
+  it('should not offer disabled categories to agents', () => {
+    const config = { categories: { security: { enabled: false }, compliance: { enabled: false } } }
+
+    expect(getAgentCategoryNames(config)).toEqual(BUILTIN_CATEGORIES.filter(name => name !== 'security'))
+    // Still known, so logged blockers keep their category
+    expect(getCategoryNames(config)).toContain('security')
+  })
+
+  it('should return undefined for unknown categories', () => {
+    expect(getCategory('vibes')).toBeUndefined()
+  })
+
+  describe('describeCategory', () => {
+    it('should show defaults and description', () => {
+      expect(describeCategory(getCategory('destructive')!)).toBe(
+        'destructive (hard, p1): Potentially destructive operations (delete, drop, truncate, force-push)'
+      )
+      expect(describeCategory({ name: 'ux', description: '', blocksProgress: false, priority: 'p3' })).toBe('ux (soft, p3)')
+    })
+  })
+})
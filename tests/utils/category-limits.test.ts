@@ -0,0 +1,121 @@
+/**
+ * Tests for per-category blocker limits
+ */
+
+import { describe, it, expect, beforeEach } from 'bun:test'
+import { checkCategoryLimit, getCategoryCooldownMs, getCategoryUsage } from '../../src/utils/category-limits'
+import type { Blocker, BlockerCategory, PluginConfig, SessionState } from '../../src/types'
+
+describe('category-limits', () => {
+  let state: SessionState
+  let config: PluginConfig
+
+  const blockerOf = (category: BlockerCategory, i: number): Blocker => ({
+    id: `${category}-${i}`,
+    timestamp: '2026-02-13T10:00:00Z',
+    sessionId: 'session-1',
+    category,
+    question: `Question ${i}?`,
+    context: '',
+    blocksProgress: true,
+  })
+
+  beforeEach(() => {
+    state = {
+      enabled: true,
+      divertBlockers: true,
+      blockers: [],
+      cooldownHashes: new Map<string, number>(),
+      lastBlockerTime: 0,
+      repromptCount: 0,
+      recentResponseHashes: [],
+      lastRepromptTime: 0,
+      isRecovering: false,
+      pendingWrites: [],
+      lastMessageContent: '',
+      lastAssistantAborted: false,
+    }
+
+    config = {
+      enabled: true,
+      defaultDivertBlockers: true,
+      blockersFile: 'blockers.md',
+      maxBlockersPerRun: 3,
+      cooldownMs: 5000,
+      maxReprompts: 3,
+      repromptWindowMs: 300000,
+      completionMarker: '---',
+      promptTimeoutMs: 30000,
+      categories: {
+        architecture: { max: 2 },
+        permission: { max: null },
+        question: { cooldownMs: 600000, enabled: false },
+      },
+    }
+  })
+
+  describe('checkCategoryLimit', () => {
+    it('should enforce a category max only against that category', () => {
+      state.blockers = [blockerOf('architecture', 1), blockerOf('security', 2)]
+      expect(checkCategoryLimit('architecture', state, config)).toEqual({ allowed: true })
+
+      state.blockers.push(blockerOf('architecture', 3))
+      expect(checkCategoryLimit('architecture', state, config)).toEqual({
+        allowed: false,
+        reason: 'category-max',
+        count: 2,
+        max: 2,
+      })
+    })
+
+    it('should apply maxBlockersPerRun to categories without their own max', () => {
+      state.blockers = [blockerOf('permission', 1), blockerOf('permission', 2), blockerOf('security', 3)]
+
+      expect(checkCategoryLimit('security', state, config)).toEqual({
+        allowed: false,
+        reason: 'run-max',
+        count: 3,
+        max: 3,
+      })
+    })
+
+    it('should never limit a category with max null', () => {
+      state.blockers = Array.from({ length: 10 }, (_, i) => blockerOf('permission', i))
+
+      expect(checkCategoryLimit('permission', state, config)).toEqual({ allowed: true })
+    })
+
+    it('should reject disabled categories', () => {
+      expect(checkCategoryLimit('question', state, config)).toEqual({ allowed: false, reason: 'disabled' })
+    })
+
+    it('should behave like the global limit without categories', () => {
+      delete config.categories
+      state.blockers = [blockerOf('architecture', 1), blockerOf('permission', 2)]
+
+      expect(checkCategoryLimit('permission', state, config)).toEqual({ allowed: true })
+      state.blockers.push(blockerOf('question', 3))
+      expect(checkCategoryLimit('permission', state, config).allowed).toBe(false)
+    })
+  })
+
+  describe('getCategoryCooldownMs', () => {
+    it('should prefer the category cooldown over the global one', () => {
+      expect(getCategoryCooldownMs('question', config)).toBe(600000)
+      expect(getCategoryCooldownMs('architecture', config)).toBe(5000)
+    })
+  })
+
+  describe('getCategoryUsage', () => {
+    it('should list configured categories, then other categories with blockers', () => {
+      state.blockers = [blockerOf('architecture', 1), blockerOf('security', 2), blockerOf('security', 3)]
+
+      expect(getCategoryUsage(state, config)).toEqual([
+        { category: 'architecture', count: 1, max: 2, enabled: true },
+        { category: 'permission', count: 0, max: null, enabled: true },
+        { category: 'question', count: 0, enabled: false },
+        { category: 'security', count: 2, enabled: true },
+      ])
+    })
+  })
+})
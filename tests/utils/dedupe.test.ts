@@ -8,8 +8,8 @@
  */
 
 import { describe, it, expect, beforeEach } from 'bun:test'
-import { generateBlockerHash, isInCooldown, addToCooldown } from '../../src/utils/dedupe'
-import type { SessionState, PluginConfig } from '../../src/types'
+import { generateBlockerHash, isInCooldown, addToCooldown, normalizeQuestion, findRecurringBlocker } from '../../src/utils/dedupe'
+import type { Blocker, SessionState, PluginConfig } from '../../src/types'
 
 describe('generateBlockerHash', () => {
   describe('hash generation', () => {
@@ -278,6 +278,20 @@ describe('addToCooldown', () => {
   })
 })
 
+describe('addToCooldown (per-category)', () => {
+  it('should use the category cooldown when one is configured', () => {
+    const state = { cooldownHashes: new Map<string, number>() } as SessionState
+    const config = { cooldownMs: 5000, categories: { question: { cooldownMs: 600000 } } } as unknown as PluginConfig
+    const before = Date.now()
+
+    addToCooldown('q', state, config, 'question')
+    addToCooldown('a', state, config, 'architecture')
+
+    expect(state.cooldownHashes.get('q')! - before).toBeGreaterThanOrEqual(600000)
+    expect(state.cooldownHashes.get('a')! - before).toBeLessThan(600000)
+  })
+})
+
 describe('dedupe integration', () => {
   let mockState: SessionState
   let mockConfig: PluginConfig
@@ -361,3 +375,50 @@ describe('dedupe integration', () => {
     expect(isInCooldown(hash, mockState)).toBe(true)
   })
 })
+
+describe('findRecurringBlocker', () => {
+  const blocker = (id: string, question: string, clarified?: Blocker['clarified']): Blocker => ({
+    id,
+    timestamp: '2026-02-13T10:00:00Z',
+    sessionId: 'session-1',
+    category: 'architecture',
+    question,
+    context: '',
+    blocksProgress: true,
+    ...(clarified ? { clarified } : {}),
+  })
+
+  it('should ignore case and whitespace differences', () => {
+    expect(normalizeQuestion('  Use   Redux\nor Zustand? ')).toBe('use redux or zustand?')
+
+    const match = findRecurringBlocker('use redux  or zustand?', [blocker('a', 'Use Redux or Zustand?')])
+
+    expect(match?.id).toBe('a')
+  })
+
+  it('should only match unresolved blockers', () => {
+    const blockers = [
+      blocker('answered', 'Which port?', 'clarified'),
+      blocker('skipped', 'Which port?', 'skipped'),
+      blocker('open', 'Which port?', 'pending'),
+    ]
+
+    expect(findRecurringBlocker('Which port?', blockers)?.id).toBe('open')
+    expect(findRecurringBlocker('Which port?', blockers.slice(0, 2))).toBeUndefined()
+  })
+
+  it('should not match a different question', () => {
+    expect(findRecurringBlocker('Which host?', [blocker('a', 'Which port?')])).toBeUndefined()
+  })
+
+  it('should fall back to the closest unresolved near-duplicate when given a threshold', () => {
+    const blockers = [
+      blocker('answered', 'Zod vs Yup for validation?', 'clarified'),
+      blocker('open', 'Which validation library: Yup or Zod?'),
+      blocker('other', 'Tabs or spaces?'),
+    ]
+
+    expect(findRecurringBlocker('Should I use Zod or Yup?', blockers)).toBeUndefined()
+    expect(findRecurringBlocker('Should I use Zod or Yup?', blockers, 0.55)?.id).toBe('open')
+  })
+})
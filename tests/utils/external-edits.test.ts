@@ -0,0 +1,112 @@
+/**
+ * Tests for external edit detection on blocker logs (real temp files)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtemp, rm, writeFile, appendFile, utimes } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { appendBlocker } from '../../src/utils/blockers-file'
+import {
+  isEditedExternally,
+  trackWrite,
+  getWrittenBlockerIds,
+  acknowledgeExternalEdit,
+  forgetLog,
+} from '../../src/utils/external-edits'
+
+describe('external-edits', () => {
+  let dir: string
+  let log: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'blocker-diverter-edits-'))
+    log = join(dir, 'BLOCKERS.md')
+  })
+
+  afterEach(async () => {
+    await forgetLog(log, dir)
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('should not report logs the plugin never wrote', async () => {
+    await writeFile(log, '# Notes\n', 'utf-8')
+
+    expect(await isEditedExternally(log, dir)).toBe(false)
+  })
+
+  it('should report a change made after the last plugin write', async () => {
+    await trackWrite(log, dir, () => writeFile(log, '## Blocker #a\n', 'utf-8'), ['a'])
+    expect(await isEditedExternally(log, dir)).toBe(false)
+
+    await appendFile(log, '\n**Status:** clarified\n', 'utf-8')
+
+    expect(await isEditedExternally(log, dir)).toBe(true)
+  })
+
+  it('should ignore a newer mtime when the content is the same', async () => {
+    await trackWrite(log, dir, () => writeFile(log, '## Blocker #a\n', 'utf-8'))
+
+    await utimes(log, new Date(), new Date(Date.now() + 60_000))
+
+    expect(await isEditedExternally(log, dir)).toBe(false)
+  })
+
+  it('should keep a conflict flagged across plugin writes until acknowledged', async () => {
+    await trackWrite(log, dir, () => writeFile(log, '## Blocker #a\n', 'utf-8'), ['a'])
+    await writeFile(log, '# Edited\n', 'utf-8')
+
+    await trackWrite(log, dir, () => appendFile(log, '## Blocker #b\n', 'utf-8'), ['b'])
+    expect(await isEditedExternally(log, dir)).toBe(true)
+    expect(await getWrittenBlockerIds(log, dir)).toEqual(['a', 'b'])
+
+    await acknowledgeExternalEdit(log, dir)
+    expect(await isEditedExternally(log, dir)).toBe(false)
+  })
+
+  it('should forget logs that were deleted', async () => {
+    await trackWrite(log, dir, () => writeFile(log, '## Blocker #a\n', 'utf-8'), ['a'])
+    await rm(log)
+
+    expect(await isEditedExternally(log, dir)).toBe(false)
+    expect(await getWrittenBlockerIds(log, dir)).toEqual([])
+  })
+
+  it('should drop the fingerprint when a log is forgotten', async () => {
+    const fingerprint = join(dir, '.opencode/blocker-diverter/fingerprints/BLOCKERS.md.json')
+    await trackWrite(log, dir, () => writeFile(log, '## Blocker #a\n', 'utf-8'), ['a'])
+    expect(await Bun.file(fingerprint).exists()).toBe(true)
+
+    await forgetLog(log, dir)
+    await appendFile(log, '\n**Status:** clarified\n', 'utf-8')
+
+    expect(await Bun.file(fingerprint).exists()).toBe(false)
+    expect(await isEditedExternally(log, dir)).toBe(false)
+  })
+
+  it('should not flag appends made by another plugin process as edits', async () => {
+    const blocker = (id: string) => ({
+      id,
+      timestamp: '2026-02-13T10:00:00Z',
+      sessionId: 'session-123',
+      category: 'question',
+      question: `Question ${id}?`,
+      context: '',
+      blocksProgress: false,
+    })
+    await appendBlocker('BLOCKERS.md', blocker('first'), dir)
+
+    const script = `
+      import { appendBlocker } from ${JSON.stringify(join(import.meta.dir, '../../src/utils/blockers-file'))}
+      await appendBlocker('BLOCKERS.md', ${JSON.stringify(blocker('second'))}, ${JSON.stringify(dir)})
+    `
+    const child = Bun.spawnSync([process.execPath, '-e', script])
+    expect(child.exitCode).toBe(0)
+
+    expect(await isEditedExternally(log, dir)).toBe(false)
+    expect(await getWrittenBlockerIds(log, dir)).toEqual(['first', 'second'])
+
+    await appendFile(log, '\n**Status:** clarified\n', 'utf-8')
+    expect(await isEditedExternally(log, dir)).toBe(true)
+  })
+})
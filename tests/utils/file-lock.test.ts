@@ -0,0 +1,176 @@
+/**
+ * Tests for file-lock.ts - Cross-process advisory file locks
+ *
+ * Uses real lock files in a temp directory.
+ * Covers: mutual exclusion, re-entrancy, stale lock recovery (including
+ * racing waiters), lock refresh while held, timeouts, owner-only release.
+ *
+ * @module tests/utils/file-lock
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { resolve, join, dirname } from 'node:path'
+import { hostname } from 'node:os'
+import { rm, mkdir, writeFile, utimes } from 'node:fs/promises'
+import { withFileLock, getLockPath, LockTimeoutError } from '../../src/utils/file-lock'
+
+describe('file-lock', () => {
+  const tempDir = resolve('/tmp/blocker-diverter-file-lock-test')
+  const target = join(tempDir, 'BLOCKERS.md')
+  const lockPath = join(tempDir, '.opencode/blocker-diverter/locks/BLOCKERS.md.lock')
+
+  /** Writes a lock file as if held by another writer */
+  async function writeForeignLock(pid: number, host = hostname()): Promise<void> {
+    await mkdir(dirname(lockPath), { recursive: true })
+    await writeFile(lockPath, JSON.stringify({ pid, hostname: host, token: 'foreign', acquiredAt: new Date().toISOString() }))
+  }
+
+  beforeEach(async () => {
+    await mkdir(tempDir, { recursive: true })
+  })
+
+  afterEach(async () => {
+    try {
+      await rm(tempDir, { recursive: true, force: true })
+    } catch {
+      // Ignore cleanup errors
+    }
+  })
+
+  it('should run holders of the same file one at a time', async () => {
+    let active = 0
+    let maxActive = 0
+    const order: number[] = []
+
+    await Promise.all(
+      Array.from({ length: 5 }, (_, i) => withFileLock(target, tempDir, async () => {
+        active++
+        maxActive = Math.max(maxActive, active)
+        await Bun.sleep(5)
+        order.push(i)
+        active--
+      }))
+    )
+
+    expect(maxActive).toBe(1)
+    expect(order.sort()).toEqual([0, 1, 2, 3, 4])
+  })
+
+  it('should not block holders of different files', async () => {
+    let active = 0
+    let maxActive = 0
+    const hold = async () => {
+      active++
+      maxActive = Math.max(maxActive, active)
+      await Bun.sleep(20)
+      active--
+    }
+
+    await Promise.all([withFileLock(target, tempDir, hold), withFileLock(join(tempDir, 'other.md'), tempDir, hold)])
+
+    expect(maxActive).toBe(2)
+  })
+
+  it('should return the result and remove the lock file', async () => {
+    const result = await withFileLock(target, tempDir, async () => {
+      expect(await Bun.file(lockPath).exists()).toBe(true)
+      return 42
+    })
+
+    expect(result).toBe(42)
+    expect(await Bun.file(lockPath).exists()).toBe(false)
+  })
+
+  it('should release the lock when the work throws', async () => {
+    await expect(withFileLock(target, tempDir, async () => { throw new Error('boom') })).rejects.toThrow('boom')
+
+    expect(await Bun.file(lockPath).exists()).toBe(false)
+  })
+
+  it('should be re-entrant within one call chain', async () => {
+    const result = await withFileLock(target, tempDir, () => withFileLock(target, tempDir, async () => 'nested'), { timeoutMs: 200 })
+
+    expect(result).toBe('nested')
+  })
+
+  it('should break a lock whose owner process is gone', async () => {
+    // PIDs are capped well below this on Linux and macOS
+    await writeForeignLock(2 ** 30)
+
+    expect(await withFileLock(target, tempDir, async () => 'acquired', { timeoutMs: 500 })).toBe('acquired')
+  })
+
+  it('should break a lock older than the stale limit', async () => {
+    await writeForeignLock(process.pid, 'another-host')
+    const old = new Date(Date.now() - 60_000)
+    await utimes(lockPath, old, old)
+
+    expect(await withFileLock(target, tempDir, async () => 'acquired', { timeoutMs: 500, staleMs: 30_000 })).toBe('acquired')
+  })
+
+  it('should let only one of several waiters take over a stale lock', async () => {
+    await writeForeignLock(2 ** 30)
+    let active = 0
+    let maxActive = 0
+
+    await Promise.all(
+      Array.from({ length: 5 }, () => withFileLock(target, tempDir, async () => {
+        active++
+        maxActive = Math.max(maxActive, active)
+        await Bun.sleep(10)
+        active--
+      }, { timeoutMs: 2000 }))
+    )
+
+    expect(maxActive).toBe(1)
+    expect(await Bun.file(lockPath).exists()).toBe(false)
+  })
+
+  it('should break an ownerless lock only once it is stale', async () => {
+    await mkdir(dirname(lockPath), { recursive: true })
+    await writeFile(lockPath, '')
+
+    await expect(withFileLock(target, tempDir, async () => 'never', { timeoutMs: 100 })).rejects.toBeInstanceOf(LockTimeoutError)
+
+    const old = new Date(Date.now() - 60_000)
+    await utimes(lockPath, old, old)
+    expect(await withFileLock(target, tempDir, async () => 'acquired', { timeoutMs: 500 })).toBe('acquired')
+  })
+
+  it('should keep a lock held longer than the stale limit', async () => {
+    const events: string[] = []
+    const slow = withFileLock(target, tempDir, async () => {
+      events.push('slow start')
+      await Bun.sleep(400)
+      events.push('slow end')
+    }, { staleMs: 150 })
+    await Bun.sleep(20)
+
+    await withFileLock(target, tempDir, async () => { events.push('waiter') }, { staleMs: 150, timeoutMs: 2000 })
+    await slow
+
+    expect(events).toEqual(['slow start', 'slow end', 'waiter'])
+  })
+
+  it('should keep lock files under the plugin directory, keyed by project path', () => {
+    expect(getLockPath(target, tempDir)).toBe(lockPath)
+    expect(getLockPath(join(tempDir, 'packages/api/BLOCKERS.md'), tempDir))
+      .toBe(join(tempDir, '.opencode/blocker-diverter/locks/packages/api/BLOCKERS.md.lock'))
+  })
+
+  it('should time out while a live owner holds the lock', async () => {
+    await writeForeignLock(process.pid, 'another-host')
+
+    await expect(withFileLock(target, tempDir, async () => 'never', { timeoutMs: 100 })).rejects.toBeInstanceOf(LockTimeoutError)
+    expect(await Bun.file(lockPath).exists()).toBe(true)
+  })
+
+  it('should not remove a lock taken over by another writer', async () => {
+    await withFileLock(target, tempDir, async () => {
+      // Simulate our lock being broken as stale and re-acquired elsewhere
+      await writeForeignLock(process.pid, 'another-host')
+    })
+
+    expect(await Bun.file(lockPath).exists()).toBe(true)
+  })
+})
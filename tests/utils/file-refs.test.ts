@@ -0,0 +1,47 @@
+/**
+ * Tests for blocker file references (formatting, links, parsing)
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { formatFileRef, parseFileRef, formatFileLink, parseFileLinks } from '../../src/utils/file-refs'
+
+describe('file-refs', () => {
+  describe('formatFileRef / parseFileRef', () => {
+    it('should round-trip paths, lines and ranges', () => {
+      const refs = [
+        { path: 'src/auth.ts' },
+        { path: 'src/auth.ts', line: 45 },
+        { path: 'src/auth.ts', line: 45, endLine: 52 },
+        { path: 'docs/a:b.md', line: 1 },
+      ]
+
+      for (const ref of refs) {
+        expect(parseFileRef(formatFileRef(ref))).toEqual(ref)
+      }
+    })
+
+    it('should show a one-line range as a single line', () => {
+      expect(formatFileRef({ path: 'src/auth.ts', line: 7, endLine: 7 })).toBe('src/auth.ts:7')
+    })
+  })
+
+  describe('formatFileLink', () => {
+    it('should link relative to the blockers file directory', () => {
+      expect(formatFileLink({ path: 'src/auth.ts', line: 45, endLine: 52 }, '/project', '/project')).toBe(
+        '[src/auth.ts:45-52](src/auth.ts#L45-L52)'
+      )
+      expect(formatFileLink({ path: 'src/auth.ts', line: 45 }, '/project', '/project/docs/blockers')).toBe(
+        '[src/auth.ts:45](../../src/auth.ts#L45)'
+      )
+    })
+  })
+
+  describe('parseFileLinks', () => {
+    it('should read references from link texts, ignoring targets', () => {
+      expect(parseFileLinks('- [src/a.ts:3](elsewhere.ts#L9)\n- plain text\n- [b.md](../b.md)')).toEqual([
+        { path: 'src/a.ts', line: 3 },
+        { path: 'b.md' },
+      ])
+    })
+  })
+})
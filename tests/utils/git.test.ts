@@ -0,0 +1,131 @@
+/**
+ * Tests for git helpers (run against throwaway repositories)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { execFileSync } from 'node:child_process'
+import { getGitBranch, getGitSnapshot, getGitDiff } from '../../src/utils/git'
+
+describe('git', () => {
+  let repo: string
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: repo })
+      .toString()
+      .trim()
+
+  beforeEach(async () => {
+    repo = await mkdtemp(join(tmpdir(), 'blocker-diverter-git-'))
+    git('init', '-q', '-b', 'main')
+  })
+
+  afterEach(async () => {
+    await rm(repo, { recursive: true, force: true })
+  })
+
+  it('should return null outside a repository', async () => {
+    const plain = await mkdtemp(join(tmpdir(), 'blocker-diverter-no-git-'))
+
+    try {
+      expect(await getGitSnapshot(plain)).toBeNull()
+    } finally {
+      await rm(plain, { recursive: true, force: true })
+    }
+  })
+
+  it('should return null before the first commit', async () => {
+    expect(await getGitSnapshot(repo)).toBeNull()
+  })
+
+  it('should capture branch, HEAD and a clean tree', async () => {
+    await writeFile(join(repo, 'a.ts'), 'export {}\n')
+    git('add', '.')
+    git('commit', '-qm', 'init')
+
+    expect(await getGitBranch(repo)).toBe('main')
+    expect(await getGitSnapshot(repo)).toEqual({
+      branch: 'main',
+      head: git('rev-parse', 'HEAD'),
+      dirty: [],
+      dirtyCount: 0,
+    })
+  })
+
+  it('should list modified, renamed and untracked files', async () => {
+    await writeFile(join(repo, 'a.ts'), 'export {}\n')
+    await writeFile(join(repo, 'b.ts'), 'export const b = 1\n')
+    git('add', '.')
+    git('commit', '-qm', 'init')
+
+    await writeFile(join(repo, 'a.ts'), 'export const a = 1\n')
+    git('mv', 'b.ts', 'c.ts')
+    await writeFile(join(repo, 'new file.ts'), '')
+
+    const snapshot = await getGitSnapshot(repo)
+
+    expect(snapshot?.dirty.sort()).toEqual(['a.ts', 'c.ts', 'new file.ts'])
+    expect(snapshot?.dirtyCount).toBe(3)
+  })
+
+  describe('getGitDiff', () => {
+    beforeEach(async () => {
+      await writeFile(join(repo, 'a.ts'), 'export const a = 1\n')
+      await writeFile(join(repo, 'b.ts'), 'export const b = 1\n')
+      git('add', '.')
+      git('commit', '-qm', 'init')
+    })
+
+    it('should show staged and unstaged changes to the given files only', async () => {
+      await writeFile(join(repo, 'a.ts'), 'export const a = 2\n')
+      git('add', 'a.ts')
+      await writeFile(join(repo, 'a.ts'), 'export const a = 3\n')
+      await writeFile(join(repo, 'b.ts'), 'export const b = 2\n')
+
+      const diff = await getGitDiff(repo, ['a.ts'], 4096)
+
+      expect(diff).toContain('-export const a = 1\n+export const a = 3')
+      expect(diff).not.toContain('b.ts')
+      expect(diff?.endsWith('\n')).toBe(false)
+    })
+
+    it('should return null for unchanged files or no files', async () => {
+      expect(await getGitDiff(repo, ['a.ts'], 4096)).toBeNull()
+      expect(await getGitDiff(repo, [], 4096)).toBeNull()
+    })
+
+    it('should cut long diffs at a line boundary', async () => {
+      await writeFile(join(repo, 'a.ts'), Array.from({ length: 200 }, (_, i) => `export const v${i} = ${i}`).join('\n'))
+
+      const diff = await getGitDiff(repo, ['a.ts'], 512)
+      const [kept, marker] = diff!.split(/\n(?=… truncated)/)
+
+      expect(Buffer.byteLength(kept)).toBeLessThanOrEqual(512)
+      expect(kept.endsWith('\n')).toBe(false)
+      expect(marker).toMatch(/^… truncated \(\d+ more bytes\)$/)
+    })
+
+    it('should never split a multibyte character', async () => {
+      await writeFile(join(repo, 'a.ts'), Array.from({ length: 50 }, (_, i) => `// ${'😀é'.repeat(i)}`).join('\n'))
+
+      for (const maxBytes of [301, 302, 303, 513, 514, 515]) {
+        const [kept] = (await getGitDiff(repo, ['a.ts'], maxBytes))!.split(/\n(?=… truncated)/)
+
+        expect(Buffer.byteLength(kept)).toBeLessThanOrEqual(maxBytes)
+        expect(kept).not.toContain('\uFFFD')
+      }
+    })
+
+    it('should include untracked files as added', async () => {
+      await writeFile(join(repo, 'new.ts'), 'export const fresh = true\n')
+
+      const diff = await getGitDiff(repo, ['a.ts', 'new.ts'], 4096)
+
+      expect(diff).toContain('+++ b/new.ts')
+      expect(diff).toContain('+export const fresh = true')
+      expect(await getGitDiff(repo, ['a.ts'], 4096)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * Tests for monorepo package detection (run against a throwaway tree)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { findPackageRoot, findPackageRoots, findPackageLogs, getPackageLogFile, displayLogPath, withPackageRootsCache } from '../../src/utils/packages'
+
+describe('packages', () => {
+  let root: string
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'blocker-diverter-packages-'))
+    await Bun.write(join(root, 'package.json'), '{}')
+    await Bun.write(join(root, 'packages', 'api', 'package.json'), '{}')
+    await Bun.write(join(root, 'packages', 'api', 'src', 'auth.ts'), '')
+    await Bun.write(join(root, 'packages', 'web', 'package.json'), '{}')
+    await Bun.write(join(root, 'packages', 'web', 'node_modules', 'dep', 'package.json'), '{}')
+    await Bun.write(join(root, 'scripts', 'build.ts'), '')
+  })
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true })
+  })
+
+  describe('findPackageRoot', () => {
+    it('should find the nearest directory with a package.json below the project root', async () => {
+      expect(await findPackageRoot(['packages/api/src/auth.ts'], root, [])).toBe('packages/api')
+      expect(await findPackageRoot(['packages/api/src/auth.ts', 'packages/api/package.json'], root, [])).toBe('packages/api')
+    })
+
+    it('should return null outside any package or across packages', async () => {
+      expect(await findPackageRoot(['scripts/build.ts'], root, [])).toBeNull()
+      expect(await findPackageRoot(['package.json'], root, [])).toBeNull()
+      expect(await findPackageRoot(['packages/api/src/auth.ts', 'packages/web/package.json'], root, [])).toBeNull()
+    })
+
+    it('should use configured globs instead of package.json files', async () => {
+      expect(await findPackageRoot(['scripts/build.ts'], root, ['scripts', 'packages/*'])).toBe('scripts')
+      expect(await findPackageRoot(['packages/api/src/auth.ts'], root, ['scripts'])).toBeNull()
+    })
+  })
+
+  describe('findPackageRoots', () => {
+    it('should list packages, skipping node_modules', async () => {
+      expect(await findPackageRoots(root, [])).toEqual(['packages/api', 'packages/web'])
+      expect(await findPackageRoots(root, ['packages/*'])).toEqual(['packages/api', 'packages/web'])
+    })
+
+    it('should walk the tree once per cached call', async () => {
+      const before = await withPackageRootsCache(async () => {
+        const first = await findPackageRoots(root, [])
+        await Bun.write(join(root, 'packages', 'cli', 'package.json'), '{}')
+        // Same call: the new package is not picked up, and globs are cached separately
+        expect(await findPackageRoots(root, [])).toEqual(first)
+        expect(await findPackageRoots(root, ['packages/*'])).toContain('packages/cli')
+        return first
+      })
+
+      expect(before).toEqual(['packages/api', 'packages/web'])
+      expect(await findPackageRoots(root, [])).toEqual(['packages/api', 'packages/cli', 'packages/web'])
+    })
+  })
+
+  describe('findPackageLogs', () => {
+    it('should list only packages whose log exists', async () => {
+      await Bun.write(join(root, 'packages', 'web', 'BLOCKERS.md'), '')
+
+      expect(await findPackageLogs({ blockersFile: join(root, 'BLOCKERS.md') }, root)).toEqual([
+        { package: 'packages/web', file: 'packages/web/BLOCKERS.md' },
+      ])
+    })
+  })
+
+  it('should name package logs after blockersFile and show paths relative to the project', () => {
+    expect(getPackageLogFile('packages/api', { blockersFile: '/repo/docs/blockers.md' })).toBe('packages/api/blockers.md')
+    expect(displayLogPath('/repo/BLOCKERS.md', '/repo')).toBe('BLOCKERS.md')
+    expect(displayLogPath('packages/api/BLOCKERS.md', '/repo')).toBe('packages/api/BLOCKERS.md')
+  })
+})
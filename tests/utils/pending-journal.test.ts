@@ -0,0 +1,154 @@
+/**
+ * Tests for pending-journal.ts - Durable pending write queue
+ *
+ * Uses real temp files.
+ * Covers: read/update round-trip, upsert by ID, removal when empty,
+ * malformed lines, claims, orphans, security.
+ *
+ * @module tests/utils/pending-journal
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { resolve, join } from 'node:path'
+import { rm, mkdir, writeFile } from 'node:fs/promises'
+import { hostname } from 'node:os'
+import {
+  readJournal,
+  updateJournal,
+  journalPendingWrite,
+  claimJournalEntries,
+  releaseJournalEntries,
+  isOrphaned,
+} from '../../src/utils/pending-journal'
+import type { PendingWrite } from '../../src/types'
+
+describe('pending-journal', () => {
+  const tempDir = resolve('/tmp/blocker-diverter-journal-test')
+  const journalFile = '.opencode/blocker-diverter/pending.jsonl'
+
+  const pending: PendingWrite = {
+    id: 'blocker-1',
+    timestamp: '2026-02-13T10:00:00Z',
+    sessionId: 'session-123',
+    category: 'security',
+    question: 'Rotate the leaked API key?',
+    context: 'Found key in .env.example',
+    blocksProgress: true,
+    sinks: ['markdown'],
+  }
+
+  beforeEach(async () => {
+    await mkdir(tempDir, { recursive: true })
+  })
+
+  afterEach(async () => {
+    try {
+      await rm(tempDir, { recursive: true, force: true })
+    } catch {
+      // Ignore cleanup errors
+    }
+  })
+
+  it('should return an empty queue when the journal is missing', async () => {
+    expect(await readJournal(journalFile, tempDir)).toEqual([])
+  })
+
+  it('should persist queued writes with their missing sinks', async () => {
+    expect(await journalPendingWrite(journalFile, pending, tempDir)).toBe(true)
+
+    expect(await readJournal(journalFile, tempDir)).toEqual([pending])
+  })
+
+  it('should replace an entry with the same blocker ID', async () => {
+    await journalPendingWrite(journalFile, pending, tempDir)
+    await journalPendingWrite(journalFile, { ...pending, sinks: ['jsonl', 'markdown'] }, tempDir)
+
+    expect(await readJournal(journalFile, tempDir)).toEqual([{ ...pending, sinks: ['jsonl', 'markdown'] }])
+  })
+
+  it('should keep every entry when sessions journal in parallel', async () => {
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) => journalPendingWrite(journalFile, { ...pending, id: `blocker-${i}` }, tempDir))
+    )
+
+    expect((await readJournal(journalFile, tempDir)).map(p => p.id).sort()).toEqual(
+      Array.from({ length: 10 }, (_, i) => `blocker-${i}`).sort()
+    )
+  })
+
+  it('should remove the journal once the queue is empty', async () => {
+    await journalPendingWrite(journalFile, pending, tempDir)
+
+    await updateJournal(journalFile, tempDir, () => [])
+
+    expect(await Bun.file(join(tempDir, journalFile)).exists()).toBe(false)
+  })
+
+  it('should record the journaling process and hide it from readers', async () => {
+    await journalPendingWrite(journalFile, pending, tempDir)
+
+    let stored: unknown[] = []
+    await updateJournal(journalFile, tempDir, entries => (stored = entries))
+    expect(stored).toEqual([{ ...pending, owner: { pid: process.pid, hostname: hostname() } }])
+    expect(await readJournal(journalFile, tempDir)).toEqual([pending])
+  })
+
+  it('should claim eligible entries once until released', async () => {
+    await journalPendingWrite(journalFile, pending, tempDir)
+    await journalPendingWrite(journalFile, { ...pending, id: 'blocker-2', sessionId: 'other' }, tempDir)
+    const mine = (entry: PendingWrite) => entry.sessionId === 'session-123'
+
+    expect(await claimJournalEntries(journalFile, tempDir, 'flush-1', mine)).toEqual([pending])
+    expect(await claimJournalEntries(journalFile, tempDir, 'flush-2', mine)).toEqual([])
+
+    await releaseJournalEntries(journalFile, tempDir, 'flush-1', [{ ...pending, sinks: ['webhook'] }])
+
+    expect((await readJournal(journalFile, tempDir)).map(p => [p.id, p.sinks])).toEqual([
+      ['blocker-2', ['markdown']],
+      ['blocker-1', ['webhook']],
+    ])
+    expect(await claimJournalEntries(journalFile, tempDir, 'flush-3', mine)).toHaveLength(1)
+  })
+
+  it('should take over claims of processes that exited', async () => {
+    const exited = Bun.spawnSync(['true']).pid
+    await updateJournal(journalFile, tempDir, () => [
+      { ...pending, claim: { pid: exited, hostname: hostname(), token: 'crashed', at: Date.now() } },
+    ])
+
+    expect(await claimJournalEntries(journalFile, tempDir, 'flush-1', () => true)).toEqual([pending])
+  })
+
+  it('should keep entries journaled again while claimed', async () => {
+    await journalPendingWrite(journalFile, pending, tempDir)
+    await claimJournalEntries(journalFile, tempDir, 'flush-1', () => true)
+    await journalPendingWrite(journalFile, { ...pending, sinks: ['jsonl'] }, tempDir)
+
+    await releaseJournalEntries(journalFile, tempDir, 'flush-1', [])
+
+    expect(await readJournal(journalFile, tempDir)).toEqual([{ ...pending, sinks: ['jsonl'] }])
+  })
+
+  it('should treat entries of exited processes and ended sessions as orphaned', () => {
+    const self = { pid: process.pid, hostname: hostname() }
+    const live = (sessionId: string) => sessionId === 'session-123'
+
+    expect(isOrphaned(pending, live)).toBe(true)
+    expect(isOrphaned({ ...pending, owner: { pid: Bun.spawnSync(['true']).pid, hostname: hostname() } }, live)).toBe(true)
+    expect(isOrphaned({ ...pending, owner: self }, live)).toBe(false)
+    expect(isOrphaned({ ...pending, owner: self, sessionId: 'ended' }, live)).toBe(true)
+    expect(isOrphaned({ ...pending, owner: { pid: process.ppid, hostname: hostname() }, sessionId: 'ended' }, live)).toBe(false)
+  })
+
+  it('should skip malformed lines', async () => {
+    await mkdir(join(tempDir, '.opencode/blocker-diverter'), { recursive: true })
+    await writeFile(join(tempDir, journalFile), `${JSON.stringify(pending)}\n{"id": "trunc\n`, 'utf-8')
+
+    expect(await readJournal(journalFile, tempDir)).toEqual([pending])
+  })
+
+  it('should reject paths outside the project', async () => {
+    await expect(readJournal('../../etc/pending.jsonl', tempDir)).rejects.toThrow(/directory traversal/i)
+    await expect(journalPendingWrite('../../etc/pending.jsonl', pending, tempDir)).rejects.toThrow(/directory traversal/i)
+  })
+})
@@ -534,18 +534,18 @@ describe("bootstrap", () => {
     // Provide source command files in pkgDir.
     const commandsSrc = join(pkgDir, ".opencode", "commands");
     mkdirSync(commandsSrc, { recursive: true });
-    for (const file of ["blockers.on.md", "blockers.off.md", "blockers.status.md", "blockers.list.md", "blockers.clarify.md"]) {
+    for (const file of ["blockers.on.md", "blockers.off.md", "blockers.status.md", "blockers.list.md", "blockers.clarify.md", "blockers.archive.md", "blockers.rebuild.md"]) {
       writeFileSync(join(commandsSrc, file), `# ${file}`);
     }
 
     const { written } = bootstrap(tmpRoot, pkgDir);
 
-    // All 5 command files must be seeded.
-    for (const file of ["blockers.on.md", "blockers.off.md", "blockers.status.md", "blockers.list.md", "blockers.clarify.md"]) {
+    // All 7 command files must be seeded.
+    for (const file of ["blockers.on.md", "blockers.off.md", "blockers.status.md", "blockers.list.md", "blockers.clarify.md", "blockers.archive.md", "blockers.rebuild.md"]) {
       expect(existsSync(join(tmpRoot, ".opencode", "commands", file))).toBe(true);
     }
     const commandsWritten = written.filter((f) => f.includes("commands"));
-    expect(commandsWritten.length).toBe(5);
+    expect(commandsWritten.length).toBe(7);
   });
 });
 
@@ -0,0 +1,113 @@
+/**
+ * Tests for blocker priorities and the "read this first" index
+ */
+
+import { describe, it, expect } from 'bun:test'
+import {
+  getDefaultPriority,
+  getPriority,
+  isIndexed,
+  renderPriorityIndex,
+  replacePriorityIndex,
+  PRIORITY_INDEX_START,
+  PRIORITY_INDEX_END,
+} from '../../src/utils/priority'
+import type { Blocker } from '../../src/types'
+
+const blocker = (id: string, overrides: Partial<Blocker> = {}): Blocker => ({
+  id,
+  timestamp: '2026-02-13T10:00:00Z',
+  sessionId: 'session-1',
+  category: 'question',
+  question: `Question ${id}?`,
+  context: '',
+  blocksProgress: true,
+  ...overrides,
+})
+
+describe('priority', () => {
+  describe('getDefaultPriority', () => {
+    it('should rank security and destructive blockers high', () => {
+      expect(getDefaultPriority('security')).toBe('p1')
+      expect(getDefaultPriority('destructive')).toBe('p1')
+      expect(getDefaultPriority('architecture')).toBe('p2')
+      expect(getDefaultPriority('question')).toBe('p3')
+    })
+
+    it('should prefer the blocker\'s own priority', () => {
+      expect(getPriority(blocker('a', { category: 'question', priority: 'p0' }))).toBe('p0')
+      expect(getPriority(blocker('b', { category: 'destructive' }))).toBe('p1')
+    })
+
+    it('should apply configured category priorities', () => {
+      const config = { categories: { question: { priority: 'p1' as const }, compliance: { description: 'Licensing', priority: 'p0' as const } } }
+
+      expect(getPriority(blocker('a', { category: 'question' }), config)).toBe('p1')
+      expect(getPriority(blocker('b', { category: 'compliance' }), config)).toBe('p0')
+      expect(renderPriorityIndex([blocker('c', { category: 'architecture' }), blocker('d', { category: 'compliance' })], config))
+        .toContain('- **p0** `d` (compliance) Question d?\n- **p2** `c`')
+    })
+  })
+
+  describe('renderPriorityIndex', () => {
+    it('should list unresolved p0–p2 blockers, most urgent first, oldest first within a priority', () => {
+      const index = renderPriorityIndex([
+        blocker('low', { shortId: 'B-0001' }),
+        blocker('answered', { category: 'security', clarified: 'clarified' }),
+        blocker('high', { shortId: 'B-0003', category: 'security' }),
+        blocker('critical', { shortId: 'B-0004', priority: 'p0' }),
+        blocker('high-2', { category: 'destructive' }),
+      ])
+
+      expect(index).toBe(
+        `${PRIORITY_INDEX_START}\n` +
+        '## Read this first\n\n' +
+        '- **p0** `B-0004` (question) Question critical?\n' +
+        '- **p1** `B-0003` (security) Question high?\n' +
+        '- **p1** `high-2` (destructive) Question high-2?\n' +
+        `${PRIORITY_INDEX_END}\n`
+      )
+    })
+
+    it('should keep each question on one line and truncate long ones', () => {
+      const index = renderPriorityIndex([blocker('a', { priority: 'p2', question: `Line one\n\nline two ${'x'.repeat(200)}` })])
+
+      const line = index.split('\n').find(l => l.startsWith('- '))!
+      expect(line).toStartWith('- **p2** `a` (question) Line one line two x')
+      expect(line.endsWith('…')).toBe(true)
+    })
+
+    it('should render nothing when every urgent blocker is resolved', () => {
+      expect(renderPriorityIndex([blocker('a', { category: 'security', clarified: 'skipped' }), blocker('b')])).toBe('')
+    })
+  })
+
+  describe('isIndexed', () => {
+    it('should index p0–p2 blockers only', () => {
+      expect(isIndexed(blocker('a', { priority: 'p0' }))).toBe(true)
+      expect(isIndexed(blocker('b', { category: 'architecture' }))).toBe(true)
+      expect(isIndexed(blocker('c'))).toBe(false)
+      expect(isIndexed(blocker('d'), { categories: { question: { priority: 'p1' } } })).toBe(true)
+    })
+  })
+
+  describe('replacePriorityIndex', () => {
+    const index = renderPriorityIndex([blocker('a', { priority: 'p1' })])
+
+    it('should insert the index at the top', () => {
+      expect(replacePriorityIndex('# Notes\n', index)).toBe(`${index}\n# Notes\n`)
+    })
+
+    it('should replace an existing index and leave the rest untouched', () => {
+      const content = `${renderPriorityIndex([blocker('old', { priority: 'p1' })])}\n# Notes\n\n## Blocker #a\n`
+      const updated = replacePriorityIndex(content, index)
+
+      expect(updated).toBe(`${index}\n# Notes\n\n## Blocker #a\n`)
+      expect(replacePriorityIndex(updated, index)).toBe(updated)
+    })
+
+    it('should remove the index when it is empty', () => {
+      expect(replacePriorityIndex(`${index}\n# Notes\n`, '')).toBe('# Notes\n')
+    })
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * Tests for routing blockers to markdown logs
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { matchesRoute, getBlockersFileFor, getBlockersFiles } from '../../src/utils/routing'
+import type { Blocker, BlockerRoute } from '../../src/types'
+
+const blocker = (overrides: Partial<Blocker> = {}): Blocker => ({
+  id: 'b-1',
+  timestamp: '2026-02-13T10:00:00Z',
+  sessionId: 'session-1',
+  category: 'question',
+  question: 'Which logger?',
+  context: '',
+  blocksProgress: true,
+  ...overrides,
+})
+
+const routes: BlockerRoute[] = [
+  { categories: ['security', 'destructive'], file: '/project/SECURITY-REVIEW.md' },
+  { blocksProgress: false, file: '/project/DECISIONS.md' },
+]
+const config = { blockersFile: '/project/BLOCKERS.md', routes }
+
+describe('routing', () => {
+  describe('matchesRoute', () => {
+    it('should require every condition of the route', () => {
+      const route: BlockerRoute = { categories: ['architecture'], priorities: ['p0', 'p1'], file: 'URGENT.md' }
+
+      expect(matchesRoute(blocker({ category: 'architecture', priority: 'p1' }), route)).toBe(true)
+      expect(matchesRoute(blocker({ category: 'architecture', priority: 'p2' }), route)).toBe(false)
+      expect(matchesRoute(blocker({ category: 'security', priority: 'p1' }), route)).toBe(false)
+    })
+
+    it('should match priorities against the (configured) category default when the blocker has none', () => {
+      expect(matchesRoute(blocker({ category: 'destructive' }), { priorities: ['p1'], file: 'URGENT.md' })).toBe(true)
+      expect(matchesRoute(blocker({ category: 'question' }), { priorities: ['p1'], file: 'URGENT.md' }, { categories: { question: { priority: 'p1' } } })).toBe(true)
+    })
+  })
+
+  describe('getBlockersFileFor', () => {
+    it('should pick the first matching route, else blockersFile', () => {
+      expect(getBlockersFileFor(blocker({ category: 'security' }), config)).toBe('/project/SECURITY-REVIEW.md')
+      expect(getBlockersFileFor(blocker({ category: 'security', blocksProgress: false }), config)).toBe('/project/SECURITY-REVIEW.md')
+      expect(getBlockersFileFor(blocker({ blocksProgress: false }), config)).toBe('/project/DECISIONS.md')
+      expect(getBlockersFileFor(blocker(), config)).toBe('/project/BLOCKERS.md')
+      expect(getBlockersFileFor(blocker({ category: 'security' }), { blockersFile: '/project/BLOCKERS.md' })).toBe('/project/BLOCKERS.md')
+    })
+  })
+
+  describe('getBlockersFiles', () => {
+    it('should list blockersFile first and each route file once', () => {
+      expect(getBlockersFiles({ ...config, routes: [...routes, { priorities: ['p0'], file: '/project/DECISIONS.md' }] })).toEqual([
+        '/project/BLOCKERS.md',
+        '/project/SECURITY-REVIEW.md',
+        '/project/DECISIONS.md',
+      ])
+    })
+  })
+})
@@ -0,0 +1,177 @@
+/**
+ * Tests for run-log.ts - Per-run header and footer sections in BLOCKERS.md
+ *
+ * Uses real temp files (same approach as blockers-file tests).
+ * Covers: section rendering, run start/finish lifecycle, parser compatibility.
+ *
+ * @module tests/utils/run-log
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test'
+import { resolve, join } from 'node:path'
+import { rm, mkdir, readFile } from 'node:fs/promises'
+import { formatRunHeader, formatRunFooter, startRun, finishRun } from '../../src/utils/run-log'
+import { appendBlocker, readBlockers, clearTemplateCache } from '../../src/utils/blockers-file'
+import { getState, cleanupState, configureStatePersistence, flushStateSnapshots, STATE_DIR } from '../../src/state'
+import type { Blocker, PluginConfig } from '../../src/types'
+
+describe('run-log', () => {
+  const tempDir = resolve('/tmp/blocker-diverter-run-log-test')
+  const blockersFile = 'BLOCKERS.md'
+  const sessionId = 'test-session-run-log'
+
+  const config = {
+    enabled: true,
+    defaultDivertBlockers: false,
+    blockersFile,
+    maxBlockersPerRun: 50,
+    cooldownMs: 5000,
+    maxReprompts: 5,
+    repromptWindowMs: 300000,
+    completionMarker: 'BLOCKER_DIVERTER_DONE!',
+    promptTimeoutMs: 30000,
+  } satisfies PluginConfig
+
+  const sampleBlocker: Blocker = {
+    id: '1771161981594-session-123-abc123',
+    timestamp: '2026-02-13T10:00:00Z',
+    sessionId,
+    category: 'architecture',
+    question: 'RS256 or HS256?',
+    context: 'Setting up JWT validation',
+    blocksProgress: true,
+  }
+
+  beforeEach(async () => {
+    await mkdir(tempDir, { recursive: true })
+    clearTemplateCache()
+    cleanupState(sessionId)
+  })
+
+  afterEach(async () => {
+    cleanupState(sessionId)
+    try {
+      await rm(tempDir, { recursive: true, force: true })
+    } catch {
+      // Ignore cleanup errors
+    }
+  })
+
+  describe('formatRunHeader', () => {
+    it('should render start time, session, title and branch', () => {
+      const header = formatRunHeader({
+        startedAt: '2026-02-13T22:00:00.000Z',
+        sessionId: 'ses_abc',
+        sessionTitle: 'Implement auth',
+        branch: 'feature/auth',
+      })
+
+      expect(header).toContain('# Run started 2026-02-13T22:00:00.000Z')
+      expect(header).toContain('**Session:** ses_abc')
+      expect(header).toContain('**Title:** Implement auth')
+      expect(header).toContain('**Branch:** feature/auth')
+    })
+
+    it('should omit missing title and mark unknown branch', () => {
+      const header = formatRunHeader({ startedAt: 'now', sessionId: 'ses_abc' })
+
+      expect(header).not.toContain('**Title:**')
+      expect(header).toContain('**Branch:** unknown')
+    })
+  })
+
+  describe('formatRunFooter', () => {
+    it('should render end time, outcome and counts', () => {
+      const footer = formatRunFooter({
+        endedAt: '2026-02-14T06:00:00.000Z',
+        outcome: 'max-reprompts',
+        blockerCount: 7,
+        blockingCount: 3,
+      })
+
+      expect(footer).toContain('## Run finished 2026-02-14T06:00:00.000Z')
+      expect(footer).toContain('**Outcome:** max-reprompts')
+      expect(footer).toContain('**Blockers logged:** 7 (3 blocking progress)')
+    })
+  })
+
+  describe('startRun / finishRun', () => {
+    it('should write header and footer around the run blockers', async () => {
+      const state = getState(sessionId)
+      state.blockers.push({ ...sampleBlocker, id: 'before-run' })
+      const client = {
+        app: { log: mock(async () => {}) },
+        session: { get: mock(async () => ({ data: { title: 'Nightly refactor' } })) },
+      }
+
+      await startRun(state, sessionId, config, tempDir, client)
+      expect(state.run?.sessionId).toBe(sessionId)
+
+      await appendBlocker(blockersFile, sampleBlocker, tempDir)
+      state.blockers.push(sampleBlocker, { ...sampleBlocker, id: 'second', blocksProgress: false })
+
+      await finishRun(state, 'completed', config, tempDir, client)
+
+      expect(state.run).toBeNull()
+      const content = await readFile(join(tempDir, blockersFile), 'utf-8')
+      expect(content).toMatch(/^\n# Run started /)
+      expect(content).toContain('**Title:** Nightly refactor')
+      expect(content.indexOf('# Run started')).toBeLessThan(content.indexOf('## Blocker #'))
+      expect(content.indexOf('## Blocker #')).toBeLessThan(content.indexOf('## Run finished'))
+      expect(content).toContain('**Outcome:** completed')
+      expect(content).toContain('**Blockers logged:** 2 (1 blocking progress)')
+    })
+
+    it('should not write a second header while a run is active', async () => {
+      const state = getState(sessionId)
+
+      await startRun(state, sessionId, config, tempDir)
+      await startRun(state, sessionId, config, tempDir)
+
+      const content = await readFile(join(tempDir, blockersFile), 'utf-8')
+      expect(content.match(/# Run started/g)).toHaveLength(1)
+    })
+
+    it('should do nothing when finishing without an active run', async () => {
+      const state = getState(sessionId)
+
+      await finishRun(state, 'stopped', config, tempDir)
+
+      expect(await Bun.file(join(tempDir, blockersFile)).exists()).toBe(false)
+    })
+
+    it('should save the run start and end to the session snapshot', async () => {
+      const snapshot = join(tempDir, STATE_DIR, `${Buffer.from(sessionId).toString('base64url')}.json`)
+      configureStatePersistence(tempDir)
+      try {
+        const state = getState(sessionId)
+
+        await startRun(state, sessionId, config, tempDir)
+        flushStateSnapshots()
+        expect(JSON.parse(await readFile(snapshot, 'utf-8')).run.sessionId).toBe(sessionId)
+
+        await finishRun(state, 'stopped', config, tempDir)
+        flushStateSnapshots()
+        expect(JSON.parse(await readFile(snapshot, 'utf-8')).run).toBeNull()
+      } finally {
+        cleanupState(sessionId)
+        configureStatePersistence(null)
+      }
+    })
+
+    it('should keep entries parseable between run sections', async () => {
+      const state = getState(sessionId)
+      await startRun(state, sessionId, config, tempDir)
+      await appendBlocker(blockersFile, sampleBlocker, tempDir)
+      await finishRun(state, 'stopped', config, tempDir)
+
+      const [blocker] = await readBlockers(blockersFile, tempDir)
+
+      expect(blocker).toMatchObject({
+        id: sampleBlocker.id,
+        sessionId,
+        question: sampleBlocker.question,
+      })
+    })
+  })
+})
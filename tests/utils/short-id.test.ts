@@ -0,0 +1,123 @@
+/**
+ * Tests for short-id.ts - Short sequential blocker IDs
+ *
+ * Uses a real temp project for the counter file.
+ * Covers: formatting, input normalization, lookup by either ID,
+ * persistent and concurrent allocation, counter recovery.
+ *
+ * @module tests/utils/short-id
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { resolve, join } from 'node:path'
+import { rm, mkdir, writeFile } from 'node:fs/promises'
+import {
+  allocateShortId,
+  findBlocker,
+  formatShortId,
+  normalizeShortId,
+  SHORT_ID_COUNTER_FILE,
+} from '../../src/utils/short-id'
+import type { Blocker } from '../../src/types'
+
+describe('short-id', () => {
+  const tempDir = resolve('/tmp/blocker-diverter-short-id-test')
+
+  const blocker: Blocker = {
+    id: '1771161981594-session-123-abc123',
+    shortId: 'B-0142',
+    timestamp: '2026-02-13T10:00:00Z',
+    sessionId: 'session-123',
+    category: 'security',
+    question: 'Rotate the leaked API key?',
+    context: '',
+    blocksProgress: true,
+  }
+
+  beforeEach(async () => {
+    await mkdir(tempDir, { recursive: true })
+  })
+
+  afterEach(async () => {
+    try {
+      await rm(tempDir, { recursive: true, force: true })
+    } catch {
+      // Ignore cleanup errors
+    }
+  })
+
+  describe('formatShortId', () => {
+    it('should zero-pad to four digits and grow beyond', () => {
+      expect(formatShortId(7)).toBe('B-0007')
+      expect(formatShortId(142)).toBe('B-0142')
+      expect(formatShortId(12345)).toBe('B-12345')
+    })
+  })
+
+  describe('normalizeShortId', () => {
+    it('should accept common spellings', () => {
+      for (const ref of ['B-0142', 'b-142', 'B0142', '#B-0142', ' b-0142 ']) {
+        expect(normalizeShortId(ref)).toBe('B-0142')
+      }
+    })
+
+    it('should reject anything else', () => {
+      expect(normalizeShortId('142')).toBeNull()
+      expect(normalizeShortId('B-')).toBeNull()
+      expect(normalizeShortId(blocker.id)).toBeNull()
+    })
+  })
+
+  describe('findBlocker', () => {
+    const other: Blocker = { ...blocker, id: 'other', shortId: 'B-0001' }
+
+    it('should find a blocker by long or short ID', () => {
+      expect(findBlocker([other, blocker], blocker.id)).toBe(blocker)
+      expect(findBlocker([other, blocker], 'b-142')).toBe(blocker)
+      expect(findBlocker([other, blocker], 'B-0002')).toBeUndefined()
+    })
+  })
+
+  describe('allocateShortId', () => {
+    it('should allocate sequential IDs persisted in the counter file', async () => {
+      expect(await allocateShortId(tempDir)).toBe('B-0001')
+      expect(await allocateShortId(tempDir)).toBe('B-0002')
+
+      expect(JSON.parse(await Bun.file(join(tempDir, SHORT_ID_COUNTER_FILE)).text())).toEqual({ last: 2 })
+    })
+
+    it('should continue from the persisted counter', async () => {
+      await mkdir(join(tempDir, '.opencode/blocker-diverter'), { recursive: true })
+      await writeFile(join(tempDir, SHORT_ID_COUNTER_FILE), '{"last": 141}\n', 'utf-8')
+
+      expect(await allocateShortId(tempDir)).toBe('B-0142')
+    })
+
+    it('should never hand out the same ID twice in parallel', async () => {
+      const ids = await Promise.all(Array.from({ length: 10 }, () => allocateShortId(tempDir)))
+
+      expect(new Set(ids).size).toBe(10)
+    })
+
+    it('should rebuild a corrupt counter from the highest known ID, with a warning', async () => {
+      await mkdir(join(tempDir, '.opencode/blocker-diverter'), { recursive: true })
+      await writeFile(join(tempDir, SHORT_ID_COUNTER_FILE), 'not json', 'utf-8')
+      const warnings: string[] = []
+      const logClient = {
+        app: { log: async (entry: { body: { level: string; message: string } }) => {
+          if (entry.body.level === 'warn') warnings.push(entry.body.message)
+        } },
+      }
+
+      const known = async () => [blocker, { ...blocker, shortId: 'B-0007' }, { ...blocker, shortId: undefined }]
+      expect(await allocateShortId(tempDir, logClient as any, known)).toBe('B-0143')
+      expect(await allocateShortId(tempDir, logClient as any, known)).toBe('B-0144')
+      expect(warnings).toHaveLength(1)
+      expect(warnings[0]).toContain('corrupt')
+    })
+
+    it('should continue after the highest known ID when the counter is missing', async () => {
+      expect(await allocateShortId(tempDir, undefined, async () => [blocker])).toBe('B-0143')
+    })
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * Tests for near-duplicate question detection
+ *
+ * Uses a fixture corpus of paraphrased blocker questions: every question
+ * must match its paraphrases and nothing else at the default threshold.
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { tokenize, scoreQuestions, findSimilarBlockers } from '../../src/utils/similarity'
+import { ConfigSchema } from '../../src/config'
+import type { Blocker } from '../../src/types'
+import corpus from '../fixtures/paraphrased-questions.json'
+
+const threshold = ConfigSchema.parse({}).similarityThreshold
+
+const blocker = (id: string, question: string): Blocker => ({
+  id,
+  timestamp: '2026-02-13T10:00:00Z',
+  sessionId: 'session-1',
+  category: 'question',
+  question,
+  context: '',
+  blocksProgress: true,
+})
+
+// Every fixture question as a blocker; the ID names its paraphrase group
+const logged = [
+  ...corpus.paraphrases.flatMap((group, g) => group.map((question, i) => blocker(`p${g}-${i}`, question))),
+  ...corpus.distinct.map((question, i) => blocker(`d${i}`, question)),
+]
+const groupOf = (b: Blocker) => b.id.split('-')[0]
+
+describe('tokenize', () => {
+  it('should drop stop words and fold inflections', () => {
+    expect(tokenize('Should I drop the legacy tables?')).toEqual(['drop', 'legacy', 'tabl'])
+    expect(tokenize('storing')).toEqual(tokenize('storage'))
+    expect(tokenize('dropped')).toEqual(tokenize('drop'))
+  })
+
+  it('should keep negations', () => {
+    expect(tokenize('Should we not drop the table?')).toEqual(['not', 'drop', 'tabl'])
+    expect(tokenize('No migration needed?')).toContain('no')
+  })
+
+  it('should keep identifiers as written', () => {
+    expect(tokenize('Drop legacy_orders in v2?')).toEqual(['drop', 'legacy_orders', 'v2'])
+  })
+})
+
+describe('scoreQuestions', () => {
+  it('should score identical questions 1 and unrelated ones 0', () => {
+    const [same, unrelated] = scoreQuestions('Zod or Yup?', [blocker('a', 'Yup or Zod?'), blocker('b', 'Tabs or spaces?')])
+
+    expect(same.score).toBeCloseTo(1)
+    expect(unrelated.score).toBe(0)
+  })
+
+  it('should score questions made only of stop words 0', () => {
+    expect(scoreQuestions('Should I?', [blocker('a', 'Should I?')])[0].score).toBe(0)
+  })
+})
+
+describe('findSimilarBlockers (paraphrase corpus)', () => {
+  for (const b of logged) {
+    const others = logged.filter(other => other.id !== b.id)
+    const expected = others.filter(other => groupOf(other) === groupOf(b) && groupOf(b).startsWith('p'))
+
+    it(`should match only the paraphrases of "${b.question}"`, () => {
+      const matches = findSimilarBlockers(b.question, others, threshold)
+
+      expect(matches.map(match => match.blocker.id).sort()).toEqual(expected.map(other => other.id).sort())
+    })
+  }
+
+  it('should return matches best first', () => {
+    const matches = findSimilarBlockers('Zod or Yup for validation?', logged, 0)
+    const scores = matches.map(match => match.score)
+
+    expect(scores).toEqual([...scores].sort((a, b) => b - a))
+    expect(groupOf(matches[0].blocker)).toBe('p0')
+  })
+})
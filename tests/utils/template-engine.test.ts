@@ -0,0 +1,153 @@
+/**
+ * Tests for template-engine.ts - BLOCKERS.template.md rendering
+ *
+ * Covers: variables, escaping, conditionals, loops, helpers,
+ * standalone tag stripping, compile errors.
+ *
+ * @module tests/utils/template-engine
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { compileTemplate, SafeString, TemplateError, isTemplateHelper } from '../../src/utils/template-engine'
+
+function render(template: string, context: unknown, options = {}): string {
+  return compileTemplate(template)(context, options)
+}
+
+describe('template-engine', () => {
+  describe('variables', () => {
+    it('should render paths and nested properties', () => {
+      expect(render('{{a}} {{b.c}} {{list.length}}', { a: 'x', b: { c: 'y' }, list: [1, 2] })).toBe('x y 2')
+    })
+
+    it('should render missing values as empty strings', () => {
+      expect(render('[{{missing}}][{{a.b.c}}]', {})).toBe('[][]')
+    })
+
+    it('should escape {{}} output but not {{{}}} or SafeString', () => {
+      const escape = (text: string) => text.toUpperCase()
+      const context = { text: 'abc', safe: new SafeString('def') }
+
+      expect(render('{{text}} {{{text}}} {{safe}}', context, { escape })).toBe('ABC abc def')
+    })
+
+    it('should stringify non-string values with the given function', () => {
+      const stringify = (value: unknown) => (typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value))
+
+      expect(render('{{yes}}/{{no}}/{{n}}', { yes: true, no: false, n: 3 }, { stringify })).toBe('Yes/No/3')
+    })
+
+    it('should not resolve prototype properties', () => {
+      expect(render('{{constructor}}{{a.__proto__}}', { a: {} })).toBe('')
+    })
+
+    it('should drop comments', () => {
+      expect(render('a{{! note }}b', {})).toBe('ab')
+    })
+  })
+
+  describe('conditionals', () => {
+    it('should render if/else branches', () => {
+      const template = '{{#if ok}}yes{{else}}no{{/if}}'
+
+      expect(render(template, { ok: 'x' })).toBe('yes')
+      expect(render(template, { ok: '' })).toBe('no')
+    })
+
+    it('should treat empty arrays as falsy', () => {
+      expect(render('{{#if list}}some{{else}}none{{/if}}', { list: [] })).toBe('none')
+    })
+
+    it('should render unless blocks', () => {
+      expect(render('{{#unless done}}todo{{/unless}}', { done: false })).toBe('todo')
+    })
+
+    it('should evaluate subexpressions', () => {
+      const template = '{{#if (and (eq category "security") (not resolved))}}alert{{/if}}'
+
+      expect(render(template, { category: 'security', resolved: false })).toBe('alert')
+      expect(render(template, { category: 'security', resolved: true })).toBe('')
+    })
+  })
+
+  describe('loops', () => {
+    it('should iterate arrays with @index, @first and @last', () => {
+      const template = '{{#each items}}{{#if @first}}[{{/if}}{{@index}}:{{this}}{{#if @last}}]{{else}},{{/if}}{{/each}}'
+
+      expect(render(template, { items: ['a', 'b', 'c'] })).toBe('[0:a,1:b,2:c]')
+    })
+
+    it('should render the else branch for empty lists', () => {
+      expect(render('{{#each items}}{{this}}{{else}}empty{{/each}}', { items: [] })).toBe('empty')
+    })
+
+    it('should iterate object entries with @key', () => {
+      expect(render('{{#each map}}{{@key}}={{this}};{{/each}}', { map: { a: 1, b: 2 } })).toBe('a=1;b=2;')
+    })
+
+    it('should resolve parent context with ../', () => {
+      expect(render('{{#each items}}{{../prefix}}{{name}} {{/each}}', { prefix: '-', items: [{ name: 'x' }] })).toBe('-x ')
+    })
+  })
+
+  describe('helpers', () => {
+    it('should format dates in UTC', () => {
+      expect(render('{{date ts}}', { ts: '2026-02-13T22:05:09Z' })).toBe('2026-02-13 22:05')
+      expect(render('{{date ts "DD/MM/YYYY HH:mm:ss"}}', { ts: '2026-02-13T22:05:09Z' })).toBe('13/02/2026 22:05:09')
+    })
+
+    it('should leave invalid dates unchanged', () => {
+      expect(render('{{date ts}}', { ts: 'yesterday' })).toBe('yesterday')
+    })
+
+    it('should truncate long text with a suffix', () => {
+      expect(render('{{truncate q 8}}', { q: 'short' })).toBe('short')
+      expect(render('{{truncate q 8}}', { q: 'a much longer question' })).toBe('a much…')
+      expect(render('{{truncate q 9 "..."}}', { q: 'a much longer question' })).toBe('a much...')
+    })
+
+    it('should provide default, add, join, upper and lower', () => {
+      const context = { empty: '', n: 1, list: ['a', 'b'], word: 'Mixed' }
+
+      expect(render('{{default empty "n/a"}} {{add n 1}} {{join list " | "}} {{upper word}} {{lower word}}', context))
+        .toBe('n/a 2 a | b MIXED mixed')
+    })
+
+    it('should escape helper output', () => {
+      expect(render('{{upper text}}', { text: 'x' }, { escape: (t: string) => `<${t}>` })).toBe('<X>')
+    })
+
+    it('should report helper names', () => {
+      expect(isTemplateHelper('truncate')).toBe(true)
+      expect(isTemplateHelper('question')).toBe(false)
+    })
+  })
+
+  describe('whitespace', () => {
+    it('should remove lines holding only block tags', () => {
+      const template = '# Title\n{{#if items}}\n## Items\n{{#each items}}\n- {{this}}\n{{/each}}\n{{/if}}\nEnd\n'
+
+      expect(render(template, { items: ['a', 'b'] })).toBe('# Title\n## Items\n- a\n- b\nEnd\n')
+      expect(render(template, { items: [] })).toBe('# Title\nEnd\n')
+    })
+
+    it('should keep inline block tags on their line', () => {
+      expect(render('a {{#if x}}b{{/if}}\nc', { x: true })).toBe('a b\nc')
+    })
+  })
+
+  describe('errors', () => {
+    it('should reject unclosed blocks', () => {
+      expect(() => compileTemplate('{{#if a}}x')).toThrow(TemplateError)
+    })
+
+    it('should reject mismatched closing tags', () => {
+      expect(() => compileTemplate('{{#if a}}x{{/each}}')).toThrow('closes')
+    })
+
+    it('should reject unknown helpers and blocks', () => {
+      expect(() => compileTemplate('{{shout a}}')).toThrow('Unknown helper')
+      expect(() => compileTemplate('{{#with a}}{{/with}}')).toThrow('Unknown block')
+    })
+  })
+})
@@ -237,6 +237,15 @@ describe('templates utility', () => {
       expect(result).toContain('"other"')
     })
     
+    it('should derive the category enum from config', () => {
+      const result = getBlockerToolDefinition({ categories: { compliance: { description: 'Licensing questions' } } })
+      const schema = JSON.parse(result.match(/<json_schema>\s*(\{[\s\S]*\})\s*<\/json_schema>/)![1])
+
+      expect(schema.properties.category.enum).toContain('permission')
+      expect(schema.properties.category.enum).toContain('compliance')
+      expect(schema.properties.category.description).toContain('compliance (hard, p3): Licensing questions')
+    })
+
     it('should be valid JSON schema inside', () => {
       const result = getBlockerToolDefinition()
       